@@ -1,9 +1,11 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   experimental: {
-    serverComponentsExternalPackages: ['bcryptjs'],
+    instrumentationHook: true,
+    serverComponentsExternalPackages: ['bcryptjs', 'node-cron'],
     serverActions: {
-      bodySizeLimit: '1mb',
+      // Receipt uploads: up to 5 files of 5 MB each
+      bodySizeLimit: '26mb',
     },
   },
   images: {
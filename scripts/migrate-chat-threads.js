@@ -0,0 +1,57 @@
+#!/usr/bin/env node
+
+/**
+ * Chat Thread Migration Script
+ *
+ * Chat messages from before conversation threads belong to no thread and don't show up
+ * in the assistant. This moves each user's messages into an "Earlier conversation"
+ * thread, dated by their latest message.
+ *
+ * Safe to run more than once. Run it after `npm run db:push` has created the
+ * chat_threads table.
+ */
+
+const { PrismaClient } = require('@prisma/client')
+
+const prisma = new PrismaClient()
+
+async function main() {
+  console.log('💬 Moving chat messages into conversation threads...\n')
+
+  const users = await prisma.chatMessage.groupBy({
+    by: ['userId'],
+    where: { threadId: null },
+    _count: { _all: true },
+    _max: { createdAt: true },
+  })
+
+  if (users.length === 0) {
+    console.log('   ✓ Every message already belongs to a thread')
+  }
+
+  for (const user of users) {
+    await prisma.$transaction(async (tx) => {
+      const thread = await tx.chatThread.create({
+        data: {
+          userId: user.userId,
+          title: 'Earlier conversation',
+          updatedAt: user._max.createdAt || new Date(),
+        },
+      })
+      await tx.chatMessage.updateMany({
+        where: { userId: user.userId, threadId: null },
+        data: { threadId: thread.id },
+      })
+    })
+    console.log(`   ✅ ${user.userId}: ${user._count._all} message(s) moved`)
+  }
+
+  console.log('\n✅ Chat thread migration complete')
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Chat thread migration failed:', error)
+    process.exitCode = 1
+  })
+  .finally(() => prisma.$disconnect())
@@ -0,0 +1,88 @@
+#!/usr/bin/env node
+
+/**
+ * Money Column Migration Script
+ *
+ * Moves existing databases from floating-point amounts to exact decimals:
+ * 1. Changes every money column to DECIMAL(19,4) (matches prisma/schema.prisma)
+ * 2. Rounds stored amounts to their book currency's precision
+ *    (JPY to whole yen, KWD/BHD/OMR to three decimals, most others to cents)
+ *
+ * Safe to run more than once. Run it before `npm run db:push` so Prisma doesn't
+ * have to alter the columns itself.
+ */
+
+const { PrismaClient } = require('@prisma/client')
+
+const prisma = new PrismaClient()
+
+// [table, column, SQL joining the row to the book whose currency applies]
+const MONEY_COLUMNS = [
+  ['expenses', 'amount', 'JOIN categories c ON c.id = t.categoryId JOIN books b ON b.id = c.bookId'],
+  ['recurring_expenses', 'amount', 'JOIN categories c ON c.id = t.categoryId JOIN books b ON b.id = c.bookId'],
+  ['budgets', 'amount', 'JOIN books b ON b.id = t.bookId'],
+  ['incomes', 'amount', 'JOIN books b ON b.id = t.bookId'],
+  ['transfers', 'amount', 'JOIN books b ON b.id = t.fromBookId'],
+  ['transfers', 'toAmount', 'JOIN books b ON b.id = t.toBookId'],
+]
+
+// Same rule as getCurrencyDecimals in src/lib/money.ts
+function getCurrencyDecimals(currency) {
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency: currency.toUpperCase() }).resolvedOptions().maximumFractionDigits
+  } catch (error) {
+    return 2
+  }
+}
+
+async function getColumnType(table, column) {
+  const rows = await prisma.$queryRawUnsafe(
+    'SELECT DATA_TYPE AS dataType, NUMERIC_SCALE AS scale FROM information_schema.COLUMNS WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = ? AND COLUMN_NAME = ?',
+    table,
+    column
+  )
+  return rows[0] || null
+}
+
+async function main() {
+  console.log('💰 Migrating money columns to DECIMAL(19,4)...\n')
+
+  for (const [table, column] of MONEY_COLUMNS) {
+    const type = await getColumnType(table, column)
+    if (!type) {
+      console.log(`   ⚠️  ${table}.${column} not found, skipping (run npm run db:push for new databases)`)
+      continue
+    }
+    if (type.dataType === 'decimal' && Number(type.scale) === 4) {
+      console.log(`   ✓ ${table}.${column} is already DECIMAL(19,4)`)
+      continue
+    }
+    await prisma.$executeRawUnsafe(`ALTER TABLE \`${table}\` MODIFY \`${column}\` DECIMAL(19,4) NOT NULL`)
+    console.log(`   ✅ ${table}.${column}: ${type.dataType} → DECIMAL(19,4)`)
+  }
+
+  console.log('\n🔢 Rounding amounts to each book currency...\n')
+
+  const books = await prisma.$queryRawUnsafe('SELECT DISTINCT currency FROM books')
+  for (const { currency } of books) {
+    const decimals = getCurrencyDecimals(currency)
+    let changed = 0
+    for (const [table, column, join] of MONEY_COLUMNS) {
+      // ROUND on a DECIMAL rounds half away from zero, like roundMoney
+      changed += await prisma.$executeRawUnsafe(
+        `UPDATE \`${table}\` t ${join} SET t.\`${column}\` = ROUND(t.\`${column}\`, ${decimals}) WHERE b.currency = ? AND t.\`${column}\` <> ROUND(t.\`${column}\`, ${decimals})`,
+        currency
+      )
+    }
+    console.log(`   ${currency} (${decimals} decimals): ${changed} amount(s) rounded`)
+  }
+
+  console.log('\n✅ Money migration complete')
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Money migration failed:', error)
+    process.exitCode = 1
+  })
+  .finally(() => prisma.$disconnect())
@@ -0,0 +1,169 @@
+"use server"
+
+import { getAuthSessionEdge } from "@/lib/auth"
+import { getPrismaClient } from "@/lib/prisma"
+import { applyAssistantChange, type ProposedChange } from "@/lib/ai/tools"
+import { toChangeSetView } from "@/lib/ai/change-sets"
+import { runWithAuditSource } from "@/lib/audit-source"
+import { revertAuditEntry } from "@/actions/audit-actions"
+
+/**
+ * Revert the audit entries a change set wrote, newest first. Changes inside a book the
+ * set created are left alone, since archiving the book takes them back with it. Entries
+ * already reverted are skipped, so a partial undo can be retried.
+ */
+async function revertChangeSet(changeSetId: string): Promise<{ error: string } | { success: true }> {
+  const prisma = getPrismaClient()
+
+  const entries = await prisma.auditLog.findMany({
+    where: { changeSetId },
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    include: { _count: { select: { revertedBy: true } } },
+  })
+
+  const createdBookIds = new Set(
+    entries.filter((entry) => entry.entityType === "book" && entry.action === "create").map((entry) => entry.entityId)
+  )
+
+  return runWithAuditSource("ai", async () => {
+    for (const entry of entries) {
+      if (entry._count.revertedBy > 0) continue
+      if (entry.entityType !== "book" && createdBookIds.has(entry.bookId)) continue
+
+      const result = await revertAuditEntry(entry.id)
+      if (result.error) {
+        return { error: `${entry.entityLabel || entry.entityType}: ${result.error}` }
+      }
+    }
+
+    return { success: true as const }
+  })
+}
+
+/**
+ * Run the changes of a proposed set, in order. If one fails, the ones before it are
+ * reverted so the set is applied completely or not at all.
+ */
+export async function applyAiChangeSet(id: string) {
+  const session = await getAuthSessionEdge()
+  if (!session?.user?.id) {
+    return { error: "Unauthorized - Please log in first" }
+  }
+
+  const prisma = getPrismaClient()
+
+  try {
+    const changeSet = await prisma.aiChangeSet.findFirst({
+      where: { id, userId: session.user.id },
+    })
+
+    if (!changeSet) {
+      return { error: "Changes not found" }
+    }
+
+    // Claimed before running, so applying twice at once can't write the changes twice
+    const claimed = await prisma.aiChangeSet.updateMany({
+      where: { id, status: "pending" },
+      data: { status: "applied", appliedAt: new Date() },
+    })
+
+    if (claimed.count === 0) {
+      return { error: "These changes have already been applied or discarded" }
+    }
+
+    const changes = changeSet.changes as unknown as ProposedChange[]
+
+    for (const change of changes) {
+      const result = await applyAssistantChange(change, id)
+      if (!("error" in result)) continue
+
+      const error = `${change.summary}: ${result.error}`
+      const reverted = await revertChangeSet(id)
+
+      // Left as applied when the earlier changes couldn't be taken back, so they can be undone later
+      const updated = await prisma.aiChangeSet.update({
+        where: { id },
+        data:
+          "error" in reverted
+            ? { error: `${error}. The changes before it could not be taken back (${reverted.error}).` }
+            : { status: "failed", error },
+      })
+
+      return { error, changeSet: toChangeSetView(updated) }
+    }
+
+    const updated = await prisma.aiChangeSet.findUniqueOrThrow({ where: { id } })
+    return { success: true, changeSet: toChangeSetView(updated) }
+  } catch (error) {
+    console.error("AI change set apply error:", error)
+    return { error: "Failed to apply changes" }
+  }
+}
+
+export async function discardAiChangeSet(id: string) {
+  const session = await getAuthSessionEdge()
+  if (!session?.user?.id) {
+    return { error: "Unauthorized - Please log in first" }
+  }
+
+  const prisma = getPrismaClient()
+
+  try {
+    const discarded = await prisma.aiChangeSet.updateMany({
+      where: { id, userId: session.user.id, status: "pending" },
+      data: { status: "discarded" },
+    })
+
+    if (discarded.count === 0) {
+      return { error: "Only changes that haven't been applied can be discarded" }
+    }
+
+    const updated = await prisma.aiChangeSet.findUniqueOrThrow({ where: { id } })
+    return { success: true, changeSet: toChangeSetView(updated) }
+  } catch (error) {
+    console.error("AI change set discard error:", error)
+    return { error: "Failed to discard changes" }
+  }
+}
+
+/**
+ * Undo every change of an applied set through the audit log, the same way reverting
+ * them one by one in the history would.
+ */
+export async function undoAiChangeSet(id: string) {
+  const session = await getAuthSessionEdge()
+  if (!session?.user?.id) {
+    return { error: "Unauthorized - Please log in first" }
+  }
+
+  const prisma = getPrismaClient()
+
+  try {
+    const changeSet = await prisma.aiChangeSet.findFirst({
+      where: { id, userId: session.user.id },
+    })
+
+    if (!changeSet) {
+      return { error: "Changes not found" }
+    }
+
+    if (changeSet.status !== "applied") {
+      return { error: "Only applied changes can be undone" }
+    }
+
+    const reverted = await revertChangeSet(id)
+    if ("error" in reverted) {
+      return { error: `Some changes couldn't be undone - ${reverted.error}` }
+    }
+
+    const updated = await prisma.aiChangeSet.update({
+      where: { id },
+      data: { status: "undone", undoneAt: new Date() },
+    })
+
+    return { success: true, changeSet: toChangeSetView(updated) }
+  } catch (error) {
+    console.error("AI change set undo error:", error)
+    return { error: "Failed to undo changes" }
+  }
+}
@@ -0,0 +1,60 @@
+"use server"
+
+import { getAuthSessionEdge } from "@/lib/auth"
+import { getPrismaClient } from "@/lib/prisma"
+import { canAccessBook } from "@/lib/book-access"
+import { removeStoredFiles } from "@/lib/receipt-storage"
+import { revalidatePath } from "next/cache"
+
+export async function deleteAttachment(id: string) {
+  const session = await getAuthSessionEdge()
+  if (!session?.user?.id) {
+    return { error: "Unauthorized - Please log in first" }
+  }
+
+  const prisma = getPrismaClient()
+
+  const attachment = await prisma.attachment.findUnique({
+    where: { id },
+    include: {
+      expense: {
+        include: {
+          category: {
+            include: {
+              book: true,
+            },
+          },
+        },
+      },
+    },
+  })
+
+  if (!attachment) {
+    return { error: "Attachment not found" }
+  }
+
+  const book = attachment.expense.category.book
+  if (!book || !(await canAccessBook(session.user.id, book, "edit"))) {
+    return { error: "Access denied" }
+  }
+
+  if (book.isArchived) {
+    return { error: "Cannot remove receipts from archived books" }
+  }
+
+  try {
+    await prisma.attachment.delete({
+      where: { id },
+    })
+
+    await removeStoredFiles([attachment.storageKey])
+
+    revalidatePath("/expenses")
+    revalidatePath(`/expenses/edit/${attachment.expenseId}`)
+    revalidatePath(`/books/${book.id}`)
+    return { success: true }
+  } catch (error) {
+    console.error("Attachment delete error:", error)
+    return { error: "Failed to remove receipt" }
+  }
+}
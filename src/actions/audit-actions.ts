@@ -0,0 +1,279 @@
+"use server"
+
+import type { Prisma } from "@prisma/client"
+import { getAuthSessionEdge } from "@/lib/auth"
+import { getPrismaClient } from "@/lib/prisma"
+import { bookAccessWhere, canAccessBook, getBookRole } from "@/lib/book-access"
+import {
+  AUDIT_DATE_FIELDS,
+  AUDIT_FIELD_LABELS,
+  findAuditRecords,
+  isAuditEntity,
+  recordAudit,
+  toAuditValue,
+  type AuditChanges,
+} from "@/lib/audit"
+import { getAuditContext } from "@/lib/audit-source"
+import { getSplitUpdate } from "@/lib/split-updates"
+import { disableSubcategories, getCategoryParentError } from "@/lib/category-tree"
+import { revalidatePath } from "next/cache"
+
+// How many entries the book history shows
+const BOOK_HISTORY_LIMIT = 200
+
+// Entries matching `where`, newest first, with the names of categories they mention
+async function getHistory(where: Prisma.AuditLogWhereInput, take?: number) {
+  const prisma = getPrismaClient()
+
+  const entries = await prisma.auditLog.findMany({
+    where,
+    include: {
+      actor: { select: { name: true, email: true } },
+      _count: { select: { revertedBy: true } },
+    },
+    orderBy: { createdAt: "desc" },
+    take,
+  })
+
+  const categoryIds = new Set<string>()
+  entries.forEach((entry) => {
+    const changes = entry.changes as AuditChanges
+    for (const value of [changes.categoryId?.from, changes.categoryId?.to, changes.parentId?.from, changes.parentId?.to]) {
+      if (typeof value === "string") categoryIds.add(value)
+    }
+  })
+
+  const categories = await prisma.category.findMany({
+    where: { id: { in: Array.from(categoryIds) } },
+    select: { id: true, name: true },
+  })
+
+  return {
+    entries: entries.map(({ _count, changes, ...entry }) => ({
+      ...entry,
+      changes: changes as AuditChanges,
+      isReverted: _count.revertedBy > 0,
+    })),
+    categoryNames: Object.fromEntries(categories.map((category) => [category.id, category.name])),
+  }
+}
+
+export async function getExpenseHistory(expenseId: string) {
+  const session = await getAuthSessionEdge()
+  if (!session?.user?.id) {
+    return { error: "Unauthorized - Please log in first" }
+  }
+
+  try {
+    const { entries, categoryNames } = await getHistory({
+      entityType: "expense",
+      entityId: expenseId,
+      book: bookAccessWhere(session.user.id),
+    })
+
+    return { entries, categoryNames }
+  } catch (error) {
+    console.error("Expense history fetch error:", error)
+    return { error: "Failed to fetch expense history" }
+  }
+}
+
+export async function getBookHistory(bookId: string) {
+  const session = await getAuthSessionEdge()
+  if (!session?.user?.id) {
+    return { error: "Unauthorized - Please log in first" }
+  }
+
+  const prisma = getPrismaClient()
+
+  try {
+    const book = await prisma.book.findFirst({
+      where: { id: bookId, ...bookAccessWhere(session.user.id) },
+    })
+
+    if (!book) {
+      return { error: "Book not found or access denied" }
+    }
+
+    const { entries, categoryNames } = await getHistory({ bookId }, BOOK_HISTORY_LIMIT)
+    const role = await getBookRole(session.user.id, book)
+
+    return { book, role, entries, categoryNames }
+  } catch (error) {
+    console.error("Book history fetch error:", error)
+    return { error: "Failed to fetch book history" }
+  }
+}
+
+/**
+ * Undo one logged change by writing the old values back, recorded as a new "revert" entry.
+ * A field changed again since can't be reverted until the later change is; a create is
+ * undone by disabling (or archiving) the record. Deletes can't be undone.
+ */
+export async function revertAuditEntry(id: string) {
+  const session = await getAuthSessionEdge()
+  if (!session?.user?.id) {
+    return { error: "Unauthorized - Please log in first" }
+  }
+
+  const prisma = getPrismaClient()
+
+  const entry = await prisma.auditLog.findUnique({
+    where: { id },
+    include: {
+      book: true,
+      _count: { select: { revertedBy: true } },
+    },
+  })
+
+  if (!entry || !isAuditEntity(entry.entityType)) {
+    return { error: "Change not found" }
+  }
+
+  const entityType = entry.entityType
+  // Only the owner changes the book itself
+  if (!(await canAccessBook(session.user.id, entry.book, entityType === "book" ? "manage" : "edit"))) {
+    return { error: "Change not found or access denied" }
+  }
+
+  if (entry._count.revertedBy > 0) {
+    return { error: "This change has already been reverted" }
+  }
+
+  if (entry.action === "delete") {
+    return { error: "Deleted records can't be brought back" }
+  }
+
+  if (entry.book.isArchived && entityType !== "book") {
+    return { error: "Cannot change archived books. Restore the book first." }
+  }
+
+  const current = (await findAuditRecords(prisma, entityType, [entry.entityId])).get(entry.entityId)
+  if (!current) {
+    return { error: "This record no longer exists" }
+  }
+
+  const changes = entry.changes as AuditChanges
+  const data: Record<string, unknown> = {}
+
+  if (entry.action === "create") {
+    data[entityType === "book" ? "isArchived" : "isDisabled"] = true
+  } else {
+    for (const [field, change] of Object.entries(changes)) {
+      if (toAuditValue(current.record[field]) !== change.to) {
+        return { error: `${AUDIT_FIELD_LABELS[field] || field} has changed since. Revert the later change first.` }
+      }
+      data[field] = AUDIT_DATE_FIELDS.includes(field) && typeof change.from === "string" ? new Date(change.from) : change.from
+    }
+  }
+
+  // Keep the category tree valid: one level deep, and no active category under a disabled one
+  if (entityType === "category") {
+    if (typeof data.parentId === "string") {
+      const parentError = await getCategoryParentError(prisma, {
+        categoryId: entry.entityId,
+        bookId: current.bookId,
+        parentId: data.parentId,
+      })
+      if (parentError) {
+        return { error: parentError }
+      }
+    }
+
+    const parentId = "parentId" in data ? data.parentId : current.record.parentId
+    if (data.isDisabled === false && typeof parentId === "string") {
+      const parent = await prisma.category.findUnique({ where: { id: parentId }, select: { isDisabled: true } })
+      if (parent?.isDisabled) {
+        return { error: "Its parent category is disabled. Restore the parent first." }
+      }
+    }
+  }
+
+  let splitUpdate: Prisma.ExpenseUncheckedUpdateInput = {}
+
+  if (entityType === "expense") {
+    const expense = await prisma.expense.findUnique({
+      where: { id: entry.entityId },
+      include: { category: { include: { book: true } } },
+    })
+
+    if (!expense?.category.book) {
+      return { error: "This record no longer exists" }
+    }
+
+    let book = expense.category.book
+
+    if (typeof data.categoryId === "string") {
+      const category = await prisma.category.findUnique({
+        where: { id: data.categoryId },
+        include: { book: true },
+      })
+
+      if (!category?.book || !(await canAccessBook(session.user.id, category.book, "edit"))) {
+        return { error: "The expense's previous category no longer exists or you can't edit its book" }
+      }
+
+      if (category.book.isArchived) {
+        return { error: "Cannot move expenses to archived books" }
+      }
+
+      book = category.book
+    }
+
+    if ("amount" in data || "categoryId" in data) {
+      const amount = typeof data.amount === "number" ? data.amount : expense.amount
+      splitUpdate = await getSplitUpdate(expense, amount, book.currency, book.id !== expense.category.book.id)
+    }
+  }
+
+  try {
+    await prisma.$transaction(async (tx) => {
+      const updated =
+        entityType === "book"
+          ? await tx.book.update({ where: { id: entry.entityId }, data: data as Prisma.BookUncheckedUpdateInput })
+          : entityType === "category"
+            ? await tx.category.update({ where: { id: entry.entityId }, data: data as Prisma.CategoryUncheckedUpdateInput })
+            : await tx.expense.update({
+                where: { id: entry.entityId },
+                data: { ...(data as Prisma.ExpenseUncheckedUpdateInput), ...splitUpdate },
+              })
+
+      if (entityType === "category" && data.isDisabled === true) {
+        await disableSubcategories(tx, getAuditContext(session.user.id), entry.entityId)
+      }
+
+      const after = (await findAuditRecords(tx, entityType, [updated.id])).get(updated.id)
+
+      await recordAudit(tx, getAuditContext(session.user.id), [
+        {
+          action: "revert",
+          entityType,
+          entityId: entry.entityId,
+          bookId: after?.bookId || entry.bookId,
+          before: current.record,
+          after: after?.record || null,
+          revertOfId: entry.id,
+        },
+      ])
+    })
+
+    revalidatePath(`/books/${entry.bookId}`)
+    revalidatePath(`/books/${entry.bookId}/history`)
+    revalidatePath("/books")
+    revalidatePath("/categories")
+    revalidatePath("/dashboard")
+    if (entityType === "expense") {
+      revalidatePath("/expenses")
+      revalidatePath(`/expenses/edit/${entry.entityId}`)
+    }
+    return { success: true }
+  } catch (error) {
+    console.error("Audit revert error:", error)
+
+    if (error instanceof Error && error.message.includes("Unique constraint failed")) {
+      return { error: "A book with this name already exists" }
+    }
+
+    return { error: "Failed to revert change" }
+  }
+}
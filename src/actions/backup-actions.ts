@@ -0,0 +1,63 @@
+"use server"
+
+import { getAuthSessionEdge } from "@/lib/auth"
+import { parseBackup } from "@/lib/backup/schema"
+import { restoreBackup as restoreBackupData, RestoreError } from "@/lib/backup/restore"
+import { revalidatePath } from "next/cache"
+import { z } from "zod"
+
+const restoreSchema = z.object({
+  mode: z.enum(["empty", "merge"]),
+})
+
+/**
+ * Restore a backup archive uploaded as the "backup" file field, either into an
+ * empty account or merged into the existing data.
+ */
+export async function restoreBackup(formData: FormData) {
+  const session = await getAuthSessionEdge()
+  if (!session?.user?.id) {
+    return { error: "Unauthorized - Please log in first" }
+  }
+
+  const validatedFields = restoreSchema.safeParse({
+    mode: formData.get("mode"),
+  })
+  if (!validatedFields.success) {
+    return { error: "Choose how to restore the backup" }
+  }
+
+  const file = formData.get("backup")
+  if (!(file instanceof File) || file.size === 0) {
+    return { error: "Choose a backup file" }
+  }
+
+  let json: unknown
+  try {
+    json = JSON.parse(await file.text())
+  } catch (error) {
+    return { error: "The backup file is not valid JSON" }
+  }
+
+  const parsed = parseBackup(json)
+  if ("error" in parsed) {
+    return { error: parsed.error }
+  }
+
+  try {
+    const summary = await restoreBackupData(session.user.id, parsed.backup, validatedFields.data.mode)
+
+    revalidatePath("/books")
+    revalidatePath("/categories")
+    revalidatePath("/expenses")
+    revalidatePath("/dashboard")
+    revalidatePath("/ai-assistant")
+    return { success: true, summary }
+  } catch (error) {
+    if (error instanceof RestoreError) {
+      return { error: error.message }
+    }
+    console.error("Backup restore error:", error)
+    return { error: "Failed to restore backup" }
+  }
+}
@@ -2,6 +2,21 @@
 
 import { getAuthSessionEdge } from "@/lib/auth"
 import { getPrismaClient } from "@/lib/prisma"
+import { bookAccessWhere, getBookRole } from "@/lib/book-access"
+import { isBookRole } from "@/lib/book-roles"
+import { getBudgetStatuses } from "@/lib/budgets"
+import { sumMoney } from "@/lib/money"
+import { removeStoredFiles } from "@/lib/receipt-storage"
+import { recordAudit } from "@/lib/audit"
+import { getAuditContext } from "@/lib/audit-source"
+import {
+  BUILT_IN_TEMPLATES,
+  BUILT_IN_TEMPLATE_PREFIX,
+  applyBookTemplate,
+  convertTemplateContent,
+  toBookTemplate,
+  type BookTemplateContent,
+} from "@/lib/book-templates"
 import { revalidatePath } from "next/cache"
 import { z } from "zod"
 
@@ -48,6 +63,29 @@ export async function createBook(formData: FormData) {
     // Get selected default categories
     const selectedDefaultCategories = formData.getAll("defaultCategories") as string[]
 
+    // Load the template the book starts from, with its amounts in the book currency
+    let templateContent: BookTemplateContent | null = null
+    const templateId = formData.get("templateId")
+    if (typeof templateId === "string" && templateId) {
+      let template = BUILT_IN_TEMPLATES.find((builtIn) => builtIn.id === templateId) ?? null
+      if (!templateId.startsWith(BUILT_IN_TEMPLATE_PREFIX)) {
+        const row = await prisma.bookTemplate.findFirst({
+          where: { id: templateId, userId: session.user.id },
+        })
+        template = row ? toBookTemplate(row) : null
+      }
+
+      if (!template) {
+        return { error: "Template not found" }
+      }
+
+      const converted = await convertTemplateContent(template.content, validatedFields.data.currency)
+      if (converted.error !== undefined) {
+        return { error: converted.error }
+      }
+      templateContent = converted.content
+    }
+
     // Create book and categories in a transaction
     const result = await prisma.$transaction(async (tx) => {
       // Create the book
@@ -58,6 +96,17 @@ export async function createBook(formData: FormData) {
         },
       })
 
+      await recordAudit(tx, getAuditContext(session.user.id), [
+        { action: "create", entityType: "book", entityId: book.id, bookId: book.id, before: null, after: book },
+      ])
+
+      // Lowercase names of the categories the template created
+      const templateCategoryNames = new Set<string>()
+      if (templateContent) {
+        const categoryIds = await applyBookTemplate(tx, getAuditContext(session.user.id), book.id, templateContent)
+        categoryIds.forEach((_, name) => templateCategoryNames.add(name))
+      }
+
       // If default categories were selected, add them to the book
       if (selectedDefaultCategories.length > 0) {
         // Get the default categories
@@ -68,9 +117,11 @@ export async function createBook(formData: FormData) {
           },
         })
 
-        // Create copies for this book
+        // Create copies for this book, skipping the ones the template already added
         for (const defaultCategory of defaultCategories) {
-          await tx.category.create({
+          if (templateCategoryNames.has(defaultCategory.name.toLowerCase())) continue
+
+          const category = await tx.category.create({
             data: {
               name: defaultCategory.name,
               description: defaultCategory.description,
@@ -79,6 +130,10 @@ export async function createBook(formData: FormData) {
               bookId: book.id,
             },
           })
+
+          await recordAudit(tx, getAuditContext(session.user.id), [
+            { action: "create", entityType: "category", entityId: category.id, bookId: book.id, before: null, after: category },
+          ])
         }
       }
 
@@ -126,8 +181,9 @@ export async function updateBook(id: string, formData: FormData) {
     return { error: "User not found in database" }
   }
 
-  const book = await prisma.book.findUnique({
-    where: { id, userId: session.user.id },
+  // Only the owner can change the book itself
+  const book = await prisma.book.findFirst({
+    where: { id, ...bookAccessWhere(session.user.id, "manage") },
   })
 
   if (!book) {
@@ -139,9 +195,15 @@ export async function updateBook(id: string, formData: FormData) {
   }
 
   try {
-    await prisma.book.update({
-      where: { id },
-      data: validatedFields.data,
+    await prisma.$transaction(async (tx) => {
+      const updated = await tx.book.update({
+        where: { id },
+        data: validatedFields.data,
+      })
+
+      await recordAudit(tx, getAuditContext(session.user.id), [
+        { action: "update", entityType: "book", entityId: id, bookId: id, before: book, after: updated },
+      ])
     })
 
     revalidatePath("/books")
@@ -173,10 +235,14 @@ export async function getBooks() {
   try {
     const books = await prisma.book.findMany({
       where: {
-        userId: session.user.id,
+        ...bookAccessWhere(session.user.id),
         isArchived: false,
       },
       include: {
+        members: {
+          where: { userId: session.user.id },
+          select: { role: true },
+        },
         categories: {
           where: {
             isDisabled: false,
@@ -193,7 +259,14 @@ export async function getBooks() {
       orderBy: { createdAt: "desc" },
     })
 
-    return { books }
+    return {
+      books: books.map(({ members, ...book }) => {
+        // Own books, or the role the book was shared with
+        const memberRole = members[0]?.role
+        const role = book.userId === session.user.id ? "owner" : memberRole && isBookRole(memberRole) ? memberRole : "viewer"
+        return { ...book, role }
+      }),
+    }
   } catch (error) {
     console.error("Books fetch error:", error)
     return { error: "Failed to fetch books" }
@@ -218,8 +291,8 @@ export async function getBookById(id: string) {
   }
 
   try {
-    const book = await prisma.book.findUnique({
-      where: { id, userId: session.user.id, isArchived: false },
+    const book = await prisma.book.findFirst({
+      where: { id, ...bookAccessWhere(session.user.id), isArchived: false },
       include: {
         user: {
           select: {
@@ -246,6 +319,12 @@ export async function getBookById(id: string) {
                     color: true,
                   },
                 },
+                attachments: {
+                  orderBy: { createdAt: "asc" },
+                },
+                tags: {
+                  orderBy: { name: "asc" },
+                },
               },
             },
           },
@@ -259,22 +338,23 @@ export async function getBookById(id: string) {
     }
 
     // Calculate summary statistics (only from active categories and expenses)
-    const totalExpenses = book.categories.reduce(
-      (sum, cat) => sum + cat.expenses.reduce((catSum, exp) => catSum + exp.amount, 0),
-      0
-    )
+    const totalExpenses = sumMoney(book.categories.flatMap((cat) => cat.expenses.map((exp) => exp.amount)))
     const totalCategories = book.categories.length
     const totalExpensesCount = book.categories.reduce(
       (sum, cat) => sum + cat.expenses.length,
       0
     )
+    const budgets = await getBudgetStatuses([book.id])
+    const role = (await getBookRole(session.user.id, book)) || "viewer"
 
     return { 
       book,
+      role,
       summary: {
         totalExpenses,
         totalCategories,
         totalExpensesCount,
+        budgets,
       }
     }
   } catch (error) {
@@ -301,7 +381,7 @@ export async function deleteBook(id: string) {
   }
 
   try {
-    // Verify book exists and belongs to user
+    // Verify book exists and belongs to user; members can't archive or delete it
     const book = await prisma.book.findUnique({
       where: { id, userId: session.user.id },
     })
@@ -311,9 +391,15 @@ export async function deleteBook(id: string) {
     }
 
     // Soft delete - set isArchived to true instead of deleting
-    await prisma.book.update({
-      where: { id },
-      data: { isArchived: true },
+    await prisma.$transaction(async (tx) => {
+      const updated = await tx.book.update({
+        where: { id },
+        data: { isArchived: true },
+      })
+
+      await recordAudit(tx, getAuditContext(session.user.id), [
+        { action: "archive", entityType: "book", entityId: id, bookId: id, before: book, after: updated },
+      ])
     })
 
     revalidatePath("/books")
@@ -391,7 +477,7 @@ export async function restoreBook(id: string) {
   }
 
   try {
-    // Verify book exists and belongs to user
+    // Verify book exists and belongs to user; members can't archive or delete it
     const book = await prisma.book.findUnique({
       where: { id, userId: session.user.id },
     })
@@ -401,9 +487,15 @@ export async function restoreBook(id: string) {
     }
 
     // Restore book by setting isArchived to false
-    await prisma.book.update({
-      where: { id },
-      data: { isArchived: false },
+    await prisma.$transaction(async (tx) => {
+      const updated = await tx.book.update({
+        where: { id },
+        data: { isArchived: false },
+      })
+
+      await recordAudit(tx, getAuditContext(session.user.id), [
+        { action: "restore", entityType: "book", entityId: id, bookId: id, before: book, after: updated },
+      ])
     })
 
     revalidatePath("/books")
@@ -435,7 +527,7 @@ export async function permanentDeleteBook(id: string) {
   }
 
   try {
-    // Verify book exists and belongs to user
+    // Verify book exists and belongs to user; members can't archive or delete it
     const book = await prisma.book.findUnique({
       where: { id, userId: session.user.id },
     })
@@ -449,11 +541,19 @@ export async function permanentDeleteBook(id: string) {
       return { error: "Only archived books can be permanently deleted" }
     }
 
+    // Collect receipt files before the cascade removes their records
+    const attachments = await prisma.attachment.findMany({
+      where: { expense: { category: { bookId: id } } },
+      select: { storageKey: true },
+    })
+
     // Hard delete the book
     await prisma.book.delete({
       where: { id },
     })
 
+    await removeStoredFiles(attachments.map((attachment) => attachment.storageKey))
+
     revalidatePath("/books")
     revalidatePath("/books/archived")
     revalidatePath("/categories/create")
@@ -0,0 +1,375 @@
+"use server"
+
+import { randomBytes } from "crypto"
+import { getAuthSessionEdge } from "@/lib/auth"
+import { getPrismaClient } from "@/lib/prisma"
+import { getBookRole } from "@/lib/book-access"
+import { MEMBER_ROLES } from "@/lib/book-roles"
+import { revalidatePath } from "next/cache"
+import { z } from "zod"
+
+// How long an invitation can be accepted
+const INVITATION_DAYS = 14
+
+const invitationSchema = z.object({
+  bookId: z.string().min(1, "Book is required"),
+  // Empty for a link anyone signed in can use
+  email: z
+    .string()
+    .email("Enter a valid email address")
+    .transform((val) => val.toLowerCase())
+    .optional(),
+  role: z.enum(MEMBER_ROLES),
+})
+
+const memberRoleSchema = z.enum(MEMBER_ROLES)
+
+export async function getBookMembers(bookId: string) {
+  const session = await getAuthSessionEdge()
+  if (!session?.user?.id) {
+    return { error: "Unauthorized - Please log in first" }
+  }
+
+  const prisma = getPrismaClient()
+
+  try {
+    const book = await prisma.book.findUnique({
+      where: { id: bookId },
+      include: {
+        user: { select: { id: true, name: true, email: true } },
+        members: {
+          include: { user: { select: { id: true, name: true, email: true } } },
+          orderBy: { createdAt: "asc" },
+        },
+      },
+    })
+
+    const role = book ? await getBookRole(session.user.id, book) : null
+    if (!book || !role) {
+      return { error: "Book not found or access denied" }
+    }
+
+    // Only the owner sees (and can copy) open invitation links
+    const invitations =
+      role === "owner"
+        ? await prisma.bookInvitation.findMany({
+            where: { bookId, expiresAt: { gt: new Date() } },
+            orderBy: { createdAt: "desc" },
+          })
+        : []
+
+    return { owner: book.user, members: book.members, invitations, role }
+  } catch (error) {
+    console.error("Book members fetch error:", error)
+    return { error: "Failed to fetch book members" }
+  }
+}
+
+export async function inviteToBook(formData: FormData) {
+  const session = await getAuthSessionEdge()
+  if (!session?.user?.id) {
+    return { error: "Unauthorized - Please log in first" }
+  }
+
+  const validatedFields = invitationSchema.safeParse({
+    bookId: formData.get("bookId"),
+    email: formData.get("email") || undefined,
+    role: formData.get("role"),
+  })
+
+  if (!validatedFields.success) {
+    return { error: "Invalid fields - " + validatedFields.error.issues.map(i => i.message).join(", ") }
+  }
+
+  const { bookId, email, role } = validatedFields.data
+  const prisma = getPrismaClient()
+
+  const book = await prisma.book.findUnique({
+    where: { id: bookId },
+    include: { user: true },
+  })
+
+  if (!book || book.userId !== session.user.id) {
+    return { error: "Book not found or access denied" }
+  }
+
+  if (book.isArchived) {
+    return { error: "Cannot share archived books" }
+  }
+
+  if (email) {
+    if (email === book.user.email.toLowerCase()) {
+      return { error: "You already own this book" }
+    }
+
+    const existingMember = await prisma.bookMember.findFirst({
+      where: { bookId, user: { email } },
+    })
+
+    if (existingMember) {
+      return { error: `${email} is already a member of this book` }
+    }
+  }
+
+  try {
+    const invitation = await prisma.bookInvitation.create({
+      data: {
+        bookId,
+        email: email || null,
+        role,
+        token: randomBytes(24).toString("base64url"),
+        expiresAt: new Date(Date.now() + INVITATION_DAYS * 24 * 60 * 60 * 1000),
+        invitedById: session.user.id,
+      },
+    })
+
+    revalidatePath(`/books/${bookId}`)
+    return { success: true, token: invitation.token }
+  } catch (error) {
+    console.error("Book invitation error:", error)
+    return { error: "Failed to create invitation" }
+  }
+}
+
+export async function revokeInvitation(id: string) {
+  const session = await getAuthSessionEdge()
+  if (!session?.user?.id) {
+    return { error: "Unauthorized - Please log in first" }
+  }
+
+  const prisma = getPrismaClient()
+
+  const invitation = await prisma.bookInvitation.findUnique({
+    where: { id },
+    include: { book: true },
+  })
+
+  if (!invitation || invitation.book.userId !== session.user.id) {
+    return { error: "Invitation not found or access denied" }
+  }
+
+  try {
+    await prisma.bookInvitation.delete({
+      where: { id },
+    })
+
+    revalidatePath(`/books/${invitation.bookId}`)
+    return { success: true }
+  } catch (error) {
+    console.error("Invitation revoke error:", error)
+    return { error: "Failed to revoke invitation" }
+  }
+}
+
+// Invitation details for the accept page, and the pending invitations list
+async function findOpenInvitation(token: string) {
+  const prisma = getPrismaClient()
+
+  const invitation = await prisma.bookInvitation.findUnique({
+    where: { token },
+    include: {
+      book: { select: { id: true, name: true, currency: true, isArchived: true, userId: true } },
+      invitedBy: { select: { name: true, email: true } },
+    },
+  })
+
+  if (!invitation || invitation.expiresAt < new Date() || invitation.book.isArchived) {
+    return null
+  }
+
+  return invitation
+}
+
+export async function getInvitation(token: string) {
+  const session = await getAuthSessionEdge()
+  if (!session?.user?.id) {
+    return { error: "Unauthorized - Please log in first" }
+  }
+
+  try {
+    const invitation = await findOpenInvitation(token)
+    if (!invitation) {
+      return { error: "This invitation is invalid or has expired" }
+    }
+
+    const isForSomeoneElse =
+      invitation.email !== null && invitation.email !== session.user.email?.toLowerCase()
+
+    return { invitation, isForSomeoneElse }
+  } catch (error) {
+    console.error("Invitation fetch error:", error)
+    return { error: "Failed to fetch invitation" }
+  }
+}
+
+export async function getPendingInvitations() {
+  const session = await getAuthSessionEdge()
+  if (!session?.user?.id || !session.user.email) {
+    return { error: "Unauthorized - Please log in first" }
+  }
+
+  const prisma = getPrismaClient()
+
+  try {
+    const invitations = await prisma.bookInvitation.findMany({
+      where: {
+        email: session.user.email.toLowerCase(),
+        expiresAt: { gt: new Date() },
+        book: { isArchived: false },
+      },
+      include: {
+        book: { select: { id: true, name: true } },
+        invitedBy: { select: { name: true, email: true } },
+      },
+      orderBy: { createdAt: "desc" },
+    })
+
+    return { invitations }
+  } catch (error) {
+    console.error("Pending invitations fetch error:", error)
+    return { error: "Failed to fetch invitations" }
+  }
+}
+
+export async function acceptInvitation(token: string) {
+  const session = await getAuthSessionEdge()
+  if (!session?.user?.id) {
+    return { error: "Unauthorized - Please log in first" }
+  }
+
+  const prisma = getPrismaClient()
+
+  const invitation = await findOpenInvitation(token)
+  if (!invitation) {
+    return { error: "This invitation is invalid or has expired" }
+  }
+
+  if (invitation.email !== null && invitation.email !== session.user.email?.toLowerCase()) {
+    return { error: `This invitation was sent to ${invitation.email}. Sign in with that account to accept it.` }
+  }
+
+  if (invitation.book.userId === session.user.id) {
+    return { error: "You already own this book" }
+  }
+
+  try {
+    await prisma.$transaction(async (tx) => {
+      await tx.bookMember.upsert({
+        where: { bookId_userId: { bookId: invitation.bookId, userId: session.user.id } },
+        update: { role: invitation.role },
+        create: { bookId: invitation.bookId, userId: session.user.id, role: invitation.role },
+      })
+
+      // Email invitations are single-use; links stay valid until they expire or are revoked
+      if (invitation.email !== null) {
+        await tx.bookInvitation.delete({ where: { id: invitation.id } })
+      }
+    })
+
+    revalidatePath("/books")
+    revalidatePath(`/books/${invitation.bookId}`)
+    revalidatePath("/dashboard")
+    return { success: true, bookId: invitation.bookId }
+  } catch (error) {
+    console.error("Invitation accept error:", error)
+    return { error: "Failed to accept invitation" }
+  }
+}
+
+export async function declineInvitation(id: string) {
+  const session = await getAuthSessionEdge()
+  if (!session?.user?.id || !session.user.email) {
+    return { error: "Unauthorized - Please log in first" }
+  }
+
+  const prisma = getPrismaClient()
+
+  const invitation = await prisma.bookInvitation.findUnique({
+    where: { id },
+  })
+
+  if (!invitation || invitation.email !== session.user.email.toLowerCase()) {
+    return { error: "Invitation not found" }
+  }
+
+  try {
+    await prisma.bookInvitation.delete({
+      where: { id },
+    })
+
+    revalidatePath("/books")
+    return { success: true }
+  } catch (error) {
+    console.error("Invitation decline error:", error)
+    return { error: "Failed to decline invitation" }
+  }
+}
+
+export async function updateMemberRole(memberId: string, role: string) {
+  const session = await getAuthSessionEdge()
+  if (!session?.user?.id) {
+    return { error: "Unauthorized - Please log in first" }
+  }
+
+  const validatedRole = memberRoleSchema.safeParse(role)
+  if (!validatedRole.success) {
+    return { error: "Invalid role" }
+  }
+
+  const prisma = getPrismaClient()
+
+  const member = await prisma.bookMember.findUnique({
+    where: { id: memberId },
+    include: { book: true },
+  })
+
+  if (!member || member.book.userId !== session.user.id) {
+    return { error: "Member not found or access denied" }
+  }
+
+  try {
+    await prisma.bookMember.update({
+      where: { id: memberId },
+      data: { role: validatedRole.data },
+    })
+
+    revalidatePath(`/books/${member.bookId}`)
+    return { success: true }
+  } catch (error) {
+    console.error("Member role update error:", error)
+    return { error: "Failed to update member role" }
+  }
+}
+
+// The owner removes a member, or a member leaves the book
+export async function removeMember(memberId: string) {
+  const session = await getAuthSessionEdge()
+  if (!session?.user?.id) {
+    return { error: "Unauthorized - Please log in first" }
+  }
+
+  const prisma = getPrismaClient()
+
+  const member = await prisma.bookMember.findUnique({
+    where: { id: memberId },
+    include: { book: true },
+  })
+
+  if (!member || (member.book.userId !== session.user.id && member.userId !== session.user.id)) {
+    return { error: "Member not found or access denied" }
+  }
+
+  try {
+    await prisma.bookMember.delete({
+      where: { id: memberId },
+    })
+
+    revalidatePath("/books")
+    revalidatePath(`/books/${member.bookId}`)
+    revalidatePath("/dashboard")
+    return { success: true }
+  } catch (error) {
+    console.error("Member remove error:", error)
+    return { error: "Failed to remove member" }
+  }
+}
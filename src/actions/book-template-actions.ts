@@ -0,0 +1,142 @@
+"use server"
+
+import type { Prisma } from "@prisma/client"
+import { getAuthSessionEdge } from "@/lib/auth"
+import { getPrismaClient } from "@/lib/prisma"
+import { bookAccessWhere } from "@/lib/book-access"
+import { BUILT_IN_TEMPLATES, getBookTemplateContent, toBookTemplate, type BookTemplate } from "@/lib/book-templates"
+import { revalidatePath } from "next/cache"
+import { z } from "zod"
+
+const bookTemplateSchema = z.object({
+  name: z.string().trim().min(1, "Template name is required").max(100, "Name must be 100 characters or less"),
+  description: z.string().trim().max(500).optional(),
+})
+
+function summarizeTemplate(template: BookTemplate) {
+  return {
+    id: template.id,
+    name: template.name,
+    description: template.description,
+    version: template.version,
+    isBuiltIn: template.isBuiltIn,
+    currency: template.content.currency,
+    categoryCount: template.content.categories.length,
+    subCategoryCount: template.content.categories.filter((category) => category.parent).length,
+    budgetCount: template.content.budgets.length,
+    ruleCount: template.content.rules.length,
+  }
+}
+
+// Built-in templates followed by the user's own, for starting a new book from
+export async function getBookTemplates() {
+  const session = await getAuthSessionEdge()
+  if (!session?.user?.id) {
+    return { error: "Unauthorized - Please log in first" }
+  }
+
+  const prisma = getPrismaClient()
+
+  try {
+    const rows = await prisma.bookTemplate.findMany({
+      where: { userId: session.user.id },
+      orderBy: { name: "asc" },
+    })
+
+    const userTemplates = rows
+      .map(toBookTemplate)
+      .filter((template): template is BookTemplate => template !== null)
+
+    return { templates: [...BUILT_IN_TEMPLATES, ...userTemplates].map(summarizeTemplate) }
+  } catch (error) {
+    console.error("Book templates fetch error:", error)
+    return { error: "Failed to fetch book templates" }
+  }
+}
+
+/**
+ * Save a book's categories, monthly budgets and rules as a template of the user's.
+ * Saving under the name of an existing template replaces its content and bumps its
+ * version; books created from the older version keep what they got.
+ */
+export async function saveBookAsTemplate(bookId: string, formData: FormData) {
+  const session = await getAuthSessionEdge()
+  if (!session?.user?.id) {
+    return { error: "Unauthorized - Please log in first" }
+  }
+
+  const validatedFields = bookTemplateSchema.safeParse({
+    name: formData.get("name"),
+    description: formData.get("description") || undefined,
+  })
+
+  if (!validatedFields.success) {
+    return { error: validatedFields.error.errors[0]?.message || "Invalid fields" }
+  }
+
+  const prisma = getPrismaClient()
+
+  const book = await prisma.book.findFirst({
+    where: { AND: [{ id: bookId }, bookAccessWhere(session.user.id)] },
+  })
+
+  if (!book) {
+    return { error: "Book not found or access denied" }
+  }
+
+  try {
+    const content = await getBookTemplateContent(prisma, book)
+    if (content.categories.length === 0) {
+      return { error: "The book has no active categories to save" }
+    }
+
+    const { name, description } = validatedFields.data
+    const template = await prisma.bookTemplate.upsert({
+      where: { userId_name: { userId: session.user.id, name } },
+      create: {
+        userId: session.user.id,
+        name,
+        description: description || null,
+        content: content as unknown as Prisma.InputJsonValue,
+      },
+      update: {
+        description: description || null,
+        content: content as unknown as Prisma.InputJsonValue,
+        version: { increment: 1 },
+      },
+    })
+
+    revalidatePath("/books/create")
+    return { success: true, version: template.version }
+  } catch (error) {
+    console.error("Book template save error:", error)
+    return { error: "Failed to save template" }
+  }
+}
+
+export async function deleteBookTemplate(id: string) {
+  const session = await getAuthSessionEdge()
+  if (!session?.user?.id) {
+    return { error: "Unauthorized - Please log in first" }
+  }
+
+  const prisma = getPrismaClient()
+
+  const template = await prisma.bookTemplate.findFirst({
+    where: { id, userId: session.user.id },
+  })
+
+  if (!template) {
+    return { error: "Template not found" }
+  }
+
+  try {
+    await prisma.bookTemplate.delete({ where: { id } })
+
+    revalidatePath("/books/create")
+    return { success: true }
+  } catch (error) {
+    console.error("Book template delete error:", error)
+    return { error: "Failed to delete template" }
+  }
+}
@@ -0,0 +1,170 @@
+"use server"
+
+import { getAuthSessionEdge } from "@/lib/auth"
+import { getPrismaClient } from "@/lib/prisma"
+import { bookAccessWhere, canAccessBook } from "@/lib/book-access"
+import { BUDGET_PERIODS, getBudgetStatuses } from "@/lib/budgets"
+import { roundMoney } from "@/lib/money"
+import { revalidatePath } from "next/cache"
+import { z } from "zod"
+
+const budgetSchema = z
+  .object({
+    bookId: z.string().min(1, "Book is required"),
+    categoryId: z.string().optional(),
+    amount: z.string().min(1, "Amount is required").transform((val) => parseFloat(val)),
+    period: z.enum(BUDGET_PERIODS).default("monthly"),
+    startDate: z.string().optional().transform((val) => (val ? new Date(`${val}T00:00:00`) : null)),
+    // End dates are inclusive, so expenses on the last day still count
+    endDate: z.string().optional().transform((val) => (val ? new Date(`${val}T23:59:59.999`) : null)),
+  })
+  .refine((data) => data.period !== "custom" || (data.startDate && data.endDate), {
+    message: "Custom budgets need a start and end date",
+  })
+
+export async function setBudget(formData: FormData) {
+  const session = await getAuthSessionEdge()
+  if (!session?.user?.id) {
+    return { error: "Unauthorized - Please log in first" }
+  }
+
+  const validatedFields = budgetSchema.safeParse({
+    bookId: formData.get("bookId"),
+    categoryId: formData.get("categoryId") || undefined,
+    amount: formData.get("amount"),
+    period: formData.get("period") || undefined,
+    startDate: formData.get("startDate") || undefined,
+    endDate: formData.get("endDate") || undefined,
+  })
+
+  if (!validatedFields.success) {
+    return { error: "Invalid fields - " + validatedFields.error.issues.map(i => i.message).join(", ") }
+  }
+
+  const { bookId, categoryId, amount, period, startDate, endDate } = validatedFields.data
+
+  if (isNaN(amount) || amount <= 0) {
+    return { error: "Budget amount must be positive" }
+  }
+
+  if (period === "custom" && startDate && endDate && startDate > endDate) {
+    return { error: "Budget start date must be before the end date" }
+  }
+
+  const prisma = getPrismaClient()
+
+  // Verify user can edit the book
+  const book = await prisma.book.findUnique({
+    where: { id: bookId },
+  })
+
+  if (!book || !(await canAccessBook(session.user.id, book, "edit"))) {
+    return { error: "Book not found or access denied" }
+  }
+
+  if (book.isArchived) {
+    return { error: "Cannot set budgets on archived books" }
+  }
+
+  if (categoryId) {
+    const category = await prisma.category.findUnique({
+      where: { id: categoryId },
+    })
+
+    if (!category || category.bookId !== bookId) {
+      return { error: "Category not found in this book" }
+    }
+  }
+
+  const data = {
+    amount: roundMoney(amount, book.currency),
+    period,
+    startDate: period === "custom" ? startDate : null,
+    endDate: period === "custom" ? endDate : null,
+  }
+
+  try {
+    // A book has at most one book-wide budget and one budget per category
+    const existingBudget = await prisma.budget.findFirst({
+      where: { bookId, categoryId: categoryId || null },
+    })
+
+    if (existingBudget) {
+      await prisma.budget.update({
+        where: { id: existingBudget.id },
+        data,
+      })
+    } else {
+      await prisma.budget.create({
+        data: {
+          ...data,
+          bookId,
+          categoryId: categoryId || null,
+        },
+      })
+    }
+
+    revalidatePath(`/books/${bookId}`)
+    revalidatePath("/dashboard")
+    return { success: true }
+  } catch (error) {
+    console.error("Budget save error:", error)
+    return { error: "Failed to save budget" }
+  }
+}
+
+export async function deleteBudget(id: string) {
+  const session = await getAuthSessionEdge()
+  if (!session?.user?.id) {
+    return { error: "Unauthorized - Please log in first" }
+  }
+
+  const prisma = getPrismaClient()
+
+  const budget = await prisma.budget.findUnique({
+    where: { id },
+    include: { book: true },
+  })
+
+  if (!budget || !(await canAccessBook(session.user.id, budget.book, "edit"))) {
+    return { error: "Budget not found or access denied" }
+  }
+
+  try {
+    await prisma.budget.delete({
+      where: { id },
+    })
+
+    revalidatePath(`/books/${budget.bookId}`)
+    revalidatePath("/dashboard")
+    return { success: true }
+  } catch (error) {
+    console.error("Budget delete error:", error)
+    return { error: "Failed to delete budget" }
+  }
+}
+
+export async function getBudgets(bookId: string) {
+  const session = await getAuthSessionEdge()
+  if (!session?.user?.id) {
+    return { error: "Unauthorized - Please log in first" }
+  }
+
+  const prisma = getPrismaClient()
+
+  const book = await prisma.book.findFirst({
+    where: { id: bookId, ...bookAccessWhere(session.user.id) },
+  })
+
+  if (!book) {
+    return { error: "Book not found" }
+  }
+
+  try {
+    const budgets = await getBudgetStatuses([bookId])
+    return { budgets }
+  } catch (error) {
+    console.error("Budgets fetch error:", error)
+    return { error: "Failed to fetch budgets" }
+  }
+}
@@ -2,6 +2,11 @@
 
 import { getAuthSessionEdge } from "@/lib/auth"
 import { getPrismaClient } from "@/lib/prisma"
+import { bookAccessWhere, canAccessBook } from "@/lib/book-access"
+import type { BookPermission } from "@/lib/book-roles"
+import { recordAudit, type AuditEvent } from "@/lib/audit"
+import { getAuditContext } from "@/lib/audit-source"
+import { disableSubcategories, getCategoryParentError } from "@/lib/category-tree"
 import { revalidatePath } from "next/cache"
 import { z } from "zod"
 
@@ -11,6 +16,8 @@ const categorySchema = z.object({
   bookIds: z.array(z.string()).optional(),
   icon: z.string().optional().default(""),
   isDefault: z.boolean().optional().default(false),
+  // Top-level category of the same book this one is a sub-category of
+  parentId: z.string().optional(),
 })
 
 export async function createCategory(formData: FormData) {
@@ -27,6 +34,7 @@ export async function createCategory(formData: FormData) {
     bookIds: bookIds.length > 0 ? bookIds : undefined,
     icon: formData.get("icon") || "",
     isDefault: formData.get("isDefault") === "true",
+    parentId: formData.get("parentId") || undefined,
   }
 
   const validatedFields = categorySchema.safeParse(data)
@@ -40,6 +48,11 @@ export async function createCategory(formData: FormData) {
     return { error: "At least one book is required for non-default categories" }
   }
 
+  const { parentId } = validatedFields.data
+  if (parentId && (validatedFields.data.isDefault || validatedFields.data.bookIds?.length !== 1)) {
+    return { error: "A sub-category can only be created in one book" }
+  }
+
   const prisma = getPrismaClient()
 
   try {
@@ -52,12 +65,12 @@ export async function createCategory(formData: FormData) {
       return { error: "User not found in database" }
     }
 
-    // Verify user owns all the books (only for non-default categories)
+    // Verify user can edit all the books (only for non-default categories)
     if (!validatedFields.data.isDefault && validatedFields.data.bookIds) {
       const books = await prisma.book.findMany({
         where: {
           id: { in: validatedFields.data.bookIds },
-          userId: session.user.id,
+          ...bookAccessWhere(session.user.id, "edit"),
           isArchived: false,
         },
       })
@@ -67,6 +80,17 @@ export async function createCategory(formData: FormData) {
       }
     }
 
+    if (parentId) {
+      const parentError = await getCategoryParentError(prisma, {
+        categoryId: null,
+        bookId: validatedFields.data.bookIds![0],
+        parentId,
+      })
+      if (parentError) {
+        return { error: parentError }
+      }
+    }
+
     // Create categories for each selected book
     if (validatedFields.data.bookIds && validatedFields.data.bookIds.length > 0) {
       const categoryData = {
@@ -74,17 +98,25 @@ export async function createCategory(formData: FormData) {
         description: validatedFields.data.description,
         icon: validatedFields.data.icon,
         isDefault: validatedFields.data.isDefault,
+        parentId: parentId || null,
       }
 
       // Create categories for each book
-      for (const bookId of validatedFields.data.bookIds) {
-        await prisma.category.create({
-          data: {
-            ...categoryData,
-            bookId: bookId,
-          },
-        })
-      }
+      const bookIds = validatedFields.data.bookIds
+      await prisma.$transaction(async (tx) => {
+        for (const bookId of bookIds) {
+          const created = await tx.category.create({
+            data: {
+              ...categoryData,
+              bookId: bookId,
+            },
+          })
+
+          await recordAudit(tx, getAuditContext(session.user.id), [
+            { action: "create", entityType: "category", entityId: created.id, bookId, before: null, after: created },
+          ])
+        }
+      })
     } else {
       // Create a default category (no book association)
       await prisma.category.create({
@@ -111,7 +143,8 @@ export async function createCategory(formData: FormData) {
   }
 }
 
-export async function getCategories(bookId?: string) {
+// `permission` narrows shared books to those where the user may e.g. add expenses
+export async function getCategories(bookId?: string, permission: BookPermission = "view") {
   const session = await getAuthSessionEdge()
   if (!session?.user?.id) {
     return { error: "Unauthorized - Please log in first" }
@@ -139,7 +172,7 @@ export async function getCategories(bookId?: string) {
             isDefault: false,
             isDisabled: false,
             book: {
-              userId: session.user.id,
+              ...bookAccessWhere(session.user.id, permission),
               isArchived: false,
               ...(bookId ? { id: bookId } : {}),
             },
@@ -149,6 +182,7 @@ export async function getCategories(bookId?: string) {
       include: {
         book: true,
         expenses: true,
+        parent: { select: { id: true, name: true, icon: true } },
       },
       orderBy: [
         { isDefault: "desc" }, // Show default categories first
@@ -186,6 +220,7 @@ export async function getCategoryById(id: string) {
       include: {
         book: true,
         expenses: true,
+        children: { select: { id: true } },
       },
     })
 
@@ -198,8 +233,8 @@ export async function getCategoryById(id: string) {
       return { error: "Cannot edit default categories" }
     }
 
-    // For non-default categories, check book ownership
-    if (!category.book || category.book.userId !== session.user.id) {
+    // For non-default categories, check the user's role in the book
+    if (!category.book || !(await canAccessBook(session.user.id, category.book, "edit"))) {
       return { error: "Access denied" }
     }
 
@@ -241,8 +276,8 @@ export async function deleteCategory(id: string) {
     return { error: "Cannot disable default categories" }
   }
 
-  // For non-default categories, check book ownership
-  if (!category.book || category.book.userId !== session.user.id) {
+  // For non-default categories, check the user's role in the book
+  if (!category.book || !(await canAccessBook(session.user.id, category.book, "edit"))) {
     return { error: "Access denied" }
   }
 
@@ -254,9 +289,19 @@ export async function deleteCategory(id: string) {
     return { error: "Cannot delete category with existing expenses. Use disable instead." }
   }
 
+  if ((await prisma.category.count({ where: { parentId: id } })) > 0) {
+    return { error: "Cannot delete a category with sub-categories. Move or delete them first." }
+  }
+
   try {
-    await prisma.category.delete({
-      where: { id },
+    await prisma.$transaction(async (tx) => {
+      await tx.category.delete({
+        where: { id },
+      })
+
+      await recordAudit(tx, getAuditContext(session.user.id), [
+        { action: "delete", entityType: "category", entityId: id, bookId: category.book!.id, before: category, after: null },
+      ])
     })
 
     revalidatePath("/categories")
@@ -279,6 +324,8 @@ export async function updateCategory(id: string, formData: FormData) {
     description: formData.get("description") as string || "",
     icon: formData.get("icon") as string || "",
   }
+  // Left out of the form: the category stays where it is; empty: it becomes top-level
+  const parentId = formData.has("parentId") ? (formData.get("parentId") as string) || null : undefined
 
   const validatedFields = categorySchema.safeParse({
     ...data,
@@ -317,8 +364,8 @@ export async function updateCategory(id: string, formData: FormData) {
       return { error: "Cannot edit default categories" }
     }
 
-    // For non-default categories, check book ownership
-    if (!existingCategory.book || existingCategory.book.userId !== session.user.id) {
+    // For non-default categories, check the user's role in the book
+    if (!existingCategory.book || !(await canAccessBook(session.user.id, existingCategory.book, "edit"))) {
       return { error: "Access denied" }
     }
 
@@ -330,13 +377,31 @@ export async function updateCategory(id: string, formData: FormData) {
       return { error: "Cannot edit disabled categories. Restore it first." }
     }
 
-    await prisma.category.update({
-      where: { id },
-      data: {
-        name: data.name,
-        description: data.description,
-        icon: data.icon,
-      },
+    if (parentId && parentId !== existingCategory.parentId) {
+      const parentError = await getCategoryParentError(prisma, {
+        categoryId: id,
+        bookId: existingCategory.book.id,
+        parentId,
+      })
+      if (parentError) {
+        return { error: parentError }
+      }
+    }
+
+    await prisma.$transaction(async (tx) => {
+      const updated = await tx.category.update({
+        where: { id },
+        data: {
+          name: data.name,
+          description: data.description,
+          icon: data.icon,
+          parentId,
+        },
+      })
+
+      await recordAudit(tx, getAuditContext(session.user.id), [
+        { action: "update", entityType: "category", entityId: id, bookId: existingCategory.book!.id, before: existingCategory, after: updated },
+      ])
     })
 
     revalidatePath("/categories")
@@ -380,8 +445,8 @@ export async function disableCategory(id: string) {
     return { error: "Cannot disable default categories" }
   }
 
-  // For non-default categories, check book ownership
-  if (!category.book || category.book.userId !== session.user.id) {
+  // For non-default categories, check the user's role in the book
+  if (!category.book || !(await canAccessBook(session.user.id, category.book, "edit"))) {
     return { error: "Access denied" }
   }
 
@@ -390,9 +455,17 @@ export async function disableCategory(id: string) {
   }
 
   try {
-    await prisma.category.update({
-      where: { id },
-      data: { isDisabled: true },
+    await prisma.$transaction(async (tx) => {
+      const updated = await tx.category.update({
+        where: { id },
+        data: { isDisabled: true },
+      })
+
+      await recordAudit(tx, getAuditContext(session.user.id), [
+        { action: "disable", entityType: "category", entityId: id, bookId: category.book!.id, before: category, after: updated },
+      ])
+
+      await disableSubcategories(tx, getAuditContext(session.user.id), id)
     })
 
     revalidatePath("/categories")
@@ -404,6 +477,124 @@ export async function disableCategory(id: string) {
   }
 }
 
+/**
+ * Merge category `id` into `targetId` of the same book, in one transaction: its
+ * expenses (disabled ones too), recurring expenses, rules, budget and sub-categories
+ * move to the target, and it is disabled. Each moved expense and sub-category gets a
+ * history entry. A disabled category can be merged, bringing its hidden expenses back.
+ */
+export async function mergeCategory(id: string, targetId: string) {
+  const session = await getAuthSessionEdge()
+  if (!session?.user?.id) {
+    return { error: "Unauthorized - Please log in first" }
+  }
+
+  if (id === targetId) {
+    return { error: "Choose another category to merge into" }
+  }
+
+  const prisma = getPrismaClient()
+
+  const [category, target] = await Promise.all([
+    prisma.category.findUnique({ where: { id }, include: { book: true, _count: { select: { children: true } } } }),
+    prisma.category.findUnique({ where: { id: targetId } }),
+  ])
+
+  if (!category || !target) {
+    return { error: "Category not found" }
+  }
+
+  if (category.isDefault || target.isDefault) {
+    return { error: "Cannot merge default categories" }
+  }
+
+  if (!category.book || !(await canAccessBook(session.user.id, category.book, "edit"))) {
+    return { error: "Access denied" }
+  }
+
+  if (category.book.isArchived) {
+    return { error: "Cannot merge categories from archived books" }
+  }
+
+  if (target.bookId !== category.bookId) {
+    return { error: "Categories can only be merged within a book. Move the expenses to the other book instead." }
+  }
+
+  if (target.isDisabled) {
+    return { error: "Cannot merge into a disabled category. Restore it first." }
+  }
+
+  // Its sub-categories move along, and sub-categories can't have their own
+  if (category._count.children > 0 && target.parentId) {
+    return { error: "A category with sub-categories can only be merged into a top-level category" }
+  }
+
+  try {
+    const moved = await prisma.$transaction(async (tx) => {
+      const context = getAuditContext(session.user.id)
+      const events: AuditEvent[] = []
+
+      const expenses = await tx.expense.findMany({ where: { categoryId: id } })
+      await tx.expense.updateMany({
+        where: { categoryId: id },
+        data: { categoryId: targetId },
+      })
+      expenses.forEach((expense) => {
+        events.push({ action: "update", entityType: "expense", entityId: expense.id, bookId: target.bookId!, before: expense, after: { ...expense, categoryId: targetId } })
+      })
+
+      const children = await tx.category.findMany({ where: { parentId: id } })
+      await tx.category.updateMany({
+        where: { parentId: id },
+        data: { parentId: targetId },
+      })
+      children.forEach((child) => {
+        events.push({ action: "update", entityType: "category", entityId: child.id, bookId: target.bookId!, before: child, after: { ...child, parentId: targetId } })
+      })
+
+      await tx.recurringExpense.updateMany({
+        where: { categoryId: id },
+        data: { categoryId: targetId },
+      })
+
+      await tx.categoryRule.updateMany({
+        where: { categoryId: id },
+        data: { categoryId: targetId },
+      })
+
+      // A category has at most one budget; the target keeps its own
+      const targetBudget = await tx.budget.findUnique({ where: { categoryId: targetId } })
+      if (targetBudget) {
+        await tx.budget.deleteMany({ where: { categoryId: id } })
+      } else {
+        await tx.budget.updateMany({
+          where: { categoryId: id },
+          data: { categoryId: targetId },
+        })
+      }
+
+      if (!category.isDisabled) {
+        const updated = await tx.category.update({
+          where: { id },
+          data: { isDisabled: true },
+        })
+        events.push({ action: "disable", entityType: "category", entityId: id, bookId: category.bookId!, before: category, after: updated })
+      }
+
+      await recordAudit(tx, context, events)
+      return expenses.length
+    })
+
+    revalidatePath("/categories")
+    revalidatePath("/expenses")
+    revalidatePath(`/books/${category.bookId}`)
+    return { success: true, moved }
+  } catch (error) {
+    console.error("Category merge error:", error)
+    return { error: "Failed to merge categories" }
+  }
+}
+
 export async function restoreCategory(id: string) {
   const session = await getAuthSessionEdge()
   if (!session?.user?.id) {
@@ -435,8 +626,8 @@ export async function restoreCategory(id: string) {
     return { error: "Cannot restore default categories" }
   }
 
-  // For non-default categories, check book ownership
-  if (!category.book || category.book.userId !== session.user.id) {
+  // For non-default categories, check the user's role in the book
+  if (!category.book || !(await canAccessBook(session.user.id, category.book, "edit"))) {
     return { error: "Access denied" }
   }
 
@@ -444,10 +635,26 @@ export async function restoreCategory(id: string) {
     return { error: "Cannot restore categories from archived books" }
   }
 
+  if (category.parentId) {
+    const parent = await prisma.category.findUnique({
+      where: { id: category.parentId },
+      select: { isDisabled: true },
+    })
+    if (parent?.isDisabled) {
+      return { error: "Its parent category is disabled. Restore the parent first." }
+    }
+  }
+
   try {
-    await prisma.category.update({
-      where: { id },
-      data: { isDisabled: false },
+    await prisma.$transaction(async (tx) => {
+      const updated = await tx.category.update({
+        where: { id },
+        data: { isDisabled: false },
+      })
+
+      await recordAudit(tx, getAuditContext(session.user.id), [
+        { action: "restore", entityType: "category", entityId: id, bookId: category.book!.id, before: category, after: updated },
+      ])
     })
 
     revalidatePath("/categories")
@@ -490,8 +697,8 @@ export async function permanentDeleteCategory(id: string) {
     return { error: "Cannot permanently delete default categories" }
   }
 
-  // For non-default categories, check book ownership
-  if (!category.book || category.book.userId !== session.user.id) {
+  // For non-default categories, check the user's role in the book
+  if (!category.book || !(await canAccessBook(session.user.id, category.book, "edit"))) {
     return { error: "Access denied" }
   }
 
@@ -499,9 +706,19 @@ export async function permanentDeleteCategory(id: string) {
     return { error: "Cannot permanently delete category with existing expenses. Delete expenses first." }
   }
 
+  if ((await prisma.category.count({ where: { parentId: id } })) > 0) {
+    return { error: "Cannot permanently delete a category with sub-categories. Move or delete them first." }
+  }
+
   try {
-    await prisma.category.delete({
-      where: { id },
+    await prisma.$transaction(async (tx) => {
+      await tx.category.delete({
+        where: { id },
+      })
+
+      await recordAudit(tx, getAuditContext(session.user.id), [
+        { action: "delete", entityType: "category", entityId: id, bookId: category.book!.id, before: category, after: null },
+      ])
     })
 
     revalidatePath("/categories")
@@ -540,12 +757,12 @@ export async function addDefaultCategoryToBook(defaultCategoryId: string, bookId
       return { error: "Default category not found" }
     }
 
-    // Verify the book exists and belongs to the user
+    // Verify the book exists and the user can edit it
     const book = await prisma.book.findUnique({
       where: { id: bookId },
     })
 
-    if (!book || book.userId !== session.user.id) {
+    if (!book || !(await canAccessBook(session.user.id, book, "edit"))) {
       return { error: "Book not found or access denied" }
     }
 
@@ -567,15 +784,21 @@ export async function addDefaultCategoryToBook(defaultCategoryId: string, bookId
     }
 
     // Create the category for the book
-    await prisma.category.create({
-      data: {
-        name: defaultCategory.name,
-        description: defaultCategory.description,
-        icon: defaultCategory.icon,
-        color: defaultCategory.color,
-        bookId: bookId,
-        isDefault: false, // This is now a user category
-      },
+    await prisma.$transaction(async (tx) => {
+      const created = await tx.category.create({
+        data: {
+          name: defaultCategory.name,
+          description: defaultCategory.description,
+          icon: defaultCategory.icon,
+          color: defaultCategory.color,
+          bookId: bookId,
+          isDefault: false, // This is now a user category
+        },
+      })
+
+      await recordAudit(tx, getAuditContext(session.user.id), [
+        { action: "create", entityType: "category", entityId: created.id, bookId, before: null, after: created },
+      ])
     })
 
     revalidatePath("/categories")
@@ -0,0 +1,362 @@
+"use server"
+
+import type { Prisma } from "@prisma/client"
+import { getAuthSessionEdge } from "@/lib/auth"
+import { getPrismaClient } from "@/lib/prisma"
+import { bookAccessWhere, canAccessBook, getBookRole } from "@/lib/book-access"
+import {
+  findMatchingRule,
+  getRulePatternError,
+  getRuleTagNames,
+  hasRuleCondition,
+  loadCategoryRules,
+} from "@/lib/category-rules"
+import { roundMoney } from "@/lib/money"
+import { MAX_TAGS_PER_EXPENSE, normalizeTagName } from "@/lib/tags"
+import { revalidatePath } from "next/cache"
+import { z } from "zod"
+
+// Past expenses looked at when suggesting a category from history
+const HISTORY_SAMPLE_SIZE = 50
+
+const optionalAmount = z
+  .string()
+  .optional()
+  .transform((val) => (val ? parseFloat(val) : null))
+
+const categoryRuleSchema = z.object({
+  bookId: z.string().min(1, "Book is required"),
+  categoryId: z.string().min(1, "Category is required"),
+  name: z.string().trim().min(1, "Name is required").max(100, "Name must be 100 characters or less"),
+  priority: z
+    .string()
+    .optional()
+    .transform((val) => (val ? parseInt(val, 10) : 0)),
+  isActive: z.boolean(),
+  descriptionContains: z.string().trim().max(200).optional(),
+  descriptionPattern: z.string().trim().optional(),
+  minAmount: optionalAmount,
+  maxAmount: optionalAmount,
+  paymentMethod: z.string().trim().optional(),
+})
+
+// A book's rules in the order they run, with the categories a rule can pick
+export async function getCategoryRules(bookId: string) {
+  const session = await getAuthSessionEdge()
+  if (!session?.user?.id) {
+    return { error: "Unauthorized - Please log in first" }
+  }
+
+  const prisma = getPrismaClient()
+
+  try {
+    const book = await prisma.book.findFirst({
+      where: { AND: [{ id: bookId }, bookAccessWhere(session.user.id)] },
+    })
+
+    if (!book) {
+      return { error: "Book not found or access denied" }
+    }
+
+    const [rules, categories, role] = await Promise.all([
+      prisma.categoryRule.findMany({
+        where: { bookId },
+        include: { category: { select: { id: true, name: true, isDisabled: true } } },
+        orderBy: [{ priority: "asc" }, { createdAt: "asc" }],
+      }),
+      prisma.category.findMany({
+        where: { bookId, isDisabled: false },
+        select: { id: true, name: true },
+        orderBy: { name: "asc" },
+      }),
+      getBookRole(session.user.id, book),
+    ])
+
+    return {
+      book,
+      role,
+      categories,
+      rules: rules.map((rule) => ({ ...rule, tags: getRuleTagNames(rule) })),
+    }
+  } catch (error) {
+    console.error("Category rules fetch error:", error)
+    return { error: "Failed to fetch categorisation rules" }
+  }
+}
+
+// Create a rule, or update rule `id` when the form has one
+export async function saveCategoryRule(formData: FormData) {
+  const session = await getAuthSessionEdge()
+  if (!session?.user?.id) {
+    return { error: "Unauthorized - Please log in first" }
+  }
+
+  const validatedFields = categoryRuleSchema.safeParse({
+    bookId: formData.get("bookId"),
+    categoryId: formData.get("categoryId"),
+    name: formData.get("name"),
+    priority: formData.get("priority") || undefined,
+    isActive: formData.get("isActive") !== "false",
+    descriptionContains: formData.get("descriptionContains") || undefined,
+    descriptionPattern: formData.get("descriptionPattern") || undefined,
+    minAmount: formData.get("minAmount") || undefined,
+    maxAmount: formData.get("maxAmount") || undefined,
+    paymentMethod: formData.get("paymentMethod") || undefined,
+  })
+
+  if (!validatedFields.success) {
+    return { error: "Invalid fields - " + validatedFields.error.issues.map(i => i.message).join(", ") }
+  }
+
+  const { bookId, categoryId, name, priority, isActive, minAmount, maxAmount } = validatedFields.data
+  const conditions = {
+    descriptionContains: validatedFields.data.descriptionContains || null,
+    descriptionPattern: validatedFields.data.descriptionPattern || null,
+    minAmount,
+    maxAmount,
+    paymentMethod: validatedFields.data.paymentMethod || null,
+  }
+
+  if (!hasRuleCondition(conditions)) {
+    return { error: "A rule needs at least one condition" }
+  }
+
+  if (isNaN(priority)) {
+    return { error: "Priority must be a whole number" }
+  }
+
+  if ((minAmount !== null && (isNaN(minAmount) || minAmount < 0)) || (maxAmount !== null && (isNaN(maxAmount) || maxAmount < 0))) {
+    return { error: "Amounts must be zero or more" }
+  }
+
+  if (minAmount !== null && maxAmount !== null && minAmount > maxAmount) {
+    return { error: "The minimum amount must not be above the maximum" }
+  }
+
+  if (conditions.descriptionPattern) {
+    const patternError = getRulePatternError(conditions.descriptionPattern)
+    if (patternError) {
+      return { error: patternError }
+    }
+  }
+
+  const tags = Array.from(
+    new Set(
+      formData
+        .getAll("tags")
+        .filter((entry): entry is string => typeof entry === "string")
+        .map(normalizeTagName)
+        .filter((tag) => tag.length > 0)
+    )
+  )
+
+  if (tags.length > MAX_TAGS_PER_EXPENSE) {
+    return { error: `A rule can add at most ${MAX_TAGS_PER_EXPENSE} tags` }
+  }
+
+  const prisma = getPrismaClient()
+
+  // Verify user can edit the book
+  const book = await prisma.book.findUnique({
+    where: { id: bookId },
+  })
+
+  if (!book || !(await canAccessBook(session.user.id, book, "edit"))) {
+    return { error: "Book not found or access denied" }
+  }
+
+  if (book.isArchived) {
+    return { error: "Cannot change rules of archived books" }
+  }
+
+  const category = await prisma.category.findUnique({
+    where: { id: categoryId },
+  })
+
+  if (!category || category.bookId !== bookId) {
+    return { error: "Category not found in this book" }
+  }
+
+  const data = {
+    name,
+    priority,
+    isActive,
+    ...conditions,
+    minAmount: minAmount === null ? null : roundMoney(minAmount, book.currency),
+    maxAmount: maxAmount === null ? null : roundMoney(maxAmount, book.currency),
+    tags,
+    categoryId,
+  }
+
+  const id = formData.get("id")
+
+  try {
+    if (typeof id === "string" && id) {
+      const updated = await prisma.categoryRule.updateMany({
+        where: { id, bookId },
+        data,
+      })
+
+      if (updated.count === 0) {
+        return { error: "Rule not found" }
+      }
+    } else {
+      await prisma.categoryRule.create({
+        data: { ...data, bookId },
+      })
+    }
+
+    revalidatePath(`/books/${bookId}/rules`)
+    return { success: true }
+  } catch (error) {
+    console.error("Category rule save error:", error)
+    return { error: "Failed to save rule" }
+  }
+}
+
+export async function deleteCategoryRule(id: string) {
+  const session = await getAuthSessionEdge()
+  if (!session?.user?.id) {
+    return { error: "Unauthorized - Please log in first" }
+  }
+
+  const prisma = getPrismaClient()
+
+  const rule = await prisma.categoryRule.findUnique({
+    where: { id },
+    include: { book: true },
+  })
+
+  if (!rule || !(await canAccessBook(session.user.id, rule.book, "edit"))) {
+    return { error: "Rule not found or access denied" }
+  }
+
+  try {
+    await prisma.categoryRule.delete({
+      where: { id },
+    })
+
+    revalidatePath(`/books/${rule.bookId}/rules`)
+    return { success: true }
+  } catch (error) {
+    console.error("Category rule delete error:", error)
+    return { error: "Failed to delete rule" }
+  }
+}
+
+/**
+ * Suggest a category for an expense being entered: the first matching rule of the book
+ * (of any book the user can add to when `bookId` is left out), otherwise the category
+ * most often used for past expenses with the same description, or failing that one
+ * starting with the same word. `amount` is in `currency`; amount conditions only
+ * apply in books kept in that currency.
+ */
+export async function suggestExpenseCategory(input: {
+  bookId?: string
+  description?: string
+  amount?: number
+  currency?: string
+  paymentMethod?: string
+}) {
+  const session = await getAuthSessionEdge()
+  if (!session?.user?.id) {
+    return { error: "Unauthorized - Please log in first" }
+  }
+
+  const prisma = getPrismaClient()
+  const description = input.description?.trim() || ""
+
+  try {
+    const books = await prisma.book.findMany({
+      where: {
+        AND: [{ isArchived: false }, input.bookId ? { id: input.bookId } : {}, bookAccessWhere(session.user.id, "add")],
+      },
+      select: { id: true, name: true, currency: true },
+      orderBy: { name: "asc" },
+    })
+
+    for (const book of books) {
+      const sameCurrency = !input.currency || input.currency.toUpperCase() === book.currency
+      const rule = findMatchingRule(await loadCategoryRules(prisma, book.id), {
+        description,
+        amount: sameCurrency ? input.amount : null,
+        paymentMethod: input.paymentMethod,
+      })
+
+      if (rule) {
+        const category = await prisma.category.findUnique({
+          where: { id: rule.categoryId },
+          select: { name: true },
+        })
+
+        return {
+          suggestion: {
+            categoryId: rule.categoryId,
+            categoryName: category?.name ?? "",
+            bookId: book.id,
+            bookName: book.name,
+            source: "rule" as const,
+            ruleName: rule.name,
+            tags: getRuleTagNames(rule),
+          },
+        }
+      }
+    }
+
+    if (!description || books.length === 0) {
+      return { suggestion: null }
+    }
+
+    // The same description first, then ones starting with the same word
+    const firstWord = description.split(/\s+/)[0]
+    const descriptionFilters: Prisma.StringNullableFilter[] = [{ equals: description }]
+    if (firstWord.length >= 3 && firstWord !== description) {
+      descriptionFilters.push({ startsWith: firstWord })
+    }
+
+    for (const descriptionFilter of descriptionFilters) {
+      const past = await prisma.expense.findMany({
+        where: {
+          description: descriptionFilter,
+          category: { bookId: { in: books.map((book) => book.id) }, isDisabled: false },
+        },
+        select: { categoryId: true },
+        orderBy: { date: "desc" },
+        take: HISTORY_SAMPLE_SIZE,
+      })
+
+      if (past.length === 0) continue
+
+      const counts = new Map<string, number>()
+      for (const expense of past) {
+        counts.set(expense.categoryId, (counts.get(expense.categoryId) || 0) + 1)
+      }
+      // Most used first; ties go to the most recently used
+      const [categoryId] = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0]
+
+      const category = await prisma.category.findUnique({
+        where: { id: categoryId },
+        include: { book: { select: { id: true, name: true } } },
+      })
+
+      if (!category?.book) continue
+
+      return {
+        suggestion: {
+          categoryId,
+          categoryName: category.name,
+          bookId: category.book.id,
+          bookName: category.book.name,
+          source: "history" as const,
+          ruleName: null,
+          tags: [] as string[],
+        },
+      }
+    }
+
+    return { suggestion: null }
+  } catch (error) {
+    console.error("Category suggestion error:", error)
+    return { error: "Failed to suggest a category" }
+  }
+}
@@ -0,0 +1,177 @@
+"use server"
+
+import type { Prisma } from "@prisma/client"
+import { getAuthSessionEdge } from "@/lib/auth"
+import { getPrismaClient } from "@/lib/prisma"
+import { bookAccessWhere } from "@/lib/book-access"
+import type { ChatThreadSummary } from "@/lib/ai/threads"
+import { z } from "zod"
+
+// Threads the list shows at most; search to find older ones
+const THREAD_LIST_LIMIT = 50
+
+const threadSchema = z.object({
+  title: z.string().trim().min(1, "Title is required").max(100, "Title must be 100 characters or less"),
+  // Null removes the book scope
+  bookId: z.string().min(1).nullable(),
+  isPinned: z.boolean(),
+})
+
+// A book the user may scope a thread to
+async function canScopeToBook(userId: string, bookId: string) {
+  const prisma = getPrismaClient()
+  const book = await prisma.book.findFirst({
+    where: { AND: [{ id: bookId, isArchived: false }, bookAccessWhere(userId)] },
+    select: { id: true },
+  })
+  return !!book
+}
+
+/**
+ * The user's threads, pinned first and then most recently used. `search` matches the
+ * title or the text of any message in the thread.
+ */
+export async function getChatThreads(search?: string) {
+  const session = await getAuthSessionEdge()
+  if (!session?.user?.id) {
+    return { error: "Unauthorized - Please log in first" }
+  }
+
+  const prisma = getPrismaClient()
+  const term = search?.trim()
+
+  try {
+    const where: Prisma.ChatThreadWhereInput = { userId: session.user.id }
+    if (term) {
+      where.OR = [{ title: { contains: term } }, { messages: { some: { content: { contains: term } } } }]
+    }
+
+    const threads = await prisma.chatThread.findMany({
+      where,
+      include: {
+        book: { select: { id: true, name: true } },
+        _count: { select: { messages: true } },
+      },
+      orderBy: [{ isPinned: "desc" }, { updatedAt: "desc" }],
+      take: THREAD_LIST_LIMIT,
+    })
+
+    const summaries: ChatThreadSummary[] = threads.map((thread) => ({
+      id: thread.id,
+      title: thread.title,
+      isPinned: thread.isPinned,
+      updatedAt: thread.updatedAt,
+      book: thread.book,
+      messageCount: thread._count.messages,
+    }))
+
+    return { threads: summaries }
+  } catch (error) {
+    console.error("Chat threads fetch error:", error)
+    return { error: "Failed to fetch conversations" }
+  }
+}
+
+export async function createChatThread(input: { title?: string; bookId?: string | null }) {
+  const session = await getAuthSessionEdge()
+  if (!session?.user?.id) {
+    return { error: "Unauthorized - Please log in first" }
+  }
+
+  const validatedFields = threadSchema
+    .pick({ title: true, bookId: true })
+    .safeParse({ title: input.title || "New conversation", bookId: input.bookId || null })
+
+  if (!validatedFields.success) {
+    return { error: validatedFields.error.issues[0].message }
+  }
+
+  const { title, bookId } = validatedFields.data
+
+  if (bookId && !(await canScopeToBook(session.user.id, bookId))) {
+    return { error: "Book not found or access denied" }
+  }
+
+  const prisma = getPrismaClient()
+
+  try {
+    const thread = await prisma.chatThread.create({
+      data: { title, bookId, userId: session.user.id },
+    })
+
+    return { success: true, threadId: thread.id }
+  } catch (error) {
+    console.error("Chat thread creation error:", error)
+    return { error: "Failed to create conversation" }
+  }
+}
+
+// Rename, pin or unpin a thread, or change the book it is scoped to
+export async function updateChatThread(
+  id: string,
+  input: { title?: string; bookId?: string | null; isPinned?: boolean }
+) {
+  const session = await getAuthSessionEdge()
+  if (!session?.user?.id) {
+    return { error: "Unauthorized - Please log in first" }
+  }
+
+  const validatedFields = threadSchema.partial().safeParse(input)
+
+  if (!validatedFields.success) {
+    return { error: validatedFields.error.issues[0].message }
+  }
+
+  const data = validatedFields.data
+  const prisma = getPrismaClient()
+
+  const thread = await prisma.chatThread.findFirst({
+    where: { id, userId: session.user.id },
+  })
+
+  if (!thread) {
+    return { error: "Conversation not found" }
+  }
+
+  if (data.bookId && data.bookId !== thread.bookId && !(await canScopeToBook(session.user.id, data.bookId))) {
+    return { error: "Book not found or access denied" }
+  }
+
+  try {
+    // Keeps its place in the list: only new messages count as activity
+    await prisma.chatThread.update({
+      where: { id },
+      data: { ...data, updatedAt: thread.updatedAt },
+    })
+
+    return { success: true }
+  } catch (error) {
+    console.error("Chat thread update error:", error)
+    return { error: "Failed to update conversation" }
+  }
+}
+
+// Delete a thread and its messages. Changes applied from it stay in the audit log.
+export async function deleteChatThread(id: string) {
+  const session = await getAuthSessionEdge()
+  if (!session?.user?.id) {
+    return { error: "Unauthorized - Please log in first" }
+  }
+
+  const prisma = getPrismaClient()
+
+  try {
+    const deleted = await prisma.chatThread.deleteMany({
+      where: { id, userId: session.user.id },
+    })
+
+    if (deleted.count === 0) {
+      return { error: "Conversation not found" }
+    }
+
+    return { success: true }
+  } catch (error) {
+    console.error("Chat thread deletion error:", error)
+    return { error: "Failed to delete conversation" }
+  }
+}
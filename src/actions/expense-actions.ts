@@ -1,17 +1,85 @@
 "use server"
 
+import type { Prisma } from "@prisma/client"
 import { getAuthSessionEdge } from "@/lib/auth"
 import { getPrismaClient } from "@/lib/prisma"
+import { bookAccessWhere, canAccessBook } from "@/lib/book-access"
+import { getOverspendWarning } from "@/lib/budgets"
+import { getReceiptFiles, validateReceiptFiles } from "@/lib/attachments"
+import { storeReceipts, removeStoredFiles } from "@/lib/receipt-storage"
+import { getTagNames, MAX_TAGS_PER_EXPENSE } from "@/lib/tags"
+import { findMatchingRule, getRuleTagNames, loadCategoryRules } from "@/lib/category-rules"
+import { expenseSchema, isFutureDate, resolveExpenseAmount, validateNewExpense } from "@/lib/expense-validation"
+import { getSplitUpdate } from "@/lib/split-updates"
+import {
+  currencyConversionSchema,
+  getConversionCurrencies,
+  getMovedAmountFields,
+  type CurrencyConversion,
+} from "@/lib/expense-moves"
+import { recordAudit, type AuditEvent } from "@/lib/audit"
+import { getAuditContext } from "@/lib/audit-source"
 import { revalidatePath } from "next/cache"
-import { z } from "zod"
 
-const expenseSchema = z.object({
-  amount: z.string().min(1, "Amount is required").transform((val) => parseFloat(val)),
-  date: z.string().min(1, "Date is required").transform((val) => new Date(val)),
-  description: z.string().optional(),
-  paymentMethod: z.string().optional(),
-  categoryId: z.string().min(1, "Category is required"),
-})
+// Most expenses one bulk move may change
+const MAX_MOVED_EXPENSES = 500
+
+// Find or create tags by name and return their ids. Tags belong to the owner of the
+// expense's book, so members of a shared book all use the owner's tags.
+async function resolveTagIds(userId: string, names: string[]) {
+  if (names.length === 0) return []
+
+  const prisma = getPrismaClient()
+
+  await prisma.tag.createMany({
+    data: names.map((name) => ({ name, userId })),
+    skipDuplicates: true,
+  })
+
+  const tags = await prisma.tag.findMany({
+    where: { userId, name: { in: names } },
+    select: { id: true },
+  })
+
+  return tags
+}
+
+// The category the book's rules pick for an expense submitted without one
+async function pickCategoryByRules(userId: string, bookId: string, formData: FormData) {
+  const prisma = getPrismaClient()
+
+  const book = await prisma.book.findFirst({
+    where: { AND: [{ id: bookId, isArchived: false }, bookAccessWhere(userId, "add")] },
+  })
+
+  if (!book) {
+    return { error: "Book not found or access denied" }
+  }
+
+  // Rules compare amounts in the book currency
+  const currency = formData.get("currency")
+  const amountResult = await resolveExpenseAmount(
+    parseFloat(String(formData.get("amount"))),
+    typeof currency === "string" && currency ? currency : undefined,
+    book.currency,
+    new Date(String(formData.get("date")))
+  )
+  if ("error" in amountResult) {
+    return { error: amountResult.error }
+  }
+
+  const rule = findMatchingRule(await loadCategoryRules(prisma, book.id), {
+    description: formData.get("description")?.toString(),
+    amount: amountResult.fields.amount,
+    paymentMethod: formData.get("paymentMethod")?.toString(),
+  })
+
+  if (!rule) {
+    return { error: "No categorisation rule matches this expense - choose a category" }
+  }
+
+  return { categoryId: rule.categoryId }
+}
 
 export async function createExpense(formData: FormData) {
   const session = await getAuthSessionEdge()
@@ -30,73 +98,118 @@ export async function createExpense(formData: FormData) {
     return { error: "User not found in database" }
   }
 
+  // Without a category, the rules of the book the expense is for pick one
+  let categoryId = formData.get("categoryId")
+  const bookId = formData.get("bookId")
+  if (!categoryId && typeof bookId === "string" && bookId) {
+    const picked = await pickCategoryByRules(session.user.id, bookId, formData)
+    if ("error" in picked) {
+      return { error: picked.error }
+    }
+    categoryId = picked.categoryId
+  }
+
   const validatedFields = expenseSchema.safeParse({
     amount: formData.get("amount"),
     date: formData.get("date"),
     description: formData.get("description"),
     paymentMethod: formData.get("paymentMethod"),
-    categoryId: formData.get("categoryId"),
+    categoryId,
+    currency: formData.get("currency") || undefined,
   })
 
   if (!validatedFields.success) {
     return { error: "Invalid fields", issues: validatedFields.error.issues }
   }
 
-  // Verify user owns the category
-  const category = await prisma.category.findUnique({
-    where: { id: validatedFields.data.categoryId },
-    include: { book: true },
-  })
-
-  if (!category) {
-    return { error: "Category not found" }
-  }
+  const validation = await validateNewExpense(session.user.id, validatedFields.data)
 
-  // Default categories don't have books, so they can't be used for expenses
-  if (!category.book) {
-    return { error: "Invalid category selected" }
+  if ("error" in validation) {
+    return { error: validation.error }
   }
 
-  if (category.book.userId !== session.user.id) {
-    return { error: "Category not found or access denied" }
-  }
+  const { category } = validation
 
-  if (category.book.isArchived) {
-    return { error: "Cannot create expenses for archived books" }
+  const amountResult = await resolveExpenseAmount(
+    validatedFields.data.amount,
+    validatedFields.data.currency,
+    category.book.currency,
+    validatedFields.data.date
+  )
+  if ("error" in amountResult) {
+    return { error: amountResult.error }
   }
 
-  // Validate amount is positive
-  if (validatedFields.data.amount <= 0) {
-    return { error: "Amount must be positive" }
+  const receipts = getReceiptFiles(formData)
+  const receiptError = validateReceiptFiles(receipts)
+  if (receiptError) {
+    return { error: receiptError }
   }
 
-  // Validate date is not in the future
-  const today = new Date()
-  const expenseDate = new Date(validatedFields.data.date)
-  
-  // Compare only the date part (year, month, day) to avoid timezone issues
-  const todayDateOnly = new Date(today.getFullYear(), today.getMonth(), today.getDate())
-  const expenseDateOnly = new Date(expenseDate.getFullYear(), expenseDate.getMonth(), expenseDate.getDate())
-  
-  if (expenseDateOnly > todayDateOnly) {
-    return { error: "Expense date cannot be in the future" }
+  const tagNames = getTagNames(formData)
+  if (tagNames.length > MAX_TAGS_PER_EXPENSE) {
+    return { error: `An expense can have at most ${MAX_TAGS_PER_EXPENSE} tags` }
   }
 
   try {
-    await prisma.expense.create({
-      data: {
-        amount: validatedFields.data.amount,
-        date: validatedFields.data.date,
-        description: validatedFields.data.description,
-        paymentMethod: validatedFields.data.paymentMethod,
-        categoryId: validatedFields.data.categoryId,
-      },
+    // A matching rule for the chosen category adds its tags, as far as the limit allows
+    const rule = findMatchingRule(await loadCategoryRules(prisma, category.bookId!), {
+      description: validatedFields.data.description,
+      amount: amountResult.fields.amount,
+      paymentMethod: validatedFields.data.paymentMethod,
     })
+    if (rule && rule.categoryId === validatedFields.data.categoryId) {
+      for (const name of getRuleTagNames(rule)) {
+        if (tagNames.length < MAX_TAGS_PER_EXPENSE && !tagNames.includes(name)) tagNames.push(name)
+      }
+    }
+
+    const tags = await resolveTagIds(category.book.userId, tagNames)
+
+    const expense = await prisma.$transaction(async (tx) => {
+      const created = await tx.expense.create({
+        data: {
+          ...amountResult.fields,
+          date: validatedFields.data.date,
+          description: validatedFields.data.description,
+          paymentMethod: validatedFields.data.paymentMethod,
+          categoryId: validatedFields.data.categoryId,
+          tags: { connect: tags },
+        },
+      })
+
+      await recordAudit(tx, getAuditContext(session.user.id), [
+        { action: "create", entityType: "expense", entityId: created.id, bookId: category.bookId!, before: null, after: created },
+      ])
+
+      return created
+    })
+
+    if (receipts.length > 0) {
+      try {
+        await storeReceipts(expense.id, receipts)
+      } catch (error) {
+        // Don't leave an expense behind without the receipts the user attached; its
+        // history keeps the creation and records the removal
+        await prisma.$transaction(async (tx) => {
+          await tx.expense.delete({ where: { id: expense.id } })
+
+          await recordAudit(tx, getAuditContext(session.user.id), [
+            { action: "delete", entityType: "expense", entityId: expense.id, bookId: category.bookId!, before: expense, after: null },
+          ])
+        })
+        throw error
+      }
+    }
+
+    // Warn (but don't block) when this expense pushes a budget over its limit
+    const warning = await getOverspendWarning(validatedFields.data.categoryId, validatedFields.data.date, amountResult.fields.amount)
 
     revalidatePath("/expenses")
     revalidatePath(`/books/${category.bookId}`)
     revalidatePath(`/categories`)
-    return { success: true }
+    revalidatePath("/dashboard")
+    return { success: true, warning }
   } catch (error) {
     console.error("Expense creation error:", error)
     return { error: "Failed to create expense" }
@@ -123,7 +236,8 @@ export async function getExpenses(categoryId?: string, bookId?: string) {
   try {
     const expenses = await prisma.expense.findMany({
       where: {
-        ...(categoryId ? { categoryId } : {}),
+        // A category's expenses include those of its sub-categories
+        ...(categoryId ? { OR: [{ categoryId }, { category: { parentId: categoryId } }] } : {}),
         ...(bookId
           ? {
               category: {
@@ -135,7 +249,7 @@ export async function getExpenses(categoryId?: string, bookId?: string) {
         category: {
           isDisabled: false,
           book: {
-            userId: session.user.id,
+            ...bookAccessWhere(session.user.id),
             isArchived: false,
           },
         },
@@ -144,8 +258,15 @@ export async function getExpenses(categoryId?: string, bookId?: string) {
         category: {
           include: {
             book: true,
+            parent: { select: { name: true, icon: true } },
           },
         },
+        attachments: {
+          orderBy: { createdAt: "asc" },
+        },
+        tags: {
+          orderBy: { name: "asc" },
+        },
       },
       orderBy: { date: "desc" },
     })
@@ -172,6 +293,7 @@ export async function deleteExpense(id: string) {
           book: true,
         },
       },
+      attachments: true,
     },
   })
 
@@ -184,7 +306,7 @@ export async function deleteExpense(id: string) {
     return { error: "Invalid expense - category has no associated book" }
   }
 
-  if (expense.category.book.userId !== session.user.id) {
+  if (!(await canAccessBook(session.user.id, expense.category.book, "edit"))) {
     return { error: "Access denied" }
   }
 
@@ -193,10 +315,18 @@ export async function deleteExpense(id: string) {
   }
 
   try {
-    await prisma.expense.delete({
-      where: { id },
+    await prisma.$transaction(async (tx) => {
+      await tx.expense.delete({
+        where: { id },
+      })
+
+      await recordAudit(tx, getAuditContext(session.user.id), [
+        { action: "delete", entityType: "expense", entityId: id, bookId: expense.category.book!.id, before: expense, after: null },
+      ])
     })
 
+    await removeStoredFiles(expense.attachments.map((attachment) => attachment.storageKey))
+
     revalidatePath("/expenses")
     revalidatePath(`/books/${expense.category.bookId}`)
     return { success: true }
@@ -221,10 +351,19 @@ export async function getExpenseById(id: string) {
             book: true,
           },
         },
+        attachments: {
+          orderBy: { createdAt: "asc" },
+        },
+        tags: {
+          orderBy: { name: "asc" },
+        },
+        splits: {
+          orderBy: { id: "asc" },
+        },
       },
     })
 
-    if (!expense || !expense.category.book || expense.category.book.userId !== session.user.id) {
+    if (!expense || !expense.category.book || !(await canAccessBook(session.user.id, expense.category.book, "view"))) {
       return { error: "Expense not found" }
     }
 
@@ -276,7 +415,7 @@ export async function updateExpense(id: string, formData: FormData) {
     return { error: "Invalid expense - category has no associated book" }
   }
 
-  if (existingExpense.category.book.userId !== session.user.id) {
+  if (!(await canAccessBook(session.user.id, existingExpense.category.book, "edit"))) {
     return { error: "Access denied" }
   }
 
@@ -294,26 +433,35 @@ export async function updateExpense(id: string, formData: FormData) {
     description: formData.get("description"),
     paymentMethod: formData.get("paymentMethod"),
     categoryId: formData.get("categoryId"),
+    currency: formData.get("currency") || undefined,
   })
 
   if (!validatedFields.success) {
     return { error: "Invalid fields", issues: validatedFields.error.issues }
   }
 
-  // Verify user owns the new category if changing
+  let bookCurrency = existingExpense.category.book.currency
+  let bookId = existingExpense.category.book.id
+  let bookOwnerId = existingExpense.category.book.userId
+
+  // Verify the user may edit the new category's book if changing
   if (validatedFields.data.categoryId !== existingExpense.categoryId) {
     const newCategory = await prisma.category.findUnique({
       where: { id: validatedFields.data.categoryId },
       include: { book: true },
     })
 
-    if (!newCategory || !newCategory.book || newCategory.book.userId !== session.user.id) {
+    if (!newCategory || !newCategory.book || !(await canAccessBook(session.user.id, newCategory.book, "edit"))) {
       return { error: "Category not found or access denied" }
     }
 
     if (newCategory.book.isArchived) {
       return { error: "Cannot move expenses to archived books" }
     }
+
+    bookCurrency = newCategory.book.currency
+    bookId = newCategory.book.id
+    bookOwnerId = newCategory.book.userId
   }
 
   // Validate amount is positive
@@ -322,34 +470,82 @@ export async function updateExpense(id: string, formData: FormData) {
   }
 
   // Validate date is not in the future
-  const today = new Date()
-  const expenseDate = new Date(validatedFields.data.date)
-  
-  // Compare only the date part (year, month, day) to avoid timezone issues
-  const todayDateOnly = new Date(today.getFullYear(), today.getMonth(), today.getDate())
-  const expenseDateOnly = new Date(expenseDate.getFullYear(), expenseDate.getMonth(), expenseDate.getDate())
-  
-  if (expenseDateOnly > todayDateOnly) {
+  if (isFutureDate(validatedFields.data.date)) {
     return { error: "Expense date cannot be in the future" }
   }
 
+  const amountResult = await resolveExpenseAmount(
+    validatedFields.data.amount,
+    validatedFields.data.currency,
+    bookCurrency,
+    validatedFields.data.date
+  )
+  if ("error" in amountResult) {
+    return { error: amountResult.error }
+  }
+
+  const receipts = getReceiptFiles(formData)
+  const receiptError = validateReceiptFiles(receipts)
+  if (receiptError) {
+    return { error: receiptError }
+  }
+
+  const tagNames = getTagNames(formData)
+  if (tagNames.length > MAX_TAGS_PER_EXPENSE) {
+    return { error: `An expense can have at most ${MAX_TAGS_PER_EXPENSE} tags` }
+  }
+
   try {
-    await prisma.expense.update({
-      where: { id },
-      data: {
-        amount: validatedFields.data.amount,
-        date: validatedFields.data.date,
-        description: validatedFields.data.description,
-        paymentMethod: validatedFields.data.paymentMethod,
-        categoryId: validatedFields.data.categoryId,
-      },
+    const tags = await resolveTagIds(bookOwnerId, tagNames)
+    const splitUpdate = await getSplitUpdate(
+      existingExpense,
+      amountResult.fields.amount,
+      bookCurrency,
+      bookId !== existingExpense.category.book.id
+    )
+
+    await prisma.$transaction(async (tx) => {
+      const updated = await tx.expense.update({
+        where: { id },
+        data: {
+          ...amountResult.fields,
+          ...splitUpdate,
+          date: validatedFields.data.date,
+          description: validatedFields.data.description,
+          paymentMethod: validatedFields.data.paymentMethod,
+          categoryId: validatedFields.data.categoryId,
+          tags: { set: tags },
+        },
+      })
+
+      await recordAudit(tx, getAuditContext(session.user.id), [
+        { action: "update", entityType: "expense", entityId: id, bookId, before: existingExpense, after: updated },
+      ])
     })
 
+    if (receipts.length > 0) {
+      await storeReceipts(id, receipts)
+    }
+
+    // Warn (but don't block) when this change pushes a budget over its limit
+    const warning = await getOverspendWarning(
+      validatedFields.data.categoryId,
+      validatedFields.data.date,
+      amountResult.fields.amount,
+      {
+        categoryId: existingExpense.categoryId,
+        bookId: existingExpense.category.book.id,
+        date: existingExpense.date,
+        amount: existingExpense.amount,
+      }
+    )
+
     revalidatePath("/expenses")
     revalidatePath(`/books/${existingExpense.category.bookId}`)
     revalidatePath(`/categories`)
     revalidatePath(`/expenses/edit/${id}`)
-    return { success: true }
+    revalidatePath("/dashboard")
+    return { success: true, warning }
   } catch (error) {
     console.error("Expense update error:", error)
     return { error: "Failed to update expense" }
@@ -393,7 +589,7 @@ export async function disableExpense(id: string) {
     return { error: "Invalid expense - category has no associated book" }
   }
 
-  if (expense.category.book.userId !== session.user.id) {
+  if (!(await canAccessBook(session.user.id, expense.category.book, "edit"))) {
     return { error: "Access denied" }
   }
 
@@ -402,9 +598,15 @@ export async function disableExpense(id: string) {
   }
 
   try {
-    await prisma.expense.update({
-      where: { id },
-      data: { isDisabled: true },
+    await prisma.$transaction(async (tx) => {
+      const updated = await tx.expense.update({
+        where: { id },
+        data: { isDisabled: true },
+      })
+
+      await recordAudit(tx, getAuditContext(session.user.id), [
+        { action: "disable", entityType: "expense", entityId: id, bookId: expense.category.bookId!, before: expense, after: updated },
+      ])
     })
 
     revalidatePath("/expenses")
@@ -453,7 +655,7 @@ export async function restoreExpense(id: string) {
     return { error: "Invalid expense - category has no associated book" }
   }
 
-  if (expense.category.book.userId !== session.user.id) {
+  if (!(await canAccessBook(session.user.id, expense.category.book, "edit"))) {
     return { error: "Access denied" }
   }
 
@@ -462,9 +664,15 @@ export async function restoreExpense(id: string) {
   }
 
   try {
-    await prisma.expense.update({
-      where: { id },
-      data: { isDisabled: false },
+    await prisma.$transaction(async (tx) => {
+      const updated = await tx.expense.update({
+        where: { id },
+        data: { isDisabled: false },
+      })
+
+      await recordAudit(tx, getAuditContext(session.user.id), [
+        { action: "restore", entityType: "expense", entityId: id, bookId: expense.category.bookId!, before: expense, after: updated },
+      ])
     })
 
     revalidatePath("/expenses")
@@ -501,6 +709,7 @@ export async function permanentDeleteExpense(id: string) {
           book: true,
         },
       },
+      attachments: true,
     },
   })
 
@@ -513,15 +722,23 @@ export async function permanentDeleteExpense(id: string) {
     return { error: "Invalid expense - category has no associated book" }
   }
 
-  if (expense.category.book.userId !== session.user.id) {
+  if (!(await canAccessBook(session.user.id, expense.category.book, "edit"))) {
     return { error: "Access denied" }
   }
 
   try {
-    await prisma.expense.delete({
-      where: { id },
+    await prisma.$transaction(async (tx) => {
+      await tx.expense.delete({
+        where: { id },
+      })
+
+      await recordAudit(tx, getAuditContext(session.user.id), [
+        { action: "delete", entityType: "expense", entityId: id, bookId: expense.category.book!.id, before: expense, after: null },
+      ])
     })
 
+    await removeStoredFiles(expense.attachments.map((attachment) => attachment.storageKey))
+
     revalidatePath("/expenses")
     revalidatePath(`/books/${expense.category.bookId}`)
     return { success: true }
@@ -529,4 +746,125 @@ export async function permanentDeleteExpense(id: string) {
     console.error("Expense permanent delete error:", error)
     return { error: "Failed to permanently delete expense" }
   }
+}
+
+/**
+ * Move expenses to category `categoryId`, which may be in another book, in one
+ * transaction with a history entry per expense. When the new book is kept in another
+ * currency than some of the expenses' books, nothing moves until `conversion` says how
+ * to convert: the result's `conversionRequired` lists the currencies to ask about.
+ * Split expenses moving to another book lose their split, as participants belong to a book.
+ */
+export async function moveExpenses(expenseIds: string[], categoryId: string, conversion?: CurrencyConversion) {
+  const session = await getAuthSessionEdge()
+  if (!session?.user?.id) {
+    return { error: "Unauthorized - Please log in first" }
+  }
+
+  const ids = Array.from(new Set(expenseIds))
+  if (ids.length === 0) {
+    return { error: "Select at least one expense to move" }
+  }
+
+  if (ids.length > MAX_MOVED_EXPENSES) {
+    return { error: `At most ${MAX_MOVED_EXPENSES} expenses can be moved at once` }
+  }
+
+  const parsedConversion = conversion ? currencyConversionSchema.safeParse(conversion) : null
+  if (parsedConversion && !parsedConversion.success) {
+    return { error: "Invalid currency conversion" }
+  }
+
+  const prisma = getPrismaClient()
+
+  const category = await prisma.category.findUnique({
+    where: { id: categoryId },
+    include: { book: true },
+  })
+
+  if (!category || !category.book || !(await canAccessBook(session.user.id, category.book, "edit"))) {
+    return { error: "Category not found or access denied" }
+  }
+
+  if (category.book.isArchived) {
+    return { error: "Cannot move expenses to archived books" }
+  }
+
+  if (category.isDisabled) {
+    return { error: "Cannot move expenses to a disabled category" }
+  }
+
+  const expenses = await prisma.expense.findMany({
+    where: { id: { in: ids } },
+    include: { category: { include: { book: true } } },
+  })
+
+  if (expenses.length !== ids.length) {
+    return { error: "Some of the selected expenses were not found" }
+  }
+
+  // Verify the user may edit every book the expenses move out of
+  const sourceBooks = new Map(expenses.map((expense) => [expense.category.bookId, expense.category.book]))
+  for (const book of Array.from(sourceBooks.values())) {
+    if (!book || !(await canAccessBook(session.user.id, book, "edit"))) {
+      return { error: "Access denied" }
+    }
+    if (book.isArchived) {
+      return { error: "Cannot move expenses from archived books" }
+    }
+  }
+
+  const toCurrency = category.book.currency
+  const conversionCurrencies = getConversionCurrencies(
+    expenses.map((expense) => expense.category.book!.currency),
+    toCurrency
+  )
+
+  if (conversionCurrencies.length > 0 && !parsedConversion) {
+    return { conversionRequired: { from: conversionCurrencies, to: toCurrency } }
+  }
+
+  // Work out every change before writing, so a missing exchange rate moves nothing
+  const moves: { expense: (typeof expenses)[number]; data: Prisma.ExpenseUncheckedUpdateInput }[] = []
+  for (const expense of expenses) {
+    if (expense.categoryId === categoryId) continue
+
+    const fromCurrency = expense.category.book!.currency
+    const amountResult = await getMovedAmountFields(expense, fromCurrency, toCurrency, parsedConversion?.data ?? { mode: "daily" })
+    if ("error" in amountResult) {
+      return { error: amountResult.error }
+    }
+
+    const movedToOtherBook = expense.category.bookId !== category.bookId
+    const splitUpdate = movedToOtherBook ? await getSplitUpdate(expense, expense.amount, toCurrency, true) : {}
+
+    moves.push({ expense, data: { ...amountResult.fields, ...splitUpdate, categoryId } })
+  }
+
+  try {
+    await prisma.$transaction(async (tx) => {
+      const events: AuditEvent[] = []
+
+      for (const { expense, data } of moves) {
+        const updated = await tx.expense.update({
+          where: { id: expense.id },
+          data,
+        })
+
+        events.push({ action: "update", entityType: "expense", entityId: expense.id, bookId: category.book!.id, before: expense, after: updated })
+      }
+
+      await recordAudit(tx, getAuditContext(session.user.id), events)
+    }, { timeout: 120000 }) // Each expense gets its own converted amount, so a full move is up to MAX_MOVED_EXPENSES updates
+
+    revalidatePath("/expenses")
+    revalidatePath("/categories")
+    revalidatePath(`/books/${category.bookId}`)
+    sourceBooks.forEach((_, bookId) => revalidatePath(`/books/${bookId}`))
+    revalidatePath("/dashboard")
+    return { success: true, moved: moves.length }
+  } catch (error) {
+    console.error("Expense move error:", error)
+    return { error: "Failed to move expenses" }
+  }
 }
\ No newline at end of file
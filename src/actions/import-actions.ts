@@ -0,0 +1,213 @@
+"use server"
+
+import { getAuthSessionEdge } from "@/lib/auth"
+import { getPrismaClient } from "@/lib/prisma"
+import { canAccessBook } from "@/lib/book-access"
+import { buildImportPreview } from "@/lib/import/preview"
+import { IMPORT_DATE_FORMATS, MAX_IMPORT_ROWS, type ImportOptions, type RawImportRow } from "@/lib/import/rows"
+import { recordAudit } from "@/lib/audit"
+import { revalidatePath } from "next/cache"
+import { randomUUID } from "crypto"
+import { z } from "zod"
+
+const rawRowSchema = z.object({
+  amount: z.string(),
+  date: z.string(),
+  description: z.string().optional(),
+  paymentMethod: z.string().optional(),
+  category: z.string().optional(),
+  externalId: z.string().max(191).optional(),
+})
+
+const importSchema = z.object({
+  rows: z.array(rawRowSchema).min(1, "The file has no rows").max(MAX_IMPORT_ROWS, `Import at most ${MAX_IMPORT_ROWS} rows at a time`),
+  options: z.object({
+    dateFormat: z.enum(IMPORT_DATE_FORMATS),
+    negativeIsExpense: z.boolean(),
+    defaultCategoryId: z.string().optional(),
+    defaultPaymentMethod: z.string().optional(),
+    statementAccountId: z.string().max(191).optional(),
+  }),
+})
+
+class ImportConflictError extends Error {}
+
+// Shared session, book and payload checks for preview and commit
+async function authorizeImport(bookId: string, rows: RawImportRow[], options: ImportOptions) {
+  const session = await getAuthSessionEdge()
+  if (!session?.user?.id) {
+    return { error: "Unauthorized - Please log in first" }
+  }
+
+  const validatedFields = importSchema.safeParse({ rows, options })
+  if (!validatedFields.success) {
+    return { error: validatedFields.error.issues[0]?.message || "Invalid import data" }
+  }
+
+  const prisma = getPrismaClient()
+  const book = await prisma.book.findUnique({
+    where: { id: bookId },
+  })
+
+  if (!book || !(await canAccessBook(session.user.id, book, "edit"))) {
+    return { error: "Book not found or access denied" }
+  }
+
+  if (book.isArchived) {
+    return { error: "Cannot import expenses into archived books" }
+  }
+
+  return { book, data: validatedFields.data, userId: session.user.id }
+}
+
+export async function previewExpenseImport(bookId: string, rows: RawImportRow[], options: ImportOptions) {
+  const auth = await authorizeImport(bookId, rows, options)
+  if ("error" in auth) {
+    return { error: auth.error }
+  }
+
+  try {
+    const preview = await buildImportPreview(bookId, auth.data.rows, auth.data.options)
+
+    // Warn when this statement's account was previously imported into another book
+    let accountWarning: string | null = null
+    const statementAccountId = auth.data.options.statementAccountId
+    if (statementAccountId) {
+      const prisma = getPrismaClient()
+      const linkedAccount = await prisma.bankAccount.findUnique({
+        where: { userId_accountId: { userId: auth.book.userId, accountId: statementAccountId } },
+        include: { book: true },
+      })
+      if (linkedAccount && linkedAccount.bookId !== bookId) {
+        accountWarning = `Account ${statementAccountId} was previously imported into "${linkedAccount.book.name}"`
+      }
+    }
+
+    return { preview, accountWarning }
+  } catch (error) {
+    console.error("Import preview error:", error)
+    return { error: "Failed to preview import" }
+  }
+}
+
+/**
+ * Create expenses for the selected rows in a single transaction.
+ * Rows are validated again here; if any selected row is invalid nothing is imported.
+ */
+export async function commitExpenseImport(
+  bookId: string,
+  rows: RawImportRow[],
+  options: ImportOptions,
+  selectedIndexes: number[]
+) {
+  const auth = await authorizeImport(bookId, rows, options)
+  if ("error" in auth) {
+    return { error: auth.error }
+  }
+
+  const prisma = getPrismaClient()
+
+  try {
+    const preview = await buildImportPreview(bookId, auth.data.rows, auth.data.options)
+    const selected = new Set(selectedIndexes)
+    const toImport = preview.filter((row) => selected.has(row.index))
+
+    if (toImport.length === 0) {
+      return { error: "No rows selected for import" }
+    }
+
+    const invalid = toImport.find((row) => row.skipReason || row.errors.length > 0)
+    if (invalid) {
+      return { error: `Row ${invalid.index + 1} cannot be imported: ${invalid.skipReason || invalid.errors[0]}` }
+    }
+
+    const statementAccountId = auth.data.options.statementAccountId
+
+    const result = await prisma.$transaction(async (tx) => {
+      // Re-check transaction IDs inside the transaction in case of a concurrent import
+      const externalIds = toImport.map((row) => row.externalId).filter((id): id is string => !!id)
+      if (externalIds.length > 0) {
+        const alreadyImported = await tx.expense.count({
+          where: { category: { bookId }, externalId: { in: externalIds } },
+        })
+        if (alreadyImported > 0) {
+          throw new ImportConflictError()
+        }
+      }
+
+      // Ids are generated here so each expense's creation can be written to the audit log
+      const data = toImport.map((row) => ({
+        id: randomUUID(),
+        amount: row.amount!,
+        date: row.date!,
+        description: row.description,
+        paymentMethod: row.paymentMethod,
+        categoryId: row.categoryId!,
+        externalId: row.externalId,
+        isDisabled: false,
+      }))
+
+      const created = await tx.expense.createMany({ data })
+
+      // Tags added by categorisation rules, owned by the book owner like all of the book's tags
+      const tagNames = Array.from(new Set(toImport.flatMap((row) => row.tags)))
+      if (tagNames.length > 0) {
+        await tx.tag.createMany({
+          data: tagNames.map((name) => ({ name, userId: auth.book.userId })),
+          skipDuplicates: true,
+        })
+        const tags = await tx.tag.findMany({
+          where: { userId: auth.book.userId, name: { in: tagNames } },
+          select: { id: true, name: true },
+        })
+        const tagIds = new Map(tags.map((tag) => [tag.name, tag.id]))
+
+        for (let i = 0; i < toImport.length; i++) {
+          const row = toImport[i]
+          if (row.tags.length === 0) continue
+          await tx.expense.update({
+            where: { id: data[i].id },
+            data: { tags: { connect: row.tags.map((name) => ({ id: tagIds.get(name)! })) } },
+          })
+        }
+      }
+
+      await recordAudit(
+        tx,
+        { actorId: auth.userId, source: "import" },
+        data.map((expense) => ({
+          action: "create" as const,
+          entityType: "expense" as const,
+          entityId: expense.id,
+          bookId,
+          before: null,
+          after: expense,
+        }))
+      )
+
+      // Remember which book this statement account imports into
+      if (statementAccountId) {
+        await tx.bankAccount.upsert({
+          where: { userId_accountId: { userId: auth.book.userId, accountId: statementAccountId } },
+          update: { bookId },
+          create: { userId: auth.book.userId, accountId: statementAccountId, bookId },
+        })
+      }
+
+      return created
+    }, { maxWait: 10000, timeout: 120000 }) // Up to MAX_IMPORT_ROWS expenses, each with its own tag links
+
+    revalidatePath("/expenses")
+    revalidatePath(`/books/${bookId}`)
+    revalidatePath(`/books/${bookId}/reports`)
+    revalidatePath("/categories")
+    revalidatePath("/dashboard")
+    return { success: true, imported: result.count }
+  } catch (error) {
+    if (error instanceof ImportConflictError) {
+      return { error: "Some of these transactions were imported in the meantime. Preview the import again." }
+    }
+    console.error("Import commit error:", error)
+    return { error: "Failed to import expenses" }
+  }
+}
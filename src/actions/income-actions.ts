@@ -0,0 +1,139 @@
+"use server"
+
+import { getAuthSessionEdge } from "@/lib/auth"
+import { getPrismaClient } from "@/lib/prisma"
+import { bookAccessWhere, canAccessBook } from "@/lib/book-access"
+import { isFutureDate } from "@/lib/expense-validation"
+import { roundMoney } from "@/lib/money"
+import { revalidatePath } from "next/cache"
+import { z } from "zod"
+
+const incomeSchema = z.object({
+  amount: z.string().min(1, "Amount is required").transform((val) => parseFloat(val)),
+  date: z.string().min(1, "Date is required").transform((val) => new Date(val)),
+  description: z.string().optional(),
+  source: z.string().optional(),
+  paymentMethod: z.string().optional(),
+  bookId: z.string().min(1, "Book is required"),
+})
+
+export async function createIncome(formData: FormData) {
+  const session = await getAuthSessionEdge()
+  if (!session?.user?.id) {
+    return { error: "Unauthorized - Please log in first" }
+  }
+
+  const validatedFields = incomeSchema.safeParse({
+    amount: formData.get("amount"),
+    date: formData.get("date"),
+    description: formData.get("description") || undefined,
+    source: formData.get("source") || undefined,
+    paymentMethod: formData.get("paymentMethod") || undefined,
+    bookId: formData.get("bookId"),
+  })
+
+  if (!validatedFields.success) {
+    return { error: "Invalid fields", issues: validatedFields.error.issues }
+  }
+
+  const prisma = getPrismaClient()
+
+  const book = await prisma.book.findUnique({
+    where: { id: validatedFields.data.bookId },
+  })
+
+  if (!book || !(await canAccessBook(session.user.id, book, "edit"))) {
+    return { error: "Book not found or access denied" }
+  }
+
+  if (book.isArchived) {
+    return { error: "Cannot add income to archived books" }
+  }
+
+  if (isNaN(validatedFields.data.amount) || validatedFields.data.amount <= 0) {
+    return { error: "Amount must be positive" }
+  }
+
+  if (isFutureDate(validatedFields.data.date)) {
+    return { error: "Income date cannot be in the future" }
+  }
+
+  try {
+    await prisma.income.create({
+      data: {
+        ...validatedFields.data,
+        amount: roundMoney(validatedFields.data.amount, book.currency),
+      },
+    })
+
+    revalidatePath(`/books/${book.id}`)
+    revalidatePath(`/books/${book.id}/reports`)
+    return { success: true }
+  } catch (error) {
+    console.error("Income creation error:", error)
+    return { error: "Failed to create income" }
+  }
+}
+
+export async function getIncomes(bookId: string) {
+  const session = await getAuthSessionEdge()
+  if (!session?.user?.id) {
+    return { error: "Unauthorized - Please log in first" }
+  }
+
+  const prisma = getPrismaClient()
+
+  try {
+    const incomes = await prisma.income.findMany({
+      where: {
+        bookId,
+        book: bookAccessWhere(session.user.id),
+      },
+      orderBy: { date: "desc" },
+    })
+
+    return { incomes }
+  } catch (error) {
+    console.error("Incomes fetch error:", error)
+    return { error: "Failed to fetch incomes" }
+  }
+}
+
+export async function deleteIncome(id: string) {
+  const session = await getAuthSessionEdge()
+  if (!session?.user?.id) {
+    return { error: "Unauthorized - Please log in first" }
+  }
+
+  const prisma = getPrismaClient()
+
+  const income = await prisma.income.findUnique({
+    where: { id },
+    include: { book: true },
+  })
+
+  if (!income) {
+    return { error: "Income not found" }
+  }
+
+  if (!(await canAccessBook(session.user.id, income.book, "edit"))) {
+    return { error: "Access denied" }
+  }
+
+  if (income.book.isArchived) {
+    return { error: "Cannot delete income from archived books" }
+  }
+
+  try {
+    await prisma.income.delete({
+      where: { id },
+    })
+
+    revalidatePath(`/books/${income.bookId}`)
+    revalidatePath(`/books/${income.bookId}/reports`)
+    return { success: true }
+  } catch (error) {
+    console.error("Income delete error:", error)
+    return { error: "Failed to delete income" }
+  }
+}
@@ -2,4 +2,20 @@
 export * from './book-actions'
 export * from './category-actions'
 export * from './expense-actions'
-export * from './report-actions'
\ No newline at end of file
+export * from './report-actions'
+export * from './budget-actions'
+export * from './recurring-expense-actions'
+export * from './income-actions'
+export * from './transfer-actions'
+export * from './attachment-actions'
+export * from './tag-actions'
+export * from './import-actions'
+export * from './backup-actions'
+export * from './user-actions'
+export * from './book-sharing-actions'
+export * from './split-actions'
+export * from './audit-actions'
+export * from './ai-change-actions'
+export * from './chat-thread-actions'
+export * from './category-rule-actions'
+export * from './book-template-actions'
\ No newline at end of file
@@ -0,0 +1,383 @@
+"use server"
+
+import { getAuthSessionEdge } from "@/lib/auth"
+import { getPrismaClient } from "@/lib/prisma"
+import { bookAccessWhere, canAccessBook } from "@/lib/book-access"
+import { roundMoney } from "@/lib/money"
+import {
+  RECURRING_FREQUENCIES,
+  computeNextRunDate,
+  getFirstRunOnOrAfter,
+  processDueRecurringExpenses,
+} from "@/lib/scheduler"
+import { revalidatePath } from "next/cache"
+import { z } from "zod"
+
+const recurringExpenseSchema = z.object({
+  amount: z.string().min(1, "Amount is required").transform((val) => parseFloat(val)),
+  description: z.string().optional(),
+  paymentMethod: z.string().optional(),
+  categoryId: z.string().min(1, "Category is required"),
+  frequency: z.enum(RECURRING_FREQUENCIES),
+  interval: z.string().optional().transform((val) => (val ? parseInt(val, 10) : 1)),
+  startDate: z.string().min(1, "Start date is required").transform((val) => new Date(val)),
+  endDate: z.string().optional().transform((val) => (val ? new Date(val) : null)),
+  maxOccurrences: z.string().optional().transform((val) => (val ? parseInt(val, 10) : null)),
+})
+
+function parseRecurringExpenseForm(formData: FormData) {
+  return recurringExpenseSchema.safeParse({
+    amount: formData.get("amount"),
+    description: formData.get("description") || undefined,
+    paymentMethod: formData.get("paymentMethod") || undefined,
+    categoryId: formData.get("categoryId"),
+    frequency: formData.get("frequency"),
+    interval: formData.get("interval") || undefined,
+    startDate: formData.get("startDate"),
+    endDate: formData.get("endDate") || undefined,
+    maxOccurrences: formData.get("maxOccurrences") || undefined,
+  })
+}
+
+// Where a series starting on `startDate` begins: at the start date when the user asked to
+// create the runs already past (catchUp in the form), otherwise at the first run from today
+function getFirstRunDate(data: z.infer<typeof recurringExpenseSchema>, formData: FormData) {
+  if (formData.get("catchUp") === "true") {
+    return data.startDate
+  }
+  return getFirstRunOnOrAfter({ ...data, nextRunDate: data.startDate }, new Date())
+}
+
+function validateSchedule(data: z.infer<typeof recurringExpenseSchema>) {
+  if (isNaN(data.amount) || data.amount <= 0) {
+    return "Amount must be positive"
+  }
+
+  if (isNaN(data.interval) || data.interval < 1) {
+    return "Repeat interval must be at least 1"
+  }
+
+  if (data.endDate && data.endDate < data.startDate) {
+    return "End date must be after the start date"
+  }
+
+  if (data.maxOccurrences !== null && (isNaN(data.maxOccurrences) || data.maxOccurrences < 1)) {
+    return "Number of occurrences must be at least 1"
+  }
+
+  return null
+}
+
+// Load a template and verify the current user can edit its book
+async function getOwnedRecurringExpense(id: string, userId: string) {
+  const prisma = getPrismaClient()
+
+  const recurringExpense = await prisma.recurringExpense.findUnique({
+    where: { id },
+    include: {
+      category: {
+        include: { book: true },
+      },
+    },
+  })
+
+  if (
+    !recurringExpense ||
+    !recurringExpense.category.book ||
+    !(await canAccessBook(userId, recurringExpense.category.book, "edit"))
+  ) {
+    return null
+  }
+
+  return recurringExpense
+}
+
+async function getOwnedCategory(categoryId: string, userId: string) {
+  const prisma = getPrismaClient()
+
+  const category = await prisma.category.findUnique({
+    where: { id: categoryId },
+    include: { book: true },
+  })
+
+  if (!category || !category.book || !(await canAccessBook(userId, category.book, "edit"))) {
+    return { error: "Category not found or access denied" }
+  }
+
+  if (category.book.isArchived) {
+    return { error: "Cannot schedule expenses for archived books" }
+  }
+
+  return { category: { ...category, book: category.book } }
+}
+
+export async function createRecurringExpense(formData: FormData) {
+  const session = await getAuthSessionEdge()
+  if (!session?.user?.id) {
+    return { error: "Unauthorized - Please log in first" }
+  }
+
+  const validatedFields = parseRecurringExpenseForm(formData)
+
+  if (!validatedFields.success) {
+    return { error: "Invalid fields", issues: validatedFields.error.issues }
+  }
+
+  const scheduleError = validateSchedule(validatedFields.data)
+  if (scheduleError) {
+    return { error: scheduleError }
+  }
+
+  const categoryResult = await getOwnedCategory(validatedFields.data.categoryId, session.user.id)
+  if ("error" in categoryResult) {
+    return { error: categoryResult.error }
+  }
+
+  const prisma = getPrismaClient()
+
+  try {
+    const recurringExpense = await prisma.recurringExpense.create({
+      data: {
+        ...validatedFields.data,
+        amount: roundMoney(validatedFields.data.amount, categoryResult.category.book.currency),
+        nextRunDate: getFirstRunDate(validatedFields.data, formData),
+      },
+    })
+
+    // Materialise runs that are already due (e.g. a series starting today)
+    await processDueRecurringExpenses(new Date(), recurringExpense.id)
+
+    revalidatePath("/expenses")
+    revalidatePath("/expenses/recurring")
+    revalidatePath(`/books/${categoryResult.category.bookId}`)
+    return { success: true }
+  } catch (error) {
+    console.error("Recurring expense creation error:", error)
+    return { error: "Failed to create recurring expense" }
+  }
+}
+
+export async function getRecurringExpenses(bookId?: string) {
+  const session = await getAuthSessionEdge()
+  if (!session?.user?.id) {
+    return { error: "Unauthorized - Please log in first" }
+  }
+
+  const prisma = getPrismaClient()
+
+  try {
+    const recurringExpenses = await prisma.recurringExpense.findMany({
+      where: {
+        category: {
+          ...(bookId ? { bookId } : {}),
+          book: {
+            ...bookAccessWhere(session.user.id),
+            isArchived: false,
+          },
+        },
+      },
+      include: {
+        category: {
+          include: { book: true, parent: { select: { icon: true } } },
+        },
+        _count: {
+          select: { expenses: true },
+        },
+      },
+      orderBy: [{ isPaused: "asc" }, { nextRunDate: "asc" }],
+    })
+
+    return { recurringExpenses }
+  } catch (error) {
+    console.error("Recurring expenses fetch error:", error)
+    return { error: "Failed to fetch recurring expenses" }
+  }
+}
+
+export async function getRecurringExpenseById(id: string) {
+  const session = await getAuthSessionEdge()
+  if (!session?.user?.id) {
+    return { error: "Unauthorized - Please log in first" }
+  }
+
+  try {
+    const recurringExpense = await getOwnedRecurringExpense(id, session.user.id)
+
+    if (!recurringExpense) {
+      return { error: "Recurring expense not found" }
+    }
+
+    return { recurringExpense }
+  } catch (error) {
+    console.error("Recurring expense fetch error:", error)
+    return { error: "Failed to fetch recurring expense" }
+  }
+}
+
+export async function updateRecurringExpense(id: string, formData: FormData) {
+  const session = await getAuthSessionEdge()
+  if (!session?.user?.id) {
+    return { error: "Unauthorized - Please log in first" }
+  }
+
+  const existing = await getOwnedRecurringExpense(id, session.user.id)
+  if (!existing) {
+    return { error: "Recurring expense not found" }
+  }
+
+  const validatedFields = parseRecurringExpenseForm(formData)
+
+  if (!validatedFields.success) {
+    return { error: "Invalid fields", issues: validatedFields.error.issues }
+  }
+
+  const scheduleError = validateSchedule(validatedFields.data)
+  if (scheduleError) {
+    return { error: scheduleError }
+  }
+
+  let currency = existing.category.book!.currency
+
+  if (validatedFields.data.categoryId !== existing.categoryId) {
+    const categoryResult = await getOwnedCategory(validatedFields.data.categoryId, session.user.id)
+    if ("error" in categoryResult) {
+      return { error: categoryResult.error }
+    }
+    currency = categoryResult.category.book.currency
+  }
+
+  // Changing the schedule before the first run restarts it from the new start date
+  const scheduleChanged =
+    validatedFields.data.startDate.getTime() !== existing.startDate.getTime() ||
+    validatedFields.data.frequency !== existing.frequency ||
+    validatedFields.data.interval !== existing.interval
+  const nextRunDate =
+    scheduleChanged && existing.occurrenceCount === 0
+      ? getFirstRunDate(validatedFields.data, formData)
+      : existing.nextRunDate
+
+  const prisma = getPrismaClient()
+
+  try {
+    await prisma.recurringExpense.update({
+      where: { id },
+      data: {
+        ...validatedFields.data,
+        amount: roundMoney(validatedFields.data.amount, currency),
+        nextRunDate,
+      },
+    })
+
+    revalidatePath("/expenses/recurring")
+    revalidatePath(`/expenses/recurring/edit/${id}`)
+    return { success: true }
+  } catch (error) {
+    console.error("Recurring expense update error:", error)
+    return { error: "Failed to update recurring expense" }
+  }
+}
+
+export async function pauseRecurringExpense(id: string) {
+  return setRecurringExpensePaused(id, true)
+}
+
+// Resuming skips the runs missed while paused unless `catchUp` asks to create them
+export async function resumeRecurringExpense(id: string, catchUp: boolean = false) {
+  return setRecurringExpensePaused(id, false, catchUp)
+}
+
+async function setRecurringExpensePaused(id: string, isPaused: boolean, catchUp: boolean = false) {
+  const session = await getAuthSessionEdge()
+  if (!session?.user?.id) {
+    return { error: "Unauthorized - Please log in first" }
+  }
+
+  const existing = await getOwnedRecurringExpense(id, session.user.id)
+  if (!existing) {
+    return { error: "Recurring expense not found" }
+  }
+
+  const prisma = getPrismaClient()
+
+  try {
+    await prisma.recurringExpense.update({
+      where: { id },
+      data: {
+        isPaused,
+        ...(!isPaused && !catchUp ? { nextRunDate: getFirstRunOnOrAfter(existing, new Date()) } : {}),
+      },
+    })
+
+    if (!isPaused) {
+      await processDueRecurringExpenses(new Date(), id)
+    }
+
+    revalidatePath("/expenses")
+    revalidatePath("/expenses/recurring")
+    return { success: true }
+  } catch (error) {
+    console.error("Recurring expense pause error:", error)
+    return { error: isPaused ? "Failed to pause recurring expense" : "Failed to resume recurring expense" }
+  }
+}
+
+export async function skipNextRecurringExpense(id: string) {
+  const session = await getAuthSessionEdge()
+  if (!session?.user?.id) {
+    return { error: "Unauthorized - Please log in first" }
+  }
+
+  const existing = await getOwnedRecurringExpense(id, session.user.id)
+  if (!existing) {
+    return { error: "Recurring expense not found" }
+  }
+
+  const prisma = getPrismaClient()
+
+  try {
+    const nextRunDate = computeNextRunDate(
+      existing.nextRunDate,
+      existing.frequency,
+      existing.interval,
+      existing.startDate.getDate()
+    )
+
+    await prisma.recurringExpense.update({
+      where: { id },
+      data: { nextRunDate },
+    })
+
+    revalidatePath("/expenses/recurring")
+    return { success: true, nextRunDate }
+  } catch (error) {
+    console.error("Recurring expense skip error:", error)
+    return { error: "Failed to skip the next run" }
+  }
+}
+
+export async function deleteRecurringExpense(id: string) {
+  const session = await getAuthSessionEdge()
+  if (!session?.user?.id) {
+    return { error: "Unauthorized - Please log in first" }
+  }
+
+  const existing = await getOwnedRecurringExpense(id, session.user.id)
+  if (!existing) {
+    return { error: "Recurring expense not found" }
+  }
+
+  const prisma = getPrismaClient()
+
+  try {
+    // Expenses already generated by the series are kept
+    await prisma.recurringExpense.delete({
+      where: { id },
+    })
+
+    revalidatePath("/expenses/recurring")
+    return { success: true }
+  } catch (error) {
+    console.error("Recurring expense delete error:", error)
+    return { error: "Failed to delete recurring expense" }
+  }
+}
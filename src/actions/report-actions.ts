@@ -2,7 +2,36 @@
 
 import { getAuthSessionEdge } from "@/lib/auth"
 import { getPrismaClient } from "@/lib/prisma"
+import { bookAccessWhere } from "@/lib/book-access"
 import { getMonthKey } from "@/lib/utils"
+import { getBudgetStatuses } from "@/lib/budgets"
+import { addMoney, subtractMoney, sumMoney } from "@/lib/money"
+import { ExchangeRateError, createCurrencyConverter } from "@/lib/exchange-rates/service"
+import { getRollUpCategoryId } from "@/lib/category-tree"
+
+// A category's total and number of expenses in a breakdown
+interface CategoryTotal {
+  total: number
+  count: number
+}
+
+// Currency of a single book's report, or the user's reporting currency when
+// reporting across books (amounts are converted at each entry's date)
+async function getReportCurrency(userId: string, bookId?: string) {
+  const prisma = getPrismaClient()
+  if (bookId) {
+    const book = await prisma.book.findFirst({
+      where: { id: bookId, ...bookAccessWhere(userId) },
+      select: { currency: true },
+    })
+    if (book) return book.currency
+  }
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { reportingCurrency: true },
+  })
+  return user?.reportingCurrency || "USD"
+}
 
 export async function getMonthlySummary(bookId?: string) {
   const session = await getAuthSessionEdge()
@@ -24,12 +53,12 @@ export async function getMonthlySummary(bookId?: string) {
   try {
     const expenses = await prisma.expense.findMany({
       where: {
-        ...(bookId ? { category: { bookId } } : {}),
         isDisabled: false,
         category: {
+          ...(bookId ? { bookId } : {}),
           isDisabled: false,
           book: {
-            userId: session.user.id,
+            ...bookAccessWhere(session.user.id),
             isArchived: false,
           },
         },
@@ -44,34 +73,106 @@ export async function getMonthlySummary(bookId?: string) {
       orderBy: { date: "desc" },
     })
 
+    const incomes = await prisma.income.findMany({
+      where: {
+        ...(bookId ? { bookId } : {}),
+        book: {
+          ...bookAccessWhere(session.user.id),
+          isArchived: false,
+        },
+      },
+      include: { book: true },
+    })
+
+    // Transfers only move money between books, so they cancel out across all
+    // books and are only counted for a single book
+    const transfers = bookId
+      ? await prisma.transfer.findMany({
+          where: {
+            OR: [
+              { fromBookId: bookId, fromBook: bookAccessWhere(session.user.id) },
+              { toBookId: bookId, toBook: bookAccessWhere(session.user.id) },
+            ],
+          },
+        })
+      : []
+
     // Group by month
-    const monthlyData = expenses.reduce((acc, expense) => {
-      const monthKey = getMonthKey(expense.date)
-      if (!acc[monthKey]) {
-        acc[monthKey] = {
+    type MonthData = {
+      total: number
+      count: number
+      expenses: typeof expenses
+      income: number
+      transfersIn: number
+      transfersOut: number
+    }
+    const monthlyData: Record<string, MonthData> = {}
+    const getMonth = (date: Date) => {
+      const monthKey = getMonthKey(date)
+      if (!monthlyData[monthKey]) {
+        monthlyData[monthKey] = {
           total: 0,
           count: 0,
           expenses: [],
+          income: 0,
+          transfersIn: 0,
+          transfersOut: 0,
         }
       }
-      acc[monthKey].total += expense.amount
-      acc[monthKey].count += 1
-      acc[monthKey].expenses.push(expense)
-      return acc
-    }, {} as Record<string, { total: number; count: number; expenses: typeof expenses }>)
+      return monthlyData[monthKey]
+    }
+
+    const currency = await getReportCurrency(session.user.id, bookId)
+    const convert = createCurrencyConverter(currency)
+
+    for (const expense of expenses) {
+      const month = getMonth(expense.date)
+      const amount = await convert(expense.amount, expense.category.book!.currency, expense.date)
+      month.total = addMoney(month.total, amount)
+      month.count += 1
+      month.expenses.push(expense)
+    }
+
+    for (const income of incomes) {
+      const month = getMonth(income.date)
+      const amount = await convert(income.amount, income.book.currency, income.date)
+      month.income = addMoney(month.income, amount)
+    }
+
+    transfers.forEach((transfer) => {
+      const month = getMonth(transfer.date)
+      if (transfer.toBookId === bookId) {
+        month.transfersIn = addMoney(month.transfersIn, transfer.toAmount)
+      } else {
+        month.transfersOut = addMoney(month.transfersOut, transfer.amount)
+      }
+    })
 
     // Convert to array and sort by date
     const summary = Object.entries(monthlyData)
-      .map(([month, data]) => ({
-        month,
-        total: data.total,
-        count: data.count,
-        expenses: data.expenses,
-      }))
+      .map(([month, data]) => {
+        const inflow = addMoney(data.income, data.transfersIn)
+        const outflow = addMoney(data.total, data.transfersOut)
+        return {
+          month,
+          total: data.total,
+          count: data.count,
+          expenses: data.expenses,
+          income: data.income,
+          transfersIn: data.transfersIn,
+          transfersOut: data.transfersOut,
+          inflow,
+          outflow,
+          net: subtractMoney(inflow, outflow),
+        }
+      })
       .sort((a, b) => b.month.localeCompare(a.month))
 
-    return { summary }
+    return { summary, currency }
   } catch (error) {
+    if (error instanceof ExchangeRateError) {
+      return { error: error.message }
+    }
     console.error("Monthly summary error:", error)
     return { error: "Failed to fetch monthly summary" }
   }
@@ -100,7 +201,7 @@ export async function getCategoryBreakdown(bookId?: string) {
         ...(bookId ? { bookId } : {}),
         isDisabled: false,
         book: {
-          userId: session.user.id,
+          ...bookAccessWhere(session.user.id),
           isArchived: false,
         },
       },
@@ -111,38 +212,56 @@ export async function getCategoryBreakdown(bookId?: string) {
           },
         },
         book: true,
+        parent: { select: { name: true } },
       },
     })
 
-    // Group by case-insensitive category name
+    // Group by case-insensitive name of the top-level category; sub-categories roll up
+    // into their parent and are broken down by name within it
     const categoryMap = new Map<string, any>()
 
-    categories.forEach((category) => {
+    const currency = await getReportCurrency(session.user.id, bookId)
+    const convert = createCurrencyConverter(currency)
+
+    for (const category of categories) {
       const expenses = category.expenses
-      const total = expenses.reduce((sum, exp) => sum + exp.amount, 0)
+      const amounts = await Promise.all(
+        expenses.map((exp) => convert(exp.amount, category.book!.currency, exp.date))
+      )
+      const total = sumMoney(amounts)
       const count = expenses.length
 
       if (total > 0) {
-        const normalizedName = category.name.toLowerCase()
+        const topName = category.parent?.name || category.name
+        const normalizedName = topName.toLowerCase()
 
         if (!categoryMap.has(normalizedName)) {
           categoryMap.set(normalizedName, {
-            category: category.name, // Use first occurrence's name
+            category: topName, // Use first occurrence's name
             categoryId: normalizedName, // Use normalized name as ID for grouping
             total: 0,
             count: 0,
             books: new Set(),
+            children: new Map<string, CategoryTotal & { category: string }>(),
           })
         }
 
         const entry = categoryMap.get(normalizedName)
-        entry.total += total
+        entry.total = addMoney(entry.total, total)
         entry.count += count
         if (category.book) {
           entry.books.add(category.book.name)
         }
+
+        if (category.parent) {
+          const childKey = category.name.toLowerCase()
+          const child = entry.children.get(childKey) || { category: category.name, total: 0, count: 0 }
+          child.total = addMoney(child.total, total)
+          child.count += count
+          entry.children.set(childKey, child)
+        }
       }
-    })
+    }
 
     // Convert to array and format
     const breakdown = Array.from(categoryMap.values())
@@ -152,11 +271,17 @@ export async function getCategoryBreakdown(bookId?: string) {
         total: entry.total,
         count: entry.count,
         book: Array.from(entry.books).join(", "), // Show all books that have this category
+        children: (Array.from(entry.children.values()) as (CategoryTotal & { category: string })[]).sort(
+          (a, b) => b.total - a.total
+        ),
       }))
       .sort((a, b) => b.total - a.total)
 
-    return { breakdown }
+    return { breakdown, currency }
   } catch (error) {
+    if (error instanceof ExchangeRateError) {
+      return { error: error.message }
+    }
     console.error("Category breakdown error:", error)
     return { error: "Failed to fetch category breakdown" }
   }
@@ -180,8 +305,8 @@ export async function getBookSummary(bookId: string) {
   }
 
   try {
-    const book = await prisma.book.findUnique({
-      where: { id: bookId, userId: session.user.id, isArchived: false },
+    const book = await prisma.book.findFirst({
+      where: { id: bookId, ...bookAccessWhere(session.user.id), isArchived: false },
       include: {
         categories: {
           where: {
@@ -195,6 +320,9 @@ export async function getBookSummary(bookId: string) {
             },
           },
         },
+        incomes: true,
+        transfersIn: true,
+        transfersOut: true,
       },
     })
 
@@ -202,10 +330,7 @@ export async function getBookSummary(bookId: string) {
       return { error: "Book not found" }
     }
 
-    const totalExpenses = book.categories.reduce(
-      (sum, cat) => sum + cat.expenses.reduce((catSum, exp) => catSum + exp.amount, 0),
-      0
-    )
+    const totalExpenses = sumMoney(book.categories.flatMap((cat) => cat.expenses.map((exp) => exp.amount)))
 
     const totalCategories = book.categories.length
     const totalTransactions = book.categories.reduce(
@@ -213,6 +338,15 @@ export async function getBookSummary(bookId: string) {
       0
     )
 
+    const budgets = await getBudgetStatuses([book.id])
+
+    // Cash flow: income and incoming transfers against expenses and outgoing transfers
+    const totalIncome = sumMoney(book.incomes.map((income) => income.amount))
+    const totalTransfersIn = sumMoney(book.transfersIn.map((transfer) => transfer.toAmount))
+    const totalTransfersOut = sumMoney(book.transfersOut.map((transfer) => transfer.amount))
+    const totalInflow = addMoney(totalIncome, totalTransfersIn)
+    const totalOutflow = addMoney(totalExpenses, totalTransfersOut)
+
     return {
       summary: {
         bookName: book.name,
@@ -220,6 +354,13 @@ export async function getBookSummary(bookId: string) {
         totalCategories,
         totalTransactions,
         currency: book.currency,
+        budgets,
+        totalIncome,
+        totalTransfersIn,
+        totalTransfersOut,
+        totalInflow,
+        totalOutflow,
+        netBalance: subtractMoney(totalInflow, totalOutflow),
       },
     }
   } catch (error) {
@@ -233,6 +374,7 @@ export async function getDetailedReport(filters: {
   startDate?: string
   endDate?: string
   categories?: string[]
+  tags?: string[]
 }) {
   const session = await getAuthSessionEdge()
   if (!session?.user?.id) {
@@ -257,7 +399,7 @@ export async function getDetailedReport(filters: {
       category: {
         isDisabled: false,
         book: {
-          userId: session.user.id,
+          ...bookAccessWhere(session.user.id),
           isArchived: false,
         },
       },
@@ -277,10 +419,21 @@ export async function getDetailedReport(filters: {
       }
     }
 
-    // Apply categories filter (multiple categories)
+    // Apply categories filter (multiple categories); a category includes its sub-categories
     if (filters.categories && filters.categories.length > 0) {
-      whereClause.category.id = {
-        in: filters.categories,
+      whereClause.category.OR = [
+        { id: { in: filters.categories } },
+        { parentId: { in: filters.categories } },
+      ]
+    }
+
+    // Apply tags filter (expenses carrying any of the selected tags). The expenses are
+    // already limited to a book the user can see, whoever's tags they carry.
+    if (filters.tags && filters.tags.length > 0) {
+      whereClause.tags = {
+        some: {
+          id: { in: filters.tags },
+        },
       }
     }
 
@@ -291,40 +444,81 @@ export async function getDetailedReport(filters: {
         category: {
           include: {
             book: true,
+            parent: { select: { id: true, name: true, icon: true } },
           },
         },
+        tags: {
+          orderBy: { name: "asc" },
+        },
       },
       orderBy: { date: "desc" },
     })
 
     // Calculate totals
-    const totalAmount = expenses.reduce((sum, exp) => sum + exp.amount, 0)
+    const totalAmount = sumMoney(expenses.map((exp) => exp.amount))
     const currency = expenses.length > 0 && expenses[0].category.book ? expenses[0].category.book.currency : "USD"
 
-    // Group by category for breakdown
-    const categoryMap = new Map<string, any>()
+    // Group by top-level category for breakdown: sub-category expenses roll up into
+    // their parent, with a per-sub-category total for drilling down
+    type SubCategoryTotal = CategoryTotal & { id: string; name: string }
+    const categoryMap = new Map<string, SubCategoryTotal & { expenses: typeof expenses; children: Map<string, SubCategoryTotal> }>()
 
     expenses.forEach((exp) => {
-      const categoryName = exp.category.name
-      if (!categoryMap.has(categoryName)) {
-        categoryMap.set(categoryName, {
-          name: exp.category.name,
+      const categoryId = getRollUpCategoryId(exp.category)
+      if (!categoryMap.has(categoryId)) {
+        categoryMap.set(categoryId, {
+          id: categoryId,
+          name: exp.category.parent?.name || exp.category.name,
           total: 0,
           count: 0,
           expenses: [],
+          children: new Map(),
         })
       }
-      const cat = categoryMap.get(categoryName)
-      cat.total += exp.amount
+      const cat = categoryMap.get(categoryId)!
+      cat.total = addMoney(cat.total, exp.amount)
       cat.count += 1
       cat.expenses.push(exp)
+
+      if (exp.category.parentId) {
+        const child = cat.children.get(exp.category.id) || { id: exp.category.id, name: exp.category.name, total: 0, count: 0 }
+        child.total = addMoney(child.total, exp.amount)
+        child.count += 1
+        cat.children.set(exp.category.id, child)
+      }
+    })
+
+    // Group by tag - an expense with several tags counts towards each of them,
+    // so tag totals can add up to more than totalAmount
+    const tagMap = new Map<string, { id: string; name: string; total: number; count: number }>()
+    let untaggedTotal = 0
+    let untaggedCount = 0
+
+    expenses.forEach((exp) => {
+      if (exp.tags.length === 0) {
+        untaggedTotal = addMoney(untaggedTotal, exp.amount)
+        untaggedCount += 1
+        return
+      }
+      exp.tags.forEach((tag) => {
+        if (!tagMap.has(tag.id)) {
+          tagMap.set(tag.id, { id: tag.id, name: tag.name, total: 0, count: 0 })
+        }
+        const entry = tagMap.get(tag.id)!
+        entry.total = addMoney(entry.total, exp.amount)
+        entry.count += 1
+      })
     })
 
     return {
       expenses,
       totalAmount,
       currency,
-      categories: Array.from(categoryMap.values()).sort((a, b) => b.total - a.total),
+      categories: Array.from(categoryMap.values())
+        .map((cat) => ({ ...cat, children: Array.from(cat.children.values()).sort((a, b) => b.total - a.total) }))
+        .sort((a, b) => b.total - a.total),
+      tags: Array.from(tagMap.values()).sort((a, b) => b.total - a.total),
+      untagged: { total: untaggedTotal, count: untaggedCount },
     }
   } catch (error) {
     console.error("Detailed report error:", error)
@@ -350,10 +544,10 @@ export async function getDashboardSummary() {
   }
 
   try {
-    // Get all active books for the user
+    // Get all active books for the user, including books shared with them
     const books = await prisma.book.findMany({
       where: {
-        userId: session.user.id,
+        ...bookAccessWhere(session.user.id),
         isArchived: false,
       },
       include: {
@@ -379,10 +573,25 @@ export async function getDashboardSummary() {
       (sum, book) => sum + book.categories.reduce((catSum, cat) => catSum + cat.expenses.length, 0),
       0
     )
-    const totalAmount = books.reduce(
-      (sum, book) => sum + book.categories.reduce((catSum, cat) => catSum + cat.expenses.reduce((expSum, exp) => expSum + exp.amount, 0), 0),
-      0
+    // Books can use different currencies, so amounts are converted into the
+    // user's reporting currency before adding up
+    const currency = user.reportingCurrency
+    const convert = createCurrencyConverter(currency)
+    const bookTotals = await Promise.all(
+      books.map(async (book) => {
+        const expenses = book.categories.flatMap((cat) => cat.expenses)
+        return {
+          bookId: book.id,
+          bookName: book.name,
+          currency: book.currency,
+          total: sumMoney(expenses.map((exp) => exp.amount)),
+          convertedTotal: sumMoney(
+            await Promise.all(expenses.map((exp) => convert(exp.amount, book.currency, exp.date)))
+          ),
+        }
+      })
     )
+    const totalAmount = sumMoney(bookTotals.map((book) => book.convertedTotal))
 
     // Get current month expenses
     const now = new Date()
@@ -399,7 +608,7 @@ export async function getDashboardSummary() {
         category: {
           isDisabled: false,
           book: {
-            userId: session.user.id,
+            ...bookAccessWhere(session.user.id),
             isArchived: false,
           },
         },
@@ -412,10 +621,14 @@ export async function getDashboardSummary() {
         },
       },
       orderBy: { date: "desc" },
-      take: 5, // Recent expenses
     })
 
-    const currentMonthTotal = currentMonthExpenses.reduce((sum, exp) => sum + exp.amount, 0)
+    const currentMonthTotal = sumMoney(
+      await Promise.all(currentMonthExpenses.map((exp) => convert(exp.amount, exp.category.book!.currency, exp.date)))
+    )
+
+    // Budget vs. actual across all active books
+    const budgets = await getBudgetStatuses(books.map((book) => book.id))
 
     return {
       summary: {
@@ -424,10 +637,17 @@ export async function getDashboardSummary() {
         totalExpenses,
         totalAmount,
         currentMonthTotal,
-        recentExpenses: currentMonthExpenses,
+        currency,
+        bookTotals: bookTotals.sort((a, b) => b.convertedTotal - a.convertedTotal),
+        recentExpenses: currentMonthExpenses.slice(0, 5),
+        budgets,
+        overBudgetCount: budgets.filter((budget) => budget.isOverBudget).length,
       },
     }
   } catch (error) {
+    if (error instanceof ExchangeRateError) {
+      return { error: error.message }
+    }
     console.error("Dashboard summary error:", error)
     return { error: "Failed to fetch dashboard summary" }
   }
@@ -0,0 +1,431 @@
+"use server"
+
+import { getAuthSessionEdge } from "@/lib/auth"
+import { getPrismaClient } from "@/lib/prisma"
+import { bookAccessWhere, canAccessBook } from "@/lib/book-access"
+import { isFutureDate } from "@/lib/expense-validation"
+import { roundMoney } from "@/lib/money"
+import { SPLIT_METHODS, SplitError, computeBalances, computeSplitAmounts, suggestSettlements } from "@/lib/splits"
+import { revalidatePath } from "next/cache"
+import { z } from "zod"
+
+const participantSchema = z.object({
+  bookId: z.string().min(1, "Book is required"),
+  name: z.string().trim().min(1, "Name is required").max(100, "Name is too long"),
+})
+
+const expenseSplitSchema = z.object({
+  expenseId: z.string().min(1, "Expense is required"),
+  paidById: z.string().min(1, "Choose who paid"),
+  method: z.enum(SPLIT_METHODS),
+  // JSON list of { participantId, value } from the split editor
+  splits: z.string().transform((val, ctx) => {
+    try {
+      return z
+        .array(z.object({ participantId: z.string().min(1), value: z.number().nullable() }))
+        .parse(JSON.parse(val))
+    } catch (error) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Invalid split participants" })
+      return z.NEVER
+    }
+  }),
+})
+
+const settlementSchema = z.object({
+  bookId: z.string().min(1, "Book is required"),
+  fromId: z.string().min(1, "Choose who paid"),
+  toId: z.string().min(1, "Choose who was paid"),
+  amount: z.string().min(1, "Amount is required").transform((val) => parseFloat(val)),
+  date: z.string().optional().transform((val) => (val ? new Date(val) : new Date())),
+  note: z.string().optional(),
+})
+
+function revalidateBook(bookId: string) {
+  revalidatePath(`/books/${bookId}`)
+}
+
+export async function getParticipants(bookId: string) {
+  const session = await getAuthSessionEdge()
+  if (!session?.user?.id) {
+    return { error: "Unauthorized - Please log in first" }
+  }
+
+  const prisma = getPrismaClient()
+
+  try {
+    const participants = await prisma.participant.findMany({
+      where: {
+        bookId,
+        book: bookAccessWhere(session.user.id),
+      },
+      orderBy: { name: "asc" },
+    })
+
+    return { participants }
+  } catch (error) {
+    console.error("Participants fetch error:", error)
+    return { error: "Failed to fetch participants" }
+  }
+}
+
+export async function createParticipant(formData: FormData) {
+  const session = await getAuthSessionEdge()
+  if (!session?.user?.id) {
+    return { error: "Unauthorized - Please log in first" }
+  }
+
+  const validatedFields = participantSchema.safeParse({
+    bookId: formData.get("bookId"),
+    name: formData.get("name"),
+  })
+
+  if (!validatedFields.success) {
+    return { error: "Invalid fields - " + validatedFields.error.issues.map(i => i.message).join(", ") }
+  }
+
+  const { bookId, name } = validatedFields.data
+  const prisma = getPrismaClient()
+
+  const book = await prisma.book.findUnique({
+    where: { id: bookId },
+  })
+
+  if (!book || !(await canAccessBook(session.user.id, book, "edit"))) {
+    return { error: "Book not found or access denied" }
+  }
+
+  const existing = await prisma.participant.findFirst({
+    where: { bookId, name },
+  })
+
+  if (existing) {
+    return { error: `${name} is already a participant in this book` }
+  }
+
+  try {
+    await prisma.participant.create({
+      data: { bookId, name },
+    })
+
+    revalidateBook(bookId)
+    return { success: true }
+  } catch (error) {
+    console.error("Participant creation error:", error)
+    return { error: "Failed to add participant" }
+  }
+}
+
+export async function deleteParticipant(id: string) {
+  const session = await getAuthSessionEdge()
+  if (!session?.user?.id) {
+    return { error: "Unauthorized - Please log in first" }
+  }
+
+  const prisma = getPrismaClient()
+
+  const participant = await prisma.participant.findUnique({
+    where: { id },
+    include: {
+      book: true,
+      _count: { select: { paidExpenses: true, splits: true, settlementsPaid: true, settlementsReceived: true } },
+    },
+  })
+
+  if (!participant || !(await canAccessBook(session.user.id, participant.book, "edit"))) {
+    return { error: "Participant not found or access denied" }
+  }
+
+  const { paidExpenses, splits, settlementsPaid, settlementsReceived } = participant._count
+  if (paidExpenses + splits + settlementsPaid + settlementsReceived > 0) {
+    return { error: `${participant.name} is part of split expenses or settlements and can't be removed` }
+  }
+
+  try {
+    await prisma.participant.delete({
+      where: { id },
+    })
+
+    revalidateBook(participant.bookId)
+    return { success: true }
+  } catch (error) {
+    console.error("Participant delete error:", error)
+    return { error: "Failed to remove participant" }
+  }
+}
+
+export async function setExpenseSplit(formData: FormData) {
+  const session = await getAuthSessionEdge()
+  if (!session?.user?.id) {
+    return { error: "Unauthorized - Please log in first" }
+  }
+
+  const validatedFields = expenseSplitSchema.safeParse({
+    expenseId: formData.get("expenseId"),
+    paidById: formData.get("paidById"),
+    method: formData.get("method"),
+    splits: formData.get("splits"),
+  })
+
+  if (!validatedFields.success) {
+    return { error: "Invalid fields - " + validatedFields.error.issues.map(i => i.message).join(", ") }
+  }
+
+  const { expenseId, paidById, method, splits } = validatedFields.data
+  const prisma = getPrismaClient()
+
+  const expense = await prisma.expense.findUnique({
+    where: { id: expenseId },
+    include: { category: { include: { book: true } } },
+  })
+
+  const book = expense?.category.book
+  if (!expense || !book || !(await canAccessBook(session.user.id, book, "edit"))) {
+    return { error: "Expense not found or access denied" }
+  }
+
+  if (book.isArchived) {
+    return { error: "Cannot split expenses in archived books" }
+  }
+
+  // Payer and participants must all belong to this book
+  const participantIds = Array.from(new Set([paidById, ...splits.map((split) => split.participantId)]))
+  const participantCount = await prisma.participant.count({
+    where: { id: { in: participantIds }, bookId: book.id },
+  })
+
+  if (participantCount !== participantIds.length) {
+    return { error: "Participants must belong to this book" }
+  }
+
+  let shares
+  try {
+    shares = computeSplitAmounts(expense.amount, book.currency, method, splits)
+  } catch (error) {
+    if (error instanceof SplitError) {
+      return { error: error.message }
+    }
+    throw error
+  }
+
+  try {
+    await prisma.$transaction([
+      prisma.expenseSplit.deleteMany({ where: { expenseId } }),
+      prisma.expense.update({
+        where: { id: expenseId },
+        data: {
+          splitMethod: method,
+          paidById,
+          splits: {
+            create: shares.map((share) => ({
+              participantId: share.participantId,
+              amount: share.amount,
+              value: share.value,
+            })),
+          },
+        },
+      }),
+    ])
+
+    revalidateBook(book.id)
+    revalidatePath(`/expenses/edit/${expenseId}`)
+    return { success: true }
+  } catch (error) {
+    console.error("Expense split error:", error)
+    return { error: "Failed to split expense" }
+  }
+}
+
+export async function removeExpenseSplit(expenseId: string) {
+  const session = await getAuthSessionEdge()
+  if (!session?.user?.id) {
+    return { error: "Unauthorized - Please log in first" }
+  }
+
+  const prisma = getPrismaClient()
+
+  const expense = await prisma.expense.findUnique({
+    where: { id: expenseId },
+    include: { category: { include: { book: true } } },
+  })
+
+  const book = expense?.category.book
+  if (!expense || !book || !(await canAccessBook(session.user.id, book, "edit"))) {
+    return { error: "Expense not found or access denied" }
+  }
+
+  try {
+    await prisma.$transaction([
+      prisma.expenseSplit.deleteMany({ where: { expenseId } }),
+      prisma.expense.update({
+        where: { id: expenseId },
+        data: { splitMethod: null, paidById: null },
+      }),
+    ])
+
+    revalidateBook(book.id)
+    revalidatePath(`/expenses/edit/${expenseId}`)
+    return { success: true }
+  } catch (error) {
+    console.error("Expense split remove error:", error)
+    return { error: "Failed to remove split" }
+  }
+}
+
+export async function getBookBalances(bookId: string) {
+  const session = await getAuthSessionEdge()
+  if (!session?.user?.id) {
+    return { error: "Unauthorized - Please log in first" }
+  }
+
+  const prisma = getPrismaClient()
+
+  try {
+    const book = await prisma.book.findFirst({
+      where: { id: bookId, ...bookAccessWhere(session.user.id) },
+    })
+
+    if (!book) {
+      return { error: "Book not found or access denied" }
+    }
+
+    const [participants, expenses, settlements] = await Promise.all([
+      prisma.participant.findMany({
+        where: { bookId },
+        orderBy: { name: "asc" },
+      }),
+      prisma.expense.findMany({
+        where: {
+          isDisabled: false,
+          paidById: { not: null },
+          category: { bookId },
+        },
+        select: { amount: true, paidById: true, splits: { select: { participantId: true, amount: true } } },
+      }),
+      prisma.settlement.findMany({
+        where: { bookId },
+        include: {
+          from: { select: { name: true } },
+          to: { select: { name: true } },
+        },
+        orderBy: { date: "desc" },
+      }),
+    ])
+
+    const balances = computeBalances(participants, expenses, settlements)
+
+    return {
+      currency: book.currency,
+      participants,
+      balances,
+      suggestions: suggestSettlements(balances, book.currency),
+      settlements,
+    }
+  } catch (error) {
+    console.error("Balances fetch error:", error)
+    return { error: "Failed to fetch balances" }
+  }
+}
+
+export async function recordSettlement(formData: FormData) {
+  const session = await getAuthSessionEdge()
+  if (!session?.user?.id) {
+    return { error: "Unauthorized - Please log in first" }
+  }
+
+  const validatedFields = settlementSchema.safeParse({
+    bookId: formData.get("bookId"),
+    fromId: formData.get("fromId"),
+    toId: formData.get("toId"),
+    amount: formData.get("amount"),
+    date: formData.get("date") || undefined,
+    note: formData.get("note") || undefined,
+  })
+
+  if (!validatedFields.success) {
+    return { error: "Invalid fields - " + validatedFields.error.issues.map(i => i.message).join(", ") }
+  }
+
+  const { bookId, fromId, toId, amount, date, note } = validatedFields.data
+  const prisma = getPrismaClient()
+
+  const book = await prisma.book.findUnique({
+    where: { id: bookId },
+  })
+
+  if (!book || !(await canAccessBook(session.user.id, book, "edit"))) {
+    return { error: "Book not found or access denied" }
+  }
+
+  if (book.isArchived) {
+    return { error: "Cannot record settlements in archived books" }
+  }
+
+  if (fromId === toId) {
+    return { error: "Choose two different participants" }
+  }
+
+  const participantCount = await prisma.participant.count({
+    where: { id: { in: [fromId, toId] }, bookId },
+  })
+
+  if (participantCount !== 2) {
+    return { error: "Participants must belong to this book" }
+  }
+
+  if (isNaN(amount) || amount <= 0) {
+    return { error: "Amount must be positive" }
+  }
+
+  if (isFutureDate(date)) {
+    return { error: "Settlement date cannot be in the future" }
+  }
+
+  try {
+    await prisma.settlement.create({
+      data: {
+        bookId,
+        fromId,
+        toId,
+        amount: roundMoney(amount, book.currency),
+        date,
+        note,
+      },
+    })
+
+    revalidateBook(bookId)
+    return { success: true }
+  } catch (error) {
+    console.error("Settlement creation error:", error)
+    return { error: "Failed to record settlement" }
+  }
+}
+
+export async function deleteSettlement(id: string) {
+  const session = await getAuthSessionEdge()
+  if (!session?.user?.id) {
+    return { error: "Unauthorized - Please log in first" }
+  }
+
+  const prisma = getPrismaClient()
+
+  const settlement = await prisma.settlement.findUnique({
+    where: { id },
+    include: { book: true },
+  })
+
+  if (!settlement || !(await canAccessBook(session.user.id, settlement.book, "edit"))) {
+    return { error: "Settlement not found or access denied" }
+  }
+
+  try {
+    await prisma.settlement.delete({
+      where: { id },
+    })
+
+    revalidateBook(settlement.bookId)
+    return { success: true }
+  } catch (error) {
+    console.error("Settlement delete error:", error)
+    return { error: "Failed to delete settlement" }
+  }
+}
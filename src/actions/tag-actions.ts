@@ -0,0 +1,46 @@
+"use server"
+
+import { getAuthSessionEdge } from "@/lib/auth"
+import { getPrismaClient } from "@/lib/prisma"
+import { bookAccessWhere } from "@/lib/book-access"
+
+// The user's tags, or with `bookId` the tags of that book's owner, which the book's
+// expenses use (a shared book's members all tag with the owner's tags)
+export async function getTags(bookId?: string) {
+  const session = await getAuthSessionEdge()
+  if (!session?.user?.id) {
+    return { error: "Unauthorized - Please log in first" }
+  }
+
+  const prisma = getPrismaClient()
+
+  try {
+    let ownerId = session.user.id
+    if (bookId) {
+      const book = await prisma.book.findFirst({
+        where: { AND: [{ id: bookId }, bookAccessWhere(session.user.id)] },
+        select: { userId: true },
+      })
+
+      if (!book) {
+        return { error: "Book not found or access denied" }
+      }
+      ownerId = book.userId
+    }
+
+    const tags = await prisma.tag.findMany({
+      where: { userId: ownerId },
+      include: {
+        _count: {
+          select: { expenses: true },
+        },
+      },
+      orderBy: { name: "asc" },
+    })
+
+    return { tags }
+  } catch (error) {
+    console.error("Tags fetch error:", error)
+    return { error: "Failed to fetch tags" }
+  }
+}
@@ -0,0 +1,175 @@
+"use server"
+
+import { getAuthSessionEdge } from "@/lib/auth"
+import { getPrismaClient } from "@/lib/prisma"
+import { bookAccessWhere, canAccessBook } from "@/lib/book-access"
+import { isFutureDate } from "@/lib/expense-validation"
+import { roundMoney } from "@/lib/money"
+import { revalidatePath } from "next/cache"
+import { z } from "zod"
+
+const transferSchema = z.object({
+  fromBookId: z.string().min(1, "Source book is required"),
+  toBookId: z.string().min(1, "Destination book is required"),
+  amount: z.string().min(1, "Amount is required").transform((val) => parseFloat(val)),
+  // Only needed when the two books use different currencies
+  toAmount: z.string().optional().transform((val) => (val ? parseFloat(val) : null)),
+  date: z.string().min(1, "Date is required").transform((val) => new Date(val)),
+  description: z.string().optional(),
+})
+
+export async function createTransfer(formData: FormData) {
+  const session = await getAuthSessionEdge()
+  if (!session?.user?.id) {
+    return { error: "Unauthorized - Please log in first" }
+  }
+
+  const validatedFields = transferSchema.safeParse({
+    fromBookId: formData.get("fromBookId"),
+    toBookId: formData.get("toBookId"),
+    amount: formData.get("amount"),
+    toAmount: formData.get("toAmount") || undefined,
+    date: formData.get("date"),
+    description: formData.get("description") || undefined,
+  })
+
+  if (!validatedFields.success) {
+    return { error: "Invalid fields", issues: validatedFields.error.issues }
+  }
+
+  const { fromBookId, toBookId, amount, toAmount, date, description } = validatedFields.data
+
+  if (fromBookId === toBookId) {
+    return { error: "Cannot transfer to the same book" }
+  }
+
+  const prisma = getPrismaClient()
+
+  // Verify user can edit both books
+  const books = await prisma.book.findMany({
+    where: {
+      id: { in: [fromBookId, toBookId] },
+      ...bookAccessWhere(session.user.id, "edit"),
+    },
+  })
+
+  const fromBook = books.find((book) => book.id === fromBookId)
+  const toBook = books.find((book) => book.id === toBookId)
+
+  if (!fromBook || !toBook) {
+    return { error: "Book not found or access denied" }
+  }
+
+  if (fromBook.isArchived || toBook.isArchived) {
+    return { error: "Cannot transfer money to or from archived books" }
+  }
+
+  if (isNaN(amount) || amount <= 0) {
+    return { error: "Amount must be positive" }
+  }
+
+  if (isFutureDate(date)) {
+    return { error: "Transfer date cannot be in the future" }
+  }
+
+  let receivedAmount = amount
+  if (fromBook.currency !== toBook.currency) {
+    if (toAmount === null || isNaN(toAmount) || toAmount <= 0) {
+      return { error: `Enter the amount received in ${toBook.currency}` }
+    }
+    receivedAmount = toAmount
+  }
+
+  try {
+    await prisma.transfer.create({
+      data: {
+        fromBookId,
+        toBookId,
+        amount: roundMoney(amount, fromBook.currency),
+        toAmount: roundMoney(receivedAmount, toBook.currency),
+        date,
+        description,
+      },
+    })
+
+    revalidatePath(`/books/${fromBookId}`)
+    revalidatePath(`/books/${toBookId}`)
+    revalidatePath(`/books/${fromBookId}/reports`)
+    revalidatePath(`/books/${toBookId}/reports`)
+    return { success: true }
+  } catch (error) {
+    console.error("Transfer creation error:", error)
+    return { error: "Failed to create transfer" }
+  }
+}
+
+export async function getTransfers(bookId: string) {
+  const session = await getAuthSessionEdge()
+  if (!session?.user?.id) {
+    return { error: "Unauthorized - Please log in first" }
+  }
+
+  const prisma = getPrismaClient()
+
+  try {
+    const transfers = await prisma.transfer.findMany({
+      where: {
+        // Part of this book's cash flow, whoever can see the book on the other side
+        OR: [
+          { fromBookId: bookId, fromBook: bookAccessWhere(session.user.id) },
+          { toBookId: bookId, toBook: bookAccessWhere(session.user.id) },
+        ],
+      },
+      include: {
+        fromBook: true,
+        toBook: true,
+      },
+      orderBy: { date: "desc" },
+    })
+
+    return { transfers }
+  } catch (error) {
+    console.error("Transfers fetch error:", error)
+    return { error: "Failed to fetch transfers" }
+  }
+}
+
+export async function deleteTransfer(id: string) {
+  const session = await getAuthSessionEdge()
+  if (!session?.user?.id) {
+    return { error: "Unauthorized - Please log in first" }
+  }
+
+  const prisma = getPrismaClient()
+
+  const transfer = await prisma.transfer.findUnique({
+    where: { id },
+    include: { fromBook: true, toBook: true },
+  })
+
+  if (!transfer) {
+    return { error: "Transfer not found" }
+  }
+
+  if (
+    !(await canAccessBook(session.user.id, transfer.fromBook, "edit")) ||
+    !(await canAccessBook(session.user.id, transfer.toBook, "edit"))
+  ) {
+    return { error: "Access denied" }
+  }
+
+  try {
+    await prisma.transfer.delete({
+      where: { id },
+    })
+
+    revalidatePath(`/books/${transfer.fromBookId}`)
+    revalidatePath(`/books/${transfer.toBookId}`)
+    revalidatePath(`/books/${transfer.fromBookId}/reports`)
+    revalidatePath(`/books/${transfer.toBookId}/reports`)
+    return { success: true }
+  } catch (error) {
+    console.error("Transfer delete error:", error)
+    return { error: "Failed to delete transfer" }
+  }
+}
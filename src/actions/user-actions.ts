@@ -0,0 +1,46 @@
+"use server"
+
+import { getAuthSessionEdge } from "@/lib/auth"
+import { getPrismaClient } from "@/lib/prisma"
+import { revalidatePath } from "next/cache"
+import { z } from "zod"
+
+const reportingCurrencySchema = z.object({
+  currency: z
+    .string()
+    .length(3, "Currency must be a 3-letter code")
+    .transform((val) => val.toUpperCase()),
+})
+
+export async function updateReportingCurrency(formData: FormData) {
+  const session = await getAuthSessionEdge()
+  if (!session?.user?.id) {
+    return { error: "Unauthorized - Please log in first" }
+  }
+
+  const validatedFields = reportingCurrencySchema.safeParse({
+    currency: formData.get("currency"),
+  })
+
+  if (!validatedFields.success) {
+    return { error: "Invalid fields - " + validatedFields.error.issues.map(i => i.message).join(", ") }
+  }
+
+  const prisma = getPrismaClient()
+
+  try {
+    await prisma.user.update({
+      where: { id: session.user.id },
+      data: { reportingCurrency: validatedFields.data.currency },
+    })
+
+    // Every cross-book total is shown in this currency
+    revalidatePath("/dashboard")
+    revalidatePath("/reports")
+    revalidatePath("/settings")
+    return { success: true }
+  } catch (error) {
+    console.error("Reporting currency update error:", error)
+    return { error: "Failed to update reporting currency" }
+  }
+}
@@ -2,9 +2,18 @@ import { NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import { toChangeSetView } from '@/lib/ai/change-sets'
 
-// GET - Retrieve chat history for the current user
-export async function GET() {
+// The user's thread `threadId`, or their most recently used one when it isn't given
+async function findThread(userId: string, threadId: string | null) {
+  return prisma.chatThread.findFirst({
+    where: threadId ? { id: threadId, userId } : { userId },
+    orderBy: { updatedAt: 'desc' }
+  })
+}
+
+// GET - Retrieve the messages of a conversation (?threadId=, the latest one by default)
+export async function GET(request: Request) {
   try {
     const session = await getServerSession(authOptions)
     
@@ -15,22 +24,37 @@ export async function GET() {
       )
     }
 
-    // Get the last 50 messages for the user
+    const threadId = new URL(request.url).searchParams.get('threadId')
+    const thread = await findThread(session.user.id, threadId)
+
+    if (!thread) {
+      return NextResponse.json(
+        threadId ? { error: 'Conversation not found' } : { success: true, threadId: null, messages: [] },
+        { status: threadId ? 404 : 200 }
+      )
+    }
+
+    // Get the last 50 messages of the thread
     const messages = await prisma.chatMessage.findMany({
       where: {
-        userId: session.user.id
+        threadId: thread.id
       },
       orderBy: {
-        createdAt: 'asc'
+        createdAt: 'desc'
+      },
+      include: {
+        changeSet: true
       },
       take: 50
     })
 
     return NextResponse.json({
       success: true,
-      messages: messages.map(msg => ({
+      threadId: thread.id,
+      messages: messages.reverse().map(msg => ({
         role: msg.role,
-        content: msg.content
+        content: msg.content,
+        changeSet: msg.changeSet ? toChangeSetView(msg.changeSet) : null
       }))
     })
   } catch (error) {
@@ -42,7 +66,7 @@ export async function GET() {
   }
 }
 
-// POST - Add a new message to the chat history
+// POST - Add a new message to a conversation
 export async function POST(request: Request) {
   try {
     const session = await getServerSession(authOptions)
@@ -54,7 +78,7 @@ export async function POST(request: Request) {
       )
     }
 
-    const { role, content } = await request.json()
+    const { role, content, threadId } = await request.json()
 
     if (!role || !content) {
       return NextResponse.json(
@@ -70,12 +94,22 @@ export async function POST(request: Request) {
       )
     }
 
+    const thread = typeof threadId === 'string' ? await findThread(session.user.id, threadId) : null
+
+    if (!thread) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      )
+    }
+
     // Save the message to the database
     const message = await prisma.chatMessage.create({
       data: {
         role,
         content,
-        userId: session.user.id
+        userId: session.user.id,
+        threadId: thread.id
       }
     })
 
@@ -97,8 +131,8 @@ export async function POST(request: Request) {
   }
 }
 
-// DELETE - Clear chat history for the current user
-export async function DELETE() {
+// DELETE - Clear the messages of a conversation (?threadId=); the thread itself stays
+export async function DELETE(request: Request) {
   try {
     const session = await getServerSession(authOptions)
     
@@ -109,10 +143,19 @@ export async function DELETE() {
       )
     }
 
-    // Delete all chat messages for the user
+    const threadId = new URL(request.url).searchParams.get('threadId')
+    const thread = threadId ? await findThread(session.user.id, threadId) : null
+
+    if (!thread) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      )
+    }
+
     await prisma.chatMessage.deleteMany({
       where: {
-        userId: session.user.id
+        threadId: thread.id
       }
     })
 
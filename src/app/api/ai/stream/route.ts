@@ -2,18 +2,9 @@ import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { ragService } from '@/lib/rag/service'
 import { prisma } from '@/lib/prisma'
-
-const OPENROUTER_API_URL = process.env.OPENROUTER_API_URL || 'https://openrouter.ai/api/v1'
-const OPENROUTER_API_KEY = process.env.OPENROUTER_API_KEY
-const OPENROUTER_TEMPERATURE = parseFloat(process.env.OPENROUTER_TEMPERATURE || '0.7')
-const OPENROUTER_MAX_TOKENS = parseInt(process.env.OPENROUTER_MAX_TOKENS || '1000', 10)
-const APP_URL = process.env.APP_URL || process.env.NEXTAUTH_URL || 'https://localhost:3000'
-const APP_NAME = process.env.APP_NAME || 'Manage My Expenses'
-
-const MODEL_CONFIG = {
-  primary: process.env.OPENROUTER_MODEL_PRIMARY || 'google/gemma-3-27b-it:free',
-  fallback: process.env.OPENROUTER_MODEL_FALLBACK || 'allenai/molmo-2-8b:free'
-}
+import { bookAccessWhere } from '@/lib/book-access'
+import { getLLMProvider, type LLMMessage, type LLMUsage } from '@/lib/ai/providers'
+import { getConversationHistory, getOrCreateChatThread, saveChatExchange } from '@/lib/ai/threads'
 
 export async function POST(request: Request) {
   const encoder = new TextEncoder()
@@ -37,7 +28,15 @@ export async function POST(request: Request) {
       return new Response('Unauthorized', { status: 401 })
     }
 
-    const { message, conversationHistory } = await request.json()
+    const { message, conversationHistory, threadId, bookId } = await request.json()
+    if (typeof message !== 'string' || !message.trim()) {
+      return new Response('Message is required', { status: 400 })
+    }
+
+    const thread = await getOrCreateChatThread(session.user.id, threadId, message, bookId)
+    if (!thread) {
+      return new Response('Conversation not found', { status: 404 })
+    }
 
     // Build user context
     const userContextStart = Date.now()
@@ -47,7 +46,7 @@ export async function POST(request: Request) {
     
     try {
       userBooks = await prisma.book.findMany({
-        where: { userId: session.user.id, isArchived: false }
+        where: { ...bookAccessWhere(session.user.id), isArchived: false }
       })
 
       if (userBooks.length > 0) {
@@ -76,24 +75,22 @@ export async function POST(request: Request) {
 
     // Get RAG context
     const ragStart = Date.now()
-    const ragContext = await ragService.getContext(session.user.id, message)
+    const ragContext = await ragService.getContext(session.user.id, message, thread.book?.id)
     timingMetrics.ragContext = Date.now() - ragStart
 
     // Build system prompt (simplified for streaming)
-    let systemPrompt = `You are an AI assistant for "Manage My Expenses". Generate SQL queries for database operations.
-
-USER ID: ${session.user.id}${userContext}
+    let systemPrompt = `You are an AI assistant for "Manage My Expenses". Answer questions about the user's books, categories and spending.
+${thread.book ? `\nTHIS CONVERSATION IS ABOUT THE BOOK "${thread.book.name}" (ID: ${thread.book.id}). Answer about it unless the user names another book.\n` : ''}${userContext}
 
-CRITICAL RULES:
-1. For INSERT operations, generate SQL queries in \`\`\`sql code blocks
-2. NEVER generate success messages - the system will generate them
-3. Use the exact IDs provided in the context above
-4. For SELECT operations, generate proper SQL with JOINs and user filtering`
+RULES:
+1. You cannot create or change records while streaming - tell the user to turn streaming off (the assistant can then make the change) or to use the app's forms
+2. NEVER claim a record was added or changed
+3. Answer with names, not IDs`
 
     // Prepare messages
-    const messages = [
+    const messages: LLMMessage[] = [
       { role: 'system', content: systemPrompt },
-      ...(conversationHistory || []),
+      ...getConversationHistory(conversationHistory),
       { role: 'user', content: message }
     ]
 
@@ -104,86 +101,48 @@ CRITICAL RULES:
           const aiApiStart = Date.now()
           let firstToken = true
           let fullResponse = ''
+          let usage: LLMUsage | null = null
 
-          const response = await fetch(`${OPENROUTER_API_URL}/chat/completions`, {
-            method: 'POST',
-            headers: {
-              'Authorization': `Bearer ${OPENROUTER_API_KEY}`,
-              'Content-Type': 'application/json',
-              'HTTP-Referer': APP_URL,
-              'X-Title': APP_NAME,
-            },
-            body: JSON.stringify({
-              model: MODEL_CONFIG.primary,
-              messages,
-              temperature: OPENROUTER_TEMPERATURE,
-              max_tokens: OPENROUTER_MAX_TOKENS,
-              stream: true,
-            }),
-          })
-
-          if (!response.ok) {
-            throw new Error(`API error: ${response.status}`)
-          }
-
-          const reader = response.body?.getReader()
-          if (!reader) {
-            throw new Error('No reader available')
-          }
+          for await (const event of getLLMProvider().stream({ messages })) {
+            if (event.type === 'done') {
+              usage = event.usage
+              continue
+            }
 
-          const decoder = new TextDecoder()
-
-          while (true) {
-            const { done, value } = await reader.read()
-            if (done) break
-
-            const chunk = decoder.decode(value, { stream: true })
-            const lines = chunk.split('\n').filter(line => line.trim() !== '')
-
-            for (const line of lines) {
-              if (line.startsWith('data: ')) {
-                const data = line.slice(6)
-                if (data === '[DONE]') continue
-
-                try {
-                  const parsed = JSON.parse(data)
-                  const content = parsed.choices?.[0]?.delta?.content
-
-                  if (content) {
-                    if (firstToken) {
-                      timingMetrics.firstTokenTime = Date.now() - aiApiStart
-                      firstToken = false
-                      
-                      // Send timing for first token
-                      controller.enqueue(encoder.encode(`data: ${JSON.stringify({
-                        type: 'timing',
-                        timing: {
-                          sessionRetrieval: timingMetrics.sessionRetrieval,
-                          userContextBuilding: timingMetrics.userContextBuilding,
-                          ragContext: timingMetrics.ragContext,
-                          firstTokenTime: timingMetrics.firstTokenTime
-                        }
-                      })}\n\n`))
-                    }
-
-                    fullResponse += content
-                    
-                    // Send content chunk
-                    controller.enqueue(encoder.encode(`data: ${JSON.stringify({
-                      type: 'content',
-                      content
-                    })}\n\n`))
-                  }
-                } catch (e) {
-                  console.error('Error parsing SSE:', e)
+            if (firstToken) {
+              timingMetrics.firstTokenTime = Date.now() - aiApiStart
+              firstToken = false
+
+              // Send timing for first token
+              controller.enqueue(encoder.encode(`data: ${JSON.stringify({
+                type: 'timing',
+                timing: {
+                  sessionRetrieval: timingMetrics.sessionRetrieval,
+                  userContextBuilding: timingMetrics.userContextBuilding,
+                  ragContext: timingMetrics.ragContext,
+                  firstTokenTime: timingMetrics.firstTokenTime
                 }
-              }
+              })}\n\n`))
             }
+
+            fullResponse += event.content
+
+            // Send content chunk
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify({
+              type: 'content',
+              content: event.content
+            })}\n\n`))
           }
 
           timingMetrics.aiApiCall = Date.now() - aiApiStart
           timingMetrics.totalTime = Date.now() - timingMetrics.startTime
 
+          try {
+            await saveChatExchange(thread.id, session.user.id, message, fullResponse)
+          } catch (error) {
+            console.error('Error saving chat message:', error)
+          }
+
           // Send final timing
           controller.enqueue(encoder.encode(`data: ${JSON.stringify({
             type: 'timing-final',
@@ -200,7 +159,9 @@ CRITICAL RULES:
           // Send completion
           controller.enqueue(encoder.encode(`data: ${JSON.stringify({
             type: 'done',
-            fullResponse
+            fullResponse,
+            threadId: thread.id,
+            usage
           })}\n\n`))
 
           controller.close()
@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { canAccessBook } from '@/lib/book-access'
+import { getStorageAdapter } from '@/lib/storage'
+
+// GET - Stream a receipt attachment to anyone who can see its book
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const attachment = await prisma.attachment.findUnique({
+      where: { id: params.id },
+      include: {
+        expense: {
+          include: {
+            category: {
+              include: { book: true }
+            }
+          }
+        }
+      }
+    })
+
+    const book = attachment?.expense.category.book
+    if (!attachment || !book || !(await canAccessBook(session.user.id, book, 'view'))) {
+      return NextResponse.json(
+        { error: 'Attachment not found' },
+        { status: 404 }
+      )
+    }
+
+    const data = await getStorageAdapter().read(attachment.storageKey)
+    const disposition = new URL(request.url).searchParams.get('download') ? 'attachment' : 'inline'
+
+    return new NextResponse(data, {
+      headers: {
+        'Content-Type': attachment.mimeType,
+        'Content-Length': String(data.length),
+        'Content-Disposition': `${disposition}; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`,
+        'Cache-Control': 'private, max-age=3600',
+        'X-Content-Type-Options': 'nosniff'
+      }
+    })
+  } catch (error) {
+    console.error('Error reading attachment:', error)
+    return NextResponse.json(
+      { error: 'Failed to read attachment' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { buildBackup } from '@/lib/backup/export'
+
+// GET - Download all of the current user's data as a versioned JSON archive
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const backup = await buildBackup(session.user.id)
+    const fileName = `manage-my-expenses-backup-${new Date().toISOString().slice(0, 10)}.json`
+
+    return new NextResponse(JSON.stringify(backup, null, 2), {
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Cache-Control': 'no-store'
+      }
+    })
+  } catch (error) {
+    console.error('Error building backup:', error)
+    return NextResponse.json(
+      { error: 'Failed to build backup' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server'
+import { loadReportForExport, reportFileName } from '@/lib/report-export'
+import { renderExpenseReportPdf } from '@/lib/pdf/expense-report'
+
+// GET - Detailed report for a book as a PDF
+// Query: bookId, optional startDate/endDate and repeated categories/tags (same filters as /reports)
+export async function GET(request: Request) {
+  try {
+    const result = await loadReportForExport(request)
+
+    if ('error' in result) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      )
+    }
+
+    const { book, filters, report } = result
+    const pdf = renderExpenseReportPdf({
+      bookName: book.name,
+      currency: book.currency,
+      startDate: filters.startDate,
+      endDate: filters.endDate,
+      totalAmount: report.totalAmount,
+      categories: report.categories,
+      expenses: report.expenses
+    })
+
+    return new NextResponse(pdf, {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Length': String(pdf.length),
+        'Content-Disposition': `attachment; filename="${reportFileName(book.name, 'pdf')}"`,
+        'Cache-Control': 'no-store'
+      }
+    })
+  } catch (error) {
+    console.error('Error generating PDF report:', error)
+    return NextResponse.json(
+      { error: 'Failed to generate PDF report' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server'
+import { loadReportForExport, reportFileName } from '@/lib/report-export'
+import { renderExpenseReportXlsx } from '@/lib/xlsx/expense-report'
+
+// GET - Detailed report for a book as an Excel workbook (summary + one sheet per category)
+// Query: bookId, optional startDate/endDate and repeated categories/tags (same filters as /reports)
+export async function GET(request: Request) {
+  try {
+    const result = await loadReportForExport(request)
+
+    if ('error' in result) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      )
+    }
+
+    const { book, filters, report } = result
+    const xlsx = renderExpenseReportXlsx({
+      bookName: book.name,
+      currency: book.currency,
+      startDate: filters.startDate,
+      endDate: filters.endDate,
+      categories: report.categories
+    })
+
+    return new NextResponse(xlsx, {
+      headers: {
+        'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        'Content-Length': String(xlsx.length),
+        'Content-Disposition': `attachment; filename="${reportFileName(book.name, 'xlsx')}"`,
+        'Cache-Control': 'no-store'
+      }
+    })
+  } catch (error) {
+    console.error('Error generating Excel report:', error)
+    return NextResponse.json(
+      { error: 'Failed to generate Excel report' },
+      { status: 500 }
+    )
+  }
+}
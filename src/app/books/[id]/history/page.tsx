@@ -0,0 +1,74 @@
+import { getAuthSession } from "@/lib/auth"
+import { redirect } from "next/navigation"
+import { getBookHistory } from "@/actions/audit-actions"
+import { hasBookPermission } from "@/lib/book-roles"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { AuditHistory } from "@/components/audit/audit-history"
+import { AppLayout } from "@/components/layout/app-layout"
+import Link from "next/link"
+import { ArrowLeft, History } from "lucide-react"
+
+interface BookHistoryPageProps {
+  params: {
+    id: string
+  }
+}
+
+export default async function BookHistoryPage({ params }: BookHistoryPageProps) {
+  const session = await getAuthSession()
+  if (!session) redirect("/login")
+
+  const result = await getBookHistory(params.id)
+
+  return (
+    <AppLayout>
+      <div className="space-y-6">
+        <div className="flex items-center gap-4">
+          <Button asChild variant="outline">
+            <Link href={`/books/${params.id}`}>
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Book
+            </Link>
+          </Button>
+        </div>
+
+        {result.error || !result.book ? (
+          <Card>
+            <CardContent className="p-6 text-center text-red-600">
+              <p>Error: {result.error || "Book not found"}</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">{result.book.name} History</h1>
+              <p className="text-gray-600 mt-1">
+                Changes to this book, its categories and expenses, newest first
+              </p>
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <History className="w-5 h-5" />
+                  Changes
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <AuditHistory
+                  entries={result.entries}
+                  categoryNames={result.categoryNames}
+                  currency={result.book.currency}
+                  canEdit={hasBookPermission(result.role, "edit")}
+                  canManage={hasBookPermission(result.role, "manage")}
+                  showEntity
+                />
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </AppLayout>
+  )
+}
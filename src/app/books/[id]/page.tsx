@@ -1,6 +1,12 @@
 import { getAuthSession } from "@/lib/auth"
 import { redirect } from "next/navigation"
-import { getBookById } from "@/actions/book-actions"
+import { getBookById, getBooks } from "@/actions/book-actions"
+import { getBookSummary } from "@/actions/report-actions"
+import { getIncomes } from "@/actions/income-actions"
+import { getTransfers } from "@/actions/transfer-actions"
+import { getBookMembers } from "@/actions/book-sharing-actions"
+import { getBookBalances } from "@/actions/split-actions"
+import { BOOK_ROLE_LABELS, hasBookPermission } from "@/lib/book-roles"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
@@ -15,10 +21,23 @@ import {
   Edit, 
   Trash2,
   PieChart,
-  Plus
+  Plus,
+  ArrowDownLeft,
+  ArrowUpRight,
+  History,
+  Wand2
 } from "lucide-react"
 import { DeleteBookButton } from "@/components/delete-book-button"
+import { AttachmentIndicator } from "@/components/attachments/attachment-indicator"
+import { ImportExpensesDialog } from "@/components/import/import-expenses-dialog"
 import { AppLayout } from "@/components/layout/app-layout"
+import { BudgetManager } from "@/components/budgets/budget-manager"
+import { AddIncomeDialog } from "@/components/cash-flow/add-income-dialog"
+import { AddTransferDialog } from "@/components/cash-flow/add-transfer-dialog"
+import { DeleteCashFlowEntryButton } from "@/components/cash-flow/delete-cash-flow-entry-button"
+import { BookMembers } from "@/components/sharing/book-members"
+import { BalancesCard } from "@/components/splits/balances-card"
+import { SaveBookTemplateDialog } from "@/components/book-templates/save-book-template-dialog"
 
 interface BookDetailsPageProps {
   params: {
@@ -63,7 +82,47 @@ export default async function BookDetailsPage({ params }: BookDetailsPageProps)
     )
   }
 
-  const { book, summary } = result
+  const { book, summary, role } = result
+  const canAdd = hasBookPermission(role, "add")
+  const canEdit = hasBookPermission(role, "edit")
+  const canManage = hasBookPermission(role, "manage")
+
+  // Cash flow: income and transfers alongside expenses
+  const [cashFlowResult, incomesResult, transfersResult, booksResult, membersResult, balancesResult] = await Promise.all([
+    getBookSummary(book.id),
+    getIncomes(book.id),
+    getTransfers(book.id),
+    getBooks(),
+    getBookMembers(book.id),
+    getBookBalances(book.id),
+  ])
+  const cashFlow = cashFlowResult.summary
+  const incomes = incomesResult.incomes || []
+  const transfers = transfersResult.transfers || []
+  const otherBooks = (booksResult.books || [])
+    .filter((otherBook) => otherBook.id !== book.id && hasBookPermission(otherBook.role, "edit"))
+    .map((otherBook) => ({ id: otherBook.id, name: otherBook.name, currency: otherBook.currency }))
+  const cashFlowEntries = [
+    ...incomes.map((income) => ({
+      id: income.id,
+      type: "income" as const,
+      date: income.date,
+      label: income.source || income.description || "Income",
+      detail: income.source ? income.description : null,
+      amount: income.amount,
+    })),
+    ...transfers.map((transfer) => {
+      const isIncoming = transfer.toBookId === book.id
+      return {
+        id: transfer.id,
+        type: "transfer" as const,
+        date: transfer.date,
+        label: isIncoming ? `Transfer from ${transfer.fromBook.name}` : `Transfer to ${transfer.toBook.name}`,
+        detail: transfer.description,
+        amount: isIncoming ? transfer.toAmount : -transfer.amount,
+      }
+    }),
+  ].sort((a, b) => b.date.getTime() - a.date.getTime())
 
   return (
     <AppLayout>
@@ -81,16 +140,21 @@ export default async function BookDetailsPage({ params }: BookDetailsPageProps)
             {book.isArchived && (
               <Badge variant="destructive">Archived</Badge>
             )}
+            {role !== "owner" && (
+              <Badge variant="outline">Shared • {BOOK_ROLE_LABELS[role]}</Badge>
+            )}
           </div>
-          <div className="flex gap-2">
-            <Button asChild variant="outline">
-              <Link href={`/books/${book.id}/edit`}>
-                <Edit className="w-4 h-4 mr-2" />
-                Edit
-              </Link>
-            </Button>
-            <DeleteBookButton bookId={book.id} bookName={book.name} />
-          </div>
+          {canManage && (
+            <div className="flex gap-2">
+              <Button asChild variant="outline">
+                <Link href={`/books/${book.id}/edit`}>
+                  <Edit className="w-4 h-4 mr-2" />
+                  Edit
+                </Link>
+              </Button>
+              <DeleteBookButton bookId={book.id} bookName={book.name} />
+            </div>
+          )}
         </div>
 
         {/* Book Info Card */}
@@ -175,23 +239,145 @@ export default async function BookDetailsPage({ params }: BookDetailsPageProps)
           </Card>
         </div>
 
+        {/* Cash Flow */}
+        {cashFlow && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between">
+                <span>Cash Flow</span>
+                {canEdit && (
+                  <div className="flex gap-2">
+                    <AddIncomeDialog bookId={book.id} currency={book.currency} />
+                    <AddTransferDialog
+                      fromBook={{ id: book.id, name: book.name, currency: book.currency }}
+                      otherBooks={otherBooks}
+                    />
+                  </div>
+                )}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="p-3 bg-green-50 rounded-lg border border-green-200">
+                  <p className="text-sm text-gray-600">Inflow</p>
+                  <p className="text-xl font-bold text-green-600">
+                    {formatCurrency(cashFlow.totalInflow, book.currency)}
+                  </p>
+                </div>
+                <div className="p-3 bg-red-50 rounded-lg border border-red-200">
+                  <p className="text-sm text-gray-600">Outflow</p>
+                  <p className="text-xl font-bold text-red-600">
+                    {formatCurrency(cashFlow.totalOutflow, book.currency)}
+                  </p>
+                </div>
+                <div className="p-3 bg-blue-50 rounded-lg border border-blue-200">
+                  <p className="text-sm text-gray-600">Net Balance</p>
+                  <p className={`text-xl font-bold ${cashFlow.netBalance < 0 ? "text-red-600" : "text-blue-600"}`}>
+                    {formatCurrency(cashFlow.netBalance, book.currency)}
+                  </p>
+                </div>
+              </div>
+
+              {cashFlowEntries.length === 0 ? (
+                <p className="text-sm text-gray-500 italic">
+                  No income or transfers recorded yet
+                </p>
+              ) : (
+                <div className="space-y-2">
+                  {cashFlowEntries.map((entry) => (
+                    <div
+                      key={`${entry.type}-${entry.id}`}
+                      className="flex items-center justify-between p-3 bg-gray-50 rounded-lg border"
+                    >
+                      <div className="flex items-center gap-3">
+                        {entry.amount >= 0 ? (
+                          <ArrowDownLeft className="w-4 h-4 text-green-600" />
+                        ) : (
+                          <ArrowUpRight className="w-4 h-4 text-red-600" />
+                        )}
+                        <div>
+                          <p className="font-medium text-gray-900">{entry.label}</p>
+                          <p className="text-sm text-gray-600">
+                            {entry.detail ? `${entry.detail} • ` : ""}{formatDate(entry.date)}
+                          </p>
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-3">
+                        <span className={`font-bold ${entry.amount >= 0 ? "text-green-600" : "text-red-600"}`}>
+                          {entry.amount >= 0 ? "+" : "-"}{formatCurrency(Math.abs(entry.amount), book.currency)}
+                        </span>
+                        {canEdit && <DeleteCashFlowEntryButton entryId={entry.id} type={entry.type} />}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Budgets */}
+        <BudgetManager
+          bookId={book.id}
+          currency={book.currency}
+          categories={book.categories.map((category) => ({ id: category.id, name: category.name }))}
+          budgets={summary.budgets}
+          canEdit={canEdit}
+        />
+
+        {/* Splits: who owes whom */}
+        {balancesResult.balances && (
+          <BalancesCard
+            bookId={book.id}
+            currency={book.currency}
+            canEdit={canEdit}
+            participants={balancesResult.participants}
+            balances={balancesResult.balances}
+            suggestions={balancesResult.suggestions}
+            settlements={balancesResult.settlements}
+          />
+        )}
+
+        {/* Members */}
+        {membersResult.owner && (
+          <BookMembers
+            bookId={book.id}
+            currentUserId={session.user.id}
+            role={role}
+            owner={membersResult.owner}
+            members={membersResult.members}
+            invitations={membersResult.invitations}
+          />
+        )}
+
         {/* Categories and Expenses */}
         <div className="space-y-6">
           <div className="flex items-center justify-between">
             <h2 className="text-2xl font-bold">Categories & Expenses</h2>
             <div className="flex gap-2">
-              <Button asChild>
-                <Link href={`/categories/create?bookId=${book.id}`}>
-                  <Plus className="w-4 h-4 mr-2" />
-                  Add Category
-                </Link>
-              </Button>
-              <Button asChild>
-                <Link href={`/expenses/create?bookId=${book.id}`}>
-                  <Plus className="w-4 h-4 mr-2" />
-                  Add Expense
-                </Link>
-              </Button>
+              {canEdit && (
+                <Button asChild>
+                  <Link href={`/categories/create?bookId=${book.id}`}>
+                    <Plus className="w-4 h-4 mr-2" />
+                    Add Category
+                  </Link>
+                </Button>
+              )}
+              {canAdd && (
+                <Button asChild>
+                  <Link href={`/expenses/create?bookId=${book.id}`}>
+                    <Plus className="w-4 h-4 mr-2" />
+                    Add Expense
+                  </Link>
+                </Button>
+              )}
+              {canEdit && (
+                <ImportExpensesDialog
+                  bookId={book.id}
+                  currency={book.currency}
+                  categories={book.categories.map((category) => ({ id: category.id, name: category.name }))}
+                />
+              )}
             </div>
           </div>
 
@@ -199,9 +385,11 @@ export default async function BookDetailsPage({ params }: BookDetailsPageProps)
             <Card>
               <CardContent className="p-8 text-center text-gray-600">
                 <p>No categories yet. Create your first category to get started!</p>
-                <Button asChild className="mt-4">
-                  <Link href={`/categories/create?bookId=${book.id}`}>Create Category</Link>
-                </Button>
+                {canEdit && (
+                  <Button asChild className="mt-4">
+                    <Link href={`/categories/create?bookId=${book.id}`}>Create Category</Link>
+                  </Button>
+                )}
               </CardContent>
             </Card>
           ) : (
@@ -221,18 +409,22 @@ export default async function BookDetailsPage({ params }: BookDetailsPageProps)
                         </Badge>
                       </div>
                       <div className="flex gap-2">
-                        <Button asChild variant="outline" size="sm">
-                          <Link href={`/categories/edit/${category.id}`}>
-                            <Edit className="w-3 h-3 mr-1" />
-                            Edit
-                          </Link>
-                        </Button>
-                        <Button asChild size="sm">
-                          <Link href={`/expenses/create?bookId=${book.id}&categoryId=${category.id}`}>
-                            <Plus className="w-3 h-3 mr-1" />
-                            Add Expense
-                          </Link>
-                        </Button>
+                        {canEdit && (
+                          <Button asChild variant="outline" size="sm">
+                            <Link href={`/categories/edit/${category.id}`}>
+                              <Edit className="w-3 h-3 mr-1" />
+                              Edit
+                            </Link>
+                          </Button>
+                        )}
+                        {canAdd && (
+                          <Button asChild size="sm">
+                            <Link href={`/expenses/create?bookId=${book.id}&categoryId=${category.id}`}>
+                              <Plus className="w-3 h-3 mr-1" />
+                              Add Expense
+                            </Link>
+                          </Button>
+                        )}
                       </div>
                     </CardTitle>
                   </CardHeader>
@@ -268,17 +460,30 @@ export default async function BookDetailsPage({ params }: BookDetailsPageProps)
                                       {expense.paymentMethod}
                                     </span>
                                   )}
+                                  {expense.splitMethod && (
+                                    <span className="text-xs bg-indigo-100 text-indigo-700 px-1.5 py-0.5 rounded">
+                                      Split
+                                    </span>
+                                  )}
+                                  <AttachmentIndicator attachments={expense.attachments} />
                                 </div>
                               </div>
                               <div className="flex items-center gap-3">
-                                <span className="font-bold text-green-600">
+                                <span className="font-bold text-green-600 text-right">
                                   {formatCurrency(expense.amount, book.currency)}
+                                  {expense.originalCurrency && expense.originalCurrency !== book.currency && expense.originalAmount !== null && (
+                                    <span className="block text-xs font-normal text-gray-500">
+                                      {formatCurrency(expense.originalAmount, expense.originalCurrency)}
+                                    </span>
+                                  )}
                                 </span>
-                                <Button asChild variant="ghost" size="sm">
-                                  <Link href={`/expenses/edit/${expense.id}`}>
-                                    <Edit className="w-3 h-3" />
-                                  </Link>
-                                </Button>
+                                {canEdit && (
+                                  <Button asChild variant="ghost" size="sm">
+                                    <Link href={`/expenses/edit/${expense.id}`}>
+                                      <Edit className="w-3 h-3" />
+                                    </Link>
+                                  </Button>
+                                )}
                               </div>
                             </div>
                           ))}
@@ -312,29 +517,46 @@ export default async function BookDetailsPage({ params }: BookDetailsPageProps)
               </Link>
             </Button>
             <Button asChild variant="outline">
-              <Link href={`/categories/create?bookId=${book.id}`}>
-                <Tag className="w-4 h-4 mr-2" />
-                Add Category
+              <Link href={`/books/${book.id}/history`}>
+                <History className="w-4 h-4 mr-2" />
+                View History
               </Link>
             </Button>
             <Button asChild variant="outline">
-              <Link href={`/categories?bookId=${book.id}`}>
-                <Tag className="w-4 h-4 mr-2" />
-                View Categories
+              <Link href={`/books/${book.id}/rules`}>
+                <Wand2 className="w-4 h-4 mr-2" />
+                Categorisation Rules
               </Link>
             </Button>
+            {canEdit && (
+              <Button asChild variant="outline">
+                <Link href={`/categories/create?bookId=${book.id}`}>
+                  <Tag className="w-4 h-4 mr-2" />
+                  Add Category
+                </Link>
+              </Button>
+            )}
             <Button asChild variant="outline">
-              <Link href={`/expenses/create?bookId=${book.id}`}>
-                <DollarSign className="w-4 h-4 mr-2" />
-                Add Expense
+              <Link href={`/categories?bookId=${book.id}`}>
+                <Tag className="w-4 h-4 mr-2" />
+                View Categories
               </Link>
             </Button>
+            {canAdd && (
+              <Button asChild variant="outline">
+                <Link href={`/expenses/create?bookId=${book.id}`}>
+                  <DollarSign className="w-4 h-4 mr-2" />
+                  Add Expense
+                </Link>
+              </Button>
+            )}
             <Button asChild variant="outline">
               <Link href={`/expenses?bookId=${book.id}`}>
                 <DollarSign className="w-4 h-4 mr-2" />
                 View Expenses
               </Link>
             </Button>
+            <SaveBookTemplateDialog book={{ id: book.id, name: book.name }} />
           </CardContent>
         </Card>
       </div>
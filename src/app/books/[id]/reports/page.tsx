@@ -1,17 +1,24 @@
 import { getAuthSession } from "@/lib/auth"
 import { redirect } from "next/navigation"
 import { getBookById } from "@/actions/book-actions"
+import { getMonthlySummary } from "@/actions/report-actions"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
 import Link from "next/link"
-import { formatCurrency, formatDate } from "@/lib/utils"
+import { formatCurrency, formatDate, formatMonthYear } from "@/lib/utils"
+import { addMoney, sumMoney } from "@/lib/money"
+import { sortCategoryTree } from "@/lib/category-tree"
 import { 
   ArrowLeft, 
   PieChart, 
   BarChart,
   TrendingUp,
   Calendar,
-  DollarSign
+  DollarSign,
+  FileSpreadsheet,
+  FileText
 } from "lucide-react"
 import { AppLayout } from "@/components/layout/app-layout"
 
@@ -60,19 +67,34 @@ export default async function BookReportsPage({ params }: BookReportsPageProps)
 
   const { book, summary } = result
 
-  // Calculate additional statistics
-  const categoryBreakdown = book.categories.map(category => ({
-    name: category.name,
-    color: category.color || '#3b82f6',
-    total: category.expenses.reduce((sum, exp) => sum + exp.amount, 0),
-    count: category.expenses.length,
-  }))
+  // Inflow, outflow and net per month (income and transfers included)
+  const monthlySummaryResult = await getMonthlySummary(book.id)
+  const monthlyCashFlow = (monthlySummaryResult.summary || []).slice(0, 6)
+
+  // Calculate additional statistics; sub-categories roll up into their parent
+  const categoryTree = sortCategoryTree(book.categories)
+  const categoryBreakdown = categoryTree.filter(category => category.depth === 0).map(category => {
+    const children = categoryTree.filter(child => child.depth > 0 && child.parentId === category.id)
+    const expenses = [category, ...children].flatMap(cat => cat.expenses)
+    return {
+      name: category.name,
+      color: category.color || '#3b82f6',
+      total: sumMoney(expenses.map(exp => exp.amount)),
+      count: expenses.length,
+      children: children.map(child => ({
+        id: child.id,
+        name: child.name,
+        total: sumMoney(child.expenses.map(exp => exp.amount)),
+        count: child.expenses.length,
+      })),
+    }
+  })
 
   // Get monthly breakdown
   const monthlyData = book.categories.flatMap(cat => cat.expenses).reduce((acc, exp) => {
     const month = new Date(exp.date).toLocaleDateString('en-US', { month: 'short', year: 'numeric' })
     if (!acc[month]) acc[month] = 0
-    acc[month] += exp.amount
+    acc[month] = addMoney(acc[month], exp.amount)
     return acc
   }, {} as Record<string, number>)
 
@@ -103,6 +125,26 @@ export default async function BookReportsPage({ params }: BookReportsPageProps)
             </Button>
             <h1 className="text-3xl font-bold">Reports - {book.name}</h1>
           </div>
+          {/* Plain GET form so the downloads work without client-side code */}
+          <form action="/api/reports/pdf" method="get" className="flex items-end gap-2">
+            <input type="hidden" name="bookId" value={book.id} />
+            <div className="space-y-1">
+              <Label htmlFor="startDate" className="text-xs text-gray-600">From</Label>
+              <Input id="startDate" name="startDate" type="date" className="h-9" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="endDate" className="text-xs text-gray-600">To</Label>
+              <Input id="endDate" name="endDate" type="date" className="h-9" />
+            </div>
+            <Button type="submit" variant="outline" formAction="/api/reports/xlsx">
+              <FileSpreadsheet className="w-4 h-4 mr-2" />
+              Excel
+            </Button>
+            <Button type="submit" variant="outline">
+              <FileText className="w-4 h-4 mr-2" />
+              PDF
+            </Button>
+          </form>
         </div>
 
         {/* Summary Cards */}
@@ -175,18 +217,32 @@ export default async function BookReportsPage({ params }: BookReportsPageProps)
             ) : (
               <div className="space-y-3">
                 {categoryBreakdown.map((cat, index) => (
-                  <div key={index} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
-                    <div className="flex items-center gap-3">
-                      <div 
-                        className="w-4 h-4 rounded-full" 
-                        style={{ backgroundColor: cat.color }}
-                      />
-                      <span className="font-medium">{cat.name}</span>
-                      <span className="text-sm text-gray-600">({cat.count} entries)</span>
+                  <div key={index} className="p-3 bg-gray-50 rounded-lg">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-3">
+                        <div 
+                          className="w-4 h-4 rounded-full" 
+                          style={{ backgroundColor: cat.color }}
+                        />
+                        <span className="font-medium">{cat.name}</span>
+                        <span className="text-sm text-gray-600">({cat.count} entries)</span>
+                      </div>
+                      <span className="font-bold text-blue-600">
+                        {formatCurrency(cat.total, book.currency)}
+                      </span>
                     </div>
-                    <span className="font-bold text-blue-600">
-                      {formatCurrency(cat.total, book.currency)}
-                    </span>
+                    {cat.children.length > 0 && (
+                      <div className="mt-2 ml-7 space-y-1">
+                        {cat.children.map((child) => (
+                          <div key={child.id} className="flex items-center justify-between text-sm text-gray-600">
+                            <span>
+                              {child.name} ({child.count} entries)
+                            </span>
+                            <span>{formatCurrency(child.total, book.currency)}</span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
                   </div>
                 ))}
               </div>
@@ -220,6 +276,47 @@ export default async function BookReportsPage({ params }: BookReportsPageProps)
           </CardContent>
         </Card>
 
+        {/* Monthly Cash Flow */}
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle>Monthly Cash Flow (Last 6 Months)</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {monthlyCashFlow.length === 0 ? (
+              <p className="text-gray-600">No cash flow data available</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b bg-gray-50">
+                    <th className="text-left p-3 font-semibold">Month</th>
+                    <th className="text-right p-3 font-semibold">Inflow</th>
+                    <th className="text-right p-3 font-semibold">Outflow</th>
+                    <th className="text-right p-3 font-semibold">Net</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {monthlyCashFlow.map((month) => (
+                    <tr key={month.month} className="border-b">
+                      <td className="p-3 font-medium">
+                        {formatMonthYear(new Date(`${month.month}-01T00:00:00`))}
+                      </td>
+                      <td className="p-3 text-right text-green-600">
+                        {formatCurrency(month.inflow, book.currency)}
+                      </td>
+                      <td className="p-3 text-right text-red-600">
+                        {formatCurrency(month.outflow, book.currency)}
+                      </td>
+                      <td className={`p-3 text-right font-bold ${month.net < 0 ? "text-red-600" : "text-blue-600"}`}>
+                        {formatCurrency(month.net, book.currency)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </CardContent>
+        </Card>
+
         {/* Top Expenses */}
         <Card className="mb-6">
           <CardHeader>
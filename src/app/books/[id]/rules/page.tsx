@@ -0,0 +1,64 @@
+import { getAuthSession } from "@/lib/auth"
+import { redirect } from "next/navigation"
+import { getCategoryRules } from "@/actions/category-rule-actions"
+import { hasBookPermission } from "@/lib/book-roles"
+import { Card, CardContent } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { CategoryRuleManager } from "@/components/category-rules/category-rule-manager"
+import { AppLayout } from "@/components/layout/app-layout"
+import Link from "next/link"
+import { ArrowLeft } from "lucide-react"
+
+interface BookRulesPageProps {
+  params: {
+    id: string
+  }
+}
+
+export default async function BookRulesPage({ params }: BookRulesPageProps) {
+  const session = await getAuthSession()
+  if (!session) redirect("/login")
+
+  const result = await getCategoryRules(params.id)
+
+  return (
+    <AppLayout>
+      <div className="space-y-6">
+        <div className="flex items-center gap-4">
+          <Button asChild variant="outline">
+            <Link href={`/books/${params.id}`}>
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Book
+            </Link>
+          </Button>
+        </div>
+
+        {result.error || !result.book ? (
+          <Card>
+            <CardContent className="p-6 text-center text-red-600">
+              <p>Error: {result.error || "Book not found"}</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">{result.book.name} Rules</h1>
+              <p className="text-gray-600 mt-1">
+                Pick the category and tags of new expenses from their description, amount and payment method.
+                The first matching rule wins.
+              </p>
+            </div>
+
+            <CategoryRuleManager
+              bookId={result.book.id}
+              currency={result.book.currency}
+              categories={result.categories}
+              rules={result.rules}
+              canEdit={hasBookPermission(result.role, "edit") && !result.book.isArchived}
+            />
+          </>
+        )}
+      </div>
+    </AppLayout>
+  )
+}
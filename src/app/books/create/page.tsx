@@ -5,20 +5,22 @@ import { useRouter } from "next/navigation"
 import Link from "next/link"
 import { createBook } from "@/actions/book-actions"
 import { getCategories } from "@/actions/category-actions"
+import { deleteBookTemplate, getBookTemplates } from "@/actions/book-template-actions"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Textarea } from "@/components/ui/textarea"
 import { Label } from "@/components/ui/label"
 import { toast } from "@/components/ui/use-toast"
-import { ArrowLeft, Check } from "lucide-react"
+import { ArrowLeft, Check, LayoutTemplate, Trash2 } from "lucide-react"
 import { CurrencySelector } from "@/components/currency-selector"
 import { AppLayout } from "@/components/layout/app-layout"
 import { CategoryIcon } from "@/components/ui/category-icon"
-import { useQuery } from "@tanstack/react-query"
+import { useQuery, useQueryClient } from "@tanstack/react-query"
 import { Card, CardContent } from "@/components/ui/card"
 
 export default function CreateBookPage() {
   const router = useRouter()
+  const queryClient = useQueryClient()
   const [isLoading, setIsLoading] = useState(false)
   const [formData, setFormData] = useState({
     name: "",
@@ -26,6 +28,7 @@ export default function CreateBookPage() {
     currency: "USD",
   })
   const [selectedDefaultCategories, setSelectedDefaultCategories] = useState<string[]>([])
+  const [selectedTemplateId, setSelectedTemplateId] = useState("")
 
   // Fetch default categories
   const { data: defaultCategoriesData, isLoading: defaultCategoriesLoading } = useQuery({
@@ -36,6 +39,34 @@ export default function CreateBookPage() {
     },
   })
 
+  // Fetch built-in and saved book templates
+  const { data: templatesData, isLoading: templatesLoading } = useQuery({
+    queryKey: ["book-templates"],
+    queryFn: async () => {
+      const result = await getBookTemplates()
+      return result.templates || []
+    },
+  })
+
+  const handleDeleteTemplate = async (templateId: string, templateName: string) => {
+    const result = await deleteBookTemplate(templateId)
+    if (result.error) {
+      toast({
+        title: "Error",
+        description: result.error,
+        variant: "destructive",
+      })
+      return
+    }
+
+    toast({
+      title: "Success",
+      description: `Template "${templateName}" deleted`,
+    })
+    if (selectedTemplateId === templateId) setSelectedTemplateId("")
+    queryClient.invalidateQueries({ queryKey: ["book-templates"] })
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     
@@ -56,6 +87,9 @@ export default function CreateBookPage() {
       formDataObj.append("name", formData.name)
       formDataObj.append("description", formData.description)
       formDataObj.append("currency", formData.currency)
+      if (selectedTemplateId) {
+        formDataObj.append("templateId", selectedTemplateId)
+      }
 
       // Add selected default categories
       selectedDefaultCategories.forEach(categoryId => {
@@ -160,6 +194,83 @@ export default function CreateBookPage() {
                 />
               </div>
 
+              {/* Template Selection */}
+              <div className="space-y-4">
+                <Label className="text-base font-semibold">
+                  Start from a Template (Optional)
+                </Label>
+                <p className="text-sm text-gray-600">
+                  A template sets up categories with sub-categories, monthly budgets and categorisation rules.
+                  Its amounts are converted to the book currency at today&apos;s rate.
+                </p>
+
+                {templatesLoading ? (
+                  <div className="text-center py-8">
+                    <p className="text-gray-500">Loading templates...</p>
+                  </div>
+                ) : (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    {[null, ...(templatesData || [])].map((template) => {
+                      const templateId = template?.id ?? ""
+                      const isSelected = selectedTemplateId === templateId
+                      return (
+                        <Card
+                          key={templateId || "none"}
+                          className={`cursor-pointer transition-all hover:shadow-md ${
+                            isSelected ? 'ring-2 ring-blue-500 bg-blue-50' : 'hover:bg-white'
+                          }`}
+                          onClick={() => setSelectedTemplateId(templateId)}
+                        >
+                          <CardContent className="p-3">
+                            <div className="flex items-start space-x-3">
+                              <LayoutTemplate className="w-4 h-4 mt-0.5 flex-shrink-0 text-gray-500" />
+                              <div className="flex-1 min-w-0">
+                                <h4 className="font-medium text-sm text-gray-900 truncate">
+                                  {template ? template.name : "No template"}
+                                  {template && (
+                                    <span className="ml-2 text-xs font-normal text-gray-500">
+                                      v{template.version}{template.isBuiltIn ? "" : " · Yours"}
+                                    </span>
+                                  )}
+                                </h4>
+                                <p className="text-xs text-gray-600 truncate">
+                                  {template ? template.description : "Start with an empty book"}
+                                </p>
+                                {template && (
+                                  <p className="text-xs text-gray-500 mt-1">
+                                    {template.categoryCount} categories ({template.subCategoryCount} sub) ·{" "}
+                                    {template.budgetCount} budgets · {template.ruleCount} rules · {template.currency}
+                                  </p>
+                                )}
+                              </div>
+                              {template && !template.isBuiltIn && (
+                                <Button
+                                  type="button"
+                                  variant="ghost"
+                                  size="sm"
+                                  className="h-6 w-6 p-0 text-gray-400 hover:text-red-600"
+                                  onClick={(e) => {
+                                    e.stopPropagation()
+                                    handleDeleteTemplate(template.id, template.name)
+                                  }}
+                                  disabled={isLoading}
+                                  aria-label={`Delete template ${template.name}`}
+                                >
+                                  <Trash2 className="w-3 h-3" />
+                                </Button>
+                              )}
+                              {isSelected && (
+                                <Check className="w-4 h-4 text-blue-600 flex-shrink-0" />
+                              )}
+                            </div>
+                          </CardContent>
+                        </Card>
+                      )
+                    })}
+                  </div>
+                )}
+              </div>
+
               {/* Default Categories Selection */}
               <div className="space-y-4">
                 <div className="flex items-center justify-between">
@@ -184,7 +295,7 @@ export default function CreateBookPage() {
                   </div>
                 </div>
                 <p className="text-sm text-gray-600">
-                  Choose from pre-made categories to quickly set up your book. You can always add or remove categories later.
+                  Choose from pre-made categories to quickly set up your book. Ones the template already adds are skipped. You can always add or remove categories later.
                 </p>
                 
                 {defaultCategoriesLoading ? (
@@ -1,12 +1,17 @@
 import { getAuthSession } from "@/lib/auth"
 import { redirect } from "next/navigation"
 import { getBooks, getArchivedBooks } from "@/actions/book-actions"
+import { getPendingInvitations } from "@/actions/book-sharing-actions"
+import { BOOK_ROLE_LABELS, hasBookPermission, isBookRole } from "@/lib/book-roles"
 import { Button } from "@/components/ui/button"
 import { formatCurrency } from "@/lib/utils"
+import { sumMoney } from "@/lib/money"
 import Link from "next/link"
 import { AppLayout } from "@/components/layout/app-layout"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { InvitationResponse } from "@/components/sharing/invitation-response"
 
 export default async function BooksPage() {
   const session = await getAuthSession()
@@ -32,6 +37,10 @@ export default async function BooksPage() {
   const archivedResult = await getArchivedBooks()
   const archivedCount = archivedResult.books?.length || 0
 
+  // Email invitations waiting for this account
+  const invitationsResult = await getPendingInvitations()
+  const invitations = invitationsResult.invitations || []
+
   return (
     <AppLayout>
       <div className="space-y-6">
@@ -58,6 +67,28 @@ export default async function BooksPage() {
           </div>
         </div>
 
+        {invitations.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Invitations</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {invitations.map((invitation) => (
+                <div key={invitation.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg border">
+                  <div>
+                    <p className="font-medium text-gray-900">{invitation.book.name}</p>
+                    <p className="text-sm text-gray-600">
+                      From {invitation.invitedBy.name || invitation.invitedBy.email} as{" "}
+                      {isBookRole(invitation.role) ? BOOK_ROLE_LABELS[invitation.role] : invitation.role}
+                    </p>
+                  </div>
+                  <InvitationResponse token={invitation.token} invitationId={invitation.id} size="sm" />
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
         {books.length === 0 ? (
           <div className="border-2 border-dashed border-gray-300 rounded-lg p-12 text-center bg-gray-50">
             <p className="text-gray-600 text-lg">No books yet. Create your first book to get started!</p>
@@ -77,10 +108,7 @@ export default async function BooksPage() {
               </TableHeader>
               <TableBody>
                 {books.map((book, index) => {
-                  const totalExpenses = book.categories.reduce(
-                    (acc, cat) => acc + cat.expenses.reduce((sum, exp) => sum + exp.amount, 0),
-                    0
-                  )
+                  const totalExpenses = sumMoney(book.categories.flatMap((cat) => cat.expenses.map((exp) => exp.amount)))
                   const totalExpensesCount = book.categories.reduce(
                     (acc, cat) => acc + cat.expenses.length,
                     0
@@ -93,7 +121,14 @@ export default async function BooksPage() {
                     >
                       <TableCell className="font-medium">
                         <div className="flex flex-col">
-                          <span className="font-semibold text-gray-900">{book.name}</span>
+                          <span className="font-semibold text-gray-900">
+                            {book.name}
+                            {book.role !== "owner" && (
+                              <Badge variant="outline" className="ml-2 font-normal">
+                                Shared • {BOOK_ROLE_LABELS[book.role]}
+                              </Badge>
+                            )}
+                          </span>
                           {book.description && (
                             <span className="text-xs text-gray-500">{book.description}</span>
                           )}
@@ -125,9 +160,11 @@ export default async function BooksPage() {
                           <Button asChild size="sm" variant="ghost" className="hover:bg-blue-100">
                             <Link href={`/books/${book.id}/reports`}>Reports</Link>
                           </Button>
-                          <Button asChild size="sm" variant="ghost" className="hover:bg-green-100">
-                            <Link href={`/categories/create?bookId=${book.id}`}>Add Category</Link>
-                          </Button>
+                          {hasBookPermission(book.role, "edit") && (
+                            <Button asChild size="sm" variant="ghost" className="hover:bg-green-100">
+                              <Link href={`/categories/create?bookId=${book.id}`}>Add Category</Link>
+                            </Button>
+                          )}
                           <Button asChild size="sm" variant="ghost" className="hover:bg-purple-100">
                             <Link href={`/categories?bookId=${book.id}`}>Categories</Link>
                           </Button>
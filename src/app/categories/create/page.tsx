@@ -5,6 +5,7 @@ import { useRouter, useSearchParams } from "next/navigation"
 import Link from "next/link"
 import { createCategory, getCategories, addDefaultCategoryToBook } from "@/actions/category-actions"
 import { getBooks, getBookById } from "@/actions/book-actions"
+import { hasBookPermission } from "@/lib/book-roles"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Textarea } from "@/components/ui/textarea"
@@ -17,8 +18,12 @@ import { Card, CardContent } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Checkbox } from "@/components/ui/checkbox"
 import { CategoryIcon } from "@/components/ui/category-icon"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { ChevronDown, ChevronUp, Check, Home, Car, Utensils, ShoppingBag, Heart, Briefcase, GraduationCap, Gamepad2, Film, Music, Coffee, Zap, Wrench, Plane, Train, Bus, Bike, Dumbbell, Book, Pill, Stethoscope, CreditCard, Smartphone, Laptop, Watch, Gift, Cake, Camera, Palette, Hammer, Scissors, Truck, Building, TreePine, Waves, Mountain, Sun, Moon, Star } from "lucide-react"
 
+// Select value for a top-level category
+const NO_PARENT = "none"
+
 function CreateCategoryForm() {
   const router = useRouter()
   const queryClient = useQueryClient()
@@ -35,7 +40,8 @@ function CreateCategoryForm() {
     queryKey: ["books"],
     queryFn: async () => {
       const result = await getBooks()
-      return result.books || []
+      // Only books the user may add categories to
+      return (result.books || []).filter((book) => hasBookPermission(book.role, "edit"))
     },
     staleTime: 0, // Always consider data stale to ensure fresh fetches
     refetchOnMount: true, // Refetch when component mounts
@@ -164,6 +170,18 @@ function CreateCategoryForm() {
     description: "",
     bookIds: bookIdFromUrl ? [bookIdFromUrl] : [],
     icon: "",
+    parentId: NO_PARENT,
+  })
+
+  // A sub-category belongs to a single book, so a parent can only be picked for one
+  const parentBookId = formData.bookIds.length === 1 ? formData.bookIds[0] : null
+  const { data: parentCategories } = useQuery({
+    queryKey: ["parent-categories", parentBookId],
+    queryFn: async () => {
+      const result = await getCategories(parentBookId!, "edit")
+      return ((result.categories as any[]) || []).filter(cat => cat.bookId === parentBookId && !cat.parentId)
+    },
+    enabled: !!parentBookId,
   })
 
   // State for emoji picker dialog
@@ -200,6 +218,9 @@ function CreateCategoryForm() {
       formDataObj.append("bookIds", bookId)
     })
     formDataObj.append("icon", formData.icon)
+    if (parentBookId && formData.parentId !== NO_PARENT) {
+      formDataObj.append("parentId", formData.parentId)
+    }
 
     createCategoryMutation.mutate(formDataObj)
   }
@@ -548,6 +569,35 @@ function CreateCategoryForm() {
                 )}
               </div>
 
+              {/* Parent Category */}
+              {parentBookId && parentCategories && parentCategories.length > 0 && (
+                <div className="space-y-2">
+                  <Label className="text-base font-semibold">
+                    Parent Category (Optional)
+                  </Label>
+                  <Select
+                    value={formData.parentId}
+                    onValueChange={(value) => setFormData({ ...formData, parentId: value })}
+                    disabled={createCategoryMutation.isPending}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="None (top-level category)" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_PARENT}>None (top-level category)</SelectItem>
+                      {parentCategories.map((category) => (
+                        <SelectItem key={category.id} value={category.id}>
+                          {category.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-sm text-gray-500">
+                    Make this a sub-category, e.g. Fuel under Transportation. Reports include it in the parent&apos;s total.
+                  </p>
+                </div>
+              )}
+
               {/* Action Buttons */}
               <div className="flex gap-3 pt-4 border-t border-gray-200">
                 <Button 
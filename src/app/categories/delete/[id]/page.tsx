@@ -94,6 +94,13 @@ export default function DeleteCategoryPage({ params }: DeleteCategoryPageProps)
                   <li>Cannot be deleted permanently if it has expenses</li>
                 </ul>
               </div>
+              <p className="text-sm text-gray-600">
+                Removing a duplicate?{" "}
+                <Link href={`/categories/merge/${params.id}`} className="font-medium text-blue-600 underline">
+                  Merge it into another category
+                </Link>{" "}
+                instead, so its expenses stay visible.
+              </p>
             </div>
 
             <div className="flex gap-3">
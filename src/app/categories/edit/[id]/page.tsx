@@ -1,6 +1,6 @@
 import { getAuthSession } from "@/lib/auth"
 import { redirect, notFound } from "next/navigation"
-import { getCategoryById } from "@/actions/category-actions"
+import { getCategories, getCategoryById } from "@/actions/category-actions"
 import EditCategoryForm from "@/components/forms/edit-category-form"
 import { AppLayout } from "@/components/layout/app-layout"
 
@@ -29,9 +29,20 @@ export default async function EditCategoryPage({ params }: EditCategoryPageProps
     notFound()
   }
 
+  // Top-level categories of the same book it can be moved under; a category with
+  // sub-categories of its own stays top-level
+  const category = result.category
+  let parentOptions: { id: string; name: string }[] = []
+  if (category.bookId && category.children.length === 0) {
+    const categoriesResult = await getCategories(category.bookId, "edit")
+    parentOptions = (categoriesResult.categories || [])
+      .filter(cat => cat.bookId === category.bookId && !cat.parentId && cat.id !== category.id)
+      .map(cat => ({ id: cat.id, name: cat.name }))
+  }
+
   return (
     <AppLayout>
-      <EditCategoryForm category={result.category} />
+      <EditCategoryForm category={category} parentOptions={parentOptions} />
     </AppLayout>
   )
 }
\ No newline at end of file
@@ -0,0 +1,56 @@
+import { getAuthSession } from "@/lib/auth"
+import { redirect, notFound } from "next/navigation"
+import { getCategories, getCategoryById } from "@/actions/category-actions"
+import { MergeCategoryForm } from "@/components/categories/merge-category-form"
+import { AppLayout } from "@/components/layout/app-layout"
+
+interface MergeCategoryPageProps {
+  params: {
+    id: string
+  }
+}
+
+export default async function MergeCategoryPage({ params }: MergeCategoryPageProps) {
+  const session = await getAuthSession()
+  if (!session) redirect("/login")
+
+  const result = await getCategoryById(params.id)
+  if (result.error) {
+    return (
+      <AppLayout>
+        <div className="space-y-6">
+          <p className="text-red-600">Error: {result.error}</p>
+        </div>
+      </AppLayout>
+    )
+  }
+
+  if (!result.category) {
+    notFound()
+  }
+
+  // Active categories of the same book; one with sub-categories merges into a top-level one
+  const category = result.category
+  const categoriesResult = await getCategories(category.bookId || undefined, "edit")
+  const targets = (categoriesResult.categories || [])
+    .filter(cat => cat.bookId === category.bookId && cat.id !== category.id)
+    .filter(cat => category.children.length === 0 || !cat.parentId)
+    .map(cat => ({ id: cat.id, name: cat.parent ? `${cat.parent.name} › ${cat.name}` : cat.name }))
+
+  return (
+    <AppLayout>
+      <MergeCategoryForm
+        category={{
+          id: category.id,
+          name: category.name,
+          bookId: category.bookId,
+          bookName: category.book?.name || "",
+          isDisabled: category.isDisabled,
+          expenseCount: category.expenses.length,
+          subCategoryCount: category.children.length,
+        }}
+        targets={targets}
+      />
+    </AppLayout>
+  )
+}
@@ -2,11 +2,13 @@ import { getAuthSession } from "@/lib/auth"
 import { redirect, notFound } from "next/navigation"
 import { getCategories } from "@/actions/category-actions"
 import { getBookById } from "@/actions/book-actions"
+import { bookAccessWhere } from "@/lib/book-access"
 import { Button } from "@/components/ui/button"
 import Link from "next/link"
 import { Badge } from "@/components/ui/badge"
 import { AppLayout } from "@/components/layout/app-layout"
 import { CategoryIcon } from "@/components/ui/category-icon"
+import { sortCategoryTree } from "@/lib/category-tree"
 import { Eye, EyeOff, Check } from "lucide-react"
 import { CategoriesPageClient } from "@/components/categories/categories-page-client"
 
@@ -61,6 +63,14 @@ export default async function CategoriesPage({ searchParams }: CategoriesPagePro
     userCategories = userCategories.filter(cat => cat.bookId === bookId)
   }
 
+  // Sub-categories listed under their parent, which counts their expenses too
+  userCategories = sortCategoryTree(userCategories)
+  const rolledUpExpenseCounts = new Map<string, number>()
+  userCategories.forEach(cat => {
+    const rollUpId = cat.depth > 0 ? cat.parentId : cat.id
+    rolledUpExpenseCounts.set(rollUpId, (rolledUpExpenseCounts.get(rollUpId) || 0) + cat.expenses.length)
+  })
+
   // Check which default categories are already added to this book
   const alreadyAddedDefaultCategories = new Set()
   if (bookId) {
@@ -85,13 +95,14 @@ export default async function CategoriesPage({ searchParams }: CategoriesPagePro
         ...(bookId ? { bookId } : {}),
         isDisabled: true,
         book: {
-          userId: session.user.id,
+          ...bookAccessWhere(session.user.id, "edit"),
           isArchived: false,
         },
       } as any,
       include: {
         book: true,
         expenses: true,
+        parent: { select: { name: true, icon: true } },
       },
       orderBy: { name: "asc" },
     })
@@ -259,12 +270,13 @@ export default async function CategoriesPage({ searchParams }: CategoriesPagePro
                       key={category.id} 
                       className={`border-b hover:bg-green-50/50 transition-colors ${index % 2 === 0 ? 'bg-white' : 'bg-green-50/20'}`}
                     >
-                      <td className="p-3">
-                        {category.icon && (
-                          <CategoryIcon iconName={category.icon} />
-                        )}
+                      <td className={`p-3 ${category.depth > 0 ? 'pl-8' : ''}`}>
+                        <CategoryIcon iconName={category.icon} parentIconName={category.depth > 0 ? category.parent?.icon : null} />
+                      </td>
+                      <td className={`p-3 font-medium text-gray-900 ${category.depth > 0 ? 'pl-8' : ''}`}>
+                        {category.depth > 0 && <span className="text-gray-400 mr-1">↳</span>}
+                        {category.name}
                       </td>
-                      <td className="p-3 font-medium text-gray-900">{category.name}</td>
                       <td className="p-3 text-gray-600">
                         {category.description || <span className="text-gray-400 italic">No description</span>}
                       </td>
@@ -275,6 +287,11 @@ export default async function CategoriesPage({ searchParams }: CategoriesPagePro
                         <span className="inline-flex items-center justify-center px-2 py-1 bg-blue-100 text-blue-800 border border-blue-200 rounded-full text-xs font-semibold">
                           {category.expenses.length}
                         </span>
+                        {category.depth === 0 && rolledUpExpenseCounts.get(category.id) !== category.expenses.length && (
+                          <span className="block text-xs text-gray-500 mt-1">
+                            {rolledUpExpenseCounts.get(category.id)} with sub-categories
+                          </span>
+                        )}
                       </td>
                       <td className="p-3 text-right">
                         <div className="flex gap-1 justify-end flex-wrap">
@@ -286,6 +303,9 @@ export default async function CategoriesPage({ searchParams }: CategoriesPagePro
                               <Button variant="outline" size="sm" asChild className="hover:bg-yellow-100">
                                 <Link href={`/categories/edit/${category.id}`}>Edit</Link>
                               </Button>
+                              <Button variant="outline" size="sm" asChild className="hover:bg-purple-100">
+                                <Link href={`/categories/merge/${category.id}`}>Merge</Link>
+                              </Button>
                               <Button 
                                 variant="destructive" 
                                 size="sm" 
@@ -329,11 +349,14 @@ export default async function CategoriesPage({ searchParams }: CategoriesPagePro
                       className={`border-b opacity-75 ${index % 2 === 0 ? 'bg-gray-50' : 'bg-gray-100/50'}`}
                     >
                       <td className="p-3">
-                        {category.icon && (
-                          <CategoryIcon iconName={category.icon} className="w-5 h-5 line-through" />
+                        <CategoryIcon iconName={category.icon} parentIconName={category.parent?.icon} className="w-5 h-5 line-through" />
+                      </td>
+                      <td className="p-3 font-medium text-gray-700">
+                        <span className="line-through">{category.name}</span>
+                        {category.parent && (
+                          <span className="block text-xs text-gray-500">in {category.parent.name}</span>
                         )}
                       </td>
-                      <td className="p-3 font-medium text-gray-700 line-through">{category.name}</td>
                       <td className="p-3 text-gray-500 line-through">
                         {category.description || <span className="text-gray-400 italic">No description</span>}
                       </td>
@@ -351,6 +374,11 @@ export default async function CategoriesPage({ searchParams }: CategoriesPagePro
                           <Button variant="outline" size="sm" asChild className="hover:bg-blue-100">
                             <Link href={`/categories/restore/${category.id}`}>Restore</Link>
                           </Button>
+                          {category.expenses.length > 0 && (
+                            <Button variant="outline" size="sm" asChild className="hover:bg-purple-100">
+                              <Link href={`/categories/merge/${category.id}`}>Merge</Link>
+                            </Button>
+                          )}
                         </div>
                       </td>
                     </tr>
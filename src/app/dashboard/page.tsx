@@ -5,9 +5,10 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import Link from "next/link"
 import { AppLayout } from "@/components/layout/app-layout"
-import { BookOpen, FolderGit2, Wallet, BarChart3, Plus, Archive, Eye, TrendingUp, Calendar } from "lucide-react"
+import { BookOpen, FolderGit2, Wallet, BarChart3, Plus, Archive, Eye, TrendingUp, Calendar, Target, Coins } from "lucide-react"
 import { getDashboardSummary } from "@/actions/report-actions"
 import { formatCurrency, formatDate } from "@/lib/utils"
+import { BudgetProgress } from "@/components/budgets/budget-manager"
 
 export default async function DashboardPage() {
   const session = await getAuthSession()
@@ -80,7 +81,7 @@ export default async function DashboardPage() {
               </CardHeader>
               <CardContent>
                 <div className="text-2xl font-bold text-orange-600">
-                  {formatCurrency(summary.currentMonthTotal, "USD")}
+                  {formatCurrency(summary.currentMonthTotal, summary.currency)}
                 </div>
                 <p className="text-xs text-muted-foreground">
                   Current month spending
@@ -90,6 +91,84 @@ export default async function DashboardPage() {
           </div>
         )}
 
+        {/* Totals per book in each book's own currency, consolidated in the reporting currency */}
+        {summary && summary.bookTotals.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between gap-2">
+                <span className="flex items-center gap-2">
+                  <Coins className="w-5 h-5" />
+                  Total Amount
+                </span>
+                <span className="text-2xl font-bold text-blue-600">
+                  {formatCurrency(summary.totalAmount, summary.currency)}
+                </span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-2">
+                {summary.bookTotals.map((book) => (
+                  <Link
+                    key={book.bookId}
+                    href={`/books/${book.bookId}`}
+                    className="flex items-center justify-between p-3 bg-gray-50 rounded-lg border hover:border-blue-200 transition-colors"
+                  >
+                    <p className="font-medium">{book.bookName}</p>
+                    <div className="text-right">
+                      <p className="font-semibold">{formatCurrency(book.total, book.currency)}</p>
+                      {book.currency !== summary.currency && (
+                        <p className="text-xs text-gray-500">
+                          ≈ {formatCurrency(book.convertedTotal, summary.currency)}
+                        </p>
+                      )}
+                    </div>
+                  </Link>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground mt-3">
+                Totals in {summary.currency} use the exchange rate of each expense's date.{" "}
+                <Link href="/settings" className="underline">
+                  Change reporting currency
+                </Link>
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Budgets */}
+        {summary && summary.budgets.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Target className="w-5 h-5" />
+                Budgets
+                {summary.overBudgetCount > 0 && (
+                  <span className="text-sm font-normal text-red-600">
+                    ({summary.overBudgetCount} over budget)
+                  </span>
+                )}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {summary.budgets.map((budget) => (
+                  <Link
+                    key={budget.budgetId}
+                    href={`/books/${budget.bookId}`}
+                    className="p-3 bg-gray-50 rounded-lg border hover:border-blue-200 transition-colors space-y-2"
+                  >
+                    <div className="flex items-center justify-between">
+                      <p className="font-medium">{budget.categoryName || "Whole book"}</p>
+                      <p className="text-xs text-gray-500">{budget.bookName}</p>
+                    </div>
+                    <BudgetProgress budget={budget} />
+                  </Link>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Recent Expenses */}
         {summary && summary.recentExpenses && summary.recentExpenses.length > 0 && (
           <Card>
@@ -5,6 +5,7 @@ import { useRouter, useSearchParams } from "next/navigation"
 import Link from "next/link"
 import { createExpense } from "@/actions/expense-actions"
 import { getCategories } from "@/actions/category-actions"
+import { suggestExpenseCategory } from "@/actions/category-rule-actions"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Textarea } from "@/components/ui/textarea"
@@ -12,6 +13,10 @@ import { Label } from "@/components/ui/label"
 import { toast } from "@/components/ui/use-toast"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { AppLayout } from "@/components/layout/app-layout"
+import { ReceiptPicker } from "@/components/attachments/receipt-picker"
+import { TagPicker } from "@/components/tags/tag-picker"
+import { CurrencySelector } from "@/components/currency-selector"
+import { getAmountStep } from "@/lib/money"
 
 function CreateExpenseForm() {
   const router = useRouter()
@@ -25,7 +30,17 @@ function CreateExpenseForm() {
     description: "",
     paymentMethod: "Cash",
     categoryId: "",
+    // Empty until picked: follows the selected category's book
+    currency: "",
   })
+  const [receipts, setReceipts] = useState<File[]>([])
+  const [tags, setTags] = useState<string[]>([])
+  const [suggestion, setSuggestion] = useState<{
+    categoryId: string
+    categoryName: string
+    ruleName: string | null
+    tags: string[]
+  } | null>(null)
 
   // Get bookId and categoryId from URL
   const bookId = searchParams.get("bookId")
@@ -34,7 +49,7 @@ function CreateExpenseForm() {
   const loadCategories = useCallback(async () => {
     setCategoriesLoading(true)
     try {
-      const result = await getCategories()
+      const result = await getCategories(undefined, "add")
       if (result.categories) {
         // Filter out default categories and filter by bookId if provided
         let filteredCategories = (result.categories as any[]).filter(cat => !cat.isDefault)
@@ -59,6 +74,41 @@ function CreateExpenseForm() {
     loadCategories()
   }, [loadCategories])
 
+  // Suggest a category from the book's rules and past expenses once typing pauses
+  useEffect(() => {
+    const amount = parseFloat(formData.amount)
+    if (!formData.description.trim() && isNaN(amount)) {
+      setSuggestion(null)
+      return
+    }
+
+    const timeout = setTimeout(async () => {
+      const result = await suggestExpenseCategory({
+        bookId: bookId || undefined,
+        description: formData.description,
+        amount: isNaN(amount) ? undefined : amount,
+        currency: formData.currency || undefined,
+        paymentMethod: formData.paymentMethod,
+      })
+      setSuggestion(result.suggestion || null)
+    }, 400)
+    return () => clearTimeout(timeout)
+  }, [bookId, formData.description, formData.amount, formData.currency, formData.paymentMethod])
+
+  const applySuggestion = () => {
+    if (!suggestion) return
+    setFormData({ ...formData, categoryId: suggestion.categoryId })
+    setTags(Array.from(new Set([...tags, ...suggestion.tags])))
+  }
+
+  const showSuggestion =
+    suggestion !== null &&
+    categories.some(c => c.id === suggestion.categoryId) &&
+    (suggestion.categoryId !== formData.categoryId || suggestion.tags.some(tag => !tags.includes(tag)))
+
+  const bookCurrency = categories.find(c => c.id === formData.categoryId)?.book?.currency || "USD"
+  const currency = formData.currency || bookCurrency
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
 
@@ -111,6 +161,9 @@ function CreateExpenseForm() {
       formDataObj.append("description", formData.description)
       formDataObj.append("paymentMethod", formData.paymentMethod)
       formDataObj.append("categoryId", formData.categoryId)
+      formDataObj.append("currency", currency)
+      tags.forEach((tag) => formDataObj.append("tags", tag))
+      receipts.forEach((file) => formDataObj.append("receipts", file))
 
       const result = await createExpense(formDataObj)
 
@@ -125,6 +178,13 @@ function CreateExpenseForm() {
           title: "Success",
           description: "Expense added successfully!",
         })
+        if (result.warning) {
+          toast({
+            title: "Budget exceeded",
+            description: result.warning,
+            variant: "destructive",
+          })
+        }
         router.push("/expenses")
         router.refresh()
       }
@@ -160,17 +220,31 @@ function CreateExpenseForm() {
         <div className="border rounded-lg overflow-hidden shadow-sm bg-white">
           <div className="p-6">
             <form onSubmit={handleSubmit} className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="amount">Amount *</Label>
-                <Input
-                  id="amount"
-                  type="number"
-                  step="0.01"
-                  placeholder="0.00"
-                  value={formData.amount}
-                  onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
-                  required
-                />
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div className="space-y-2 sm:col-span-2">
+                  <Label htmlFor="amount">Amount *</Label>
+                  <Input
+                    id="amount"
+                    type="number"
+                    step={getAmountStep(currency)}
+                    placeholder="0.00"
+                    value={formData.amount}
+                    onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Currency</Label>
+                  <CurrencySelector
+                    value={currency}
+                    onChange={(value) => setFormData({ ...formData, currency: value })}
+                  />
+                </div>
+                {currency !== bookCurrency && (
+                  <p className="text-sm text-gray-600 sm:col-span-3">
+                    Converted to {bookCurrency} at the exchange rate of the expense date when saved.
+                  </p>
+                )}
               </div>
 
               <div className="space-y-2">
@@ -205,6 +279,18 @@ function CreateExpenseForm() {
                     ))}
                   </SelectContent>
                 </Select>
+                {showSuggestion && suggestion && (
+                  <div className="flex items-center justify-between gap-2 text-sm text-gray-600">
+                    <span>
+                      Suggested: <span className="font-medium">{suggestion.categoryName}</span>
+                      {suggestion.ruleName ? ` (rule "${suggestion.ruleName}")` : " (from similar expenses)"}
+                      {suggestion.tags.length > 0 && ` with ${suggestion.tags.map(tag => `#${tag}`).join(" ")}`}
+                    </span>
+                    <Button type="button" variant="outline" size="sm" onClick={applySuggestion}>
+                      Use
+                    </Button>
+                  </div>
+                )}
                 {categories.length === 0 && (
                   <p className="text-sm text-red-600">
                     No categories available.{" "}
@@ -250,6 +336,21 @@ function CreateExpenseForm() {
                 </Select>
               </div>
 
+              <div className="space-y-2">
+                <Label>Tags</Label>
+                <TagPicker
+                  value={tags}
+                  onChange={setTags}
+                  disabled={isLoading}
+                  bookId={bookId || categories.find(cat => cat.id === formData.categoryId)?.bookId}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Receipts</Label>
+                <ReceiptPicker files={receipts} onChange={setReceipts} disabled={isLoading} />
+              </div>
+
               <div className="flex gap-2 pt-4 border-t border-gray-200">
                 <Button type="submit" disabled={isLoading || categories.length === 0} className="flex-1">
                   {isLoading ? "Adding..." : "Add Expense"}
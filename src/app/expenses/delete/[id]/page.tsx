@@ -6,6 +6,8 @@ import { getExpenseById, disableExpense } from "@/actions/expense-actions"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { toast } from "@/components/ui/use-toast"
+import { AttachmentList } from "@/components/attachments/attachment-list"
+import { formatCurrency } from "@/lib/utils"
 import { AlertTriangle, ArrowLeft } from "lucide-react"
 
 interface DeleteExpensePageProps {
@@ -125,7 +127,7 @@ export default function DeleteExpensePage({ params }: DeleteExpensePageProps) {
               {expense && (
                 <>
                   <p className="text-sm text-gray-600">
-                    Amount: <strong>${expense.amount.toFixed(2)}</strong>
+                    Amount: <strong>{formatCurrency(expense.amount, expense.category.book.currency)}</strong>
                   </p>
                   <p className="text-sm text-gray-600">
                     Date: <strong>{new Date(expense.date).toLocaleDateString()}</strong>
@@ -138,6 +140,12 @@ export default function DeleteExpensePage({ params }: DeleteExpensePageProps) {
                       Description: <strong>{expense.description}</strong>
                     </p>
                   )}
+                  {expense.attachments.length > 0 && (
+                    <div className="pt-2">
+                      <p className="text-sm text-gray-600 mb-2">Receipts:</p>
+                      <AttachmentList attachments={expense.attachments} />
+                    </div>
+                  )}
                 </>
               )}
             </div>
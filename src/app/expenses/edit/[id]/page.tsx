@@ -1,8 +1,15 @@
 import { getAuthSession } from "@/lib/auth"
 import { redirect, notFound } from "next/navigation"
 import { getExpenseById } from "@/actions/expense-actions"
+import { getParticipants } from "@/actions/split-actions"
+import { getExpenseHistory } from "@/actions/audit-actions"
+import { canAccessBook } from "@/lib/book-access"
 import EditExpenseForm from "@/components/forms/edit-expense-form"
+import { ExpenseSplitEditor } from "@/components/splits/expense-split-editor"
+import { AuditHistory } from "@/components/audit/audit-history"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { AppLayout } from "@/components/layout/app-layout"
+import { History } from "lucide-react"
 
 interface EditExpensePageProps {
   params: {
@@ -29,9 +36,51 @@ export default async function EditExpensePage({ params }: EditExpensePageProps)
     notFound()
   }
 
+  const { expense } = result
+  const book = expense.category.book!
+  const canEdit = await canAccessBook(session.user.id, book, "edit")
+  const [participantsResult, historyResult] = await Promise.all([
+    canEdit ? getParticipants(book.id) : null,
+    getExpenseHistory(expense.id),
+  ])
+
   return (
     <AppLayout>
-      <EditExpenseForm expense={result.expense} />
+      <div className="space-y-6">
+        <EditExpenseForm expense={expense} />
+        {canEdit && participantsResult?.participants && (
+          <ExpenseSplitEditor
+            key={`${expense.amount}-${expense.splits.length}`}
+            expenseId={expense.id}
+            bookId={book.id}
+            amount={expense.amount}
+            currency={book.currency}
+            participants={participantsResult.participants}
+            splitMethod={expense.splitMethod}
+            paidById={expense.paidById}
+            splits={expense.splits}
+          />
+        )}
+        {historyResult.entries && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <History className="w-5 h-5" />
+                History
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <AuditHistory
+                entries={historyResult.entries}
+                categoryNames={historyResult.categoryNames}
+                currency={book.currency}
+                canEdit={canEdit}
+                canManage={false}
+              />
+            </CardContent>
+          </Card>
+        )}
+      </div>
     </AppLayout>
   )
 }
\ No newline at end of file
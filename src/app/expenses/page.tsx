@@ -9,8 +9,12 @@ import { formatCurrency, formatDate } from "@/lib/utils"
 import { AppLayout } from "@/components/layout/app-layout"
 import { Badge } from "@/components/ui/badge"
 import { CategoryIcon } from "@/components/ui/category-icon"
-import { Eye, EyeOff } from "lucide-react"
+import { AttachmentIndicator } from "@/components/attachments/attachment-indicator"
+import { ExpenseSelectAll, ExpenseSelectCheckbox, ExpenseSelectionProvider } from "@/components/expenses/expense-selection"
+import { sortCategoryTree } from "@/lib/category-tree"
+import { Eye, EyeOff, Repeat } from "lucide-react"
 import { getPrismaClient } from "@/lib/prisma"
+import { bookAccessWhere } from "@/lib/book-access"
 
 interface ExpensesPageProps {
   searchParams: {
@@ -59,15 +63,25 @@ export default async function ExpensesPage({ searchParams }: ExpensesPageProps)
   let expenses = expensesResult.expenses as any[] || []
   let categories = categoriesResult.categories as any[] || []
 
+  // Categories of every book selected expenses can be moved to
+  const moveTargets = sortCategoryTree(categories.filter(cat => !cat.isDefault && cat.book))
+    .map(cat => ({
+      id: cat.id,
+      name: cat.depth > 0 ? `${cat.parent.name} › ${cat.name}` : cat.name,
+      bookName: cat.book.name,
+      currency: cat.book.currency,
+    }))
+    .sort((a, b) => a.bookName.localeCompare(b.bookName))
+
   // Filter by bookId if provided
   if (bookId) {
     expenses = expenses.filter(exp => exp.category.bookId === bookId)
     categories = categories.filter(cat => cat.bookId === bookId)
   }
 
-  // Filter by categoryId if provided
+  // Filter by categoryId if provided, including its sub-categories
   if (categoryId) {
-    expenses = expenses.filter(exp => exp.categoryId === categoryId)
+    expenses = expenses.filter(exp => exp.categoryId === categoryId || exp.category.parentId === categoryId)
   }
 
   // Get disabled expenses if requested
@@ -77,12 +91,12 @@ export default async function ExpensesPage({ searchParams }: ExpensesPageProps)
     disabledExpenses = await prisma.expense.findMany({
       where: {
         ...(bookId ? { category: { bookId } } : {}),
-        ...(categoryId ? { categoryId } : {}),
+        ...(categoryId ? { OR: [{ categoryId }, { category: { parentId: categoryId } }] } : {}),
         isDisabled: true,
         category: {
           isDisabled: false,
           book: {
-            userId: session.user.id,
+            ...bookAccessWhere(session.user.id, "edit"),
             isArchived: false,
           },
         },
@@ -93,6 +107,9 @@ export default async function ExpensesPage({ searchParams }: ExpensesPageProps)
             book: true,
           },
         },
+        attachments: {
+          orderBy: { createdAt: "asc" },
+        },
       },
       orderBy: { date: "desc" },
     })
@@ -130,6 +147,12 @@ export default async function ExpensesPage({ searchParams }: ExpensesPageProps)
                 {showDisabled ? "Hide Disabled" : "Show Disabled"}
               </Link>
             </Button>
+            <Button variant="outline" asChild className="bg-white hover:bg-gray-50">
+              <Link href={bookId ? `/expenses/recurring?bookId=${bookId}` : "/expenses/recurring"}>
+                <Repeat className="w-4 h-4 mr-2" />
+                Recurring
+              </Link>
+            </Button>
             <Button asChild className="bg-purple-600 hover:bg-purple-700">
               <Link href={bookId ? `/expenses/create?bookId=${bookId}` : "/expenses/create"}>
                 Add Expense
@@ -146,65 +169,83 @@ export default async function ExpensesPage({ searchParams }: ExpensesPageProps)
         ) : (
           <div className="space-y-4">
             <h2 className="text-xl font-semibold text-purple-800 bg-purple-50 p-3 rounded-lg border border-purple-200">Active Expenses</h2>
-            <div className="border rounded-lg overflow-hidden shadow-sm bg-white">
-              <table className="w-full text-sm">
-                <thead>
-                  <tr className="border-b-2 border-purple-200 bg-purple-50">
-                    <th className="text-left p-3 font-semibold text-purple-900">Date</th>
-                    <th className="text-left p-3 font-semibold text-purple-900">Category</th>
-                    <th className="text-left p-3 font-semibold text-purple-900">Description</th>
-                    <th className="text-left p-3 font-semibold text-purple-900">Book</th>
-                    <th className="text-right p-3 font-semibold text-purple-900">Amount</th>
-                    <th className="text-right p-3 font-semibold text-purple-900">Actions</th>
-                  </tr>
-                </thead>
-                <tbody>
-                  {expenses.map((expense, index) => (
-                    <tr 
-                      key={expense.id} 
-                      className={`border-b hover:bg-purple-50/50 transition-colors ${index % 2 === 0 ? 'bg-white' : 'bg-purple-50/20'}`}
-                    >
-                      <td className="p-3 text-gray-700">{formatDate(expense.date)}</td>
-                      <td className="p-3">
-                        <span className="inline-flex items-center gap-2">
-                          <CategoryIcon iconName={expense.category.icon} className="w-4 h-4 text-gray-600" />
-                          <span className="font-medium text-gray-900">{expense.category.name}</span>
-                        </span>
-                      </td>
-                      <td className="p-3 text-gray-600">
-                        {expense.description || <span className="text-gray-400 italic">No description</span>}
-                        {expense.paymentMethod && (
-                          <div className="mt-1">
-                            <Badge variant="outline" className="bg-gray-100 text-gray-700 border-gray-300 text-xs">
-                              💳 {expense.paymentMethod}
-                            </Badge>
-                          </div>
-                        )}
-                      </td>
-                      <td className="p-3 text-gray-600">{expense.category.book?.name || "N/A"}</td>
-                      <td className="p-3 text-right font-bold text-purple-600 text-lg">
-                        {formatCurrency(expense.amount, expense.category.book?.currency || "USD")}
-                      </td>
-                      <td className="p-3 text-right">
-                        <div className="flex gap-1 justify-end">
-                          <Button variant="outline" size="sm" asChild className="hover:bg-yellow-100">
-                            <Link href={`/expenses/edit/${expense.id}`}>Edit</Link>
-                          </Button>
-                          <Button 
-                            variant="destructive" 
-                            size="sm" 
-                            asChild
-                            className="hover:bg-red-100"
-                          >
-                            <Link href={`/expenses/delete/${expense.id}`}>Disable</Link>
-                          </Button>
-                        </div>
-                      </td>
+            <ExpenseSelectionProvider expenseIds={expenses.map(expense => expense.id)} categories={moveTargets}>
+              <div className="border rounded-lg overflow-hidden shadow-sm bg-white">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b-2 border-purple-200 bg-purple-50">
+                      <th className="p-3 w-8">
+                        <ExpenseSelectAll />
+                      </th>
+                      <th className="text-left p-3 font-semibold text-purple-900">Date</th>
+                      <th className="text-left p-3 font-semibold text-purple-900">Category</th>
+                      <th className="text-left p-3 font-semibold text-purple-900">Description</th>
+                      <th className="text-left p-3 font-semibold text-purple-900">Book</th>
+                      <th className="text-right p-3 font-semibold text-purple-900">Amount</th>
+                      <th className="text-right p-3 font-semibold text-purple-900">Actions</th>
                     </tr>
-                  ))}
-                </tbody>
-              </table>
-            </div>
+                  </thead>
+                  <tbody>
+                    {expenses.map((expense, index) => (
+                      <tr 
+                        key={expense.id} 
+                        className={`border-b hover:bg-purple-50/50 transition-colors ${index % 2 === 0 ? 'bg-white' : 'bg-purple-50/20'}`}
+                      >
+                        <td className="p-3">
+                          <ExpenseSelectCheckbox expenseId={expense.id} />
+                        </td>
+                        <td className="p-3 text-gray-700">{formatDate(expense.date)}</td>
+                        <td className="p-3">
+                          <span className="inline-flex items-center gap-2">
+                            <CategoryIcon iconName={expense.category.icon} parentIconName={expense.category.parent?.icon} className="w-4 h-4 text-gray-600" />
+                            <span className="font-medium text-gray-900">{expense.category.name}</span>
+                          </span>
+                        </td>
+                        <td className="p-3 text-gray-600">
+                          {expense.description || <span className="text-gray-400 italic">No description</span>}
+                          {" "}<AttachmentIndicator attachments={expense.attachments} />
+                          {expense.paymentMethod && (
+                            <div className="mt-1">
+                              <Badge variant="outline" className="bg-gray-100 text-gray-700 border-gray-300 text-xs">
+                                💳 {expense.paymentMethod}
+                              </Badge>
+                            </div>
+                          )}
+                          {expense.tags.length > 0 && (
+                            <div className="mt-1 flex flex-wrap gap-1">
+                              {expense.tags.map((tag: any) => (
+                                <Badge key={tag.id} variant="secondary" className="text-xs">
+                                  #{tag.name}
+                                </Badge>
+                              ))}
+                            </div>
+                          )}
+                        </td>
+                        <td className="p-3 text-gray-600">{expense.category.book?.name || "N/A"}</td>
+                        <td className="p-3 text-right font-bold text-purple-600 text-lg">
+                          {formatCurrency(expense.amount, expense.category.book?.currency || "USD")}
+                        </td>
+                        <td className="p-3 text-right">
+                          <div className="flex gap-1 justify-end">
+                            <Button variant="outline" size="sm" asChild className="hover:bg-yellow-100">
+                              <Link href={`/expenses/edit/${expense.id}`}>Edit</Link>
+                            </Button>
+                            <Button 
+                              variant="destructive" 
+                              size="sm" 
+                              asChild
+                              className="hover:bg-red-100"
+                            >
+                              <Link href={`/expenses/delete/${expense.id}`}>Disable</Link>
+                            </Button>
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </ExpenseSelectionProvider>
           </div>
         )}
 
@@ -239,6 +280,7 @@ export default async function ExpensesPage({ searchParams }: ExpensesPageProps)
                       </td>
                       <td className="p-3 text-gray-500 line-through">
                         {expense.description || <span className="text-gray-400 italic">No description</span>}
+                        {" "}<AttachmentIndicator attachments={expense.attachments} />
                         {expense.paymentMethod && (
                           <div className="mt-1">
                             <Badge variant="outline" className="bg-gray-200 text-gray-600 border-gray-300 text-xs line-through">
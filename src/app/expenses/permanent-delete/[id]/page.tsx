@@ -6,6 +6,8 @@ import { getExpenseById, permanentDeleteExpense } from "@/actions/expense-action
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { toast } from "@/components/ui/use-toast"
+import { AttachmentList } from "@/components/attachments/attachment-list"
+import { formatCurrency } from "@/lib/utils"
 import { Trash2, ArrowLeft } from "lucide-react"
 
 interface PermanentDeleteExpensePageProps {
@@ -128,7 +130,7 @@ export default function PermanentDeleteExpensePage({ params }: PermanentDeleteEx
               {expense && (
                 <>
                   <p className="text-sm text-gray-600">
-                    Amount: <strong>${expense.amount.toFixed(2)}</strong>
+                    Amount: <strong>{formatCurrency(expense.amount, expense.category.book.currency)}</strong>
                   </p>
                   <p className="text-sm text-gray-600">
                     Date: <strong>{new Date(expense.date).toLocaleDateString()}</strong>
@@ -141,6 +143,12 @@ export default function PermanentDeleteExpensePage({ params }: PermanentDeleteEx
                       Description: <strong>{expense.description}</strong>
                     </p>
                   )}
+                  {expense.attachments.length > 0 && (
+                    <div className="pt-2">
+                      <p className="text-sm text-gray-600 mb-2">Receipts:</p>
+                      <AttachmentList attachments={expense.attachments} />
+                    </div>
+                  )}
                 </>
               )}
             </div>
@@ -0,0 +1,21 @@
+import { getAuthSession } from "@/lib/auth"
+import { redirect } from "next/navigation"
+import RecurringExpenseForm from "@/components/forms/recurring-expense-form"
+import { AppLayout } from "@/components/layout/app-layout"
+
+interface CreateRecurringExpensePageProps {
+  searchParams: {
+    bookId?: string
+  }
+}
+
+export default async function CreateRecurringExpensePage({ searchParams }: CreateRecurringExpensePageProps) {
+  const session = await getAuthSession()
+  if (!session) redirect("/login")
+
+  return (
+    <AppLayout>
+      <RecurringExpenseForm bookId={searchParams.bookId} />
+    </AppLayout>
+  )
+}
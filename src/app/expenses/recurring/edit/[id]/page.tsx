@@ -0,0 +1,37 @@
+import { getAuthSession } from "@/lib/auth"
+import { redirect, notFound } from "next/navigation"
+import { getRecurringExpenseById } from "@/actions/recurring-expense-actions"
+import RecurringExpenseForm from "@/components/forms/recurring-expense-form"
+import { AppLayout } from "@/components/layout/app-layout"
+
+interface EditRecurringExpensePageProps {
+  params: {
+    id: string
+  }
+}
+
+export default async function EditRecurringExpensePage({ params }: EditRecurringExpensePageProps) {
+  const session = await getAuthSession()
+  if (!session) redirect("/login")
+
+  const result = await getRecurringExpenseById(params.id)
+  if (result.error) {
+    return (
+      <AppLayout>
+        <div className="space-y-6">
+          <p className="text-red-600">Error: {result.error}</p>
+        </div>
+      </AppLayout>
+    )
+  }
+
+  if (!result.recurringExpense) {
+    notFound()
+  }
+
+  return (
+    <AppLayout>
+      <RecurringExpenseForm recurringExpense={result.recurringExpense} />
+    </AppLayout>
+  )
+}
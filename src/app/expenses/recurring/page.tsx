@@ -0,0 +1,158 @@
+import { getAuthSession } from "@/lib/auth"
+import { redirect } from "next/navigation"
+import { getRecurringExpenses } from "@/actions/recurring-expense-actions"
+import { isRecurringExpenseFinished } from "@/lib/scheduler"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import Link from "next/link"
+import { formatCurrency } from "@/lib/utils"
+import { AppLayout } from "@/components/layout/app-layout"
+import { CategoryIcon } from "@/components/ui/category-icon"
+import { RecurringExpenseActions } from "@/components/expenses/recurring-expense-actions"
+
+interface RecurringExpensesPageProps {
+  searchParams: {
+    bookId?: string
+  }
+}
+
+const FREQUENCY_NAMES: Record<string, [string, string]> = {
+  daily: ["Daily", "days"],
+  weekly: ["Weekly", "weeks"],
+  monthly: ["Monthly", "months"],
+  yearly: ["Yearly", "years"],
+}
+
+function describeSchedule(frequency: string, interval: number) {
+  const [single, plural] = FREQUENCY_NAMES[frequency] || [frequency, frequency]
+  return interval === 1 ? single : `Every ${interval} ${plural}`
+}
+
+export default async function RecurringExpensesPage({ searchParams }: RecurringExpensesPageProps) {
+  const session = await getAuthSession()
+  if (!session) redirect("/login")
+
+  const bookId = searchParams.bookId
+  const result = await getRecurringExpenses(bookId)
+
+  if (result.error) {
+    return (
+      <AppLayout>
+        <div className="space-y-6">
+          <h1 className="text-3xl font-bold">Recurring Expenses</h1>
+          <p className="text-red-600">Error: {result.error}</p>
+        </div>
+      </AppLayout>
+    )
+  }
+
+  const recurringExpenses = result.recurringExpenses || []
+
+  return (
+    <AppLayout>
+      <div className="space-y-6">
+        <div className="flex items-center justify-between bg-gradient-to-r from-purple-50 to-pink-50 p-6 rounded-lg border border-purple-100">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Recurring Expenses</h1>
+            <p className="text-gray-600 mt-1">
+              Rent, subscriptions and payroll are added automatically on schedule
+            </p>
+          </div>
+          <Button asChild className="bg-purple-600 hover:bg-purple-700">
+            <Link href={bookId ? `/expenses/recurring/create?bookId=${bookId}` : "/expenses/recurring/create"}>
+              New Recurring Expense
+            </Link>
+          </Button>
+        </div>
+
+        {recurringExpenses.length === 0 ? (
+          <div className="border-2 border-dashed border-purple-300 rounded-lg p-12 text-center bg-purple-50">
+            <p className="text-purple-800 text-lg font-medium">No recurring expenses yet.</p>
+          </div>
+        ) : (
+          <div className="border rounded-lg overflow-hidden shadow-sm bg-white">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b-2 border-purple-200 bg-purple-50">
+                  <th className="text-left p-3 font-semibold text-purple-900">Description</th>
+                  <th className="text-left p-3 font-semibold text-purple-900">Category</th>
+                  <th className="text-left p-3 font-semibold text-purple-900">Schedule</th>
+                  <th className="text-left p-3 font-semibold text-purple-900">Next Run</th>
+                  <th className="text-right p-3 font-semibold text-purple-900">Amount</th>
+                  <th className="text-right p-3 font-semibold text-purple-900">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {recurringExpenses.map((recurringExpense, index) => {
+                  const isFinished = isRecurringExpenseFinished(recurringExpense)
+
+                  return (
+                    <tr
+                      key={recurringExpense.id}
+                      className={`border-b hover:bg-purple-50/50 transition-colors ${index % 2 === 0 ? 'bg-white' : 'bg-purple-50/20'}`}
+                    >
+                      <td className="p-3 text-gray-700">
+                        {recurringExpense.description || <span className="text-gray-400 italic">No description</span>}
+                        <div className="mt-1 flex gap-1">
+                          {recurringExpense.isPaused && !isFinished && (
+                            <Badge variant="secondary">Paused</Badge>
+                          )}
+                          {isFinished && (
+                            <Badge variant="outline">Finished</Badge>
+                          )}
+                          <Badge variant="outline" className="bg-gray-100 text-gray-700 border-gray-300 text-xs">
+                            {recurringExpense._count.expenses} created
+                          </Badge>
+                        </div>
+                      </td>
+                      <td className="p-3">
+                        <span className="inline-flex items-center gap-2">
+                          <CategoryIcon iconName={recurringExpense.category.icon} parentIconName={recurringExpense.category.parent?.icon} className="w-4 h-4 text-gray-600" />
+                          <span className="font-medium text-gray-900">{recurringExpense.category.name}</span>
+                        </span>
+                        <p className="text-xs text-gray-500">{recurringExpense.category.book?.name}</p>
+                      </td>
+                      <td className="p-3 text-gray-600">
+                        {describeSchedule(recurringExpense.frequency, recurringExpense.interval)}
+                        {recurringExpense.endDate && (
+                          <p className="text-xs text-gray-500">until {recurringExpense.endDate.toLocaleDateString()}</p>
+                        )}
+                        {recurringExpense.maxOccurrences && (
+                          <p className="text-xs text-gray-500">
+                            {recurringExpense.occurrenceCount} of {recurringExpense.maxOccurrences}
+                          </p>
+                        )}
+                      </td>
+                      <td className="p-3 text-gray-700">
+                        {isFinished ? "—" : recurringExpense.nextRunDate.toLocaleDateString()}
+                      </td>
+                      <td className="p-3 text-right font-bold text-purple-600 text-lg">
+                        {formatCurrency(recurringExpense.amount, recurringExpense.category.book?.currency || "USD")}
+                      </td>
+                      <td className="p-3 text-right">
+                        <RecurringExpenseActions
+                          recurringExpenseId={recurringExpense.id}
+                          isPaused={recurringExpense.isPaused}
+                          isFinished={isFinished}
+                          hasMissedRuns={recurringExpense.nextRunDate < new Date()}
+                        />
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div>
+          <Button variant="outline" asChild className="bg-white hover:bg-gray-50">
+            <Link href={bookId ? `/expenses?bookId=${bookId}` : "/expenses"}>
+              ← Back to Expenses
+            </Link>
+          </Button>
+        </div>
+      </div>
+    </AppLayout>
+  )
+}
@@ -6,6 +6,8 @@ import { getExpenseById, restoreExpense } from "@/actions/expense-actions"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { toast } from "@/components/ui/use-toast"
+import { AttachmentList } from "@/components/attachments/attachment-list"
+import { formatCurrency } from "@/lib/utils"
 import { RotateCcw, ArrowLeft } from "lucide-react"
 
 interface RestoreExpensePageProps {
@@ -125,7 +127,7 @@ export default function RestoreExpensePage({ params }: RestoreExpensePageProps)
               {expense && (
                 <>
                   <p className="text-sm text-gray-600">
-                    Amount: <strong>${expense.amount.toFixed(2)}</strong>
+                    Amount: <strong>{formatCurrency(expense.amount, expense.category.book.currency)}</strong>
                   </p>
                   <p className="text-sm text-gray-600">
                     Date: <strong>{new Date(expense.date).toLocaleDateString()}</strong>
@@ -138,6 +140,12 @@ export default function RestoreExpensePage({ params }: RestoreExpensePageProps)
                       Description: <strong>{expense.description}</strong>
                     </p>
                   )}
+                  {expense.attachments.length > 0 && (
+                    <div className="pt-2">
+                      <p className="text-sm text-gray-600 mb-2">Receipts:</p>
+                      <AttachmentList attachments={expense.attachments} />
+                    </div>
+                  )}
                 </>
               )}
             </div>
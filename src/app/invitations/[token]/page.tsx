@@ -0,0 +1,70 @@
+import { getAuthSession } from "@/lib/auth"
+import { redirect } from "next/navigation"
+import { getInvitation } from "@/actions/book-sharing-actions"
+import { BOOK_ROLE_DESCRIPTIONS, BOOK_ROLE_LABELS, isBookRole } from "@/lib/book-roles"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { AppLayout } from "@/components/layout/app-layout"
+import { InvitationResponse } from "@/components/sharing/invitation-response"
+import { formatDate } from "@/lib/utils"
+import Link from "next/link"
+
+interface InvitationPageProps {
+  params: {
+    token: string
+  }
+}
+
+export default async function InvitationPage({ params }: InvitationPageProps) {
+  const session = await getAuthSession()
+  if (!session) redirect("/login")
+
+  const result = await getInvitation(params.token)
+
+  return (
+    <AppLayout>
+      <div className="max-w-xl mx-auto space-y-6">
+        <h1 className="text-3xl font-bold">Book Invitation</h1>
+
+        {result.error || !result.invitation ? (
+          <Card>
+            <CardContent className="p-6 text-center space-y-4">
+              <p className="text-red-600">{result.error || "Invitation not found"}</p>
+              <Button asChild variant="outline">
+                <Link href="/books">Go to Books</Link>
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle>{result.invitation.book.name}</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-gray-700">
+                {result.invitation.invitedBy.name || result.invitation.invitedBy.email} invited you to join this{" "}
+                {result.invitation.book.currency} book as{" "}
+                <span className="font-semibold">
+                  {isBookRole(result.invitation.role) ? BOOK_ROLE_LABELS[result.invitation.role] : result.invitation.role}
+                </span>
+                .
+              </p>
+              {isBookRole(result.invitation.role) && (
+                <p className="text-sm text-gray-600">{BOOK_ROLE_DESCRIPTIONS[result.invitation.role]}</p>
+              )}
+              <p className="text-sm text-gray-500">Expires {formatDate(result.invitation.expiresAt)}</p>
+
+              {result.isForSomeoneElse ? (
+                <p className="text-sm text-red-600">
+                  This invitation was sent to {result.invitation.email}. Sign in with that account to accept it.
+                </p>
+              ) : (
+                <InvitationResponse token={params.token} />
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </AppLayout>
+  )
+}
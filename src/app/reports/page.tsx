@@ -4,14 +4,17 @@ import { useState, useEffect } from "react"
 import { getDetailedReport } from "@/actions/report-actions"
 import { getBooks } from "@/actions/book-actions"
 import { getCategories } from "@/actions/category-actions"
+import { getTags } from "@/actions/tag-actions"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import Link from "next/link"
 import { formatCurrency, formatDate } from "@/lib/utils"
+import { subtractMoney, sumMoney, toMoneyString } from "@/lib/money"
+import { sortCategoryTree } from "@/lib/category-tree"
 import { AppLayout } from "@/components/layout/app-layout"
-import { Download, Filter } from "lucide-react"
+import { Download, FileSpreadsheet, FileText, Filter } from "lucide-react"
 import { toast } from "@/components/ui/use-toast"
 
 export default function ReportsPage() {
@@ -19,9 +22,14 @@ export default function ReportsPage() {
   const [bookCategories, setBookCategories] = useState<any[]>([])
   const [selectedBookId, setSelectedBookId] = useState("")
   const [selectedCategories, setSelectedCategories] = useState<string[]>([])
+  const [expandedCategories, setExpandedCategories] = useState<string[]>([])
+  const [tags, setTags] = useState<any[]>([])
+  const [selectedTags, setSelectedTags] = useState<string[]>([])
   const [startDate, setStartDate] = useState("")
   const [endDate, setEndDate] = useState("")
   const [detailedReport, setDetailedReport] = useState<any>(null)
+  // Amount column: book currency, or what was actually paid for expenses in another currency
+  const [amountView, setAmountView] = useState<"book" | "original">("book")
   const [isLoading, setIsLoading] = useState(false)
 
   const [categoriesLoading, setCategoriesLoading] = useState(false)
@@ -31,8 +39,10 @@ export default function ReportsPage() {
     loadBooks()
   }, [])
 
-  // Load categories when book changes
+  // Load categories and tags when book changes; a book's expenses carry its owner's tags
   useEffect(() => {
+    loadTags(selectedBookId || undefined)
+    setSelectedTags([])
     if (selectedBookId) {
       loadCategories(selectedBookId)
     } else {
@@ -62,6 +72,13 @@ export default function ReportsPage() {
     }
   }
 
+  const loadTags = async (bookId?: string) => {
+    const result = await getTags(bookId)
+    if (result.tags) {
+      setTags(result.tags)
+    }
+  }
+
   const loadCategories = async (bookId: string) => {
     setCategoriesLoading(true)
     try {
@@ -74,7 +91,7 @@ export default function ReportsPage() {
         })
       } else {
         const filtered = (result.categories as any[])?.filter(cat => cat.bookId === bookId) || []
-        setBookCategories(filtered)
+        setBookCategories(sortCategoryTree(filtered))
       }
     } finally {
       setCategoriesLoading(false)
@@ -89,6 +106,23 @@ export default function ReportsPage() {
     )
   }
 
+  // Show or hide a breakdown category's sub-category totals
+  const handleCategoryExpand = (categoryId: string) => {
+    setExpandedCategories(prev =>
+      prev.includes(categoryId)
+        ? prev.filter(id => id !== categoryId)
+        : [...prev, categoryId]
+    )
+  }
+
+  const handleTagToggle = (tagId: string) => {
+    setSelectedTags(prev =>
+      prev.includes(tagId)
+        ? prev.filter(id => id !== tagId)
+        : [...prev, tagId]
+    )
+  }
+
   const generateReport = async () => {
     if (!selectedBookId) {
       toast({
@@ -106,6 +140,7 @@ export default function ReportsPage() {
         startDate: startDate || undefined,
         endDate: endDate || undefined,
         categories: selectedCategories.length > 0 ? selectedCategories : undefined,
+        tags: selectedTags.length > 0 ? selectedTags : undefined,
       })
       
       if (result.error) {
@@ -122,6 +157,16 @@ export default function ReportsPage() {
     }
   }
 
+  // Same filters as the on-screen report, rendered server-side
+  const exportReportFile = (format: "pdf" | "xlsx") => {
+    const params = new URLSearchParams({ bookId: selectedBookId })
+    if (startDate) params.append("startDate", startDate)
+    if (endDate) params.append("endDate", endDate)
+    selectedCategories.forEach((categoryId) => params.append("categories", categoryId))
+    selectedTags.forEach((tagId) => params.append("tags", tagId))
+    window.location.href = `/api/reports/${format}?${params.toString()}`
+  }
+
   const exportToCSV = (report: any) => {
     if (!report || !report.expenses || report.expenses.length === 0) {
       toast({
@@ -133,16 +178,20 @@ export default function ReportsPage() {
     }
 
     // Create CSV header
-    const headers = ['Date', 'Category', 'Description', 'Payment Method', 'Amount', 'Currency']
+    const headers = ['Date', 'Category', 'Description', 'Payment Method', 'Tags', 'Amount', 'Currency', 'Original Amount', 'Original Currency', 'Exchange Rate']
     
     // Create CSV rows
     const rows = report.expenses.map((exp: any) => [
       formatDate(exp.date),
-      exp.category.name,
+      exp.category.parent ? `${exp.category.parent.name} › ${exp.category.name}` : exp.category.name,
       exp.description || '',
       exp.paymentMethod || '',
-      exp.amount.toFixed(2),
-      report.currency || 'USD'
+      exp.tags.map((tag: any) => tag.name).join(' '),
+      toMoneyString(exp.amount, report.currency || 'USD'),
+      report.currency || 'USD',
+      exp.originalCurrency ? toMoneyString(exp.originalAmount, exp.originalCurrency) : '',
+      exp.originalCurrency || '',
+      exp.originalCurrency ? exp.exchangeRate : ''
     ])
 
     // Add summary row
@@ -151,8 +200,12 @@ export default function ReportsPage() {
       '',
       '',
       '',
-      report.totalAmount.toFixed(2),
-      report.currency || 'USD'
+      '',
+      toMoneyString(report.totalAmount, report.currency || 'USD'),
+      report.currency || 'USD',
+      '',
+      '',
+      ''
     ]
 
     // Combine headers, rows, and summary
@@ -202,18 +255,27 @@ export default function ReportsPage() {
     const headers = ['Category', 'Transaction Count', 'Total Amount', 'Currency']
     
     // Create CSV rows
-    const rows = report.categories.map((cat: any) => [
-      cat.name,
-      cat.count.toString(),
-      cat.total.toFixed(2),
-      report.currency || 'USD'
+    // Each category rolls up its sub-categories, which follow it indented
+    const rows = report.categories.flatMap((cat: any) => [
+      [
+        cat.name,
+        cat.count.toString(),
+        toMoneyString(cat.total, report.currency || 'USD'),
+        report.currency || 'USD'
+      ],
+      ...cat.children.map((child: any) => [
+        `  ${cat.name} › ${child.name}`,
+        child.count.toString(),
+        toMoneyString(child.total, report.currency || 'USD'),
+        report.currency || 'USD'
+      ])
     ])
 
     // Add summary row
     const summaryRow = [
       'TOTAL',
       report.expenses.length.toString(),
-      report.totalAmount.toFixed(2),
+      toMoneyString(report.totalAmount, report.currency || 'USD'),
       report.currency || 'USD'
     ]
 
@@ -250,6 +312,62 @@ export default function ReportsPage() {
     })
   }
 
+  const exportTagBreakdownCSV = (report: any) => {
+    if (!report || !report.tags || report.tags.length === 0) {
+      toast({
+        title: "No Data",
+        description: "There are no tags to export",
+        variant: "destructive",
+      })
+      return
+    }
+
+    const headers = ['Tag', 'Transaction Count', 'Total Amount', 'Currency']
+
+    const rows = report.tags.map((tag: any) => [
+      tag.name,
+      tag.count.toString(),
+      toMoneyString(tag.total, report.currency || 'USD'),
+      report.currency || 'USD'
+    ])
+
+    // Expenses without tags, so the export still accounts for everything
+    const untaggedRow = [
+      '(untagged)',
+      report.untagged.count.toString(),
+      toMoneyString(report.untagged.total, report.currency || 'USD'),
+      report.currency || 'USD'
+    ]
+
+    const csvContent = [
+      headers,
+      ...rows,
+      untaggedRow
+    ]
+      .map(row => row.map((cell: any) => `"${cell}"`).join(','))
+      .join('\n')
+
+    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' })
+    const link = document.createElement('a')
+    const url = URL.createObjectURL(blob)
+
+    const date = new Date().toISOString().split('T')[0]
+    const bookName = report.expenses[0]?.category?.book?.name || 'Report'
+    const filename = `${bookName}_tag_breakdown_${date}.csv`
+
+    link.setAttribute('href', url)
+    link.setAttribute('download', filename)
+    link.style.visibility = 'hidden'
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+
+    toast({
+      title: "Success",
+      description: "Tag breakdown exported successfully!",
+    })
+  }
+
   return (
     <AppLayout>
       <div className="space-y-6">
@@ -339,7 +457,9 @@ export default function ReportsPage() {
                                   className="w-3 h-3 rounded-full" 
                                   style={{ backgroundColor: category.color || '#3b82f6' }}
                                 />
-                                <span className="text-sm font-medium">{category.name}</span>
+                                <span className="text-sm font-medium">
+                                  {category.depth > 0 ? `${category.parent?.name} › ${category.name}` : category.name}
+                                </span>
                               </label>
                             )
                           })}
@@ -360,6 +480,45 @@ export default function ReportsPage() {
                   )}
                 </div>
 
+                {/* Tags (Multi-select) - expenses with any selected tag */}
+                <div className="md:col-span-2 lg:col-span-3">
+                  <Label htmlFor="tags">Tags (Match any)</Label>
+                  {tags.length > 0 ? (
+                    <>
+                      <div className="flex flex-wrap gap-2 mt-2 p-3 border rounded-md bg-gray-50">
+                        {tags.map((tag) => {
+                          const isSelected = selectedTags.includes(tag.id)
+                          return (
+                            <label
+                              key={tag.id}
+                              className={`flex items-center gap-2 px-3 py-1 rounded-full cursor-pointer border transition-colors ${
+                                isSelected
+                                  ? 'bg-blue-100 border-blue-300 text-blue-800'
+                                  : 'bg-white border-gray-300 hover:bg-gray-100'
+                              }`}
+                            >
+                              <input
+                                type="checkbox"
+                                checked={isSelected}
+                                onChange={() => handleTagToggle(tag.id)}
+                                className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+                              />
+                              <span className="text-sm font-medium">#{tag.name}</span>
+                            </label>
+                          )
+                        })}
+                      </div>
+                      <p className="text-xs text-gray-500 mt-1">
+                        {selectedTags.length} tag(s) selected
+                      </p>
+                    </>
+                  ) : (
+                    <p className="text-sm text-gray-500 mt-2 italic">
+                      No tags yet. Add tags when creating or editing expenses.
+                    </p>
+                  )}
+                </div>
+
                 {/* Generate Report Button */}
                 <div className="flex items-end md:col-span-2 lg:col-span-3">
                   <Button 
@@ -381,7 +540,19 @@ export default function ReportsPage() {
             {/* Summary Cards */}
             <Card>
               <CardHeader>
-                <CardTitle>Report Summary</CardTitle>
+                <CardTitle className="flex items-center justify-between">
+                  <span>Report Summary</span>
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" onClick={() => exportReportFile("xlsx")}>
+                      <FileSpreadsheet className="w-4 h-4 mr-2" />
+                      Export Excel
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => exportReportFile("pdf")}>
+                      <FileText className="w-4 h-4 mr-2" />
+                      Export PDF
+                    </Button>
+                  </div>
+                </CardTitle>
               </CardHeader>
               <CardContent>
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
@@ -420,36 +591,138 @@ export default function ReportsPage() {
               </CardHeader>
               <CardContent>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  {detailedReport.categories.map((category: any) => (
-                    <Card key={category.name} className="border-green-200">
-                      <CardContent className="p-4">
-                        <div className="flex items-center justify-between">
-                          <div>
-                            <p className="font-semibold text-lg">{category.name}</p>
-                            <p className="text-sm text-gray-600">{category.count} transactions</p>
-                          </div>
-                          <div className="text-right">
-                            <p className="font-bold text-green-600 text-lg">
-                              {formatCurrency(category.total, detailedReport.currency)}
-                            </p>
+                  {detailedReport.categories.map((category: any) => {
+                    const directCount = category.count - category.children.reduce((sum: number, child: any) => sum + child.count, 0)
+                    const directTotal = subtractMoney(category.total, sumMoney(category.children.map((child: any) => child.total)))
+                    const isExpanded = expandedCategories.includes(category.id)
+
+                    return (
+                      <Card key={category.id} className="border-green-200">
+                        <CardContent className="p-4">
+                          <div className="flex items-center justify-between">
+                            <div>
+                              <p className="font-semibold text-lg">{category.name}</p>
+                              <p className="text-sm text-gray-600">{category.count} transactions</p>
+                            </div>
+                            <div className="text-right">
+                              <p className="font-bold text-green-600 text-lg">
+                                {formatCurrency(category.total, detailedReport.currency)}
+                              </p>
+                              {category.children.length > 0 && (
+                                <button
+                                  type="button"
+                                  onClick={() => handleCategoryExpand(category.id)}
+                                  className="text-xs text-blue-600 hover:underline"
+                                >
+                                  {isExpanded ? "Hide" : "Show"} {category.children.length} sub-categor{category.children.length === 1 ? "y" : "ies"}
+                                </button>
+                              )}
+                            </div>
                           </div>
-                        </div>
-                      </CardContent>
-                    </Card>
-                  ))}
+                          {isExpanded && (
+                            <div className="mt-3 pt-3 border-t space-y-1 text-sm">
+                              {category.children.map((child: any) => (
+                                <div key={child.id} className="flex items-center justify-between pl-3">
+                                  <span>
+                                    {child.name} <span className="text-gray-500">({child.count})</span>
+                                  </span>
+                                  <span className="font-medium">{formatCurrency(child.total, detailedReport.currency)}</span>
+                                </div>
+                              ))}
+                              {directCount > 0 && (
+                                <div className="flex items-center justify-between pl-3 text-gray-500 italic">
+                                  <span>
+                                    Directly in {category.name} ({directCount})
+                                  </span>
+                                  <span>{formatCurrency(directTotal, detailedReport.currency)}</span>
+                                </div>
+                              )}
+                            </div>
+                          )}
+                        </CardContent>
+                      </Card>
+                    )
+                  })}
                 </div>
+                {detailedReport.categories.some((category: any) => category.children.length > 0) && (
+                  <p className="text-xs text-gray-500 mt-3">
+                    Sub-category expenses are included in their parent category&apos;s total.
+                  </p>
+                )}
               </CardContent>
             </Card>
 
+            {/* Tag Breakdown */}
+            {detailedReport.tags.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center justify-between">
+                    <span>Tag Breakdown</span>
+                    <Button variant="outline" size="sm" onClick={() => exportTagBreakdownCSV(detailedReport)}>
+                      <Download className="w-4 h-4 mr-2" />
+                      Export CSV
+                    </Button>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {detailedReport.tags.map((tag: any) => (
+                      <Card key={tag.id} className="border-blue-200">
+                        <CardContent className="p-4">
+                          <div className="flex items-center justify-between">
+                            <div>
+                              <p className="font-semibold text-lg">#{tag.name}</p>
+                              <p className="text-sm text-gray-600">{tag.count} transactions</p>
+                            </div>
+                            <p className="font-bold text-blue-600 text-lg">
+                              {formatCurrency(tag.total, detailedReport.currency)}
+                            </p>
+                          </div>
+                        </CardContent>
+                      </Card>
+                    ))}
+                    {detailedReport.untagged.count > 0 && (
+                      <Card className="border-gray-200">
+                        <CardContent className="p-4">
+                          <div className="flex items-center justify-between">
+                            <div>
+                              <p className="font-semibold text-lg text-gray-500 italic">Untagged</p>
+                              <p className="text-sm text-gray-600">{detailedReport.untagged.count} transactions</p>
+                            </div>
+                            <p className="font-bold text-gray-600 text-lg">
+                              {formatCurrency(detailedReport.untagged.total, detailedReport.currency)}
+                            </p>
+                          </div>
+                        </CardContent>
+                      </Card>
+                    )}
+                  </div>
+                  <p className="text-xs text-gray-500 mt-3">
+                    Expenses with several tags count towards each of them.
+                  </p>
+                </CardContent>
+              </Card>
+            )}
+
             {/* Detailed Expenses Table */}
             <Card>
               <CardHeader>
                 <CardTitle className="flex items-center justify-between">
                   <span>Detailed Expenses</span>
-                  <Button variant="outline" size="sm" onClick={() => exportToCSV(detailedReport)}>
-                    <Download className="w-4 h-4 mr-2" />
-                    Export CSV
-                  </Button>
+                  <div className="flex items-center gap-2">
+                    <select
+                      value={amountView}
+                      onChange={(e) => setAmountView(e.target.value as "book" | "original")}
+                      className="h-9 rounded-md border border-input bg-background px-3 text-sm font-normal focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
+                    >
+                      <option value="book">Amounts in {detailedReport.currency}</option>
+                      <option value="original">Amounts as paid</option>
+                    </select>
+                    <Button variant="outline" size="sm" onClick={() => exportToCSV(detailedReport)}>
+                      <Download className="w-4 h-4 mr-2" />
+                      Export CSV
+                    </Button>
+                  </div>
                 </CardTitle>
               </CardHeader>
               <CardContent>
@@ -475,10 +748,21 @@ export default function ReportsPage() {
                                   className="w-2 h-2 rounded-full" 
                                   style={{ backgroundColor: exp.category.color || '#3b82f6' }}
                                 />
-                                {exp.category.name}
+                                {exp.category.parent ? `${exp.category.parent.name} › ${exp.category.name}` : exp.category.name}
                               </span>
                             </td>
-                            <td className="p-3 text-gray-600">{exp.description || "-"}</td>
+                            <td className="p-3 text-gray-600">
+                              {exp.description || "-"}
+                              {exp.tags.length > 0 && (
+                                <div className="mt-1 flex flex-wrap gap-1">
+                                  {exp.tags.map((tag: any) => (
+                                    <span key={tag.id} className="text-xs bg-blue-50 text-blue-700 px-1.5 py-0.5 rounded">
+                                      #{tag.name}
+                                    </span>
+                                  ))}
+                                </div>
+                              )}
+                            </td>
                             <td className="p-3">
                               {exp.paymentMethod ? (
                                 <span className="text-xs bg-gray-100 text-gray-700 px-1.5 py-0.5 rounded">
@@ -489,7 +773,16 @@ export default function ReportsPage() {
                               )}
                             </td>
                             <td className="p-3 text-right font-bold text-green-600">
-                              {formatCurrency(exp.amount, exp.category.book.currency)}
+                              {amountView === "original" && exp.originalCurrency
+                                ? formatCurrency(exp.originalAmount, exp.originalCurrency)
+                                : formatCurrency(exp.amount, exp.category.book.currency)}
+                              {exp.originalCurrency && exp.originalCurrency !== exp.category.book.currency && (
+                                <p className="text-xs font-normal text-gray-500">
+                                  {amountView === "original"
+                                    ? formatCurrency(exp.amount, exp.category.book.currency)
+                                    : formatCurrency(exp.originalAmount, exp.originalCurrency)}
+                                </p>
+                              )}
                             </td>
                           </tr>
                         ))}
@@ -0,0 +1,74 @@
+import { getAuthSession } from "@/lib/auth"
+import { redirect } from "next/navigation"
+import { getPrismaClient } from "@/lib/prisma"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { AppLayout } from "@/components/layout/app-layout"
+import { RestoreBackupForm } from "@/components/backup/restore-backup-form"
+import { ReportingCurrencyForm } from "@/components/settings/reporting-currency-form"
+import { Download } from "lucide-react"
+
+export default async function SettingsPage() {
+  const session = await getAuthSession()
+  if (!session) redirect("/login")
+
+  const prisma = getPrismaClient()
+  const bookCount = await prisma.book.count({
+    where: { userId: session.user.id },
+  })
+  const user = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { reportingCurrency: true },
+  })
+
+  return (
+    <AppLayout>
+      <div className="space-y-6">
+        <div className="bg-gradient-to-r from-blue-50 to-indigo-50 p-6 rounded-lg border border-blue-100">
+          <h1 className="text-3xl font-bold text-gray-900">Settings</h1>
+          <p className="text-sm text-gray-600 mt-1">{session.user.email}</p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Reporting Currency</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Totals that add up several books, like the dashboard, are converted into this currency using the
+              exchange rate of each entry&apos;s date. Each book keeps its own currency.
+            </p>
+            <ReportingCurrencyForm currency={user?.reportingCurrency || "USD"} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Download My Data</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-gray-600">
+              A JSON archive of all your books, categories, expenses, incomes, transfers, budgets, recurring expenses,
+              tags and AI chat history. Receipt files are listed by name but not included.
+            </p>
+            <Button asChild>
+              <a href="/api/backup" download>
+                <Download className="h-4 w-4 mr-2" />
+                Download Backup
+              </a>
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Restore From Backup</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <RestoreBackupForm hasBooks={bookCount > 0} />
+          </CardContent>
+        </Card>
+      </div>
+    </AppLayout>
+  )
+}
@@ -8,6 +8,9 @@ import { Bot, Send, Loader2, Sparkles, MessageSquare, X, Maximize2, Minimize2 }
 import { useToast } from "@/components/ui/use-toast"
 import { useRouter } from "next/navigation"
 import { VoiceInputButton } from "@/components/voice/voice-input-button"
+import { ChangeSetCard } from "@/components/ai-assistant/change-set-card"
+import { ThreadSwitcher } from "@/components/ai-assistant/thread-switcher"
+import type { ChangeSetView } from "@/lib/ai/change-sets"
 
 interface Suggestion {
   text: string
@@ -29,6 +32,8 @@ interface Message {
   role: "user" | "assistant"
   content: string
   timingMetrics?: TimingMetrics
+  // Changes proposed in this reply, applied from the chat
+  changeSet?: ChangeSetView | null
 }
 
 export function AIFloatWidget() {
@@ -41,6 +46,9 @@ export function AIFloatWidget() {
   const [showTimingDetails, setShowTimingDetails] = useState(false)
   const [useStreaming, setUseStreaming] = useState(true)
   const [streamingContent, setStreamingContent] = useState("")
+  // Null until the first message starts a conversation
+  const [threadId, setThreadId] = useState<string | null>(null)
+  const [threadsVersion, setThreadsVersion] = useState(0)
   const { toast } = useToast()
   const router = useRouter()
   const messagesEndRef = useRef<HTMLDivElement>(null)
@@ -55,19 +63,19 @@ export function AIFloatWidget() {
     loadChatHistory()
   }, [])
 
-  const loadChatHistory = async () => {
+  // Messages of a conversation, or of the most recent one when no thread is given
+  const loadChatHistory = async (id?: string) => {
     setIsLoadingHistory(true)
     try {
-      const response = await fetch("/api/ai/history", {
+      const response = await fetch(id ? `/api/ai/history?threadId=${id}` : "/api/ai/history", {
         method: "GET",
         headers: { "Content-Type": "application/json" }
       })
 
       if (response.ok) {
         const data = await response.json()
-        if (data.messages && data.messages.length > 0) {
-          setMessages(data.messages)
-        }
+        setMessages(data.messages || [])
+        setThreadId(data.threadId || null)
       }
     } catch (error) {
       console.error("Failed to load chat history:", error)
@@ -100,7 +108,8 @@ export function AIFloatWidget() {
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({ 
             message: currentInput,
-            conversationHistory: conversationHistory
+            conversationHistory: conversationHistory,
+            threadId
           })
         })
 
@@ -139,6 +148,8 @@ export function AIFloatWidget() {
                     }
                     setMessages(prev => [...prev, assistantMessage])
                     setStreamingContent("")
+                    setThreadId(data.threadId || threadId)
+                    setThreadsVersion(version => version + 1)
                     
                     if (timingData) {
                       console.log('⏱️ Streaming Response Timing:', timingData)
@@ -161,6 +172,7 @@ export function AIFloatWidget() {
           body: JSON.stringify({ 
             message: currentInput,
             conversationHistory: conversationHistory,
+            threadId,
             context: { include: true }
           })
         })
@@ -181,10 +193,13 @@ export function AIFloatWidget() {
         const assistantMessage: Message = { 
           role: "assistant" as const, 
           content: responseContent,
-          timingMetrics: data.timingMetrics
+          timingMetrics: data.timingMetrics,
+          changeSet: data.changeSet
         }
         
         setMessages(prev => [...prev, assistantMessage])
+        setThreadId(data.threadId || threadId)
+        setThreadsVersion(version => version + 1)
         
         if (data.timingMetrics) {
           console.log('⏱️ AI Response Timing:', data.timingMetrics)
@@ -343,20 +358,23 @@ export function AIFloatWidget() {
                     variant="ghost"
                     size="sm"
                     onClick={async () => {
-                      // Clear chat history from database
+                      // Clear the conversation's messages from database
                       try {
-                        await fetch("/api/ai/history", {
-                          method: "DELETE",
-                          headers: { "Content-Type": "application/json" }
-                        })
+                        if (threadId) {
+                          await fetch(`/api/ai/history?threadId=${threadId}`, {
+                            method: "DELETE",
+                            headers: { "Content-Type": "application/json" }
+                          })
+                        }
                       } catch (error) {
                         console.error("Failed to clear chat history:", error)
                       }
                       setMessages([])
                       setSuggestions([])
+                      setThreadsVersion(version => version + 1)
                     }}
                     className="text-white hover:bg-white/20 p-1 h-7 w-7"
-                    title="Clear chat history"
+                    title="Clear conversation"
                   >
                     <X className="w-3 h-3" />
                   </Button>
@@ -366,6 +384,20 @@ export function AIFloatWidget() {
           </CardHeader>
           
           <CardContent className="p-3">
+            <ThreadSwitcher
+              threadId={threadId}
+              refreshKey={threadsVersion}
+              onSelect={(id) => {
+                setSuggestions([])
+                if (id) {
+                  loadChatHistory(id)
+                } else {
+                  setThreadId(null)
+                  setMessages([])
+                }
+              }}
+            />
+
             {/* Simplified Status Info - Only show when needed */}
             {isLoading && (
               <div className="mb-3 p-2 bg-blue-50 border border-blue-200 rounded text-xs">
@@ -414,6 +446,15 @@ export function AIFloatWidget() {
                         : "bg-white border border-gray-200 shadow-sm"
                     }`}>
                       <div className="whitespace-pre-wrap">{msg.content}</div>
+
+                      {msg.role === "assistant" && msg.changeSet && (
+                        <ChangeSetCard
+                          changeSet={msg.changeSet}
+                          onChange={(changeSet) =>
+                            setMessages(prev => prev.map((m, i) => (i === idx ? { ...m, changeSet } : m)))
+                          }
+                        />
+                      )}
                       
                       {/* Display timing metrics for assistant messages */}
                       {msg.role === "assistant" && msg.timingMetrics && (
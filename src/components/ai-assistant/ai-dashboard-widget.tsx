@@ -8,6 +8,9 @@ import { Bot, Send, Loader2, Sparkles, X } from "lucide-react"
 import { useToast } from "@/components/ui/use-toast"
 import { useRouter } from "next/navigation"
 import { VoiceInputButton } from "@/components/voice/voice-input-button"
+import { ChangeSetCard } from "@/components/ai-assistant/change-set-card"
+import { ThreadSwitcher } from "@/components/ai-assistant/thread-switcher"
+import type { ChangeSetView } from "@/lib/ai/change-sets"
 
 interface Suggestion {
   text: string
@@ -15,14 +18,24 @@ interface Suggestion {
   icon: string
 }
 
+interface Message {
+  role: "user" | "assistant"
+  content: string
+  // Changes proposed in this reply, applied from the chat
+  changeSet?: ChangeSetView | null
+}
+
 
 
 export function AIDashboardWidget() {
-  const [messages, setMessages] = useState<Array<{ role: "user" | "assistant"; content: string }>>([])
+  const [messages, setMessages] = useState<Message[]>([])
   const [input, setInput] = useState("")
   const [isLoading, setIsLoading] = useState(false)
   const [suggestions, setSuggestions] = useState<Suggestion[]>([])
   const [isLoadingHistory, setIsLoadingHistory] = useState(false)
+  // Null until the first message starts a conversation
+  const [threadId, setThreadId] = useState<string | null>(null)
+  const [threadsVersion, setThreadsVersion] = useState(0)
   const { toast } = useToast()
   const router = useRouter()
   const messagesEndRef = useRef<HTMLDivElement>(null)
@@ -37,19 +50,19 @@ export function AIDashboardWidget() {
     loadChatHistory()
   }, [])
 
-  const loadChatHistory = async () => {
+  // Messages of a conversation, or of the most recent one when no thread is given
+  const loadChatHistory = async (id?: string) => {
     setIsLoadingHistory(true)
     try {
-      const response = await fetch("/api/ai/history", {
+      const response = await fetch(id ? `/api/ai/history?threadId=${id}` : "/api/ai/history", {
         method: "GET",
         headers: { "Content-Type": "application/json" }
       })
 
       if (response.ok) {
         const data = await response.json()
-        if (data.messages && data.messages.length > 0) {
-          setMessages(data.messages)
-        }
+        setMessages(data.messages || [])
+        setThreadId(data.threadId || null)
       }
     } catch (error) {
       console.error("Failed to load chat history:", error)
@@ -80,6 +93,7 @@ export function AIDashboardWidget() {
         body: JSON.stringify({ 
           message: input,
           conversationHistory: conversationHistory,
+          threadId,
           context: { include: true }
         })
       })
@@ -103,10 +117,13 @@ export function AIDashboardWidget() {
       // Add AI response to messages
       const assistantMessage = { 
         role: "assistant" as const, 
-        content: responseContent
+        content: responseContent,
+        changeSet: data.changeSet
       }
       
       setMessages(prev => [...prev, assistantMessage])
+      setThreadId(data.threadId || threadId)
+      setThreadsVersion(version => version + 1)
 
       // Generate suggestions based on the conversation
       if (data.response) {
@@ -232,20 +249,23 @@ export function AIDashboardWidget() {
               variant="ghost"
               size="sm"
               onClick={async () => {
-                // Clear chat history from database
+                // Clear the conversation's messages from database
                 try {
-                  await fetch("/api/ai/history", {
-                    method: "DELETE",
-                    headers: { "Content-Type": "application/json" }
-                  })
+                  if (threadId) {
+                    await fetch(`/api/ai/history?threadId=${threadId}`, {
+                      method: "DELETE",
+                      headers: { "Content-Type": "application/json" }
+                    })
+                  }
                 } catch (error) {
                   console.error("Failed to clear chat history:", error)
                 }
                 setMessages([])
                 setSuggestions([])
+                setThreadsVersion(version => version + 1)
               }}
               className="text-white hover:bg-white/20 p-1 h-7 w-7"
-              title="Clear chat history"
+              title="Clear conversation"
             >
               <X className="w-3 h-3" />
             </Button>
@@ -253,6 +273,20 @@ export function AIDashboardWidget() {
         </CardHeader>
         
         <CardContent className="p-3">
+          <ThreadSwitcher
+            threadId={threadId}
+            refreshKey={threadsVersion}
+            onSelect={(id) => {
+              setSuggestions([])
+              if (id) {
+                loadChatHistory(id)
+              } else {
+                setThreadId(null)
+                setMessages([])
+              }
+            }}
+          />
+
           {/* Simplified Status Info - Only show when needed */}
           {isLoading && (
             <div className="mb-3 p-2 bg-blue-50 border border-blue-200 rounded text-xs">
@@ -301,6 +335,14 @@ export function AIDashboardWidget() {
                       : "bg-white border border-gray-200 shadow-sm"
                   }`}>
                     <div className="whitespace-pre-wrap">{msg.content}</div>
+                    {msg.role === "assistant" && msg.changeSet && (
+                      <ChangeSetCard
+                        changeSet={msg.changeSet}
+                        onChange={(changeSet) =>
+                          setMessages(prev => prev.map((m, i) => (i === idx ? { ...m, changeSet } : m)))
+                        }
+                      />
+                    )}
                   </div>
                 </div>
               ))
@@ -0,0 +1,108 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { applyAiChangeSet, discardAiChangeSet, undoAiChangeSet } from "@/actions/ai-change-actions"
+import { CHANGE_SET_STATUS_LABELS, type ChangeSetView } from "@/lib/ai/change-sets"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { toast } from "@/components/ui/use-toast"
+import { Check, Undo2, X } from "lucide-react"
+
+interface ChangeSetCardProps {
+  changeSet: ChangeSetView
+  onChange: (changeSet: ChangeSetView) => void
+}
+
+const ACTIONS = {
+  apply: { run: applyAiChangeSet, done: "Changes applied" },
+  discard: { run: discardAiChangeSet, done: "Changes discarded" },
+  undo: { run: undoAiChangeSet, done: "Changes undone" },
+}
+
+// Changes the assistant proposed, for the user to apply, discard or undo together
+export function ChangeSetCard({ changeSet, onChange }: ChangeSetCardProps) {
+  const router = useRouter()
+  const [pendingAction, setPendingAction] = useState<keyof typeof ACTIONS | null>(null)
+
+  const handleAction = async (action: keyof typeof ACTIONS) => {
+    setPendingAction(action)
+
+    try {
+      const result = await ACTIONS[action].run(changeSet.id)
+
+      if (result.changeSet) {
+        onChange(result.changeSet)
+      }
+
+      if (result.error) {
+        toast({
+          title: "Error",
+          description: result.error,
+          variant: "destructive",
+        })
+      } else {
+        toast({
+          title: "Success",
+          description: ACTIONS[action].done,
+        })
+      }
+      router.refresh()
+    } finally {
+      setPendingAction(null)
+    }
+  }
+
+  return (
+    <div className="mt-2 p-2 rounded-md border border-purple-200 bg-purple-50 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs font-medium text-purple-900">
+          {changeSet.summaries.length === 1 ? "1 change" : `${changeSet.summaries.length} changes`}
+        </span>
+        <Badge variant={changeSet.status === "pending" ? "outline" : "secondary"} className="text-[10px]">
+          {CHANGE_SET_STATUS_LABELS[changeSet.status]}
+        </Badge>
+      </div>
+
+      <ul className="space-y-1 text-xs text-gray-700 list-disc pl-4">
+        {changeSet.summaries.map((summary, idx) => (
+          <li key={idx}>{summary}</li>
+        ))}
+      </ul>
+
+      {changeSet.error && <p className="text-xs text-red-600">{changeSet.error}</p>}
+
+      {changeSet.status === "pending" && (
+        <div className="flex gap-2">
+          <Button size="sm" className="h-7 text-xs" disabled={pendingAction !== null} onClick={() => handleAction("apply")}>
+            <Check className="w-3 h-3 mr-1" />
+            {pendingAction === "apply" ? "Applying..." : "Apply"}
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7 text-xs"
+            disabled={pendingAction !== null}
+            onClick={() => handleAction("discard")}
+          >
+            <X className="w-3 h-3 mr-1" />
+            Discard
+          </Button>
+        </div>
+      )}
+
+      {changeSet.status === "applied" && (
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-7 text-xs"
+          disabled={pendingAction !== null}
+          onClick={() => handleAction("undo")}
+        >
+          <Undo2 className="w-3 h-3 mr-1" />
+          {pendingAction === "undo" ? "Undoing..." : "Undo"}
+        </Button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,298 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import {
+  createChatThread,
+  deleteChatThread,
+  getChatThreads,
+  updateChatThread,
+} from "@/actions/chat-thread-actions"
+import { getBooks } from "@/actions/book-actions"
+import type { ChatThreadSummary } from "@/lib/ai/threads"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { toast } from "@/components/ui/use-toast"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Check, ChevronDown, Pencil, Pin, PinOff, Plus, Search, Trash2 } from "lucide-react"
+
+// Select value for a thread about all books
+const ALL_BOOKS = "all"
+
+interface ThreadSwitcherProps {
+  threadId: string | null
+  onSelect: (threadId: string | null) => void
+  // Bumped by the chat when it starts a thread or adds messages, so the list reloads
+  refreshKey?: number
+}
+
+// Pick, start, rename, pin, delete and search AI assistant conversations
+export function ThreadSwitcher({ threadId, onSelect, refreshKey = 0 }: ThreadSwitcherProps) {
+  const [threads, setThreads] = useState<ChatThreadSummary[]>([])
+  const [books, setBooks] = useState<{ id: string; name: string }[]>([])
+  const [isOpen, setIsOpen] = useState(false)
+  const [search, setSearch] = useState("")
+  const [newBookId, setNewBookId] = useState(ALL_BOOKS)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editTitle, setEditTitle] = useState("")
+  const [deleting, setDeleting] = useState<ChatThreadSummary | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const current = threads.find((thread) => thread.id === threadId)
+
+  const showError = (error: string) => {
+    toast({
+      title: "Error",
+      description: error,
+      variant: "destructive",
+    })
+  }
+
+  const loadThreads = async (term?: string) => {
+    const result = await getChatThreads(term)
+    if (result.threads) {
+      setThreads(result.threads)
+    }
+  }
+
+  // Reload as the search is typed, once typing pauses
+  useEffect(() => {
+    const timeout = setTimeout(() => loadThreads(search), search ? 300 : 0)
+    return () => clearTimeout(timeout)
+  }, [search, refreshKey])
+
+  // Books a new conversation can be about
+  useEffect(() => {
+    getBooks().then((result) => {
+      if (result.books) {
+        setBooks(result.books.map((book) => ({ id: book.id, name: book.name })))
+      }
+    })
+  }, [])
+
+  const handleCreate = async () => {
+    setIsSaving(true)
+    try {
+      const result = await createChatThread({ bookId: newBookId === ALL_BOOKS ? null : newBookId })
+      if (result.error || !result.threadId) {
+        showError(result.error || "Failed to create conversation")
+        return
+      }
+
+      onSelect(result.threadId)
+      setIsOpen(false)
+      setSearch("")
+      await loadThreads()
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleUpdate = async (id: string, input: { title?: string; isPinned?: boolean }) => {
+    setIsSaving(true)
+    try {
+      const result = await updateChatThread(id, input)
+      if (result.error) {
+        showError(result.error)
+        return
+      }
+
+      setEditingId(null)
+      await loadThreads(search)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!deleting) return
+
+    setIsSaving(true)
+    try {
+      const result = await deleteChatThread(deleting.id)
+      if (result.error) {
+        showError(result.error)
+        return
+      }
+
+      toast({
+        title: "Success",
+        description: "Conversation deleted",
+      })
+      if (deleting.id === threadId) {
+        onSelect(null)
+      }
+      setDeleting(null)
+      await loadThreads(search)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="relative mb-3">
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full justify-between h-8 text-xs"
+      >
+        <span className="flex items-center gap-1 truncate">
+          {current?.isPinned && <Pin className="w-3 h-3 shrink-0" />}
+          <span className="truncate">{current ? current.title : "New conversation"}</span>
+          {current?.book && <Badge variant="secondary" className="text-[10px] shrink-0">{current.book.name}</Badge>}
+        </span>
+        <ChevronDown className="w-3 h-3 shrink-0" />
+      </Button>
+
+      {isOpen && (
+        <div className="absolute left-0 right-0 top-9 z-10 bg-white border border-gray-200 rounded-lg shadow-lg p-2 space-y-2">
+          <div className="flex gap-1">
+            <Select value={newBookId} onValueChange={setNewBookId}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue placeholder="All books" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_BOOKS}>All books</SelectItem>
+                {books.map((book) => (
+                  <SelectItem key={book.id} value={book.id}>
+                    {book.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button size="sm" className="h-8 text-xs shrink-0" onClick={handleCreate} disabled={isSaving}>
+              <Plus className="w-3 h-3 mr-1" />
+              New
+            </Button>
+          </div>
+
+          <div className="relative">
+            <Search className="w-3 h-3 absolute left-2 top-2.5 text-gray-400" />
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search conversations..."
+              className="h-8 pl-6 text-xs"
+            />
+          </div>
+
+          <div className="max-h-56 overflow-y-auto space-y-1">
+            {threads.length === 0 ? (
+              <p className="text-xs text-gray-500 italic p-2">
+                {search ? "No conversations match your search" : "No conversations yet"}
+              </p>
+            ) : (
+              threads.map((thread) => (
+                <div
+                  key={thread.id}
+                  className={`flex items-center gap-1 p-1 rounded text-xs ${
+                    thread.id === threadId ? "bg-purple-50" : "hover:bg-gray-50"
+                  }`}
+                >
+                  {editingId === thread.id ? (
+                    <>
+                      <Input
+                        value={editTitle}
+                        onChange={(e) => setEditTitle(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") handleUpdate(thread.id, { title: editTitle })
+                          if (e.key === "Escape") setEditingId(null)
+                        }}
+                        className="h-7 text-xs flex-1"
+                        autoFocus
+                      />
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 w-7 p-1"
+                        disabled={isSaving}
+                        onClick={() => handleUpdate(thread.id, { title: editTitle })}
+                        title="Save title"
+                      >
+                        <Check className="w-3 h-3" />
+                      </Button>
+                    </>
+                  ) : (
+                    <>
+                      <button
+                        className="flex-1 text-left truncate"
+                        onClick={() => {
+                          onSelect(thread.id)
+                          setIsOpen(false)
+                        }}
+                      >
+                        <span className="font-medium">{thread.title}</span>
+                        <span className="block text-[10px] text-gray-500">
+                          {thread.book ? thread.book.name : "All books"} • {thread.messageCount} messages
+                        </span>
+                      </button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 w-7 p-1"
+                        disabled={isSaving}
+                        onClick={() => handleUpdate(thread.id, { isPinned: !thread.isPinned })}
+                        title={thread.isPinned ? "Unpin" : "Pin"}
+                      >
+                        {thread.isPinned ? <PinOff className="w-3 h-3" /> : <Pin className="w-3 h-3" />}
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 w-7 p-1"
+                        onClick={() => {
+                          setEditingId(thread.id)
+                          setEditTitle(thread.title)
+                        }}
+                        title="Rename"
+                      >
+                        <Pencil className="w-3 h-3" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 w-7 p-1 text-red-600"
+                        onClick={() => setDeleting(thread)}
+                        title="Delete"
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </Button>
+                    </>
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+
+      <Dialog open={deleting !== null} onOpenChange={(open) => !open && setDeleting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Conversation</DialogTitle>
+            <DialogDescription>
+              Delete &quot;{deleting?.title}&quot; and its messages? Changes you applied from it stay in your books.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeleting(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDelete} disabled={isSaving}>
+              {isSaving ? "Deleting..." : "Delete"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
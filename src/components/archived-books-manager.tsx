@@ -17,6 +17,7 @@ import {
 } from "@/components/ui/dialog"
 import { Archive, Undo } from "lucide-react"
 import { formatCurrency, formatDate } from "@/lib/utils"
+import { sumMoney } from "@/lib/money"
 import { Badge } from "@/components/ui/badge"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 
@@ -97,10 +98,7 @@ export function ArchivedBooksManager({ books }: ArchivedBooksManagerProps) {
         </TableHeader>
         <TableBody>
           {books.map((book, index) => {
-            const totalExpenses = book.categories.reduce(
-              (acc, cat) => acc + cat.expenses.reduce((sum, exp) => sum + exp.amount, 0),
-              0
-            )
+            const totalExpenses = sumMoney(book.categories.flatMap((cat) => cat.expenses.map((exp) => exp.amount)))
             const totalExpensesCount = book.categories.reduce(
               (acc, cat) => acc + cat.expenses.length,
               0
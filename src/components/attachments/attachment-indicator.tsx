@@ -0,0 +1,23 @@
+import { Paperclip } from "lucide-react"
+
+interface AttachmentIndicatorProps {
+  attachments: { id: string }[]
+}
+
+// Paperclip badge linking to the first receipt, shown in expense lists
+export function AttachmentIndicator({ attachments }: AttachmentIndicatorProps) {
+  if (attachments.length === 0) return null
+
+  return (
+    <a
+      href={`/api/attachments/${attachments[0].id}`}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="inline-flex items-center gap-0.5 text-xs text-gray-600 hover:text-blue-600"
+      title={`${attachments.length} receipt${attachments.length === 1 ? "" : "s"} attached`}
+    >
+      <Paperclip className="w-3 h-3" />
+      {attachments.length > 1 && <span>{attachments.length}</span>}
+    </a>
+  )
+}
@@ -0,0 +1,91 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { deleteAttachment } from "@/actions/attachment-actions"
+import { Button } from "@/components/ui/button"
+import { toast } from "@/components/ui/use-toast"
+import { isImageAttachment } from "@/lib/attachments"
+import { FileText, X } from "lucide-react"
+
+interface AttachmentListProps {
+  attachments: {
+    id: string
+    fileName: string
+    mimeType: string
+  }[]
+  canRemove?: boolean
+}
+
+// Thumbnails for an expense's receipts; each opens the full file in a new tab
+export function AttachmentList({ attachments, canRemove = false }: AttachmentListProps) {
+  const router = useRouter()
+  const [removingId, setRemovingId] = useState<string | null>(null)
+
+  if (attachments.length === 0) return null
+
+  const handleRemove = async (id: string) => {
+    setRemovingId(id)
+    try {
+      const result = await deleteAttachment(id)
+      if (result.error) {
+        toast({
+          title: "Error",
+          description: result.error,
+          variant: "destructive",
+        })
+      } else {
+        toast({
+          title: "Success",
+          description: "Receipt removed",
+        })
+        router.refresh()
+      }
+    } finally {
+      setRemovingId(null)
+    }
+  }
+
+  return (
+    <div className="flex flex-wrap gap-3">
+      {attachments.map((attachment) => (
+        <div key={attachment.id} className="relative w-24">
+          <a
+            href={`/api/attachments/${attachment.id}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="block w-24 h-24 border rounded-lg overflow-hidden bg-gray-50 hover:border-blue-400"
+            title={attachment.fileName}
+          >
+            {isImageAttachment(attachment.mimeType) ? (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img
+                src={`/api/attachments/${attachment.id}`}
+                alt={attachment.fileName}
+                className="w-full h-full object-cover"
+              />
+            ) : (
+              <div className="w-full h-full flex items-center justify-center">
+                <FileText className="w-8 h-8 text-gray-500" />
+              </div>
+            )}
+          </a>
+          <p className="text-xs text-gray-600 truncate mt-1">{attachment.fileName}</p>
+          {canRemove && (
+            <Button
+              type="button"
+              variant="destructive"
+              size="sm"
+              className="absolute -top-2 -right-2 h-6 w-6 p-0 rounded-full"
+              onClick={() => handleRemove(attachment.id)}
+              disabled={removingId === attachment.id}
+              title="Remove receipt"
+            >
+              <X className="w-3 h-3" />
+            </Button>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,88 @@
+"use client"
+
+import { useRef } from "react"
+import { Button } from "@/components/ui/button"
+import { toast } from "@/components/ui/use-toast"
+import { ALLOWED_ATTACHMENT_TYPES, validateReceiptFiles } from "@/lib/attachments"
+import { FileText, Image as ImageIcon, Paperclip, X } from "lucide-react"
+
+interface ReceiptPickerProps {
+  files: File[]
+  onChange: (files: File[]) => void
+  disabled?: boolean
+}
+
+// Collects receipt files client-side; the parent form appends them as "receipts"
+export function ReceiptPicker({ files, onChange, disabled }: ReceiptPickerProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  const handleSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files || [])
+    e.target.value = ""
+    if (selected.length === 0) return
+
+    const next = [...files, ...selected]
+    const error = validateReceiptFiles(next)
+    if (error) {
+      toast({
+        title: "Validation Error",
+        description: error,
+        variant: "destructive",
+      })
+      return
+    }
+    onChange(next)
+  }
+
+  return (
+    <div className="space-y-2">
+      <input
+        ref={inputRef}
+        type="file"
+        multiple
+        accept={ALLOWED_ATTACHMENT_TYPES.join(",")}
+        onChange={handleSelect}
+        className="hidden"
+        disabled={disabled}
+      />
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => inputRef.current?.click()}
+        disabled={disabled}
+      >
+        <Paperclip className="w-4 h-4 mr-2" />
+        Attach receipt
+      </Button>
+      {files.length > 0 && (
+        <ul className="space-y-1">
+          {files.map((file, index) => (
+            <li key={`${file.name}-${index}`} className="flex items-center justify-between p-2 bg-gray-50 rounded text-sm">
+              <span className="flex items-center gap-2 truncate">
+                {file.type.startsWith("image/") ? (
+                  <ImageIcon className="w-4 h-4 text-gray-500" />
+                ) : (
+                  <FileText className="w-4 h-4 text-gray-500" />
+                )}
+                <span className="truncate">{file.name}</span>
+                <span className="text-gray-500">({(file.size / 1024).toFixed(0)} KB)</span>
+              </span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => onChange(files.filter((_, i) => i !== index))}
+                disabled={disabled}
+                title="Remove"
+              >
+                <X className="w-3 h-3" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <p className="text-xs text-gray-500">Images or PDFs, up to 5 MB each.</p>
+    </div>
+  )
+}
@@ -0,0 +1,163 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { revertAuditEntry } from "@/actions/audit-actions"
+import {
+  AUDIT_ACTION_LABELS,
+  AUDIT_DATE_FIELDS,
+  AUDIT_ENTITY_LABELS,
+  AUDIT_FIELD_LABELS,
+  AUDIT_SOURCE_LABELS,
+  isAuditAction,
+  isAuditEntity,
+  isAuditSource,
+  type AuditChanges,
+  type AuditValue,
+} from "@/lib/audit"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { toast } from "@/components/ui/use-toast"
+import { formatCurrency, formatDate } from "@/lib/utils"
+import { ArrowRight, Undo2 } from "lucide-react"
+
+export interface AuditHistoryEntry {
+  id: string
+  action: string
+  source: string
+  entityType: string
+  entityId: string
+  entityLabel: string | null
+  changes: AuditChanges
+  createdAt: Date
+  revertOfId: string | null
+  isReverted: boolean
+  actor: { name: string | null; email: string } | null
+}
+
+interface AuditHistoryProps {
+  entries: AuditHistoryEntry[]
+  categoryNames: Record<string, string>
+  currency: string
+  canEdit: boolean
+  canManage: boolean
+  // Name the record each entry is about (book history lists several)
+  showEntity?: boolean
+}
+
+export function AuditHistory({ entries, categoryNames, currency, canEdit, canManage, showEntity = false }: AuditHistoryProps) {
+  const router = useRouter()
+  const [revertingId, setRevertingId] = useState<string | null>(null)
+
+  const handleRevert = async (id: string) => {
+    setRevertingId(id)
+
+    try {
+      const result = await revertAuditEntry(id)
+
+      if (result.error) {
+        toast({
+          title: "Error",
+          description: result.error,
+          variant: "destructive",
+        })
+      } else {
+        toast({
+          title: "Success",
+          description: "Change reverted",
+        })
+        router.refresh()
+      }
+    } finally {
+      setRevertingId(null)
+    }
+  }
+
+  const formatValue = (field: string, value: AuditValue) => {
+    if (value === null || value === "") return "—"
+    if (typeof value === "boolean") return value ? "Yes" : "No"
+    if (field === "categoryId" || field === "parentId") return categoryNames[String(value)] || "Deleted category"
+    if (field === "amount" && typeof value === "number") return formatCurrency(value, currency)
+    if (AUDIT_DATE_FIELDS.includes(field)) return formatDate(new Date(String(value)))
+    return String(value)
+  }
+
+  if (entries.length === 0) {
+    return <p className="text-sm text-gray-500 italic">No changes recorded yet</p>
+  }
+
+  return (
+    <div className="space-y-3">
+      {entries.map((entry) => {
+        const fields = Object.entries(entry.changes).filter(([, change]) =>
+          // Creates and deletes list the values the record had, not every empty column
+          entry.action === "create" ? change.to !== null : entry.action === "delete" ? change.from !== null : true
+        )
+        const canRevert =
+          !entry.isReverted &&
+          entry.action !== "delete" &&
+          (entry.entityType === "book" ? canManage : canEdit)
+
+        return (
+          <div key={entry.id} className="p-3 bg-gray-50 rounded-lg border space-y-2">
+            <div className="flex items-start justify-between gap-3">
+              <div>
+                <p className="font-medium text-gray-900">
+                  {isAuditAction(entry.action) ? AUDIT_ACTION_LABELS[entry.action] : entry.action}
+                  {showEntity && (
+                    <span className="font-normal text-gray-700">
+                      {" "}
+                      {isAuditEntity(entry.entityType) ? AUDIT_ENTITY_LABELS[entry.entityType].toLowerCase() : entry.entityType}
+                      {entry.entityLabel && ` "${entry.entityLabel}"`}
+                    </span>
+                  )}
+                </p>
+                <p className="text-sm text-gray-600">
+                  {entry.actor ? entry.actor.name || entry.actor.email : "System"} • {formatDate(entry.createdAt)}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <Badge variant="outline">
+                  {isAuditSource(entry.source) ? AUDIT_SOURCE_LABELS[entry.source] : entry.source}
+                </Badge>
+                {entry.isReverted && <Badge variant="secondary">Reverted</Badge>}
+                {canRevert && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={revertingId !== null}
+                    onClick={() => handleRevert(entry.id)}
+                  >
+                    <Undo2 className="w-3 h-3 mr-1" />
+                    {revertingId === entry.id ? "Reverting..." : "Revert"}
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            {fields.length > 0 && (
+              <ul className="space-y-1 text-sm">
+                {fields.map(([field, change]) => (
+                  <li key={field} className="flex flex-wrap items-center gap-2 text-gray-700">
+                    <span className="font-medium">{AUDIT_FIELD_LABELS[field] || field}:</span>
+                    {entry.action === "create" ? (
+                      <span>{formatValue(field, change.to)}</span>
+                    ) : entry.action === "delete" ? (
+                      <span>{formatValue(field, change.from)}</span>
+                    ) : (
+                      <>
+                        <span className="text-gray-500 line-through">{formatValue(field, change.from)}</span>
+                        <ArrowRight className="w-3 h-3 text-gray-400" />
+                        <span>{formatValue(field, change.to)}</span>
+                      </>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,148 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { restoreBackup } from "@/actions/backup-actions"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { toast } from "@/components/ui/use-toast"
+import type { RestoreSummary } from "@/lib/backup/restore"
+import { Upload } from "lucide-react"
+
+const SUMMARY_LABELS: Record<keyof RestoreSummary, string> = {
+  books: "Books",
+  categories: "Categories",
+  expenses: "Expenses",
+  incomes: "Incomes",
+  transfers: "Transfers",
+  budgets: "Budgets",
+  categoryRules: "Categorisation rules",
+  recurringExpenses: "Recurring expenses",
+  participants: "Participants",
+  settlements: "Settlements",
+  chatMessages: "Chat messages",
+  bookTemplates: "Book templates",
+  skipped: "Already present (skipped)",
+}
+
+interface RestoreBackupFormProps {
+  hasBooks: boolean
+}
+
+export function RestoreBackupForm({ hasBooks }: RestoreBackupFormProps) {
+  const router = useRouter()
+  const [file, setFile] = useState<File | null>(null)
+  const [mode, setMode] = useState<"empty" | "merge">(hasBooks ? "merge" : "empty")
+  const [isRestoring, setIsRestoring] = useState(false)
+  const [summary, setSummary] = useState<RestoreSummary | null>(null)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!file) {
+      toast({
+        title: "Validation Error",
+        description: "Choose a backup file first",
+        variant: "destructive",
+      })
+      return
+    }
+
+    setIsRestoring(true)
+    setSummary(null)
+
+    try {
+      const formData = new FormData()
+      formData.append("backup", file)
+      formData.append("mode", mode)
+
+      const result = await restoreBackup(formData)
+
+      if (result.error || !result.summary) {
+        toast({
+          title: "Error",
+          description: result.error || "Failed to restore backup",
+          variant: "destructive",
+        })
+      } else {
+        toast({
+          title: "Success",
+          description: "Backup restored successfully!",
+        })
+        setSummary(result.summary)
+        setFile(null)
+        router.refresh()
+      }
+    } finally {
+      setIsRestoring(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="backup">Backup file</Label>
+        <input
+          id="backup"
+          type="file"
+          accept=".json,application/json"
+          onChange={(e) => setFile(e.target.files?.[0] || null)}
+          className="block w-full text-sm"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label>Restore mode</Label>
+        <label className="flex items-start gap-2 text-sm">
+          <input
+            type="radio"
+            name="mode"
+            value="empty"
+            checked={mode === "empty"}
+            disabled={hasBooks}
+            onChange={() => setMode("empty")}
+            className="mt-1"
+          />
+          <span>
+            Into an empty account
+            <span className="block text-gray-500">Recreates everything exactly as exported. Only available while you have no books.</span>
+          </span>
+        </label>
+        <label className="flex items-start gap-2 text-sm">
+          <input
+            type="radio"
+            name="mode"
+            value="merge"
+            checked={mode === "merge"}
+            onChange={() => setMode("merge")}
+            className="mt-1"
+          />
+          <span>
+            Merge into my data
+            <span className="block text-gray-500">
+              Books, categories and tags with the same name are reused; entries that already exist are skipped.
+            </span>
+          </span>
+        </label>
+      </div>
+
+      <Button type="submit" disabled={isRestoring || !file}>
+        <Upload className="h-4 w-4 mr-2" />
+        {isRestoring ? "Restoring..." : "Restore Backup"}
+      </Button>
+
+      {summary && (
+        <div className="text-sm p-3 rounded-md bg-green-50 border border-green-200 text-green-800 space-y-1">
+          {(Object.keys(SUMMARY_LABELS) as (keyof RestoreSummary)[])
+            .filter((key) => summary[key] > 0)
+            .map((key) => (
+              <div key={key} className="flex justify-between">
+                <span>{SUMMARY_LABELS[key]}</span>
+                <span className="font-medium">{summary[key]}</span>
+              </div>
+            ))}
+        </div>
+      )}
+    </form>
+  )
+}
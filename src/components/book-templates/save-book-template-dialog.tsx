@@ -0,0 +1,123 @@
+"use client"
+
+import { useState } from "react"
+import { saveBookAsTemplate } from "@/actions/book-template-actions"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { toast } from "@/components/ui/use-toast"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { LayoutTemplate } from "lucide-react"
+
+interface SaveBookTemplateDialogProps {
+  book: { id: string; name: string }
+}
+
+export function SaveBookTemplateDialog({ book }: SaveBookTemplateDialogProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [formData, setFormData] = useState({
+    name: book.name,
+    description: "",
+  })
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!formData.name.trim()) {
+      toast({
+        title: "Validation Error",
+        description: "Template name is required",
+        variant: "destructive",
+      })
+      return
+    }
+
+    setIsSaving(true)
+
+    try {
+      const formDataObj = new FormData()
+      formDataObj.append("name", formData.name)
+      formDataObj.append("description", formData.description)
+
+      const result = await saveBookAsTemplate(book.id, formDataObj)
+
+      if (result?.error) {
+        toast({
+          title: "Error",
+          description: result.error,
+          variant: "destructive",
+        })
+      } else {
+        toast({
+          title: "Success",
+          description:
+            result.version === 1
+              ? `Saved template "${formData.name.trim()}"`
+              : `Updated template "${formData.name.trim()}" to version ${result.version}`,
+        })
+        setIsOpen(false)
+      }
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <LayoutTemplate className="w-4 h-4 mr-2" />
+          Save as Template
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Save {book.name} as a Template</DialogTitle>
+          <DialogDescription>
+            New books can start from the active categories, monthly budgets and active rules of this book.
+            Expenses are not included. Saving under the name of one of your templates updates it to a new version.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="templateName">Template name *</Label>
+            <Input
+              id="templateName"
+              value={formData.name}
+              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="templateDescription">Description</Label>
+            <Textarea
+              id="templateDescription"
+              value={formData.description}
+              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+              rows={2}
+              className="resize-none"
+            />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setIsOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? "Saving..." : "Save Template"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
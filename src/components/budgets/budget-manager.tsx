@@ -0,0 +1,271 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { setBudget, deleteBudget } from "@/actions/budget-actions"
+import type { BudgetStatus } from "@/lib/budgets"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { toast } from "@/components/ui/use-toast"
+import { formatCurrency } from "@/lib/utils"
+import { Target, Trash2 } from "lucide-react"
+import { getAmountStep } from "@/lib/money"
+
+const WHOLE_BOOK = "__book__"
+
+interface BudgetManagerProps {
+  bookId: string
+  currency: string
+  categories: { id: string; name: string }[]
+  budgets: BudgetStatus[]
+  // False for members whose role only lets them look at the budgets
+  canEdit?: boolean
+}
+
+export function BudgetProgress({ budget }: { budget: BudgetStatus }) {
+  const barColor = budget.isOverBudget
+    ? "bg-red-500"
+    : budget.percentUsed >= 80
+      ? "bg-orange-500"
+      : "bg-green-500"
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-gray-700">
+          {formatCurrency(budget.spent, budget.currency)} of {formatCurrency(budget.budgeted, budget.currency)}
+        </span>
+        <span className={budget.isOverBudget ? "font-semibold text-red-600" : "text-gray-600"}>
+          {budget.percentUsed}%
+        </span>
+      </div>
+      <div className="h-2 w-full rounded-full bg-gray-200 overflow-hidden">
+        <div
+          className={`h-2 rounded-full ${barColor}`}
+          style={{ width: `${Math.min(budget.percentUsed, 100)}%` }}
+        />
+      </div>
+    </div>
+  )
+}
+
+export function BudgetManager({ bookId, currency, categories, budgets, canEdit = true }: BudgetManagerProps) {
+  const router = useRouter()
+  const [isSaving, setIsSaving] = useState(false)
+  const [formData, setFormData] = useState({
+    target: WHOLE_BOOK,
+    amount: "",
+    period: "monthly",
+    startDate: "",
+    endDate: "",
+  })
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const amount = parseFloat(formData.amount)
+    if (isNaN(amount) || amount <= 0) {
+      toast({
+        title: "Validation Error",
+        description: "Budget amount must be a positive number",
+        variant: "destructive",
+      })
+      return
+    }
+
+    setIsSaving(true)
+
+    try {
+      const formDataObj = new FormData()
+      formDataObj.append("bookId", bookId)
+      if (formData.target !== WHOLE_BOOK) {
+        formDataObj.append("categoryId", formData.target)
+      }
+      formDataObj.append("amount", formData.amount)
+      formDataObj.append("period", formData.period)
+      if (formData.period === "custom") {
+        formDataObj.append("startDate", formData.startDate)
+        formDataObj.append("endDate", formData.endDate)
+      }
+
+      const result = await setBudget(formDataObj)
+
+      if (result?.error) {
+        toast({
+          title: "Error",
+          description: result.error,
+          variant: "destructive",
+        })
+      } else {
+        toast({
+          title: "Success",
+          description: "Budget saved successfully!",
+        })
+        setFormData({ ...formData, amount: "" })
+        router.refresh()
+      }
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (budgetId: string) => {
+    const result = await deleteBudget(budgetId)
+
+    if (result?.error) {
+      toast({
+        title: "Error",
+        description: result.error,
+        variant: "destructive",
+      })
+    } else {
+      toast({
+        title: "Success",
+        description: "Budget removed",
+      })
+      router.refresh()
+    }
+  }
+
+  const targetName = (target: string) =>
+    target === WHOLE_BOOK ? "Whole book" : categories.find((c) => c.id === target)?.name || "Select a target"
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Target className="w-5 h-5" />
+          Budgets
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {budgets.length === 0 ? (
+          <p className="text-sm text-gray-500 italic">
+            No budgets set for this book yet
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {budgets.map((budget) => (
+              <div key={budget.budgetId} className="p-3 bg-gray-50 rounded-lg border space-y-2">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{budget.categoryName || "Whole book"}</span>
+                    <Badge variant="secondary">
+                      {budget.period === "custom"
+                        ? `${new Date(budget.periodStart).toLocaleDateString()} - ${new Date(budget.periodEnd).toLocaleDateString()}`
+                        : "Monthly"}
+                    </Badge>
+                    {budget.isOverBudget && (
+                      <Badge variant="destructive">Over budget</Badge>
+                    )}
+                  </div>
+                  {canEdit && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDelete(budget.budgetId)}
+                      title="Remove budget"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  )}
+                </div>
+                <BudgetProgress budget={budget} />
+              </div>
+            ))}
+          </div>
+        )}
+
+        {canEdit && (
+          <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end border-t pt-4">
+            <div className="space-y-2">
+              <Label htmlFor="budgetTarget">Applies to</Label>
+              <Select
+                value={formData.target}
+                onValueChange={(value) => setFormData({ ...formData, target: value })}
+              >
+                <SelectTrigger id="budgetTarget">
+                  <SelectValue placeholder="Select a target">
+                    {targetName(formData.target)}
+                  </SelectValue>
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={WHOLE_BOOK}>Whole book</SelectItem>
+                  {categories.map((category) => (
+                    <SelectItem key={category.id} value={category.id}>
+                      {category.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="budgetAmount">Limit ({currency})</Label>
+              <Input
+                id="budgetAmount"
+                type="number"
+                step={getAmountStep(currency)}
+                placeholder="0.00"
+                value={formData.amount}
+                onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="budgetPeriod">Period</Label>
+              <Select
+                value={formData.period}
+                onValueChange={(value) => setFormData({ ...formData, period: value })}
+              >
+                <SelectTrigger id="budgetPeriod">
+                  <SelectValue placeholder="Select period">
+                    {formData.period === "custom" ? "Custom range" : "Monthly"}
+                  </SelectValue>
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="monthly">Monthly</SelectItem>
+                  <SelectItem value="custom">Custom range</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? "Saving..." : "Set Budget"}
+            </Button>
+
+            {formData.period === "custom" && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="budgetStart">Start date</Label>
+                  <Input
+                    id="budgetStart"
+                    type="date"
+                    value={formData.startDate}
+                    onChange={(e) => setFormData({ ...formData, startDate: e.target.value })}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="budgetEnd">End date</Label>
+                  <Input
+                    id="budgetEnd"
+                    type="date"
+                    value={formData.endDate}
+                    onChange={(e) => setFormData({ ...formData, endDate: e.target.value })}
+                    required
+                  />
+                </div>
+              </>
+            )}
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
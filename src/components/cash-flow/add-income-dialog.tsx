@@ -0,0 +1,147 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { createIncome } from "@/actions/income-actions"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { toast } from "@/components/ui/use-toast"
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Plus } from "lucide-react"
+import { getAmountStep } from "@/lib/money"
+
+interface AddIncomeDialogProps {
+  bookId: string
+  currency: string
+}
+
+export function AddIncomeDialog({ bookId, currency }: AddIncomeDialogProps) {
+  const router = useRouter()
+  const [isOpen, setIsOpen] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [formData, setFormData] = useState({
+    amount: "",
+    date: new Date().toISOString().slice(0, 16),
+    source: "",
+    description: "",
+  })
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const amount = parseFloat(formData.amount)
+    if (isNaN(amount) || amount <= 0) {
+      toast({
+        title: "Validation Error",
+        description: "Amount must be a positive number",
+        variant: "destructive",
+      })
+      return
+    }
+
+    setIsSaving(true)
+
+    try {
+      const formDataObj = new FormData()
+      formDataObj.append("bookId", bookId)
+      formDataObj.append("amount", formData.amount)
+      formDataObj.append("date", formData.date)
+      formDataObj.append("source", formData.source)
+      formDataObj.append("description", formData.description)
+
+      const result = await createIncome(formDataObj)
+
+      if (result?.error) {
+        toast({
+          title: "Error",
+          description: result.error,
+          variant: "destructive",
+        })
+      } else {
+        toast({
+          title: "Success",
+          description: "Income added successfully!",
+        })
+        setIsOpen(false)
+        setFormData({ ...formData, amount: "", source: "", description: "" })
+        router.refresh()
+      }
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Plus className="w-4 h-4 mr-2" />
+          Add Income
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Add Income</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="incomeAmount">Amount ({currency}) *</Label>
+            <Input
+              id="incomeAmount"
+              type="number"
+              step={getAmountStep(currency)}
+              placeholder="0.00"
+              value={formData.amount}
+              onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="incomeDate">Date & Time *</Label>
+            <Input
+              id="incomeDate"
+              type="datetime-local"
+              value={formData.date}
+              onChange={(e) => setFormData({ ...formData, date: e.target.value })}
+              required
+              max={new Date().toISOString().slice(0, 16)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="incomeSource">Source</Label>
+            <Input
+              id="incomeSource"
+              placeholder="e.g., Salary, Client payment"
+              value={formData.source}
+              onChange={(e) => setFormData({ ...formData, source: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="incomeDescription">Description</Label>
+            <Input
+              id="incomeDescription"
+              value={formData.description}
+              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+            />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setIsOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? "Adding..." : "Add Income"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
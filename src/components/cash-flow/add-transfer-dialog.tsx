@@ -0,0 +1,180 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { createTransfer } from "@/actions/transfer-actions"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { toast } from "@/components/ui/use-toast"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { ArrowRightLeft } from "lucide-react"
+import { getAmountStep } from "@/lib/money"
+
+interface AddTransferDialogProps {
+  fromBook: { id: string; name: string; currency: string }
+  otherBooks: { id: string; name: string; currency: string }[]
+}
+
+export function AddTransferDialog({ fromBook, otherBooks }: AddTransferDialogProps) {
+  const router = useRouter()
+  const [isOpen, setIsOpen] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [formData, setFormData] = useState({
+    toBookId: otherBooks[0]?.id || "",
+    amount: "",
+    toAmount: "",
+    date: new Date().toISOString().slice(0, 16),
+    description: "",
+  })
+
+  const toBook = otherBooks.find((book) => book.id === formData.toBookId)
+  const needsConversion = !!toBook && toBook.currency !== fromBook.currency
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const amount = parseFloat(formData.amount)
+    if (isNaN(amount) || amount <= 0) {
+      toast({
+        title: "Validation Error",
+        description: "Amount must be a positive number",
+        variant: "destructive",
+      })
+      return
+    }
+
+    setIsSaving(true)
+
+    try {
+      const formDataObj = new FormData()
+      formDataObj.append("fromBookId", fromBook.id)
+      formDataObj.append("toBookId", formData.toBookId)
+      formDataObj.append("amount", formData.amount)
+      if (needsConversion) {
+        formDataObj.append("toAmount", formData.toAmount)
+      }
+      formDataObj.append("date", formData.date)
+      formDataObj.append("description", formData.description)
+
+      const result = await createTransfer(formDataObj)
+
+      if (result?.error) {
+        toast({
+          title: "Error",
+          description: result.error,
+          variant: "destructive",
+        })
+      } else {
+        toast({
+          title: "Success",
+          description: `Transferred to ${toBook?.name}`,
+        })
+        setIsOpen(false)
+        setFormData({ ...formData, amount: "", toAmount: "", description: "" })
+        router.refresh()
+      }
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" disabled={otherBooks.length === 0}>
+          <ArrowRightLeft className="w-4 h-4 mr-2" />
+          Transfer
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Transfer from {fromBook.name}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="transferTo">To book *</Label>
+            <Select
+              value={formData.toBookId}
+              onValueChange={(value) => setFormData({ ...formData, toBookId: value })}
+            >
+              <SelectTrigger id="transferTo">
+                <SelectValue placeholder="Select a book">
+                  {toBook ? `${toBook.name} (${toBook.currency})` : "Select a book"}
+                </SelectValue>
+              </SelectTrigger>
+              <SelectContent>
+                {otherBooks.map((book) => (
+                  <SelectItem key={book.id} value={book.id}>
+                    {book.name} ({book.currency})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="transferAmount">Amount sent ({fromBook.currency}) *</Label>
+            <Input
+              id="transferAmount"
+              type="number"
+              step={getAmountStep(fromBook.currency)}
+              placeholder="0.00"
+              value={formData.amount}
+              onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+              required
+            />
+          </div>
+          {needsConversion && (
+            <div className="space-y-2">
+              <Label htmlFor="transferToAmount">Amount received ({toBook.currency}) *</Label>
+              <Input
+                id="transferToAmount"
+                type="number"
+                step={getAmountStep(toBook.currency)}
+                placeholder="0.00"
+                value={formData.toAmount}
+                onChange={(e) => setFormData({ ...formData, toAmount: e.target.value })}
+                required
+              />
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="transferDate">Date & Time *</Label>
+            <Input
+              id="transferDate"
+              type="datetime-local"
+              value={formData.date}
+              onChange={(e) => setFormData({ ...formData, date: e.target.value })}
+              required
+              max={new Date().toISOString().slice(0, 16)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="transferDescription">Description</Label>
+            <Input
+              id="transferDescription"
+              value={formData.description}
+              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+            />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setIsOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving || !formData.toBookId}>
+              {isSaving ? "Transferring..." : "Transfer"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,48 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { deleteIncome } from "@/actions/income-actions"
+import { deleteTransfer } from "@/actions/transfer-actions"
+import { Button } from "@/components/ui/button"
+import { toast } from "@/components/ui/use-toast"
+import { Trash2 } from "lucide-react"
+
+interface DeleteCashFlowEntryButtonProps {
+  entryId: string
+  type: "income" | "transfer"
+}
+
+export function DeleteCashFlowEntryButton({ entryId, type }: DeleteCashFlowEntryButtonProps) {
+  const router = useRouter()
+  const [isDeleting, setIsDeleting] = useState(false)
+
+  const handleDelete = async () => {
+    setIsDeleting(true)
+    try {
+      const result = type === "income" ? await deleteIncome(entryId) : await deleteTransfer(entryId)
+
+      if (result?.error) {
+        toast({
+          title: "Error",
+          description: result.error,
+          variant: "destructive",
+        })
+      } else {
+        toast({
+          title: "Success",
+          description: type === "income" ? "Income deleted" : "Transfer deleted",
+        })
+        router.refresh()
+      }
+    } finally {
+      setIsDeleting(false)
+    }
+  }
+
+  return (
+    <Button variant="ghost" size="sm" onClick={handleDelete} disabled={isDeleting} title="Delete">
+      <Trash2 className="w-3 h-3" />
+    </Button>
+  )
+}
@@ -0,0 +1,150 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import Link from "next/link"
+import { mergeCategory } from "@/actions/category-actions"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { toast } from "@/components/ui/use-toast"
+import { ArrowLeft, Merge } from "lucide-react"
+
+interface MergeCategoryFormProps {
+  category: {
+    id: string
+    name: string
+    bookId: string | null
+    bookName: string
+    isDisabled: boolean
+    expenseCount: number
+    subCategoryCount: number
+  }
+  // Categories of the same book it can be merged into
+  targets: { id: string; name: string }[]
+}
+
+export function MergeCategoryForm({ category, targets }: MergeCategoryFormProps) {
+  const router = useRouter()
+  const [targetId, setTargetId] = useState("")
+  const [isLoading, setIsLoading] = useState(false)
+
+  const target = targets.find((option) => option.id === targetId)
+
+  const handleMerge = async () => {
+    if (!targetId) {
+      toast({
+        title: "Validation Error",
+        description: "Choose the category to merge into",
+        variant: "destructive",
+      })
+      return
+    }
+
+    setIsLoading(true)
+    try {
+      const result = await mergeCategory(category.id, targetId)
+      if (result.error) {
+        toast({
+          title: "Error",
+          description: result.error,
+          variant: "destructive",
+        })
+        return
+      }
+
+      toast({
+        title: "Success",
+        description: `Merged "${category.name}" into "${target?.name}" (${result.moved} expense${result.moved === 1 ? "" : "s"} moved)`,
+      })
+      router.push(`/categories?bookId=${category.bookId}`)
+      router.refresh()
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to merge categories",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Button asChild variant="outline">
+          <Link href={`/categories?bookId=${category.bookId}`}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back
+          </Link>
+        </Button>
+        <h1 className="text-3xl font-bold">Merge Category</h1>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Merge className="w-5 h-5" />
+            Merge &quot;{category.name}&quot; into another category
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="p-3 bg-blue-50 rounded-lg">
+            <p className="text-sm text-gray-700">
+              <span className="font-semibold">Book:</span> {category.bookName}
+            </p>
+          </div>
+
+          {targets.length === 0 ? (
+            <p className="text-sm text-gray-600">
+              There is no other active category in this book to merge into.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              <Label className="text-base font-semibold">Merge into *</Label>
+              <Select value={targetId} onValueChange={setTargetId} disabled={isLoading}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a category" />
+                </SelectTrigger>
+                <SelectContent>
+                  {targets.map((option) => (
+                    <SelectItem key={option.id} value={option.id}>
+                      {option.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="bg-yellow-50 p-4 rounded-lg border border-yellow-200">
+            <p className="text-sm text-yellow-800 font-semibold">What happens:</p>
+            <ul className="list-disc list-inside text-sm text-yellow-700 mt-2 space-y-1">
+              <li>
+                All {category.expenseCount} expense{category.expenseCount === 1 ? "" : "s"} of &quot;{category.name}&quot;
+                {category.isDisabled ? " (hidden while it is disabled)" : ""} move to the chosen category
+              </li>
+              {category.subCategoryCount > 0 && (
+                <li>Its {category.subCategoryCount} sub-categor{category.subCategoryCount === 1 ? "y moves" : "ies move"} there too</li>
+              )}
+              <li>Its recurring expenses, categorisation rules and budget move too; a budget the chosen category already has is kept</li>
+              <li>&quot;{category.name}&quot; {category.isDisabled ? "stays disabled" : "is disabled afterwards"}</li>
+              <li>Every moved expense is recorded in the book history, where it can be reverted</li>
+            </ul>
+          </div>
+
+          <div className="flex gap-3 pt-4 border-t border-gray-200">
+            <Button onClick={handleMerge} disabled={isLoading || !targetId} className="flex-1">
+              {isLoading ? "Merging..." : "Merge Category"}
+            </Button>
+            <Button variant="outline" onClick={() => router.back()} disabled={isLoading}>
+              Cancel
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
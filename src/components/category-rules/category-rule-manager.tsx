@@ -0,0 +1,399 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { deleteCategoryRule, saveCategoryRule } from "@/actions/category-rule-actions"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { TagPicker } from "@/components/tags/tag-picker"
+import { toast } from "@/components/ui/use-toast"
+import { formatCurrency } from "@/lib/utils"
+import { getAmountStep } from "@/lib/money"
+import { Pause, Pencil, Play, Trash2, Wand2 } from "lucide-react"
+
+// Select value for a rule that matches any payment method
+const ANY_PAYMENT_METHOD = "__any__"
+
+const PAYMENT_METHODS = ["Cash", "Credit Card", "Wire Transfer", "PayPal", "Other"]
+
+export interface CategoryRuleItem {
+  id: string
+  name: string
+  priority: number
+  isActive: boolean
+  descriptionContains: string | null
+  descriptionPattern: string | null
+  minAmount: number | null
+  maxAmount: number | null
+  paymentMethod: string | null
+  tags: string[]
+  category: { id: string; name: string; isDisabled: boolean }
+}
+
+interface CategoryRuleManagerProps {
+  bookId: string
+  currency: string
+  categories: { id: string; name: string }[]
+  rules: CategoryRuleItem[]
+  // False for members whose role only lets them look at the rules
+  canEdit?: boolean
+}
+
+const EMPTY_FORM = {
+  name: "",
+  categoryId: "",
+  priority: "0",
+  descriptionContains: "",
+  descriptionPattern: "",
+  minAmount: "",
+  maxAmount: "",
+  paymentMethod: ANY_PAYMENT_METHOD,
+  tags: [] as string[],
+}
+
+function toFormState(rule: CategoryRuleItem) {
+  return {
+    name: rule.name,
+    categoryId: rule.category.id,
+    priority: rule.priority.toString(),
+    descriptionContains: rule.descriptionContains || "",
+    descriptionPattern: rule.descriptionPattern || "",
+    minAmount: rule.minAmount?.toString() || "",
+    maxAmount: rule.maxAmount?.toString() || "",
+    paymentMethod: rule.paymentMethod || ANY_PAYMENT_METHOD,
+    tags: rule.tags,
+  }
+}
+
+// The conditions of a rule in words, e.g. 'description contains "uber", 5 to 50 EUR'
+function describeConditions(rule: CategoryRuleItem, currency: string) {
+  const conditions: string[] = []
+  if (rule.descriptionContains) conditions.push(`description contains "${rule.descriptionContains}"`)
+  if (rule.descriptionPattern) conditions.push(`description matches /${rule.descriptionPattern}/`)
+  if (rule.minAmount !== null && rule.maxAmount !== null) {
+    conditions.push(`${formatCurrency(rule.minAmount, currency)} to ${formatCurrency(rule.maxAmount, currency)}`)
+  } else if (rule.minAmount !== null) {
+    conditions.push(`at least ${formatCurrency(rule.minAmount, currency)}`)
+  } else if (rule.maxAmount !== null) {
+    conditions.push(`at most ${formatCurrency(rule.maxAmount, currency)}`)
+  }
+  if (rule.paymentMethod) conditions.push(`paid by ${rule.paymentMethod}`)
+  return conditions.join(", ")
+}
+
+// Add, edit, pause and delete a book's categorisation rules
+export function CategoryRuleManager({ bookId, currency, categories, rules, canEdit = true }: CategoryRuleManagerProps) {
+  const router = useRouter()
+  const [isSaving, setIsSaving] = useState(false)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [formData, setFormData] = useState(EMPTY_FORM)
+
+  const save = async (id: string | null, values: typeof EMPTY_FORM, isActive: boolean) => {
+    const formDataObj = new FormData()
+    if (id) formDataObj.append("id", id)
+    formDataObj.append("bookId", bookId)
+    formDataObj.append("name", values.name)
+    formDataObj.append("categoryId", values.categoryId)
+    formDataObj.append("priority", values.priority)
+    formDataObj.append("isActive", isActive.toString())
+    formDataObj.append("descriptionContains", values.descriptionContains)
+    formDataObj.append("descriptionPattern", values.descriptionPattern)
+    formDataObj.append("minAmount", values.minAmount)
+    formDataObj.append("maxAmount", values.maxAmount)
+    if (values.paymentMethod !== ANY_PAYMENT_METHOD) {
+      formDataObj.append("paymentMethod", values.paymentMethod)
+    }
+    values.tags.forEach((tag) => formDataObj.append("tags", tag))
+
+    const result = await saveCategoryRule(formDataObj)
+
+    if (result?.error) {
+      toast({
+        title: "Error",
+        description: result.error,
+        variant: "destructive",
+      })
+      return false
+    }
+
+    router.refresh()
+    return true
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!formData.categoryId) {
+      toast({
+        title: "Validation Error",
+        description: "Please select a category",
+        variant: "destructive",
+      })
+      return
+    }
+
+    setIsSaving(true)
+
+    try {
+      const isActive = rules.find((rule) => rule.id === editingId)?.isActive ?? true
+      if (await save(editingId, formData, isActive)) {
+        toast({
+          title: "Success",
+          description: editingId ? "Rule updated" : "Rule added",
+        })
+        setEditingId(null)
+        setFormData(EMPTY_FORM)
+      }
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleToggle = async (rule: CategoryRuleItem) => {
+    setIsSaving(true)
+    try {
+      await save(rule.id, toFormState(rule), !rule.isActive)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (ruleId: string) => {
+    const result = await deleteCategoryRule(ruleId)
+
+    if (result?.error) {
+      toast({
+        title: "Error",
+        description: result.error,
+        variant: "destructive",
+      })
+    } else {
+      toast({
+        title: "Success",
+        description: "Rule removed",
+      })
+      if (editingId === ruleId) {
+        setEditingId(null)
+        setFormData(EMPTY_FORM)
+      }
+      router.refresh()
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Wand2 className="w-5 h-5" />
+          Categorisation Rules
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {rules.length === 0 ? (
+          <p className="text-sm text-gray-500 italic">
+            No rules for this book yet
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {rules.map((rule) => (
+              <div
+                key={rule.id}
+                className={`p-3 rounded-lg border flex items-start justify-between gap-2 ${
+                  rule.isActive ? "bg-gray-50" : "bg-white text-gray-400"
+                }`}
+              >
+                <div className="space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-medium">{rule.name}</span>
+                    <Badge variant="secondary">#{rule.priority}</Badge>
+                    {!rule.isActive && <Badge variant="outline">Paused</Badge>}
+                    {rule.category.isDisabled && <Badge variant="destructive">Category disabled</Badge>}
+                  </div>
+                  <p className="text-sm">
+                    When {describeConditions(rule, currency)} → <span className="font-medium">{rule.category.name}</span>
+                    {rule.tags.length > 0 && ` ${rule.tags.map((tag) => `#${tag}`).join(" ")}`}
+                  </p>
+                </div>
+                {canEdit && (
+                  <div className="flex shrink-0">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={isSaving}
+                      onClick={() => handleToggle(rule)}
+                      title={rule.isActive ? "Pause rule" : "Resume rule"}
+                    >
+                      {rule.isActive ? <Pause className="w-3 h-3" /> : <Play className="w-3 h-3" />}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => {
+                        setEditingId(rule.id)
+                        setFormData(toFormState(rule))
+                      }}
+                      title="Edit rule"
+                    >
+                      <Pencil className="w-3 h-3" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDelete(rule.id)}
+                      title="Remove rule"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {canEdit && (
+          <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end border-t pt-4">
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="ruleName">Name</Label>
+              <Input
+                id="ruleName"
+                placeholder="e.g. Ride sharing"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="ruleCategory">Category</Label>
+              <Select
+                value={formData.categoryId}
+                onValueChange={(value) => setFormData({ ...formData, categoryId: value })}
+              >
+                <SelectTrigger id="ruleCategory">
+                  <SelectValue placeholder="Select a category">
+                    {categories.find((c) => c.id === formData.categoryId)?.name || "Select a category"}
+                  </SelectValue>
+                </SelectTrigger>
+                <SelectContent>
+                  {categories.map((category) => (
+                    <SelectItem key={category.id} value={category.id}>
+                      {category.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="rulePriority">Priority (lowest runs first)</Label>
+              <Input
+                id="rulePriority"
+                type="number"
+                step="1"
+                value={formData.priority}
+                onChange={(e) => setFormData({ ...formData, priority: e.target.value })}
+              />
+            </div>
+
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="ruleContains">Description contains</Label>
+              <Input
+                id="ruleContains"
+                placeholder="e.g. uber"
+                value={formData.descriptionContains}
+                onChange={(e) => setFormData({ ...formData, descriptionContains: e.target.value })}
+              />
+            </div>
+
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="rulePattern">Description matches (regular expression)</Label>
+              <Input
+                id="rulePattern"
+                placeholder="e.g. ^(uber|lyft)\b"
+                value={formData.descriptionPattern}
+                onChange={(e) => setFormData({ ...formData, descriptionPattern: e.target.value })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="ruleMin">Minimum ({currency})</Label>
+              <Input
+                id="ruleMin"
+                type="number"
+                step={getAmountStep(currency)}
+                value={formData.minAmount}
+                onChange={(e) => setFormData({ ...formData, minAmount: e.target.value })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="ruleMax">Maximum ({currency})</Label>
+              <Input
+                id="ruleMax"
+                type="number"
+                step={getAmountStep(currency)}
+                value={formData.maxAmount}
+                onChange={(e) => setFormData({ ...formData, maxAmount: e.target.value })}
+              />
+            </div>
+
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="rulePaymentMethod">Payment method</Label>
+              <Select
+                value={formData.paymentMethod}
+                onValueChange={(value) => setFormData({ ...formData, paymentMethod: value })}
+              >
+                <SelectTrigger id="rulePaymentMethod">
+                  <SelectValue placeholder="Any">
+                    {formData.paymentMethod === ANY_PAYMENT_METHOD ? "Any" : formData.paymentMethod}
+                  </SelectValue>
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY_PAYMENT_METHOD}>Any</SelectItem>
+                  {PAYMENT_METHODS.map((method) => (
+                    <SelectItem key={method} value={method}>
+                      {method}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2 md:col-span-4">
+              <Label>Tags to add</Label>
+              <TagPicker
+                value={formData.tags}
+                onChange={(tags) => setFormData({ ...formData, tags })}
+                disabled={isSaving}
+                bookId={bookId}
+              />
+            </div>
+
+            <div className="flex gap-2 md:col-span-4">
+              <Button type="submit" disabled={isSaving}>
+                {isSaving ? "Saving..." : editingId ? "Save Rule" : "Add Rule"}
+              </Button>
+              {editingId && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => {
+                    setEditingId(null)
+                    setFormData(EMPTY_FORM)
+                  }}
+                >
+                  Cancel
+                </Button>
+              )}
+            </div>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,268 @@
+"use client"
+
+import { createContext, useContext, useState } from "react"
+import { useRouter } from "next/navigation"
+import { moveExpenses } from "@/actions/expense-actions"
+import type { CurrencyConversion } from "@/lib/expense-moves"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { toast } from "@/components/ui/use-toast"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { FolderInput } from "lucide-react"
+
+// A category expenses can be moved to
+export interface MoveTargetCategory {
+  id: string
+  name: string
+  bookName: string
+  currency: string
+}
+
+interface ExpenseSelection {
+  selectedIds: string[]
+  allIds: string[]
+  toggle: (id: string) => void
+  setSelectedIds: (ids: string[]) => void
+}
+
+const ExpenseSelectionContext = createContext<ExpenseSelection | null>(null)
+
+function useExpenseSelection() {
+  const selection = useContext(ExpenseSelectionContext)
+  if (!selection) throw new Error("useExpenseSelection must be used inside ExpenseSelectionProvider")
+  return selection
+}
+
+interface ExpenseSelectionProviderProps {
+  expenseIds: string[]
+  categories: MoveTargetCategory[]
+  children: React.ReactNode
+}
+
+// Lets the rows of a server-rendered expense table be selected and moved together
+export function ExpenseSelectionProvider({ expenseIds, categories, children }: ExpenseSelectionProviderProps) {
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+
+  const toggle = (id: string) => {
+    setSelectedIds((prev) => (prev.includes(id) ? prev.filter((selectedId) => selectedId !== id) : [...prev, id]))
+  }
+
+  return (
+    <ExpenseSelectionContext.Provider value={{ selectedIds, allIds: expenseIds, toggle, setSelectedIds }}>
+      <MoveExpensesBar categories={categories} />
+      {children}
+    </ExpenseSelectionContext.Provider>
+  )
+}
+
+export function ExpenseSelectAll() {
+  const { selectedIds, allIds, setSelectedIds } = useExpenseSelection()
+  const allSelected = allIds.length > 0 && selectedIds.length === allIds.length
+
+  return (
+    <Checkbox
+      checked={allSelected ? true : selectedIds.length > 0 ? "indeterminate" : false}
+      onCheckedChange={() => setSelectedIds(allSelected ? [] : allIds)}
+      aria-label="Select all expenses"
+    />
+  )
+}
+
+export function ExpenseSelectCheckbox({ expenseId }: { expenseId: string }) {
+  const { selectedIds, toggle } = useExpenseSelection()
+
+  return (
+    <Checkbox
+      checked={selectedIds.includes(expenseId)}
+      onCheckedChange={() => toggle(expenseId)}
+      aria-label="Select expense"
+    />
+  )
+}
+
+function MoveExpensesBar({ categories }: { categories: MoveTargetCategory[] }) {
+  const router = useRouter()
+  const { selectedIds, setSelectedIds } = useExpenseSelection()
+  const [isOpen, setIsOpen] = useState(false)
+  const [categoryId, setCategoryId] = useState("")
+  // Set once the server asks how to convert into the new book's currency
+  const [conversionRequired, setConversionRequired] = useState<{ from: string[]; to: string } | null>(null)
+  const [conversionMode, setConversionMode] = useState<CurrencyConversion["mode"]>("daily")
+  const [rates, setRates] = useState<Record<string, string>>({})
+  const [isMoving, setIsMoving] = useState(false)
+
+  if (selectedIds.length === 0) return null
+
+  const openDialog = () => {
+    setCategoryId("")
+    setConversionRequired(null)
+    setConversionMode("daily")
+    setRates({})
+    setIsOpen(true)
+  }
+
+  const handleMove = async () => {
+    let conversion: CurrencyConversion | undefined
+    if (conversionRequired) {
+      if (conversionMode === "daily") {
+        conversion = { mode: "daily" }
+      } else {
+        const parsedRates: Record<string, number> = {}
+        for (const currency of conversionRequired.from) {
+          const rate = parseFloat(rates[currency] || "")
+          if (!(rate > 0)) {
+            toast({
+              title: "Validation Error",
+              description: `Enter a positive rate from ${currency} to ${conversionRequired.to}`,
+              variant: "destructive",
+            })
+            return
+          }
+          parsedRates[currency] = rate
+        }
+        conversion = { mode: "fixed", rates: parsedRates }
+      }
+    }
+
+    setIsMoving(true)
+    try {
+      const result = await moveExpenses(selectedIds, categoryId, conversion)
+      if (result.error) {
+        toast({
+          title: "Error",
+          description: result.error,
+          variant: "destructive",
+        })
+        return
+      }
+
+      if (result.conversionRequired) {
+        setConversionRequired(result.conversionRequired)
+        return
+      }
+
+      toast({
+        title: "Success",
+        description: `Moved ${result.moved} expense${result.moved === 1 ? "" : "s"}`,
+      })
+      setIsOpen(false)
+      setSelectedIds([])
+      router.refresh()
+    } finally {
+      setIsMoving(false)
+    }
+  }
+
+  return (
+    <div className="flex items-center justify-between gap-3 p-3 rounded-lg border border-purple-200 bg-purple-50">
+      <span className="text-sm font-medium text-purple-900">
+        {selectedIds.length} expense{selectedIds.length === 1 ? "" : "s"} selected
+      </span>
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" onClick={() => setSelectedIds([])}>
+          Clear
+        </Button>
+        <Button size="sm" className="bg-purple-600 hover:bg-purple-700" onClick={openDialog}>
+          <FolderInput className="w-4 h-4 mr-2" />
+          Move to category
+        </Button>
+      </div>
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Move Expenses</DialogTitle>
+            <DialogDescription>
+              Move {selectedIds.length} expense{selectedIds.length === 1 ? "" : "s"} to a category of any book you can edit.
+              Split expenses moved to another book lose their split.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Category</Label>
+              <Select
+                value={categoryId}
+                onValueChange={(value) => {
+                  setCategoryId(value)
+                  setConversionRequired(null)
+                }}
+                disabled={isMoving}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a category" />
+                </SelectTrigger>
+                <SelectContent>
+                  {categories.map((category) => (
+                    <SelectItem key={category.id} value={category.id}>
+                      {category.bookName} › {category.name} ({category.currency})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {conversionRequired && (
+              <div className="space-y-3 p-3 rounded-md border border-yellow-200 bg-yellow-50">
+                <p className="text-sm text-yellow-800">
+                  The new book is kept in {conversionRequired.to}. How should amounts in{" "}
+                  {conversionRequired.from.join(", ")} be converted? The amount as paid is kept either way.
+                </p>
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="radio"
+                    checked={conversionMode === "daily"}
+                    onChange={() => setConversionMode("daily")}
+                  />
+                  At the exchange rate of each expense&apos;s date
+                </label>
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="radio"
+                    checked={conversionMode === "fixed"}
+                    onChange={() => setConversionMode("fixed")}
+                  />
+                  At a rate I enter
+                </label>
+                {conversionMode === "fixed" &&
+                  conversionRequired.from.map((currency) => (
+                    <div key={currency} className="flex items-center gap-2 text-sm pl-6">
+                      <span className="shrink-0">1 {currency} =</span>
+                      <Input
+                        type="number"
+                        step="any"
+                        min="0"
+                        value={rates[currency] || ""}
+                        onChange={(e) => setRates({ ...rates, [currency]: e.target.value })}
+                        className="h-8 w-32"
+                      />
+                      <span>{conversionRequired.to}</span>
+                    </div>
+                  ))}
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsOpen(false)} disabled={isMoving}>
+              Cancel
+            </Button>
+            <Button onClick={handleMove} disabled={isMoving || !categoryId}>
+              {isMoving ? "Moving..." : conversionRequired ? "Convert and Move" : "Move"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
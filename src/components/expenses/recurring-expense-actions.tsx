@@ -0,0 +1,113 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import Link from "next/link"
+import {
+  pauseRecurringExpense,
+  resumeRecurringExpense,
+  skipNextRecurringExpense,
+  deleteRecurringExpense,
+} from "@/actions/recurring-expense-actions"
+import { Button } from "@/components/ui/button"
+import { toast } from "@/components/ui/use-toast"
+import { History, Pause, Play, SkipForward, Trash2 } from "lucide-react"
+
+interface RecurringExpenseActionsProps {
+  recurringExpenseId: string
+  isPaused: boolean
+  isFinished: boolean
+  // Runs fell due while the series was paused
+  hasMissedRuns: boolean
+}
+
+export function RecurringExpenseActions({ recurringExpenseId, isPaused, isFinished, hasMissedRuns }: RecurringExpenseActionsProps) {
+  const router = useRouter()
+  const [isWorking, setIsWorking] = useState(false)
+
+  const run = async (action: () => Promise<{ error?: string; success?: boolean }>, successMessage: string) => {
+    setIsWorking(true)
+    try {
+      const result = await action()
+      if (result?.error) {
+        toast({
+          title: "Error",
+          description: result.error,
+          variant: "destructive",
+        })
+      } else {
+        toast({
+          title: "Success",
+          description: successMessage,
+        })
+        router.refresh()
+      }
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  return (
+    <div className="flex gap-1 justify-end">
+      {!isFinished && (
+        isPaused ? (
+          <>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={isWorking}
+              onClick={() => run(() => resumeRecurringExpense(recurringExpenseId), "Series resumed")}
+              title={hasMissedRuns ? "Resume from today, skipping missed runs" : "Resume"}
+            >
+              <Play className="w-3 h-3" />
+            </Button>
+            {hasMissedRuns && (
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={isWorking}
+                onClick={() => run(() => resumeRecurringExpense(recurringExpenseId, true), "Series resumed and missed runs created")}
+                title="Resume and create missed runs"
+              >
+                <History className="w-3 h-3" />
+              </Button>
+            )}
+          </>
+        ) : (
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={isWorking}
+            onClick={() => run(() => pauseRecurringExpense(recurringExpenseId), "Series paused")}
+            title="Pause"
+          >
+            <Pause className="w-3 h-3" />
+          </Button>
+        )
+      )}
+      {!isFinished && (
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={isWorking}
+          onClick={() => run(() => skipNextRecurringExpense(recurringExpenseId), "Next run skipped")}
+          title="Skip next run"
+        >
+          <SkipForward className="w-3 h-3" />
+        </Button>
+      )}
+      <Button variant="outline" size="sm" asChild className="hover:bg-yellow-100">
+        <Link href={`/expenses/recurring/edit/${recurringExpenseId}`}>Edit</Link>
+      </Button>
+      <Button
+        variant="destructive"
+        size="sm"
+        disabled={isWorking}
+        onClick={() => run(() => deleteRecurringExpense(recurringExpenseId), "Series deleted")}
+        title="Delete series"
+      >
+        <Trash2 className="w-3 h-3" />
+      </Button>
+    </div>
+  )
+}
@@ -10,6 +10,7 @@ import { Label } from "@/components/ui/label"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
 import { CategoryIcon } from "@/components/ui/category-icon"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { toast } from "@/components/ui/use-toast"
 import { ArrowLeft, Home, Car, Utensils, ShoppingBag, Heart, Briefcase, GraduationCap, Gamepad2, Film, Music, Coffee, Zap, Wrench, Plane, Train, Bus, Bike, Dumbbell, Book, Pill, Stethoscope, CreditCard, Smartphone, Laptop, Watch, Gift, Cake, Camera, Palette, Hammer, Scissors, Truck, Building, TreePine, Waves, Mountain, Sun, Moon, Star } from "lucide-react"
 import Link from "next/link"
@@ -22,14 +23,20 @@ interface EditCategoryFormProps {
     icon: string | null
     color: string | null
     bookId: string | null
+    parentId: string | null
     book: {
       id: string
       name: string
     } | null
   }
+  // Categories it can become a sub-category of
+  parentOptions: { id: string; name: string }[]
 }
 
-export default function EditCategoryForm({ category }: EditCategoryFormProps) {
+// Select value for a top-level category
+const NO_PARENT = "none"
+
+export default function EditCategoryForm({ category, parentOptions }: EditCategoryFormProps) {
   const router = useRouter()
   const [isLoading, setIsLoading] = useState(false)
   const [isIconPickerOpen, setIsIconPickerOpen] = useState(false)
@@ -37,6 +44,7 @@ export default function EditCategoryForm({ category }: EditCategoryFormProps) {
     name: category.name,
     description: category.description || "",
     icon: category.icon || "",
+    parentId: category.parentId || NO_PARENT,
   })
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -58,6 +66,7 @@ export default function EditCategoryForm({ category }: EditCategoryFormProps) {
       formDataObj.append("name", formData.name)
       formDataObj.append("description", formData.description)
       formDataObj.append("icon", formData.icon)
+      formDataObj.append("parentId", formData.parentId === NO_PARENT ? "" : formData.parentId)
 
       const result = await updateCategory(category.id, formDataObj)
 
@@ -255,6 +264,34 @@ export default function EditCategoryForm({ category }: EditCategoryFormProps) {
               </p>
             </div>
 
+            {(parentOptions.length > 0 || category.parentId) && (
+              <div className="space-y-2">
+                <Label className="text-base font-semibold">
+                  Parent Category
+                </Label>
+                <Select
+                  value={formData.parentId}
+                  onValueChange={(value) => setFormData({ ...formData, parentId: value })}
+                  disabled={isLoading}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="None (top-level category)" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_PARENT}>None (top-level category)</SelectItem>
+                    {parentOptions.map((option) => (
+                      <SelectItem key={option.id} value={option.id}>
+                        {option.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-sm text-gray-500">
+                  Reports include a sub-category&apos;s expenses in its parent&apos;s total.
+                </p>
+              </div>
+            )}
+
             <div className="flex gap-3 pt-4 border-t border-gray-200">
               <Button 
                 type="submit" 
@@ -13,15 +13,32 @@ import { toast } from "@/components/ui/use-toast"
 import { ArrowLeft } from "lucide-react"
 import Link from "next/link"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ReceiptPicker } from "@/components/attachments/receipt-picker"
+import { AttachmentList } from "@/components/attachments/attachment-list"
+import { TagPicker } from "@/components/tags/tag-picker"
+import { getAmountStep } from "@/lib/money"
+import { formatCurrency } from "@/lib/utils"
+import { CurrencySelector } from "@/components/currency-selector"
 
 interface EditExpenseFormProps {
   expense: {
     id: string
     amount: number
+    originalAmount: number | null
+    originalCurrency: string | null
+    exchangeRate: number | null
     date: Date
     description: string | null
     paymentMethod: string | null
     categoryId: string
+    attachments: {
+      id: string
+      fileName: string
+      mimeType: string
+    }[]
+    tags: {
+      name: string
+    }[]
     category: {
       id: string
       name: string
@@ -29,6 +46,7 @@ interface EditExpenseFormProps {
       book: {
         id: string
         name: string
+        currency: string
       } | null
     }
   }
@@ -39,18 +57,23 @@ export default function EditExpenseForm({ expense }: EditExpenseFormProps) {
   const [isLoading, setIsLoading] = useState(false)
   const [categoriesLoading, setCategoriesLoading] = useState(false)
   const [categories, setCategories] = useState<any[]>([])
+  const bookCurrency = expense.category.book?.currency || "USD"
   const [formData, setFormData] = useState({
-    amount: expense.amount.toString(),
+    // Edited in the currency it was paid in
+    amount: (expense.originalCurrency && expense.originalAmount !== null ? expense.originalAmount : expense.amount).toString(),
+    currency: expense.originalCurrency || bookCurrency,
     date: expense.date.toISOString().slice(0, 16), // Include time up to minutes
     description: expense.description || "",
     paymentMethod: expense.paymentMethod || "",
     categoryId: expense.categoryId,
   })
+  const [receipts, setReceipts] = useState<File[]>([])
+  const [tags, setTags] = useState<string[]>(expense.tags.map((tag) => tag.name))
 
   const loadCategories = useCallback(async () => {
     setCategoriesLoading(true)
     try {
-      const result = await getCategories()
+      const result = await getCategories(undefined, "edit")
       if (result.categories) {
         const filteredCategories = (result.categories as any[]).filter(
           cat => cat.bookId === expense.category.bookId
@@ -123,6 +146,9 @@ export default function EditExpenseForm({ expense }: EditExpenseFormProps) {
       formDataObj.append("description", formData.description)
       formDataObj.append("paymentMethod", formData.paymentMethod)
       formDataObj.append("categoryId", formData.categoryId)
+      formDataObj.append("currency", formData.currency)
+      tags.forEach((tag) => formDataObj.append("tags", tag))
+      receipts.forEach((file) => formDataObj.append("receipts", file))
 
       const result = await updateExpense(expense.id, formDataObj)
 
@@ -137,6 +163,13 @@ export default function EditExpenseForm({ expense }: EditExpenseFormProps) {
           title: "Success",
           description: "Expense updated successfully!",
         })
+        if (result.warning) {
+          toast({
+            title: "Budget exceeded",
+            description: result.warning,
+            variant: "destructive",
+          })
+        }
         router.back()
       } else {
         toast({
@@ -182,21 +215,39 @@ export default function EditExpenseForm({ expense }: EditExpenseFormProps) {
               </p>
             </div>
 
-            <div className="space-y-2">
-              <Label htmlFor="amount" className="text-base font-semibold">
-                Amount *
-              </Label>
-              <Input
-                id="amount"
-                type="number"
-                step="0.01"
-                placeholder="0.00"
-                value={formData.amount}
-                onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
-                disabled={isLoading}
-                required
-                className="text-lg"
-              />
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div className="space-y-2 sm:col-span-2">
+                <Label htmlFor="amount" className="text-base font-semibold">
+                  Amount *
+                </Label>
+                <Input
+                  id="amount"
+                  type="number"
+                  step={getAmountStep(formData.currency)}
+                  placeholder="0.00"
+                  value={formData.amount}
+                  onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                  disabled={isLoading}
+                  required
+                  className="text-lg"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label className="text-base font-semibold">Currency</Label>
+                <CurrencySelector
+                  value={formData.currency}
+                  onChange={(value) => setFormData({ ...formData, currency: value })}
+                  disabled={isLoading}
+                />
+              </div>
+              {formData.currency !== bookCurrency && (
+                <p className="text-sm text-gray-600 sm:col-span-3">
+                  {expense.originalCurrency === formData.currency && expense.exchangeRate !== null
+                    ? `Currently ${formatCurrency(expense.amount, bookCurrency)} at 1 ${formData.currency} = ${expense.exchangeRate} ${bookCurrency}. `
+                    : ""}
+                  Converted to {bookCurrency} at the exchange rate of the expense date when saved.
+                </p>
+              )}
             </div>
 
             <div className="space-y-2">
@@ -282,6 +333,21 @@ export default function EditExpenseForm({ expense }: EditExpenseFormProps) {
               </Select>
             </div>
 
+            <div className="space-y-2">
+              <Label className="text-base font-semibold">
+                Tags
+              </Label>
+              <TagPicker value={tags} onChange={setTags} disabled={isLoading} bookId={expense.category.bookId} />
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-base font-semibold">
+                Receipts
+              </Label>
+              <AttachmentList attachments={expense.attachments} canRemove />
+              <ReceiptPicker files={receipts} onChange={setReceipts} disabled={isLoading} />
+            </div>
+
             <div className="flex gap-3 pt-4 border-t border-gray-200">
               <Button 
                 type="submit" 
@@ -0,0 +1,356 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { useRouter } from "next/navigation"
+import { createRecurringExpense, updateRecurringExpense } from "@/actions/recurring-expense-actions"
+import { getCategories } from "@/actions/category-actions"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Label } from "@/components/ui/label"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { toast } from "@/components/ui/use-toast"
+import { ArrowLeft } from "lucide-react"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { getAmountStep } from "@/lib/money"
+
+const FREQUENCY_LABELS: Record<string, string> = {
+  daily: "Day(s)",
+  weekly: "Week(s)",
+  monthly: "Month(s)",
+  yearly: "Year(s)",
+}
+
+interface RecurringExpenseFormProps {
+  bookId?: string | null
+  recurringExpense?: {
+    id: string
+    amount: number
+    description: string | null
+    paymentMethod: string
+    frequency: string
+    interval: number
+    startDate: Date
+    endDate: Date | null
+    maxOccurrences: number | null
+    occurrenceCount: number
+    categoryId: string
+    category: {
+      bookId: string | null
+    }
+  }
+}
+
+export default function RecurringExpenseForm({ bookId, recurringExpense }: RecurringExpenseFormProps) {
+  const router = useRouter()
+  const isEditing = !!recurringExpense
+  const scopeBookId = recurringExpense?.category.bookId || bookId
+  const [isLoading, setIsLoading] = useState(false)
+  const [categories, setCategories] = useState<any[]>([])
+  const [endType, setEndType] = useState<"never" | "date" | "count">(
+    recurringExpense?.endDate ? "date" : recurringExpense?.maxOccurrences ? "count" : "never"
+  )
+  const [formData, setFormData] = useState({
+    amount: recurringExpense?.amount.toString() || "",
+    description: recurringExpense?.description || "",
+    paymentMethod: recurringExpense?.paymentMethod || "Cash",
+    categoryId: recurringExpense?.categoryId || "",
+    frequency: recurringExpense?.frequency || "monthly",
+    interval: recurringExpense?.interval.toString() || "1",
+    startDate: (recurringExpense?.startDate || new Date()).toISOString().slice(0, 10),
+    endDate: recurringExpense?.endDate ? recurringExpense.endDate.toISOString().slice(0, 10) : "",
+    maxOccurrences: recurringExpense?.maxOccurrences?.toString() || "",
+  })
+  const [catchUp, setCatchUp] = useState(false)
+
+  // A start date in the past only matters before the series first ran
+  const canCatchUp =
+    (!recurringExpense || recurringExpense.occurrenceCount === 0) &&
+    formData.startDate < new Date().toISOString().slice(0, 10)
+
+  const loadCategories = useCallback(async () => {
+    const result = await getCategories(undefined, "edit")
+    if (result.categories) {
+      let filteredCategories = (result.categories as any[]).filter(cat => !cat.isDefault)
+      if (scopeBookId) {
+        filteredCategories = filteredCategories.filter(cat => cat.bookId === scopeBookId)
+      }
+      setCategories(filteredCategories)
+
+      if (filteredCategories.length > 0) {
+        setFormData(prev => (prev.categoryId ? prev : { ...prev, categoryId: filteredCategories[0].id }))
+      }
+    }
+  }, [scopeBookId])
+
+  useEffect(() => {
+    loadCategories()
+  }, [loadCategories])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const amount = parseFloat(formData.amount)
+    if (isNaN(amount) || amount <= 0) {
+      toast({
+        title: "Validation Error",
+        description: "Amount must be a positive number",
+        variant: "destructive",
+      })
+      return
+    }
+
+    if (!formData.categoryId) {
+      toast({
+        title: "Validation Error",
+        description: "Category is required",
+        variant: "destructive",
+      })
+      return
+    }
+
+    setIsLoading(true)
+
+    try {
+      const formDataObj = new FormData()
+      formDataObj.append("amount", formData.amount)
+      formDataObj.append("description", formData.description)
+      formDataObj.append("paymentMethod", formData.paymentMethod)
+      formDataObj.append("categoryId", formData.categoryId)
+      formDataObj.append("frequency", formData.frequency)
+      formDataObj.append("interval", formData.interval)
+      formDataObj.append("startDate", formData.startDate)
+      if (endType === "date") {
+        formDataObj.append("endDate", formData.endDate)
+      }
+      if (endType === "count") {
+        formDataObj.append("maxOccurrences", formData.maxOccurrences)
+      }
+      if (canCatchUp && catchUp) {
+        formDataObj.append("catchUp", "true")
+      }
+
+      const result = isEditing
+        ? await updateRecurringExpense(recurringExpense.id, formDataObj)
+        : await createRecurringExpense(formDataObj)
+
+      if (result?.error) {
+        toast({
+          title: "Error",
+          description: result.error,
+          variant: "destructive",
+        })
+      } else {
+        toast({
+          title: "Success",
+          description: isEditing ? "Recurring expense updated successfully!" : "Recurring expense created successfully!",
+        })
+        router.push("/expenses/recurring")
+        router.refresh()
+      }
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Button variant="outline" onClick={() => router.back()} disabled={isLoading}>
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back
+        </Button>
+        <h1 className="text-3xl font-bold">{isEditing ? "Edit Recurring Expense" : "New Recurring Expense"}</h1>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Series Information</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="amount">Amount *</Label>
+              <Input
+                id="amount"
+                type="number"
+                step={getAmountStep(categories.find(c => c.id === formData.categoryId)?.book?.currency || "USD")}
+                placeholder="0.00"
+                value={formData.amount}
+                onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                disabled={isLoading}
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="categoryId">Category *</Label>
+              <Select
+                value={formData.categoryId}
+                onValueChange={(value) => setFormData({ ...formData, categoryId: value })}
+                disabled={isLoading || categories.length === 0}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a category">
+                    {categories.find(c => c.id === formData.categoryId)?.name || "Select a category"}
+                  </SelectValue>
+                </SelectTrigger>
+                <SelectContent>
+                  {categories.map((category) => (
+                    <SelectItem key={category.id} value={category.id}>
+                      {category.name} {!scopeBookId && `(${category.book.name})`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="description">Description</Label>
+              <Textarea
+                id="description"
+                placeholder="e.g., Office rent, Netflix subscription"
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                disabled={isLoading}
+                rows={2}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="paymentMethod">Payment Method</Label>
+              <Select
+                value={formData.paymentMethod}
+                onValueChange={(value) => setFormData({ ...formData, paymentMethod: value })}
+                disabled={isLoading}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select payment method">
+                    {formData.paymentMethod || "Cash"}
+                  </SelectValue>
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="Cash">Cash</SelectItem>
+                  <SelectItem value="Credit Card">Credit Card</SelectItem>
+                  <SelectItem value="Wire Transfer">Wire Transfer</SelectItem>
+                  <SelectItem value="PayPal">PayPal</SelectItem>
+                  <SelectItem value="Other">Other</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="interval">Repeat every *</Label>
+                <Input
+                  id="interval"
+                  type="number"
+                  min="1"
+                  step="1"
+                  value={formData.interval}
+                  onChange={(e) => setFormData({ ...formData, interval: e.target.value })}
+                  disabled={isLoading}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="frequency">&nbsp;</Label>
+                <Select
+                  value={formData.frequency}
+                  onValueChange={(value) => setFormData({ ...formData, frequency: value })}
+                  disabled={isLoading}
+                >
+                  <SelectTrigger id="frequency">
+                    <SelectValue placeholder="Select frequency">
+                      {FREQUENCY_LABELS[formData.frequency]}
+                    </SelectValue>
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(FREQUENCY_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="startDate">Start date *</Label>
+              <Input
+                id="startDate"
+                type="date"
+                value={formData.startDate}
+                onChange={(e) => setFormData({ ...formData, startDate: e.target.value })}
+                disabled={isLoading}
+                required
+              />
+              {canCatchUp && (
+                <label className="flex items-center gap-2 text-sm text-gray-600">
+                  <Checkbox
+                    checked={catchUp}
+                    onCheckedChange={(checked) => setCatchUp(checked === true)}
+                    disabled={isLoading}
+                  />
+                  Also create the runs between the start date and today (otherwise the series starts from today)
+                </label>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="endType">Ends</Label>
+              <Select
+                value={endType}
+                onValueChange={(value) => setEndType(value as "never" | "date" | "count")}
+                disabled={isLoading}
+              >
+                <SelectTrigger id="endType">
+                  <SelectValue>
+                    {endType === "never" ? "Never" : endType === "date" ? "On a date" : "After a number of occurrences"}
+                  </SelectValue>
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="never">Never</SelectItem>
+                  <SelectItem value="date">On a date</SelectItem>
+                  <SelectItem value="count">After a number of occurrences</SelectItem>
+                </SelectContent>
+              </Select>
+              {endType === "date" && (
+                <Input
+                  id="endDate"
+                  type="date"
+                  value={formData.endDate}
+                  onChange={(e) => setFormData({ ...formData, endDate: e.target.value })}
+                  disabled={isLoading}
+                  required
+                />
+              )}
+              {endType === "count" && (
+                <Input
+                  id="maxOccurrences"
+                  type="number"
+                  min="1"
+                  step="1"
+                  placeholder="e.g., 12"
+                  value={formData.maxOccurrences}
+                  onChange={(e) => setFormData({ ...formData, maxOccurrences: e.target.value })}
+                  disabled={isLoading}
+                  required
+                />
+              )}
+            </div>
+
+            <div className="flex gap-3 pt-4 border-t border-gray-200">
+              <Button type="submit" disabled={isLoading || categories.length === 0} className="flex-1">
+                {isLoading ? "Saving..." : isEditing ? "Update Series" : "Create Series"}
+              </Button>
+              <Button type="button" variant="outline" onClick={() => router.back()} disabled={isLoading}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
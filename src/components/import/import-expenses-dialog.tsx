@@ -0,0 +1,533 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { previewExpenseImport, commitExpenseImport } from "@/actions/import-actions"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { toast } from "@/components/ui/use-toast"
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { formatCurrency, formatDate } from "@/lib/utils"
+import { parseCsv } from "@/lib/import/csv"
+import {
+  IMPORT_DATE_FORMATS,
+  MAX_IMPORT_ROWS,
+  mapCsvRows,
+  type ImportDateFormat,
+  type ImportField,
+  type ImportOptions,
+} from "@/lib/import/rows"
+import type { ImportPreviewRow } from "@/lib/import/preview"
+import {
+  STATEMENT_FORMAT_LABELS,
+  detectStatementFormat,
+  parseStatement,
+  type ParsedStatement,
+} from "@/lib/import/statement"
+import { Upload } from "lucide-react"
+
+const FIELD_LABELS: Record<ImportField, string> = {
+  amount: "Amount *",
+  date: "Date *",
+  description: "Description",
+  paymentMethod: "Payment Method",
+  category: "Category",
+  externalId: "Transaction ID",
+}
+
+// Header names we recognise when pre-filling the column mapping
+const FIELD_GUESSES: Record<ImportField, string[]> = {
+  amount: ["amount", "value", "debit", "betrag", "montant"],
+  date: ["date", "booking date", "transaction date", "posted", "datum"],
+  description: ["description", "memo", "details", "payee", "narrative", "reference"],
+  paymentMethod: ["payment method", "method", "type"],
+  category: ["category", "kategorie"],
+  externalId: ["transaction id", "id", "reference number", "fitid"],
+}
+
+const selectClassName =
+  "flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
+
+interface ImportExpensesDialogProps {
+  bookId: string
+  currency: string
+  categories: { id: string; name: string }[]
+}
+
+type Step = "upload" | "map" | "preview"
+
+export function ImportExpensesDialog({ bookId, currency, categories }: ImportExpensesDialogProps) {
+  const router = useRouter()
+  const [isOpen, setIsOpen] = useState(false)
+  const [step, setStep] = useState<Step>("upload")
+  const [isWorking, setIsWorking] = useState(false)
+  const [hasHeaderRow, setHasHeaderRow] = useState(true)
+  const [cells, setCells] = useState<string[][]>([])
+  const [statement, setStatement] = useState<ParsedStatement | null>(null)
+  // QIF files that don't name their account are parsed again with the one the user enters
+  const [statementText, setStatementText] = useState("")
+  const [qifAccountId, setQifAccountId] = useState("")
+  const [accountWarning, setAccountWarning] = useState<string | null>(null)
+  const [mapping, setMapping] = useState<Partial<Record<ImportField, number>>>({})
+  const [options, setOptions] = useState<ImportOptions>({
+    dateFormat: "YYYY-MM-DD",
+    negativeIsExpense: false,
+    defaultCategoryId: categories[0]?.id,
+    defaultPaymentMethod: "Cash",
+  })
+  const [preview, setPreview] = useState<ImportPreviewRow[]>([])
+  const [selected, setSelected] = useState<Set<number>>(new Set())
+
+  const headers = hasHeaderRow ? cells[0] || [] : (cells[0] || []).map((_, i) => `Column ${i + 1}`)
+  const dataRows = hasHeaderRow ? cells.slice(1) : cells
+  const rowCount = statement ? statement.rows.length : dataRows.length
+  const needsQifAccount = statement?.format === "qif" && !statement.accountId
+
+  // Rows and options sent to the server: statements are already structured,
+  // CSV rows go through the column mapping
+  const getImportPayload = () => {
+    if (statement) {
+      const scopedStatement = needsQifAccount ? parseStatement("qif", statementText, qifAccountId.trim()) : statement
+      return {
+        rows: scopedStatement.rows,
+        options: {
+          ...options,
+          negativeIsExpense: true,
+          statementAccountId: scopedStatement.accountId || undefined,
+        },
+      }
+    }
+    return { rows: mapCsvRows(dataRows, mapping), options }
+  }
+
+  const reset = () => {
+    setStep("upload")
+    setCells([])
+    setStatement(null)
+    setStatementText("")
+    setQifAccountId("")
+    setAccountWarning(null)
+    setMapping({})
+    setPreview([])
+    setSelected(new Set())
+  }
+
+  const guessMapping = (headerRow: string[]) => {
+    const guessed: Partial<Record<ImportField, number>> = {}
+    for (const field of Object.keys(FIELD_GUESSES) as ImportField[]) {
+      const index = headerRow.findIndex((header) => FIELD_GUESSES[field].includes(header.trim().toLowerCase()))
+      if (index >= 0) guessed[field] = index
+    }
+    return guessed
+  }
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ""
+    if (!file) return
+
+    const text = await file.text()
+    const format = detectStatementFormat(file.name, text)
+    if (format) {
+      const parsedStatement = parseStatement(format, text)
+      if (parsedStatement.rows.length === 0) {
+        toast({
+          title: "Error",
+          description: `No transactions found in this ${STATEMENT_FORMAT_LABELS[format]} file`,
+          variant: "destructive",
+        })
+        return
+      }
+      if (parsedStatement.currency && parsedStatement.currency !== currency) {
+        toast({
+          title: "Currency mismatch",
+          description: `The statement is in ${parsedStatement.currency} but this book uses ${currency}. Amounts are imported as-is.`,
+          variant: "destructive",
+        })
+      }
+      setStatement(parsedStatement)
+      setStatementText(text)
+      setOptions({ ...options, dateFormat: parsedStatement.dateFormat })
+      setStep("map")
+      return
+    }
+
+    const parsed = parseCsv(text)
+    if (parsed.length === 0) {
+      toast({
+        title: "Error",
+        description: "The file is empty",
+        variant: "destructive",
+      })
+      return
+    }
+
+    setCells(parsed)
+    setMapping(hasHeaderRow ? guessMapping(parsed[0]) : {})
+    setStep("map")
+  }
+
+  const handlePreview = async () => {
+    if (!statement && (mapping.amount === undefined || mapping.date === undefined)) {
+      toast({
+        title: "Validation Error",
+        description: "Map the amount and date columns first",
+        variant: "destructive",
+      })
+      return
+    }
+
+    if (needsQifAccount && !qifAccountId.trim()) {
+      toast({
+        title: "Validation Error",
+        description: "Enter the account this QIF file is from",
+        variant: "destructive",
+      })
+      return
+    }
+
+    if (rowCount > MAX_IMPORT_ROWS) {
+      toast({
+        title: "Validation Error",
+        description: `Import at most ${MAX_IMPORT_ROWS} rows at a time`,
+        variant: "destructive",
+      })
+      return
+    }
+
+    setIsWorking(true)
+    try {
+      const payload = getImportPayload()
+      const result = await previewExpenseImport(bookId, payload.rows, payload.options)
+      if (result.error || !result.preview) {
+        toast({
+          title: "Error",
+          description: result.error || "Failed to preview import",
+          variant: "destructive",
+        })
+        return
+      }
+
+      setPreview(result.preview)
+      setAccountWarning(result.accountWarning)
+      // Pre-select rows that are valid and don't look like duplicates
+      setSelected(new Set(
+        result.preview
+          .filter((row) => !row.skipReason && row.errors.length === 0 && !row.duplicateOf && row.duplicateOfRow === null)
+          .map((row) => row.index)
+      ))
+      setStep("preview")
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const handleCommit = async () => {
+    setIsWorking(true)
+    try {
+      const payload = getImportPayload()
+      const result = await commitExpenseImport(bookId, payload.rows, payload.options, Array.from(selected))
+      if (result.error) {
+        toast({
+          title: "Error",
+          description: result.error,
+          variant: "destructive",
+        })
+      } else {
+        toast({
+          title: "Success",
+          description: `Imported ${result.imported} expense(s)`,
+        })
+        setIsOpen(false)
+        reset()
+        router.refresh()
+      }
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const toggleRow = (index: number) => {
+    setSelected((prev) => {
+      const next = new Set(prev)
+      if (next.has(index)) {
+        next.delete(index)
+      } else {
+        next.add(index)
+      }
+      return next
+    })
+  }
+
+  const errorCount = preview.filter((row) => row.errors.length > 0).length
+  const duplicateCount = preview.filter((row) => row.duplicateOf || row.duplicateOfRow !== null).length
+  const skippedCount = preview.filter((row) => row.skipReason).length
+
+  return (
+    <Dialog
+      open={isOpen}
+      onOpenChange={(open) => {
+        setIsOpen(open)
+        if (!open) reset()
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Upload className="w-4 h-4 mr-2" />
+          Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {step === "upload" && "Import Expenses"}
+            {step === "map" && (statement ? `${STATEMENT_FORMAT_LABELS[statement.format]} Statement` : "Map Columns")}
+            {step === "preview" && "Review Import"}
+          </DialogTitle>
+        </DialogHeader>
+
+        {step === "upload" && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Upload a CSV export or an OFX, QIF or CAMT.053 bank statement. You&apos;ll review every row before anything is saved,
+              and transactions already imported from a statement are skipped automatically.
+            </p>
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={hasHeaderRow}
+                onChange={(e) => setHasHeaderRow(e.target.checked)}
+                className="w-4 h-4"
+              />
+              First row contains column names
+            </label>
+            <input
+              type="file"
+              accept=".csv,text/csv,.ofx,.qfx,.qif,.xml"
+              onChange={handleFile}
+              className="block w-full text-sm"
+            />
+          </div>
+        )}
+
+        {step === "map" && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              {rowCount} transaction(s) found
+              {statement?.accountId && <> for account <span className="font-mono">{statement.accountId}</span></>}.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {!statement && (Object.keys(FIELD_LABELS) as ImportField[]).map((field) => (
+                <div key={field} className="space-y-1">
+                  <Label>{FIELD_LABELS[field]}</Label>
+                  <select
+                    value={mapping[field] ?? ""}
+                    onChange={(e) => setMapping({
+                      ...mapping,
+                      [field]: e.target.value === "" ? undefined : Number(e.target.value),
+                    })}
+                    className={selectClassName}
+                  >
+                    <option value="">— Not in file —</option>
+                    {headers.map((header, index) => (
+                      <option key={index} value={index}>
+                        {header || `Column ${index + 1}`}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+              {needsQifAccount && (
+                <div className="space-y-1">
+                  <Label htmlFor="qifAccountId">Account *</Label>
+                  <Input
+                    id="qifAccountId"
+                    placeholder="e.g., Checking 1234"
+                    value={qifAccountId}
+                    onChange={(e) => setQifAccountId(e.target.value)}
+                    maxLength={100}
+                  />
+                  <p className="text-xs text-gray-500">
+                    The file doesn&apos;t name its account. Use the same name every time you import this account, so
+                    transactions already imported are recognised and identical ones from other accounts are not.
+                  </p>
+                </div>
+              )}
+              {(!statement || statement.format === "qif") && (
+              <div className="space-y-1">
+                <Label>Date format</Label>
+                <select
+                  value={options.dateFormat}
+                  onChange={(e) => setOptions({ ...options, dateFormat: e.target.value as ImportDateFormat })}
+                  className={selectClassName}
+                >
+                  {IMPORT_DATE_FORMATS.map((format) => (
+                    <option key={format} value={format}>{format}</option>
+                  ))}
+                </select>
+              </div>
+              )}
+              <div className="space-y-1">
+                <Label>Default category</Label>
+                <select
+                  value={options.defaultCategoryId || ""}
+                  onChange={(e) => setOptions({ ...options, defaultCategoryId: e.target.value || undefined })}
+                  className={selectClassName}
+                >
+                  <option value="">— None —</option>
+                  {categories.map((category) => (
+                    <option key={category.id} value={category.id}>{category.name}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500">Used when the category column is missing or doesn&apos;t match a category in this book.</p>
+              </div>
+            </div>
+            {!statement && (
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={options.negativeIsExpense}
+                onChange={(e) => setOptions({ ...options, negativeIsExpense: e.target.checked })}
+                className="w-4 h-4"
+              />
+              Expenses are negative amounts (bank export) — skip incoming payments
+            </label>
+            )}
+            {!statement && dataRows.length > 0 && (
+              <div className="overflow-x-auto border rounded-md">
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="bg-gray-50 border-b">
+                      {headers.map((header, index) => (
+                        <th key={index} className="text-left p-2 font-semibold">{header || `Column ${index + 1}`}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {dataRows.slice(0, 3).map((row, rowIndex) => (
+                      <tr key={rowIndex} className="border-b">
+                        {headers.map((_, index) => (
+                          <td key={index} className="p-2 text-gray-700">{row[index]}</td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={reset} disabled={isWorking}>
+                Back
+              </Button>
+              <Button type="button" onClick={handlePreview} disabled={isWorking}>
+                {isWorking ? "Checking..." : "Preview"}
+              </Button>
+            </DialogFooter>
+          </div>
+        )}
+
+        {step === "preview" && (
+          <div className="space-y-4">
+            {accountWarning && (
+              <p className="text-sm p-3 rounded-md bg-yellow-50 border border-yellow-200 text-yellow-800">
+                {accountWarning}. Importing here will link the account to this book instead.
+              </p>
+            )}
+            <div className="flex flex-wrap gap-2 text-sm">
+              <Badge variant="secondary">{preview.length} rows</Badge>
+              <Badge variant="secondary" className="bg-green-100 text-green-800">{selected.size} selected</Badge>
+              {errorCount > 0 && <Badge variant="destructive">{errorCount} with errors</Badge>}
+              {duplicateCount > 0 && <Badge variant="outline" className="border-yellow-400 text-yellow-800">{duplicateCount} possible duplicates</Badge>}
+              {skippedCount > 0 && <Badge variant="outline">{skippedCount} skipped</Badge>}
+            </div>
+            <div className="overflow-x-auto border rounded-md max-h-[50vh]">
+              <table className="w-full text-sm">
+                <thead className="sticky top-0 bg-gray-50">
+                  <tr className="border-b">
+                    <th className="p-2"></th>
+                    <th className="text-left p-2 font-semibold">#</th>
+                    <th className="text-left p-2 font-semibold">Date</th>
+                    <th className="text-left p-2 font-semibold">Description</th>
+                    <th className="text-left p-2 font-semibold">Category</th>
+                    <th className="text-right p-2 font-semibold">Amount</th>
+                    <th className="text-left p-2 font-semibold">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.map((row) => {
+                    const importable = !row.skipReason && row.errors.length === 0
+                    return (
+                      <tr
+                        key={row.index}
+                        className={`border-b ${row.errors.length > 0 ? "bg-red-50" : row.skipReason ? "bg-gray-50 text-gray-400" : ""}`}
+                      >
+                        <td className="p-2">
+                          <input
+                            type="checkbox"
+                            checked={selected.has(row.index)}
+                            onChange={() => toggleRow(row.index)}
+                            disabled={!importable}
+                            className="w-4 h-4"
+                          />
+                        </td>
+                        <td className="p-2 text-gray-500">{row.index + 1}</td>
+                        <td className="p-2">{row.date ? formatDate(row.date) : "-"}</td>
+                        <td className="p-2">{row.description || "-"}</td>
+                        <td className="p-2">
+                          {row.categoryName || "-"}
+                          {row.ruleName && (
+                            <span className="block text-xs text-gray-500">
+                              Rule: {row.ruleName}
+                              {row.tags.length > 0 && ` (${row.tags.map((tag) => `#${tag}`).join(" ")})`}
+                            </span>
+                          )}
+                        </td>
+                        <td className="p-2 text-right font-medium">
+                          {row.amount !== null ? formatCurrency(row.amount, currency) : "-"}
+                        </td>
+                        <td className="p-2 text-xs">
+                          {row.skipReason && <span>{row.skipReason}</span>}
+                          {row.errors.map((error) => (
+                            <p key={error} className="text-red-600">{error}</p>
+                          ))}
+                          {row.duplicateOf && (
+                            <p className="text-yellow-700">
+                              Possible duplicate of &quot;{row.duplicateOf.description || "Untitled Expense"}&quot;
+                            </p>
+                          )}
+                          {row.duplicateOfRow !== null && (
+                            <p className="text-yellow-700">Same as row {row.duplicateOfRow + 1}</p>
+                          )}
+                          {importable && !row.duplicateOf && row.duplicateOfRow === null && (
+                            <span className="text-green-700">OK</span>
+                          )}
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setStep("map")} disabled={isWorking}>
+                Back
+              </Button>
+              <Button type="button" onClick={handleCommit} disabled={isWorking || selected.size === 0}>
+                {isWorking ? "Importing..." : `Import ${selected.size} expense(s)`}
+              </Button>
+            </DialogFooter>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -11,7 +11,8 @@ import {
   Wallet, 
   BarChart3,
   LogOut,
-  Bot
+  Bot,
+  Settings
 } from "lucide-react"
 import { signOut } from "next-auth/react"
 
@@ -46,6 +47,11 @@ const navItems = [
     href: "/reports",
     icon: BarChart3,
   },
+  {
+    label: "Settings",
+    href: "/settings",
+    icon: Settings,
+  },
 ]
 
 export function Sidebar() {
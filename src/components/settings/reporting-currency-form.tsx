@@ -0,0 +1,59 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { updateReportingCurrency } from "@/actions/user-actions"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { CurrencySelector } from "@/components/currency-selector"
+import { toast } from "@/components/ui/use-toast"
+
+interface ReportingCurrencyFormProps {
+  currency: string
+}
+
+export function ReportingCurrencyForm({ currency: initialCurrency }: ReportingCurrencyFormProps) {
+  const router = useRouter()
+  const [currency, setCurrency] = useState(initialCurrency)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSaving(true)
+
+    try {
+      const formData = new FormData()
+      formData.append("currency", currency)
+
+      const result = await updateReportingCurrency(formData)
+
+      if (result.error) {
+        toast({
+          title: "Error",
+          description: result.error,
+          variant: "destructive",
+        })
+      } else {
+        toast({
+          title: "Success",
+          description: `Totals across books are now shown in ${currency}`,
+        })
+        router.refresh()
+      }
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2 max-w-sm">
+        <Label>Reporting currency</Label>
+        <CurrencySelector value={currency} onChange={setCurrency} disabled={isSaving} />
+      </div>
+      <Button type="submit" disabled={isSaving || currency === initialCurrency}>
+        {isSaving ? "Saving..." : "Save"}
+      </Button>
+    </form>
+  )
+}
@@ -0,0 +1,266 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { inviteToBook, revokeInvitation, updateMemberRole, removeMember } from "@/actions/book-sharing-actions"
+import { BOOK_ROLE_DESCRIPTIONS, BOOK_ROLE_LABELS, MEMBER_ROLES, isBookRole, type BookRole } from "@/lib/book-roles"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { toast } from "@/components/ui/use-toast"
+import { formatDate } from "@/lib/utils"
+import { Copy, Link2, Mail, Trash2, Users } from "lucide-react"
+
+interface MemberUser {
+  id: string
+  name: string | null
+  email: string
+}
+
+interface BookMembersProps {
+  bookId: string
+  currentUserId: string
+  role: BookRole
+  owner: MemberUser
+  members: { id: string; role: string; user: MemberUser }[]
+  invitations: { id: string; token: string; email: string | null; role: string; expiresAt: Date }[]
+}
+
+function roleLabel(role: string) {
+  return isBookRole(role) ? BOOK_ROLE_LABELS[role] : role
+}
+
+function invitationUrl(token: string) {
+  return `${window.location.origin}/invitations/${token}`
+}
+
+export function BookMembers({ bookId, currentUserId, role, owner, members, invitations }: BookMembersProps) {
+  const router = useRouter()
+  const isOwner = role === "owner"
+  const [isSaving, setIsSaving] = useState(false)
+  const [formData, setFormData] = useState({
+    email: "",
+    role: "contributor",
+  })
+
+  const showResult = (result: { error?: string }, success: string) => {
+    if (result.error) {
+      toast({
+        title: "Error",
+        description: result.error,
+        variant: "destructive",
+      })
+      return false
+    }
+
+    toast({
+      title: "Success",
+      description: success,
+    })
+    router.refresh()
+    return true
+  }
+
+  const copyLink = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(invitationUrl(token))
+      toast({
+        title: "Copied",
+        description: "Invitation link copied to the clipboard",
+      })
+    } catch {
+      toast({
+        title: "Error",
+        description: "Could not copy the link",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSaving(true)
+
+    try {
+      const formDataObj = new FormData()
+      formDataObj.append("bookId", bookId)
+      formDataObj.append("email", formData.email.trim())
+      formDataObj.append("role", formData.role)
+
+      const result = await inviteToBook(formDataObj)
+      const isLink = !formData.email.trim()
+
+      if (showResult(result, isLink ? "Invitation link created" : `Invitation sent to ${formData.email.trim()}`)) {
+        setFormData({ ...formData, email: "" })
+        if (isLink && result.token) {
+          await copyLink(result.token)
+        }
+      }
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleRoleChange = async (memberId: string, newRole: string) => {
+    const result = await updateMemberRole(memberId, newRole)
+    showResult(result, `Role changed to ${roleLabel(newRole)}`)
+  }
+
+  const handleRemove = async (memberId: string, isSelf: boolean) => {
+    const result = await removeMember(memberId)
+    if (showResult(result, isSelf ? "You left the book" : "Member removed") && isSelf) {
+      router.push("/books")
+    }
+  }
+
+  const handleRevoke = async (invitationId: string) => {
+    const result = await revokeInvitation(invitationId)
+    showResult(result, "Invitation revoked")
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="w-5 h-5" />
+          Members
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <div className="flex items-center justify-between p-3 bg-gray-50 rounded-lg border">
+            <div>
+              <p className="font-medium text-gray-900">
+                {owner.name || owner.email}
+                {owner.id === currentUserId && " (you)"}
+              </p>
+              <p className="text-sm text-gray-600">{owner.email}</p>
+            </div>
+            <Badge>{BOOK_ROLE_LABELS.owner}</Badge>
+          </div>
+
+          {members.map((member) => {
+            const isSelf = member.user.id === currentUserId
+            return (
+              <div key={member.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg border">
+                <div>
+                  <p className="font-medium text-gray-900">
+                    {member.user.name || member.user.email}
+                    {isSelf && " (you)"}
+                  </p>
+                  <p className="text-sm text-gray-600">{member.user.email}</p>
+                </div>
+                <div className="flex items-center gap-2">
+                  {isOwner ? (
+                    <Select value={member.role} onValueChange={(value) => handleRoleChange(member.id, value)}>
+                      <SelectTrigger className="w-36">
+                        <SelectValue>{roleLabel(member.role)}</SelectValue>
+                      </SelectTrigger>
+                      <SelectContent>
+                        {MEMBER_ROLES.map((memberRole) => (
+                          <SelectItem key={memberRole} value={memberRole}>
+                            {BOOK_ROLE_LABELS[memberRole]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <Badge variant="secondary">{roleLabel(member.role)}</Badge>
+                  )}
+                  {(isOwner || isSelf) && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRemove(member.id, isSelf)}
+                      title={isSelf ? "Leave book" : "Remove member"}
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            )
+          })}
+        </div>
+
+        {isOwner && invitations.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium text-gray-700">Pending invitations</h3>
+            {invitations.map((invitation) => (
+              <div key={invitation.id} className="flex items-center justify-between p-3 rounded-lg border border-dashed">
+                <div className="flex items-center gap-3">
+                  {invitation.email ? (
+                    <Mail className="w-4 h-4 text-gray-500" />
+                  ) : (
+                    <Link2 className="w-4 h-4 text-gray-500" />
+                  )}
+                  <div>
+                    <p className="font-medium text-gray-900">{invitation.email || "Invitation link"}</p>
+                    <p className="text-sm text-gray-600">
+                      {roleLabel(invitation.role)} • expires {formatDate(invitation.expiresAt)}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center gap-1">
+                  <Button variant="ghost" size="sm" onClick={() => copyLink(invitation.token)} title="Copy link">
+                    <Copy className="w-3 h-3" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => handleRevoke(invitation.id)} title="Revoke invitation">
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {isOwner && (
+          <form onSubmit={handleInvite} className="grid grid-cols-1 md:grid-cols-3 gap-3 items-end border-t pt-4">
+            <div className="space-y-2">
+              <Label htmlFor="inviteEmail">Email</Label>
+              <Input
+                id="inviteEmail"
+                type="email"
+                placeholder="Leave empty to create a link"
+                value={formData.email}
+                onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="inviteRole">Role</Label>
+              <Select
+                value={formData.role}
+                onValueChange={(value) => setFormData({ ...formData, role: value })}
+              >
+                <SelectTrigger id="inviteRole">
+                  <SelectValue>{roleLabel(formData.role)}</SelectValue>
+                </SelectTrigger>
+                <SelectContent>
+                  {MEMBER_ROLES.map((memberRole) => (
+                    <SelectItem key={memberRole} value={memberRole}>
+                      {BOOK_ROLE_LABELS[memberRole]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? "Inviting..." : formData.email.trim() ? "Send Invitation" : "Create Link"}
+            </Button>
+
+            {isBookRole(formData.role) && (
+              <p className="text-sm text-gray-500 md:col-span-3">
+                {BOOK_ROLE_DESCRIPTIONS[formData.role]}
+              </p>
+            )}
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
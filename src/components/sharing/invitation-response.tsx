@@ -0,0 +1,82 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { acceptInvitation, declineInvitation } from "@/actions/book-sharing-actions"
+import { Button } from "@/components/ui/button"
+import { toast } from "@/components/ui/use-toast"
+
+interface InvitationResponseProps {
+  token: string
+  // Set for email invitations, which the invitee can also decline
+  invitationId?: string
+  size?: "default" | "sm"
+}
+
+export function InvitationResponse({ token, invitationId, size = "default" }: InvitationResponseProps) {
+  const router = useRouter()
+  const [isResponding, setIsResponding] = useState(false)
+
+  const handleAccept = async () => {
+    setIsResponding(true)
+
+    try {
+      const result = await acceptInvitation(token)
+
+      if (result.error) {
+        toast({
+          title: "Error",
+          description: result.error,
+          variant: "destructive",
+        })
+      } else {
+        toast({
+          title: "Success",
+          description: "You now have access to the book",
+        })
+        router.push(`/books/${result.bookId}`)
+        router.refresh()
+      }
+    } finally {
+      setIsResponding(false)
+    }
+  }
+
+  const handleDecline = async () => {
+    if (!invitationId) return
+    setIsResponding(true)
+
+    try {
+      const result = await declineInvitation(invitationId)
+
+      if (result.error) {
+        toast({
+          title: "Error",
+          description: result.error,
+          variant: "destructive",
+        })
+      } else {
+        toast({
+          title: "Success",
+          description: "Invitation declined",
+        })
+        router.refresh()
+      }
+    } finally {
+      setIsResponding(false)
+    }
+  }
+
+  return (
+    <div className="flex gap-2">
+      <Button size={size} onClick={handleAccept} disabled={isResponding}>
+        {isResponding ? "Joining..." : "Accept"}
+      </Button>
+      {invitationId && (
+        <Button size={size} variant="outline" onClick={handleDecline} disabled={isResponding}>
+          Decline
+        </Button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,295 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import {
+  createParticipant,
+  deleteParticipant,
+  recordSettlement,
+  deleteSettlement,
+} from "@/actions/split-actions"
+import type { ParticipantBalance, SettlementSuggestion } from "@/lib/splits"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { toast } from "@/components/ui/use-toast"
+import { formatCurrency, formatDate } from "@/lib/utils"
+import { getAmountStep } from "@/lib/money"
+import { ArrowRight, Scale, Trash2, X } from "lucide-react"
+
+interface BalancesCardProps {
+  bookId: string
+  currency: string
+  canEdit: boolean
+  participants: { id: string; name: string }[]
+  balances: ParticipantBalance[]
+  suggestions: SettlementSuggestion[]
+  settlements: {
+    id: string
+    amount: number
+    date: Date
+    note: string | null
+    from: { name: string }
+    to: { name: string }
+  }[]
+}
+
+export function BalancesCard({ bookId, currency, canEdit, participants, balances, suggestions, settlements }: BalancesCardProps) {
+  const router = useRouter()
+  const [isSaving, setIsSaving] = useState(false)
+  const [newName, setNewName] = useState("")
+  const [settlement, setSettlement] = useState({ fromId: "", toId: "", amount: "" })
+
+  const showResult = (result: { error?: string }, success: string) => {
+    if (result.error) {
+      toast({
+        title: "Error",
+        description: result.error,
+        variant: "destructive",
+      })
+      return false
+    }
+
+    toast({
+      title: "Success",
+      description: success,
+    })
+    router.refresh()
+    return true
+  }
+
+  const handleAddParticipant = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSaving(true)
+
+    try {
+      const formData = new FormData()
+      formData.append("bookId", bookId)
+      formData.append("name", newName)
+
+      if (showResult(await createParticipant(formData), `${newName.trim()} added`)) {
+        setNewName("")
+      }
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleRemoveParticipant = async (id: string, name: string) => {
+    showResult(await deleteParticipant(id), `${name} removed`)
+  }
+
+  const saveSettlement = async (fromId: string, toId: string, amount: string) => {
+    setIsSaving(true)
+
+    try {
+      const formData = new FormData()
+      formData.append("bookId", bookId)
+      formData.append("fromId", fromId)
+      formData.append("toId", toId)
+      formData.append("amount", amount)
+
+      return showResult(await recordSettlement(formData), "Settlement recorded")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleRecordSettlement = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (await saveSettlement(settlement.fromId, settlement.toId, settlement.amount)) {
+      setSettlement({ fromId: "", toId: "", amount: "" })
+    }
+  }
+
+  const handleDeleteSettlement = async (id: string) => {
+    showResult(await deleteSettlement(id), "Settlement deleted")
+  }
+
+  const participantName = (id: string) => participants.find((participant) => participant.id === id)?.name
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Scale className="w-5 h-5" />
+          Balances
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium text-gray-700">Participants</h3>
+          {participants.length === 0 ? (
+            <p className="text-sm text-gray-500 italic">
+              Add the people you share expenses with, then split expenses between them from the expense page
+            </p>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {participants.map((participant) => (
+                <Badge key={participant.id} variant="secondary" className="gap-1">
+                  {participant.name}
+                  {canEdit && (
+                    <button
+                      type="button"
+                      onClick={() => handleRemoveParticipant(participant.id, participant.name)}
+                      title="Remove participant"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  )}
+                </Badge>
+              ))}
+            </div>
+          )}
+          {canEdit && (
+            <form onSubmit={handleAddParticipant} className="flex gap-2 max-w-sm">
+              <Input
+                placeholder="Name"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                required
+              />
+              <Button type="submit" variant="outline" disabled={isSaving}>
+                Add
+              </Button>
+            </form>
+          )}
+        </div>
+
+        {balances.some((balance) => balance.paid > 0 || balance.owed > 0 || balance.balance !== 0) && (
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium text-gray-700">Who owes whom</h3>
+            {balances.map((balance) => (
+              <div key={balance.participantId} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg border">
+                <div>
+                  <p className="font-medium text-gray-900">{balance.name}</p>
+                  <p className="text-sm text-gray-600">
+                    Paid {formatCurrency(balance.paid, currency)} • Share {formatCurrency(balance.owed, currency)}
+                  </p>
+                </div>
+                <span className={`font-bold ${balance.balance > 0 ? "text-green-600" : balance.balance < 0 ? "text-red-600" : "text-gray-500"}`}>
+                  {balance.balance > 0
+                    ? `is owed ${formatCurrency(balance.balance, currency)}`
+                    : balance.balance < 0
+                      ? `owes ${formatCurrency(-balance.balance, currency)}`
+                      : "settled up"}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {suggestions.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium text-gray-700">Suggested payments</h3>
+            {suggestions.map((suggestion) => (
+              <div
+                key={`${suggestion.fromId}-${suggestion.toId}`}
+                className="flex items-center justify-between p-3 rounded-lg border border-dashed"
+              >
+                <div className="flex items-center gap-2 text-gray-900">
+                  <span className="font-medium">{suggestion.fromName}</span>
+                  <ArrowRight className="w-4 h-4 text-gray-500" />
+                  <span className="font-medium">{suggestion.toName}</span>
+                  <span className="font-bold">{formatCurrency(suggestion.amount, currency)}</span>
+                </div>
+                {canEdit && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={isSaving}
+                    onClick={() => saveSettlement(suggestion.fromId, suggestion.toId, suggestion.amount.toString())}
+                  >
+                    Mark as paid
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {canEdit && participants.length >= 2 && (
+          <form onSubmit={handleRecordSettlement} className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end border-t pt-4">
+            <div className="space-y-2">
+              <Label htmlFor="settlementFrom">From</Label>
+              <Select value={settlement.fromId} onValueChange={(value) => setSettlement({ ...settlement, fromId: value })}>
+                <SelectTrigger id="settlementFrom">
+                  <SelectValue placeholder="Who paid">{participantName(settlement.fromId)}</SelectValue>
+                </SelectTrigger>
+                <SelectContent>
+                  {participants.map((participant) => (
+                    <SelectItem key={participant.id} value={participant.id}>
+                      {participant.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="settlementTo">To</Label>
+              <Select value={settlement.toId} onValueChange={(value) => setSettlement({ ...settlement, toId: value })}>
+                <SelectTrigger id="settlementTo">
+                  <SelectValue placeholder="Who was paid">{participantName(settlement.toId)}</SelectValue>
+                </SelectTrigger>
+                <SelectContent>
+                  {participants.map((participant) => (
+                    <SelectItem key={participant.id} value={participant.id}>
+                      {participant.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="settlementAmount">Amount ({currency})</Label>
+              <Input
+                id="settlementAmount"
+                type="number"
+                step={getAmountStep(currency)}
+                placeholder="0.00"
+                value={settlement.amount}
+                onChange={(e) => setSettlement({ ...settlement, amount: e.target.value })}
+                required
+              />
+            </div>
+
+            <Button type="submit" disabled={isSaving || !settlement.fromId || !settlement.toId}>
+              Record Settlement
+            </Button>
+          </form>
+        )}
+
+        {settlements.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium text-gray-700">Settlements</h3>
+            {settlements.map((entry) => (
+              <div key={entry.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg border">
+                <div>
+                  <p className="font-medium text-gray-900">
+                    {entry.from.name} paid {entry.to.name}
+                  </p>
+                  <p className="text-sm text-gray-600">
+                    {entry.note ? `${entry.note} • ` : ""}{formatDate(entry.date)}
+                  </p>
+                </div>
+                <div className="flex items-center gap-3">
+                  <span className="font-bold text-gray-900">{formatCurrency(entry.amount, currency)}</span>
+                  {canEdit && (
+                    <Button variant="ghost" size="sm" onClick={() => handleDeleteSettlement(entry.id)} title="Delete settlement">
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,254 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { setExpenseSplit, removeExpenseSplit } from "@/actions/split-actions"
+import {
+  SPLIT_METHOD_LABELS,
+  SPLIT_METHODS,
+  SplitError,
+  computeSplitAmounts,
+  isSplitMethod,
+  type SplitMethod,
+} from "@/lib/splits"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { toast } from "@/components/ui/use-toast"
+import { formatCurrency } from "@/lib/utils"
+import { getAmountStep } from "@/lib/money"
+import { Users } from "lucide-react"
+
+interface ExpenseSplitEditorProps {
+  expenseId: string
+  bookId: string
+  amount: number
+  currency: string
+  participants: { id: string; name: string }[]
+  splitMethod: string | null
+  paidById: string | null
+  splits: { participantId: string; amount: number; value: number | null }[]
+}
+
+const VALUE_LABELS: Record<SplitMethod, string> = {
+  equal: "",
+  shares: "Shares",
+  exact: "Amount",
+  percentage: "%",
+}
+
+export function ExpenseSplitEditor({
+  expenseId,
+  bookId,
+  amount,
+  currency,
+  participants,
+  splitMethod,
+  paidById: initialPaidById,
+  splits,
+}: ExpenseSplitEditorProps) {
+  const router = useRouter()
+  const isSplit = splits.length > 0
+  const [isSaving, setIsSaving] = useState(false)
+  const [paidById, setPaidById] = useState(initialPaidById || participants[0]?.id || "")
+  const [method, setMethod] = useState<SplitMethod>(splitMethod && isSplitMethod(splitMethod) ? splitMethod : "equal")
+  // Everyone is included in a new split; an existing one keeps its participants
+  const [rows, setRows] = useState(() =>
+    Object.fromEntries(
+      participants.map((participant) => {
+        const split = splits.find((s) => s.participantId === participant.id)
+        return [participant.id, { included: isSplit ? !!split : true, value: split?.value?.toString() ?? "" }]
+      })
+    )
+  )
+
+  if (participants.length < 2) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Users className="w-5 h-5" />
+            Split
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm text-gray-600">
+            Add at least two participants on the{" "}
+            <Link href={`/books/${bookId}`} className="text-blue-600 hover:underline">
+              book page
+            </Link>{" "}
+            to split this expense.
+          </p>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const inputs = participants
+    .filter((participant) => rows[participant.id]?.included)
+    .map((participant) => {
+      const value = parseFloat(rows[participant.id].value)
+      return { participantId: participant.id, value: isNaN(value) ? null : value }
+    })
+
+  let preview: Map<string, number> | null = null
+  let previewError: string | null = null
+  try {
+    preview = new Map(computeSplitAmounts(amount, currency, method, inputs).map((share) => [share.participantId, share.amount]))
+  } catch (error) {
+    if (!(error instanceof SplitError)) throw error
+    previewError = error.message
+  }
+
+  const updateRow = (participantId: string, changes: Partial<{ included: boolean; value: string }>) => {
+    setRows({ ...rows, [participantId]: { ...rows[participantId], ...changes } })
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+
+    try {
+      const formData = new FormData()
+      formData.append("expenseId", expenseId)
+      formData.append("paidById", paidById)
+      formData.append("method", method)
+      formData.append("splits", JSON.stringify(inputs))
+
+      const result = await setExpenseSplit(formData)
+
+      if (result.error) {
+        toast({
+          title: "Error",
+          description: result.error,
+          variant: "destructive",
+        })
+      } else {
+        toast({
+          title: "Success",
+          description: "Expense split saved",
+        })
+        router.refresh()
+      }
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleRemove = async () => {
+    setIsSaving(true)
+
+    try {
+      const result = await removeExpenseSplit(expenseId)
+
+      if (result.error) {
+        toast({
+          title: "Error",
+          description: result.error,
+          variant: "destructive",
+        })
+      } else {
+        toast({
+          title: "Success",
+          description: "Split removed",
+        })
+        router.refresh()
+      }
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const participantName = (id: string) => participants.find((participant) => participant.id === id)?.name || "Select a participant"
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="w-5 h-5" />
+          Split
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div className="space-y-2">
+            <Label htmlFor="splitPaidBy">Paid by</Label>
+            <Select value={paidById} onValueChange={setPaidById}>
+              <SelectTrigger id="splitPaidBy">
+                <SelectValue>{participantName(paidById)}</SelectValue>
+              </SelectTrigger>
+              <SelectContent>
+                {participants.map((participant) => (
+                  <SelectItem key={participant.id} value={participant.id}>
+                    {participant.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="splitMethod">Split</Label>
+            <Select value={method} onValueChange={(value) => isSplitMethod(value) && setMethod(value)}>
+              <SelectTrigger id="splitMethod">
+                <SelectValue>{SPLIT_METHOD_LABELS[method]}</SelectValue>
+              </SelectTrigger>
+              <SelectContent>
+                {SPLIT_METHODS.map((splitMethodOption) => (
+                  <SelectItem key={splitMethodOption} value={splitMethodOption}>
+                    {SPLIT_METHOD_LABELS[splitMethodOption]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          {participants.map((participant) => {
+            const row = rows[participant.id]
+            return (
+              <div key={participant.id} className="flex items-center gap-3 p-2 bg-gray-50 rounded-lg border">
+                <Checkbox
+                  checked={row.included}
+                  onCheckedChange={(checked) => updateRow(participant.id, { included: checked === true })}
+                />
+                <span className="flex-1 font-medium text-gray-900">{participant.name}</span>
+                {method !== "equal" && row.included && (
+                  <Input
+                    type="number"
+                    min="0"
+                    step={method === "exact" ? getAmountStep(currency) : "any"}
+                    placeholder={VALUE_LABELS[method]}
+                    className="w-28"
+                    value={row.value}
+                    onChange={(e) => updateRow(participant.id, { value: e.target.value })}
+                  />
+                )}
+                <span className="w-28 text-right text-sm text-gray-700">
+                  {row.included && preview?.has(participant.id) ? formatCurrency(preview.get(participant.id)!, currency) : "-"}
+                </span>
+              </div>
+            )
+          })}
+        </div>
+
+        {previewError && <p className="text-sm text-red-600">{previewError}</p>}
+
+        <div className="flex gap-2">
+          <Button onClick={handleSave} disabled={isSaving || !!previewError || !paidById}>
+            {isSaving ? "Saving..." : isSplit ? "Update Split" : "Split Expense"}
+          </Button>
+          {isSplit && (
+            <Button variant="outline" onClick={handleRemove} disabled={isSaving}>
+              Remove Split
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,111 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { getTags } from "@/actions/tag-actions"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { toast } from "@/components/ui/use-toast"
+import { normalizeTagName, MAX_TAGS_PER_EXPENSE } from "@/lib/tags"
+import { X } from "lucide-react"
+
+interface TagPickerProps {
+  value: string[]
+  onChange: (tags: string[]) => void
+  disabled?: boolean
+  // Suggest the tags of this book's owner, which its expenses use
+  bookId?: string | null
+}
+
+// Free-form tag input with suggestions from the existing tags.
+// Enter or comma adds the typed tag; the parent form appends each as "tags".
+export function TagPicker({ value, onChange, disabled, bookId }: TagPickerProps) {
+  const [input, setInput] = useState("")
+  const [knownTags, setKnownTags] = useState<string[]>([])
+
+  useEffect(() => {
+    const loadTags = async () => {
+      const result = await getTags(bookId || undefined)
+      if (result.tags) {
+        setKnownTags(result.tags.map((tag) => tag.name))
+      }
+    }
+    loadTags()
+  }, [bookId])
+
+  const addTag = (raw: string) => {
+    const name = normalizeTagName(raw)
+    setInput("")
+    if (!name || value.includes(name)) return
+
+    if (value.length >= MAX_TAGS_PER_EXPENSE) {
+      toast({
+        title: "Validation Error",
+        description: `An expense can have at most ${MAX_TAGS_PER_EXPENSE} tags`,
+        variant: "destructive",
+      })
+      return
+    }
+    onChange([...value, name])
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter" || e.key === ",") {
+      e.preventDefault()
+      addTag(input)
+    } else if (e.key === "Backspace" && !input && value.length > 0) {
+      onChange(value.slice(0, -1))
+    }
+  }
+
+  const query = normalizeTagName(input)
+  const suggestions = knownTags
+    .filter((name) => !value.includes(name) && (!query || name.includes(query)))
+    .slice(0, 8)
+
+  return (
+    <div className="space-y-2">
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {value.map((name) => (
+            <Badge key={name} variant="secondary" className="gap-1">
+              #{name}
+              <button
+                type="button"
+                onClick={() => onChange(value.filter((tag) => tag !== name))}
+                disabled={disabled}
+                className="hover:text-red-600"
+                title="Remove tag"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+      <Input
+        placeholder="Add a tag, e.g. client-acme or trip-berlin"
+        value={input}
+        onChange={(e) => setInput(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={() => input && addTag(input)}
+        disabled={disabled}
+      />
+      {suggestions.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {suggestions.map((name) => (
+            <button
+              key={name}
+              type="button"
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => addTag(name)}
+              disabled={disabled}
+              className="text-xs px-2 py-0.5 rounded-full border border-gray-300 text-gray-600 hover:bg-gray-100"
+            >
+              #{name}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
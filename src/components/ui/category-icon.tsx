@@ -106,12 +106,15 @@ const iconMap: { [key: string]: any } = {
 }
 
 interface CategoryIconProps {
-  iconName?: string
+  iconName?: string | null
+  // A sub-category without an icon of its own shows its parent's
+  parentIconName?: string | null
   className?: string
   size?: number
 }
 
-export function CategoryIcon({ iconName, className = "w-5 h-5", size }: CategoryIconProps) {
+export function CategoryIcon({ iconName, parentIconName, className = "w-5 h-5", size }: CategoryIconProps) {
+  iconName = iconName || parentIconName
   if (!iconName) return null
 
   const IconComponent = iconMap[iconName]
@@ -0,0 +1,46 @@
+import type { Prisma } from "@prisma/client"
+
+// Writes the AI assistant proposes are collected into a change set per reply. The user
+// applies or discards the set from the chat, and can undo an applied set as a whole.
+
+export const CHANGE_SET_STATUSES = ["pending", "applied", "discarded", "undone", "failed"] as const
+export type ChangeSetStatus = (typeof CHANGE_SET_STATUSES)[number]
+
+export const CHANGE_SET_STATUS_LABELS: Record<ChangeSetStatus, string> = {
+  pending: "Awaiting review",
+  applied: "Applied",
+  discarded: "Discarded",
+  undone: "Undone",
+  failed: "Not applied",
+}
+
+// What the chat shows for a change set
+export interface ChangeSetView {
+  id: string
+  status: ChangeSetStatus
+  summaries: string[]
+  // Why applying failed
+  error: string | null
+}
+
+export function isChangeSetStatus(value: string): value is ChangeSetStatus {
+  return (CHANGE_SET_STATUSES as readonly string[]).includes(value)
+}
+
+export function toChangeSetView(changeSet: {
+  id: string
+  status: string
+  changes: Prisma.JsonValue
+  error: string | null
+}): ChangeSetView {
+  const changes = Array.isArray(changeSet.changes) ? changeSet.changes : []
+
+  return {
+    id: changeSet.id,
+    status: isChangeSetStatus(changeSet.status) ? changeSet.status : "pending",
+    summaries: changes.map((change) =>
+      change && typeof change === "object" && "summary" in change ? String(change.summary) : "Unknown change"
+    ),
+    error: changeSet.error,
+  }
+}
@@ -0,0 +1,21 @@
+import type { LLMUsage } from './index'
+
+// Provider and model settings shared by every AI route. The OPENROUTER_* names are
+// still read so existing .env files keep working.
+export const LLM_CONFIG = {
+  provider: process.env.LLM_PROVIDER || 'openrouter',
+  primaryModel: process.env.LLM_MODEL_PRIMARY || process.env.OPENROUTER_MODEL_PRIMARY || 'google/gemma-3-27b-it:free',
+  fallbackModel: process.env.LLM_MODEL_FALLBACK || process.env.OPENROUTER_MODEL_FALLBACK || 'allenai/molmo-2-8b:free',
+  temperature: parseFloat(process.env.LLM_TEMPERATURE || process.env.OPENROUTER_TEMPERATURE || '0.7'),
+  maxTokens: parseInt(process.env.LLM_MAX_TOKENS || process.env.OPENROUTER_MAX_TOKENS || '4000', 10),
+}
+
+export const EMPTY_USAGE: LLMUsage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 }
+
+export function addUsage(a: LLMUsage, b: LLMUsage): LLMUsage {
+  return {
+    prompt_tokens: a.prompt_tokens + b.prompt_tokens,
+    completion_tokens: a.completion_tokens + b.completion_tokens,
+    total_tokens: a.total_tokens + b.total_tokens,
+  }
+}
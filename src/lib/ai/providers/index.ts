@@ -0,0 +1,96 @@
+import { MockLLMProvider } from './mock-provider'
+import { OpenAICompatibleProvider } from './openai-compatible-provider'
+import { OpenRouterProvider } from './openrouter-provider'
+import { LLM_CONFIG } from './config'
+
+export { LLM_CONFIG, EMPTY_USAGE, addUsage } from './config'
+
+// Messages and tool calls use the OpenAI chat-completions shapes, which every
+// provider here either speaks natively or imitates
+export interface LLMToolCall {
+  id: string
+  type: 'function'
+  function: { name: string; arguments: string }
+}
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool'
+  content: string | null
+  tool_calls?: LLMToolCall[]
+  // Set on role "tool": the call this message answers
+  tool_call_id?: string
+}
+
+export interface LLMToolDefinition {
+  type: 'function'
+  function: { name: string; description: string; parameters: Record<string, unknown> }
+}
+
+export interface LLMUsage {
+  prompt_tokens: number
+  completion_tokens: number
+  total_tokens: number
+}
+
+export interface LLMRequest {
+  messages: LLMMessage[]
+  tools?: LLMToolDefinition[]
+}
+
+export interface LLMResponse {
+  message: LLMMessage
+  // The model that answered, which can be the fallback
+  model: string
+  usage: LLMUsage
+}
+
+export type LLMStreamEvent =
+  | { type: 'content'; content: string }
+  | { type: 'done'; model: string; usage: LLMUsage }
+
+/**
+ * Chat model contract used by the AI assistant routes. `stream` yields the reply's text
+ * as it arrives and ends with a single "done" event carrying the usage.
+ */
+export interface LLMProvider {
+  readonly name: string
+  chat(request: LLMRequest): Promise<LLMResponse>
+  stream(request: LLMRequest): AsyncIterable<LLMStreamEvent>
+}
+
+type LLMProviderFactory = () => LLMProvider
+
+// Register additional providers here and select them with LLM_PROVIDER
+const providers: Record<string, LLMProviderFactory> = {
+  openrouter: () =>
+    new OpenRouterProvider({
+      apiUrl: process.env.OPENROUTER_API_URL || 'https://openrouter.ai/api/v1',
+      apiKey: process.env.OPENROUTER_API_KEY,
+      appUrl: process.env.APP_URL || process.env.NEXTAUTH_URL || 'https://localhost:3000',
+      appName: process.env.APP_NAME || 'Manage My Expenses',
+    }),
+  openai: () =>
+    new OpenAICompatibleProvider({
+      apiUrl: process.env.LLM_API_URL || 'http://localhost:11434/v1',
+      apiKey: process.env.LLM_API_KEY,
+    }),
+  mock: () => (process.env.LLM_MOCK_SCRIPT ? MockLLMProvider.fromFile(process.env.LLM_MOCK_SCRIPT) : new MockLLMProvider([])),
+}
+
+const globalForLLM = globalThis as unknown as {
+  llmProvider: LLMProvider | undefined
+}
+
+export function getLLMProvider(): LLMProvider {
+  if (globalForLLM.llmProvider) {
+    return globalForLLM.llmProvider
+  }
+
+  const factory = providers[LLM_CONFIG.provider]
+  if (!factory) {
+    throw new Error(`Unknown LLM provider: ${LLM_CONFIG.provider}`)
+  }
+
+  globalForLLM.llmProvider = factory()
+  return globalForLLM.llmProvider
+}
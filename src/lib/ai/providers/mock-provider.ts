@@ -0,0 +1,125 @@
+import { readFileSync } from 'fs'
+import { z } from 'zod'
+import type { LLMMessage, LLMProvider, LLMRequest, LLMResponse, LLMStreamEvent, LLMToolCall } from './index'
+
+const mockRuleSchema = z.object({
+  // Case-insensitive regular expression tested against the latest user message
+  match: z.string(),
+  reply: z.string().optional(),
+  // Tools to call instead of replying; skipped when the request doesn't offer the tool
+  toolCalls: z.array(z.object({ name: z.string(), arguments: z.record(z.unknown()).default({}) })).optional(),
+})
+
+export type MockRule = z.infer<typeof mockRuleSchema>
+
+/**
+ * Parse a mock script: a JSON array of rules such as
+ * { "match": "spent", "toolCalls": [{ "name": "createExpense", "arguments": { ... } }] }
+ * or { "match": "hello", "reply": "Hi!" }. The first matching rule wins.
+ */
+export function parseMockScript(text: string): MockRule[] {
+  const result = z.array(mockRuleSchema).safeParse(JSON.parse(text))
+  if (!result.success) {
+    throw new Error(`Invalid mock script: ${result.error.issues.map((i) => `${i.path.join('.')} ${i.message}`).join(', ')}`)
+  }
+
+  return result.data
+}
+
+// Rough token count (about four characters each), good enough for usage figures
+function countTokens(text: string | null) {
+  return text ? Math.ceil(text.length / 4) : 0
+}
+
+/**
+ * Scripted replies for developing and testing the assistant offline. Replies depend only
+ * on the conversation, so the same messages always get the same answer: the first rule
+ * matching the latest user message answers (or calls its tools), tool results are
+ * summarised one per line, and anything else is echoed back.
+ */
+export class MockLLMProvider implements LLMProvider {
+  readonly name = 'mock'
+  private readonly rules: (MockRule & { pattern: RegExp })[]
+
+  constructor(rules: MockRule[]) {
+    this.rules = rules.map((rule) => ({ ...rule, pattern: new RegExp(rule.match, 'i') }))
+  }
+
+  static fromFile(filePath: string) {
+    return new MockLLMProvider(parseMockScript(readFileSync(filePath, 'utf8')))
+  }
+
+  private reply(request: LLMRequest): LLMMessage {
+    const { messages } = request
+    const last = messages[messages.length - 1]
+
+    // Answer tool results with what each call returned
+    if (last?.role === 'tool') {
+      const calls = new Map<string, string>()
+      messages.forEach((message) => message.tool_calls?.forEach((call) => calls.set(call.id, call.function.name)))
+
+      const results: string[] = []
+      for (let i = messages.length - 1; i >= 0 && messages[i].role === 'tool'; i--) {
+        const message = messages[i]
+        const name = calls.get(message.tool_call_id || '') || 'tool'
+        let result: { error?: unknown; status?: unknown }
+        try {
+          result = JSON.parse(message.content || '{}')
+        } catch (parseError) {
+          result = { error: 'unreadable result' }
+        }
+        // Proposed writes report their status instead of being done
+        results.unshift(
+          result.error ? `${name} failed: ${result.error}` : `${name} ${typeof result.status === 'string' ? result.status : 'done'}`
+        )
+      }
+
+      return { role: 'assistant', content: results.join('\n') }
+    }
+
+    const userMessage = [...messages].reverse().find((message) => message.role === 'user')?.content || ''
+    const offered = new Set(request.tools?.map((tool) => tool.function.name))
+    const rule = this.rules.find((candidate) => candidate.pattern.test(userMessage))
+
+    const toolCalls: LLMToolCall[] = (rule?.toolCalls || [])
+      .filter((call) => offered.has(call.name))
+      .map((call, index) => ({
+        id: `mock-call-${messages.length}-${index}`,
+        type: 'function',
+        function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+      }))
+
+    if (toolCalls.length > 0) {
+      return { role: 'assistant', content: null, tool_calls: toolCalls }
+    }
+
+    return { role: 'assistant', content: rule?.reply ?? `Mock reply to: ${userMessage}` }
+  }
+
+  async chat(request: LLMRequest): Promise<LLMResponse> {
+    const message = this.reply(request)
+    const promptTokens = request.messages.reduce((total, entry) => total + countTokens(entry.content), 0)
+    const completionTokens = countTokens(message.content) + countTokens(JSON.stringify(message.tool_calls || []))
+
+    return {
+      message,
+      model: 'mock',
+      usage: {
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: promptTokens + completionTokens,
+      },
+    }
+  }
+
+  async *stream(request: LLMRequest): AsyncIterable<LLMStreamEvent> {
+    const { message, model, usage } = await this.chat(request)
+
+    // Word by word, like a real model streams
+    for (const word of (message.content || '').split(/(?<=\s)/)) {
+      yield { type: 'content', content: word }
+    }
+
+    yield { type: 'done', model, usage }
+  }
+}
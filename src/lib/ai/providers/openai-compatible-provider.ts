@@ -0,0 +1,156 @@
+import { EMPTY_USAGE, LLM_CONFIG } from './config'
+import type { LLMProvider, LLMRequest, LLMResponse, LLMStreamEvent, LLMUsage } from './index'
+
+export class LLMRequestError extends Error {
+  readonly status: number
+
+  constructor(status: number, message: string) {
+    super(message)
+    this.status = status
+  }
+}
+
+export interface OpenAICompatibleOptions {
+  // Base URL without /chat/completions, e.g. http://localhost:11434/v1 for Ollama
+  apiUrl: string
+  // Local servers usually don't need one
+  apiKey?: string
+}
+
+function toUsage(usage: any): LLMUsage {
+  if (!usage) return EMPTY_USAGE
+  return {
+    prompt_tokens: usage.prompt_tokens || 0,
+    completion_tokens: usage.completion_tokens || 0,
+    total_tokens: usage.total_tokens || 0,
+  }
+}
+
+async function readErrorMessage(response: Response) {
+  try {
+    const data = await response.json()
+    const error = data?.error
+    return (typeof error === 'string' ? error : error?.message) || `HTTP ${response.status}: ${response.statusText}`
+  } catch (error) {
+    // Not JSON
+    return `HTTP ${response.status}: ${response.statusText}`
+  }
+}
+
+/**
+ * Any server speaking the OpenAI chat-completions API: Ollama, llama.cpp's server,
+ * vLLM, LM Studio or OpenAI itself.
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: string = 'openai'
+  protected readonly apiUrl: string
+  protected readonly apiKey?: string
+
+  constructor(options: OpenAICompatibleOptions) {
+    this.apiUrl = options.apiUrl.replace(/\/+$/, '')
+    this.apiKey = options.apiKey
+  }
+
+  protected getHeaders(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+    }
+  }
+
+  protected async post(model: string, request: LLMRequest, stream: boolean) {
+    const response = await fetch(`${this.apiUrl}/chat/completions`, {
+      method: 'POST',
+      headers: this.getHeaders(),
+      body: JSON.stringify({
+        model,
+        messages: request.messages,
+        temperature: LLM_CONFIG.temperature,
+        max_tokens: LLM_CONFIG.maxTokens,
+        ...(request.tools && request.tools.length > 0 ? { tools: request.tools } : {}),
+        ...(stream ? { stream: true, stream_options: { include_usage: true } } : {}),
+      }),
+      cache: 'no-store',
+    })
+
+    if (!response.ok) {
+      throw new LLMRequestError(response.status, await readErrorMessage(response))
+    }
+
+    return response
+  }
+
+  // Send the request to the configured model; the response and the model that answered
+  protected async send(request: LLMRequest, stream: boolean) {
+    const model = LLM_CONFIG.primaryModel
+    return { response: await this.post(model, request, stream), model }
+  }
+
+  async chat(request: LLMRequest): Promise<LLMResponse> {
+    const { response, model } = await this.send(request, false)
+    const data = await response.json()
+
+    const message = data?.choices?.[0]?.message
+    if (!message) {
+      throw new Error('The model returned no reply')
+    }
+
+    return {
+      message: {
+        role: 'assistant',
+        content: message.content ?? null,
+        ...(Array.isArray(message.tool_calls) && message.tool_calls.length > 0 ? { tool_calls: message.tool_calls } : {}),
+      },
+      model: data.model || model,
+      usage: toUsage(data.usage),
+    }
+  }
+
+  async *stream(request: LLMRequest): AsyncIterable<LLMStreamEvent> {
+    const { response, model } = await this.send(request, true)
+
+    const reader = response.body?.getReader()
+    if (!reader) {
+      throw new Error('No reader available')
+    }
+
+    const decoder = new TextDecoder()
+    let buffer = ''
+    let usage = EMPTY_USAGE
+
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      // Server-sent events can be split across chunks; keep the unfinished line
+      buffer += decoder.decode(value, { stream: true })
+      const lines = buffer.split('\n')
+      buffer = lines.pop() || ''
+
+      for (const line of lines) {
+        if (!line.startsWith('data: ')) continue
+        const data = line.slice(6).trim()
+        if (data === '[DONE]') continue
+
+        let parsed: any
+        try {
+          parsed = JSON.parse(data)
+        } catch (error) {
+          console.error('Error parsing SSE:', error)
+          continue
+        }
+
+        const content = parsed.choices?.[0]?.delta?.content
+        if (content) {
+          yield { type: 'content', content }
+        }
+        // Sent with the last chunk when the server supports stream_options
+        if (parsed.usage) {
+          usage = toUsage(parsed.usage)
+        }
+      }
+    }
+
+    yield { type: 'done', model, usage }
+  }
+}
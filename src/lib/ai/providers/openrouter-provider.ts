@@ -0,0 +1,51 @@
+import { LLM_CONFIG } from './config'
+import type { LLMRequest } from './index'
+import { LLMRequestError, OpenAICompatibleProvider } from './openai-compatible-provider'
+
+export interface OpenRouterOptions {
+  apiUrl: string
+  apiKey?: string
+  // Sent so the app shows up in OpenRouter's rankings
+  appUrl: string
+  appName: string
+}
+
+/**
+ * OpenRouter's OpenAI-compatible API. Free models are rate limited, so a request the
+ * primary model turns down with 429 is retried on the fallback model.
+ */
+export class OpenRouterProvider extends OpenAICompatibleProvider {
+  readonly name = 'openrouter'
+  private readonly appUrl: string
+  private readonly appName: string
+
+  constructor(options: OpenRouterOptions) {
+    super({ apiUrl: options.apiUrl, apiKey: options.apiKey })
+    this.appUrl = options.appUrl
+    this.appName = options.appName
+  }
+
+  protected getHeaders() {
+    return {
+      ...super.getHeaders(),
+      'HTTP-Referer': this.appUrl,
+      'X-Title': this.appName,
+    }
+  }
+
+  protected async send(request: LLMRequest, stream: boolean) {
+    try {
+      return await super.send(request, stream)
+    } catch (error) {
+      const rateLimited =
+        error instanceof LLMRequestError && (error.status === 429 || error.message.toLowerCase().includes('rate limit'))
+      if (!rateLimited || LLM_CONFIG.fallbackModel === LLM_CONFIG.primaryModel) {
+        throw error
+      }
+
+      console.log(`Rate limit hit for ${LLM_CONFIG.primaryModel}, trying fallback: ${LLM_CONFIG.fallbackModel}`)
+      const model = LLM_CONFIG.fallbackModel
+      return { response: await this.post(model, request, stream), model }
+    }
+  }
+}
@@ -0,0 +1,107 @@
+import { prisma } from "@/lib/prisma"
+import { bookAccessWhere } from "@/lib/book-access"
+import type { LLMMessage } from "@/lib/ai/providers"
+
+// Conversations with the AI assistant. Every chat message belongs to a thread, and a
+// thread can be scoped to one book, which the assistant's context and retrieval then
+// default to.
+
+// Longest title taken from the first message of a new thread
+export const CHAT_THREAD_TITLE_LENGTH = 60
+
+// Earlier chat messages sent along with a new one
+export const MAX_HISTORY_MESSAGES = 10
+
+export interface ChatThreadSummary {
+  id: string
+  title: string
+  isPinned: boolean
+  updatedAt: Date
+  book: { id: string; name: string } | null
+  messageCount: number
+}
+
+export function titleFromMessage(message: string) {
+  const title = message.replace(/\s+/g, " ").trim()
+  if (title.length <= CHAT_THREAD_TITLE_LENGTH) return title || "New conversation"
+  return `${title.slice(0, CHAT_THREAD_TITLE_LENGTH - 1).trimEnd()}…`
+}
+
+/**
+ * The last messages of the history a client sent along, as model messages. Only user
+ * and assistant messages with text are kept, so the client can't add system or tool
+ * messages that override the system prompt.
+ */
+export function getConversationHistory(history: unknown): LLMMessage[] {
+  if (!Array.isArray(history)) return []
+
+  return history
+    .filter((msg) => (msg?.role === "user" || msg?.role === "assistant") && typeof msg.content === "string")
+    .slice(-MAX_HISTORY_MESSAGES)
+    .map((msg) => ({ role: msg.role, content: msg.content }))
+}
+
+/**
+ * The thread a new chat message goes to: the user's thread `threadId`, or a new thread
+ * titled after the message (scoped to `bookId` when the user can see that book; a message
+ * that isn't text gets the default title). Null
+ * when `threadId` isn't one of the user's threads. The book is left out once the user
+ * can no longer see it or it is archived.
+ */
+export async function getOrCreateChatThread(userId: string, threadId: unknown, message: unknown, bookId?: unknown) {
+  const select = {
+    id: true,
+    book: { select: { id: true, isArchived: true } },
+  } as const
+
+  let thread
+  if (typeof threadId === "string" && threadId) {
+    thread = await prisma.chatThread.findFirst({ where: { id: threadId, userId }, select })
+    if (!thread) return null
+  } else {
+    const book =
+      typeof bookId === "string" && bookId
+        ? await prisma.book.findFirst({
+            where: { AND: [{ id: bookId, isArchived: false }, bookAccessWhere(userId)] },
+            select: { id: true },
+          })
+        : null
+
+    thread = await prisma.chatThread.create({
+      data: { userId, title: titleFromMessage(typeof message === "string" ? message : ""), bookId: book?.id },
+      select,
+    })
+  }
+
+  const book =
+    thread.book && !thread.book.isArchived
+      ? await prisma.book.findFirst({
+          where: { AND: [{ id: thread.book.id }, bookAccessWhere(userId)] },
+          select: { id: true, name: true, currency: true },
+        })
+      : null
+
+  return { id: thread.id, book }
+}
+
+// Store a question and the assistant's answer, and move the thread to the top of the list
+export async function saveChatExchange(
+  threadId: string,
+  userId: string,
+  question: string,
+  answer: string,
+  changeSetId?: string
+) {
+  await prisma.$transaction([
+    prisma.chatMessage.create({
+      data: { role: "user", content: question, userId, threadId },
+    }),
+    prisma.chatMessage.create({
+      data: { role: "assistant", content: answer, userId, threadId, changeSetId },
+    }),
+    prisma.chatThread.update({
+      where: { id: threadId },
+      data: { updatedAt: new Date() },
+    }),
+  ])
+}
@@ -0,0 +1,536 @@
+import { z } from "zod"
+import {
+  createExpense,
+  disableExpense,
+  getExpenseById,
+  restoreExpense,
+  updateExpense,
+} from "@/actions/expense-actions"
+import { addDefaultCategoryToBook, createCategory, disableCategory, restoreCategory } from "@/actions/category-actions"
+import { createBook, deleteBook, restoreBook } from "@/actions/book-actions"
+import { getDetailedReport } from "@/actions/report-actions"
+import { suggestExpenseCategory } from "@/actions/category-rule-actions"
+import { runWithAuditSource } from "@/lib/audit-source"
+import { bookAccessWhere } from "@/lib/book-access"
+import { sumMoney } from "@/lib/money"
+import { prisma } from "@/lib/prisma"
+
+// The fixed set of operations the AI assistant can perform. The model only picks a tool
+// and its arguments; every tool hands the validated arguments to the same server action
+// the web forms use, so sign-in, book permissions and business rules are checked there.
+// Writes only run once the user applies them (see src/actions/ai-change-actions.ts).
+
+const PAYMENT_METHODS = ["Cash", "Credit Card", "Wire Transfer", "PayPal", "Other"] as const
+
+// Most expenses a query hands back to the model
+const MAX_QUERY_ROWS = 100
+
+const id = (description: string) => z.string().min(1).describe(description)
+const isoDate = (description: string) =>
+  z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use the YYYY-MM-DD format").describe(description)
+
+interface AssistantTool<T extends z.AnyZodObject> {
+  description: string
+  parameters: T
+  // False for tools that only read data
+  writes: boolean
+  run(args: z.infer<T>): Promise<Record<string, unknown>>
+  // One line describing the change for the user to review; `name` labels a record ID
+  summarize?(args: z.infer<T>, name: (id: string) => string): string
+}
+
+function defineTool<T extends z.AnyZodObject>(tool: AssistantTool<T>) {
+  return tool
+}
+
+function toDateString(date: Date) {
+  return date.toISOString().split("T")[0]
+}
+
+function formatAmount(amount: number, currency?: string) {
+  return currency ? `${amount} ${currency.toUpperCase()}` : `${amount}`
+}
+
+function toFormData(values: Record<string, string | string[] | undefined>) {
+  const formData = new FormData()
+  for (const [key, value] of Object.entries(values)) {
+    if (value === undefined) continue
+    for (const entry of Array.isArray(value) ? value : [value]) {
+      formData.append(key, entry)
+    }
+  }
+  return formData
+}
+
+const ASSISTANT_TOOLS = {
+  queryExpenses: defineTool({
+    description:
+      "List a book's active expenses, newest first, with their total and a per-category breakdown. Use it to answer questions about spending and to find expense IDs.",
+    writes: false,
+    parameters: z.object({
+      bookId: id("ID of the book to search"),
+      startDate: isoDate("Earliest expense date, inclusive").optional(),
+      endDate: isoDate("Latest expense date, inclusive").optional(),
+      categoryIds: z.array(z.string()).describe("Only expenses in these categories").optional(),
+      search: z.string().describe("Text the expense description must contain").optional(),
+      limit: z.number().int().min(1).max(MAX_QUERY_ROWS).describe("How many expenses to list (default 25)").optional(),
+    }),
+    run: async ({ bookId, startDate, endDate, categoryIds, search, limit }) => {
+      const report = await getDetailedReport({ bookId, startDate, endDate, categories: categoryIds })
+      if ("error" in report) {
+        return { error: report.error }
+      }
+
+      const needle = search?.toLowerCase()
+      const expenses = needle
+        ? report.expenses.filter((expense) => expense.description?.toLowerCase().includes(needle))
+        : report.expenses
+
+      const categories = new Map<string, number[]>()
+      expenses.forEach((expense) => {
+        categories.set(expense.category.name, [...(categories.get(expense.category.name) || []), expense.amount])
+      })
+
+      return {
+        currency: report.currency,
+        count: expenses.length,
+        total: sumMoney(expenses.map((expense) => expense.amount)),
+        categories: Array.from(categories, ([name, amounts]) => ({ name, total: sumMoney(amounts), count: amounts.length })),
+        expenses: expenses.slice(0, limit || 25).map((expense) => ({
+          id: expense.id,
+          date: toDateString(expense.date),
+          amount: expense.amount,
+          originalAmount: expense.originalAmount,
+          originalCurrency: expense.originalCurrency,
+          description: expense.description,
+          paymentMethod: expense.paymentMethod,
+          category: expense.category.name,
+          tags: expense.tags.map((tag) => tag.name),
+        })),
+      }
+    },
+  }),
+
+  suggestCategory: defineTool({
+    description:
+      "Find the category for a new expense from the book's categorisation rules, or failing that from the categories of similar past expenses. Call it before createExpense and use its category unless the user named one.",
+    writes: false,
+    parameters: z.object({
+      bookId: id("ID of the book the expense is for"),
+      description: z.string().max(500),
+      amount: z.number().positive().describe("Amount as paid").optional(),
+      currency: z.string().length(3).describe("ISO 4217 code the amount was paid in; the book currency when omitted").optional(),
+      paymentMethod: z.enum(PAYMENT_METHODS).optional(),
+    }),
+    run: async (args) => {
+      const result = await suggestExpenseCategory({ ...args, currency: args.currency?.toUpperCase() })
+      if ("error" in result) {
+        return { error: result.error }
+      }
+
+      return result.suggestion
+        ? { ...result.suggestion }
+        : { suggestion: null, message: "No rule or past expense matches; pick the category yourself" }
+    },
+  }),
+
+  createExpense: defineTool({
+    description:
+      "Record an expense in a category. The amount is converted to the book currency when it was paid in another currency. A categorisation rule matching the expense in that category adds its tags.",
+    writes: true,
+    parameters: z.object({
+      categoryId: id("ID of an active category"),
+      amount: z.number().positive().describe("Amount as paid"),
+      currency: z.string().length(3).describe("ISO 4217 code the amount was paid in; the book currency when omitted").optional(),
+      date: isoDate("Date of the expense; today when omitted").optional(),
+      description: z.string().max(500).optional(),
+      paymentMethod: z.enum(PAYMENT_METHODS).optional(),
+    }),
+    run: async (args) =>
+      createExpense(
+        toFormData({
+          categoryId: args.categoryId,
+          amount: args.amount.toString(),
+          currency: args.currency?.toUpperCase(),
+          date: args.date || toDateString(new Date()),
+          description: args.description,
+          paymentMethod: args.paymentMethod || "Cash",
+        })
+      ),
+    summarize: (args, name) =>
+      `Add ${formatAmount(args.amount, args.currency)} to ${name(args.categoryId)} on ${args.date || "today"}` +
+      (args.description ? ` (${args.description})` : ""),
+  }),
+
+  updateExpense: defineTool({
+    description: "Change an existing expense. Fields that are left out keep their current value.",
+    writes: true,
+    parameters: z.object({
+      expenseId: id("ID of the expense"),
+      categoryId: id("ID of the category to move the expense to").optional(),
+      amount: z.number().positive().describe("New amount as paid").optional(),
+      currency: z.string().length(3).describe("ISO 4217 code the new amount was paid in").optional(),
+      date: isoDate("New date").optional(),
+      description: z.string().max(500).optional(),
+      paymentMethod: z.enum(PAYMENT_METHODS).optional(),
+    }),
+    run: async (args) => {
+      const result = await getExpenseById(args.expenseId)
+      if ("error" in result) {
+        return { error: result.error }
+      }
+
+      const { expense } = result
+      // The amount as it was entered, so an unchanged amount isn't converted twice
+      const paid =
+        expense.originalAmount !== null && expense.originalCurrency
+          ? { amount: expense.originalAmount, currency: expense.originalCurrency }
+          : { amount: expense.amount, currency: expense.category.book!.currency }
+
+      return updateExpense(
+        expense.id,
+        toFormData({
+          categoryId: args.categoryId || expense.categoryId,
+          amount: (args.amount ?? paid.amount).toString(),
+          currency: (args.currency || paid.currency).toUpperCase(),
+          date: args.date || toDateString(expense.date),
+          description: args.description ?? expense.description ?? "",
+          paymentMethod: args.paymentMethod || expense.paymentMethod,
+          tags: expense.tags.map((tag) => tag.name),
+        })
+      )
+    },
+    summarize: (args, name) => {
+      const changes = [
+        args.amount !== undefined ? `amount to ${formatAmount(args.amount, args.currency)}` : null,
+        args.categoryId ? `category to ${name(args.categoryId)}` : null,
+        args.date ? `date to ${args.date}` : null,
+        args.description !== undefined ? `description to "${args.description}"` : null,
+        args.paymentMethod ? `payment method to ${args.paymentMethod}` : null,
+      ].filter(Boolean)
+      return `Change expense ${name(args.expenseId)}: ${changes.join(", ") || "no changes"}`
+    },
+  }),
+
+  disableExpense: defineTool({
+    description: "Disable (soft delete) an expense. It can be restored later.",
+    writes: true,
+    parameters: z.object({ expenseId: id("ID of the expense") }),
+    run: async ({ expenseId }) => disableExpense(expenseId),
+    summarize: ({ expenseId }, name) => `Disable expense ${name(expenseId)}`,
+  }),
+
+  restoreExpense: defineTool({
+    description: "Restore a disabled expense.",
+    writes: true,
+    parameters: z.object({ expenseId: id("ID of the disabled expense") }),
+    run: async ({ expenseId }) => restoreExpense(expenseId),
+    summarize: ({ expenseId }, name) => `Restore expense ${name(expenseId)}`,
+  }),
+
+  createCategory: defineTool({
+    description: "Create a new category in a book. Prefer addDefaultCategory when a default category matches.",
+    writes: true,
+    parameters: z.object({
+      bookId: id("ID of the book"),
+      name: z.string().min(1).max(100),
+      description: z.string().max(500).optional(),
+      icon: z.string().max(10).describe("A single emoji").optional(),
+    }),
+    run: async (args) =>
+      createCategory(
+        toFormData({
+          bookIds: [args.bookId],
+          name: args.name,
+          description: args.description,
+          icon: args.icon,
+        })
+      ),
+    summarize: (args, name) => `Create category "${args.name}" in ${name(args.bookId)}`,
+  }),
+
+  addDefaultCategory: defineTool({
+    description: "Copy one of the default categories into a book.",
+    writes: true,
+    parameters: z.object({
+      bookId: id("ID of the book"),
+      defaultCategoryId: id("ID of the default category"),
+    }),
+    run: async ({ bookId, defaultCategoryId }) => addDefaultCategoryToBook(defaultCategoryId, bookId),
+    summarize: ({ bookId, defaultCategoryId }, name) => `Add default category ${name(defaultCategoryId)} to ${name(bookId)}`,
+  }),
+
+  disableCategory: defineTool({
+    description: "Disable a category and the expenses in it. It can be restored later.",
+    writes: true,
+    parameters: z.object({ categoryId: id("ID of the category") }),
+    run: async ({ categoryId }) => disableCategory(categoryId),
+    summarize: ({ categoryId }, name) => `Disable category ${name(categoryId)} and its expenses`,
+  }),
+
+  restoreCategory: defineTool({
+    description: "Restore a disabled category.",
+    writes: true,
+    parameters: z.object({ categoryId: id("ID of the disabled category") }),
+    run: async ({ categoryId }) => restoreCategory(categoryId),
+    summarize: ({ categoryId }, name) => `Restore category ${name(categoryId)}`,
+  }),
+
+  createBook: defineTool({
+    description: "Create a new book, optionally starting it with some of the default categories.",
+    writes: true,
+    parameters: z.object({
+      name: z.string().min(1).max(100),
+      description: z.string().max(500).optional(),
+      currency: z.string().length(3).describe("ISO 4217 code of the book currency"),
+      defaultCategoryIds: z.array(z.string()).describe("IDs of default categories to add to the book").optional(),
+    }),
+    run: async (args) =>
+      createBook(
+        toFormData({
+          name: args.name,
+          description: args.description,
+          currency: args.currency.toUpperCase(),
+          defaultCategories: args.defaultCategoryIds,
+        })
+      ),
+    summarize: (args, name) =>
+      `Create book "${args.name}" in ${args.currency.toUpperCase()}` +
+      (args.defaultCategoryIds?.length ? ` with ${args.defaultCategoryIds.map(name).join(", ")}` : ""),
+  }),
+
+  archiveBook: defineTool({
+    description: "Archive a book the user owns. It can be restored later.",
+    writes: true,
+    parameters: z.object({ bookId: id("ID of the book") }),
+    run: async ({ bookId }) => deleteBook(bookId),
+    summarize: ({ bookId }, name) => `Archive book ${name(bookId)}`,
+  }),
+
+  restoreBook: defineTool({
+    description: "Restore an archived book.",
+    writes: true,
+    parameters: z.object({ bookId: id("ID of the archived book") }),
+    run: async ({ bookId }) => restoreBook(bookId),
+    summarize: ({ bookId }, name) => `Restore book ${name(bookId)}`,
+  }),
+}
+
+export type AssistantToolName = keyof typeof ASSISTANT_TOOLS
+
+function isAssistantToolName(name: string): name is AssistantToolName {
+  return name in ASSISTANT_TOOLS
+}
+
+// JSON Schema for the tool parameters, covering the zod types used above
+function toJsonSchema(schema: z.ZodTypeAny): Record<string, unknown> {
+  const description = schema.description ? { description: schema.description } : {}
+
+  if (schema instanceof z.ZodOptional) {
+    return { ...toJsonSchema(schema.unwrap()), ...description }
+  }
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, z.ZodTypeAny>
+    return {
+      type: "object",
+      properties: Object.fromEntries(Object.entries(shape).map(([key, value]) => [key, toJsonSchema(value)])),
+      required: Object.keys(shape).filter((key) => !shape[key].isOptional()),
+      ...description,
+    }
+  }
+  if (schema instanceof z.ZodArray) {
+    return { type: "array", items: toJsonSchema(schema.element), ...description }
+  }
+  if (schema instanceof z.ZodEnum) {
+    return { type: "string", enum: schema.options, ...description }
+  }
+  if (schema instanceof z.ZodNumber) {
+    return { type: schema.isInt ? "integer" : "number", ...description }
+  }
+  if (schema instanceof z.ZodBoolean) {
+    return { type: "boolean", ...description }
+  }
+  return { type: "string", ...description }
+}
+
+function getTools(allowWrites: boolean) {
+  return Object.entries(ASSISTANT_TOOLS).filter(([, tool]) => allowWrites || !tool.writes)
+}
+
+/**
+ * Tool definitions in the OpenAI function-calling format. Without `allowWrites` only
+ * the read-only tools are offered.
+ */
+export function getToolDefinitions(allowWrites: boolean) {
+  return getTools(allowWrites).map(([name, tool]) => ({
+    type: "function" as const,
+    function: {
+      name,
+      description: tool.description,
+      parameters: toJsonSchema(tool.parameters),
+    },
+  }))
+}
+
+/**
+ * A write the assistant proposed. It is stored in a change set and only runs when the
+ * user applies the set.
+ */
+export interface ProposedChange {
+  tool: AssistantToolName
+  arguments: Record<string, unknown>
+  // What the change does, as shown to the user
+  summary: string
+}
+
+export function isWriteTool(name: string) {
+  return isAssistantToolName(name) && ASSISTANT_TOOLS[name].writes
+}
+
+type ParsedToolCall =
+  | { error: string }
+  | { name: AssistantToolName; tool: AssistantTool<z.AnyZodObject>; args: Record<string, unknown> }
+
+function parseToolCall(name: string, args: unknown, allowWrites: boolean): ParsedToolCall {
+  if (!isAssistantToolName(name)) {
+    return { error: `Unknown tool "${name}"` }
+  }
+
+  const tool: AssistantTool<z.AnyZodObject> = ASSISTANT_TOOLS[name]
+  if (tool.writes && !allowWrites) {
+    return { error: "Changing data through the assistant is disabled" }
+  }
+
+  const validatedArgs = tool.parameters.safeParse(args)
+  if (!validatedArgs.success) {
+    return {
+      error: "Invalid arguments - " + validatedArgs.error.issues.map((i) => `${i.path.join(".")}: ${i.message}`).join(", "),
+    }
+  }
+
+  return { name, tool, args: validatedArgs.data as Record<string, unknown> }
+}
+
+function parseArguments(rawArguments: string): { error: string } | { args: unknown } {
+  try {
+    return { args: JSON.parse(rawArguments || "{}") as unknown }
+  } catch (error) {
+    return { error: "Tool arguments must be a JSON object" }
+  }
+}
+
+// Changes are recorded in the audit log as made through the AI assistant
+async function executeTool(
+  name: string,
+  tool: AssistantTool<z.AnyZodObject>,
+  args: Record<string, unknown>,
+  changeSetId?: string
+): Promise<Record<string, unknown>> {
+  try {
+    return await runWithAuditSource("ai", () => tool.run(args), changeSetId)
+  } catch (error) {
+    console.error(`AI tool ${name} error:`, error)
+    return { error: "The operation failed" }
+  }
+}
+
+/**
+ * Validate a tool call from the model and run it. Always resolves to a JSON-serialisable
+ * result for the model: the action's result, or `{ error }` when the call was rejected.
+ */
+export async function runAssistantTool(name: string, rawArguments: string, allowWrites: boolean) {
+  const parsed = parseArguments(rawArguments)
+  if ("error" in parsed) {
+    return { error: parsed.error }
+  }
+
+  const call = parseToolCall(name, parsed.args, allowWrites)
+  if ("error" in call) {
+    return { error: call.error }
+  }
+
+  return executeTool(call.name, call.tool, call.args)
+}
+
+// Record IDs in tool arguments: every `...Id` and `...Ids` argument
+function getArgumentIds(args: Record<string, unknown>) {
+  return Object.entries(args).flatMap(([key, value]) => {
+    if (key.endsWith("Id") && typeof value === "string") return [value]
+    if (key.endsWith("Ids") && Array.isArray(value)) return value.filter((entry): entry is string => typeof entry === "string")
+    return []
+  })
+}
+
+// Labels for records the user can see, keyed by ID
+async function getRecordLabels(userId: string, ids: string[]) {
+  const labels = new Map<string, string>()
+  if (ids.length === 0) return labels
+
+  const [books, categories, expenses] = await Promise.all([
+    prisma.book.findMany({
+      where: { AND: [{ id: { in: ids } }, bookAccessWhere(userId)] },
+      select: { id: true, name: true },
+    }),
+    prisma.category.findMany({
+      where: { id: { in: ids }, OR: [{ isDefault: true }, { book: bookAccessWhere(userId) }] },
+      select: { id: true, name: true, book: { select: { name: true } } },
+    }),
+    prisma.expense.findMany({
+      where: { id: { in: ids }, category: { book: bookAccessWhere(userId) } },
+      select: { id: true, description: true, amount: true, date: true },
+    }),
+  ])
+
+  books.forEach((book) => labels.set(book.id, `"${book.name}"`))
+  categories.forEach((category) =>
+    labels.set(category.id, category.book ? `"${category.name}" (${category.book.name})` : `"${category.name}"`)
+  )
+  expenses.forEach((expense) =>
+    labels.set(expense.id, expense.description ? `"${expense.description}"` : `of ${expense.amount} on ${toDateString(expense.date)}`)
+  )
+
+  return labels
+}
+
+/**
+ * Validate a write the model asked for and describe it for the user, without running it.
+ * Calls naming records the user can't see are turned down so the model can correct them.
+ */
+export async function proposeAssistantChange(
+  name: string,
+  rawArguments: string,
+  userId: string
+): Promise<{ error: string } | { change: ProposedChange }> {
+  const parsed = parseArguments(rawArguments)
+  if ("error" in parsed) {
+    return { error: parsed.error }
+  }
+
+  const call = parseToolCall(name, parsed.args, true)
+  if ("error" in call) {
+    return { error: call.error }
+  }
+
+  const ids = getArgumentIds(call.args)
+  const labels = await getRecordLabels(userId, ids)
+  const unknownId = ids.find((recordId) => !labels.has(recordId))
+  if (unknownId) {
+    return { error: `No record you can access has the ID ${unknownId}` }
+  }
+
+  const summary = call.tool.summarize?.(call.args, (recordId) => labels.get(recordId) || recordId) || call.name
+  return { change: { tool: call.name, arguments: call.args, summary } }
+}
+
+/**
+ * Run a change from a change set the user applied. The arguments are validated again
+ * since they come back from the database, and the audit entries are tagged with the set.
+ */
+export async function applyAssistantChange(change: ProposedChange, changeSetId: string) {
+  const call = parseToolCall(change.tool, change.arguments, true)
+  if ("error" in call) {
+    return { error: call.error }
+  }
+
+  return executeTool(call.name, call.tool, call.args, changeSetId)
+}
@@ -0,0 +1,46 @@
+// Receipt attachment rules, shared by the upload UI and the server actions
+
+export const ALLOWED_ATTACHMENT_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/gif",
+  "image/webp",
+  "image/heic",
+  "application/pdf",
+]
+
+export const MAX_ATTACHMENT_SIZE = 5 * 1024 * 1024 // 5 MB per file
+export const MAX_ATTACHMENTS_PER_UPLOAD = 5
+
+export function isImageAttachment(mimeType: string) {
+  return mimeType.startsWith("image/")
+}
+
+/**
+ * Pull the uploaded receipt files out of a form submission (field name "receipts").
+ */
+export function getReceiptFiles(formData: FormData): File[] {
+  return formData
+    .getAll("receipts")
+    .filter((entry): entry is File => typeof entry !== "string" && entry.size > 0)
+}
+
+/**
+ * Returns an error message if any file is not an accepted receipt, otherwise null.
+ */
+export function validateReceiptFiles(files: File[]): string | null {
+  if (files.length > MAX_ATTACHMENTS_PER_UPLOAD) {
+    return `You can attach at most ${MAX_ATTACHMENTS_PER_UPLOAD} files at a time`
+  }
+
+  for (const file of files) {
+    if (!ALLOWED_ATTACHMENT_TYPES.includes(file.type)) {
+      return `"${file.name}" is not a supported file type. Use an image or PDF.`
+    }
+    if (file.size > MAX_ATTACHMENT_SIZE) {
+      return `"${file.name}" is larger than ${MAX_ATTACHMENT_SIZE / (1024 * 1024)} MB`
+    }
+  }
+
+  return null
+}
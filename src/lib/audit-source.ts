@@ -0,0 +1,16 @@
+import { AsyncLocalStorage } from "async_hooks"
+import type { AuditContext, AuditSource } from "@/lib/audit"
+
+// Server actions record their changes as coming from the web forms, unless they run
+// inside runWithAuditSource (the AI assistant's tools call the same actions)
+const auditSource = new AsyncLocalStorage<{ source: AuditSource; changeSetId?: string }>()
+
+export function runWithAuditSource<T>(source: AuditSource, fn: () => Promise<T>, changeSetId?: string) {
+  return auditSource.run({ source, changeSetId }, fn)
+}
+
+// Audit context for a change made by the signed-in user
+export function getAuditContext(actorId: string): AuditContext {
+  const store = auditSource.getStore()
+  return { actorId, source: store?.source || "web", changeSetId: store?.changeSetId }
+}
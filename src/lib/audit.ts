@@ -0,0 +1,205 @@
+import type { Prisma } from "@prisma/client"
+import type { getPrismaClient } from "@/lib/prisma"
+
+// Append-only change history for books, categories and expenses. Every write records
+// who made it, where it came from and a before/after diff of the audited fields.
+
+export const AUDIT_SOURCES = ["web", "ai", "import", "recurring"] as const
+export type AuditSource = (typeof AUDIT_SOURCES)[number]
+
+export const AUDIT_SOURCE_LABELS: Record<AuditSource, string> = {
+  web: "Web form",
+  ai: "AI assistant",
+  import: "Import",
+  recurring: "Recurring schedule",
+}
+
+export const AUDIT_ACTIONS = ["create", "update", "disable", "archive", "restore", "delete", "revert"] as const
+export type AuditAction = (typeof AUDIT_ACTIONS)[number]
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  create: "Created",
+  update: "Updated",
+  disable: "Disabled",
+  archive: "Archived",
+  restore: "Restored",
+  delete: "Deleted",
+  revert: "Reverted",
+}
+
+export type AuditEntity = "book" | "category" | "expense"
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntity, string> = {
+  book: "Book",
+  category: "Category",
+  expense: "Expense",
+}
+
+// Columns whose changes are recorded (and can be reverted)
+export const AUDITED_FIELDS: Record<AuditEntity, readonly string[]> = {
+  book: ["name", "description", "currency", "isArchived"],
+  category: ["name", "description", "icon", "color", "parentId", "isDisabled"],
+  expense: [
+    "amount",
+    "originalAmount",
+    "originalCurrency",
+    "exchangeRate",
+    "date",
+    "description",
+    "paymentMethod",
+    "categoryId",
+    "isDisabled",
+  ],
+}
+
+export const AUDIT_FIELD_LABELS: Record<string, string> = {
+  name: "Name",
+  description: "Description",
+  currency: "Currency",
+  isArchived: "Archived",
+  icon: "Icon",
+  color: "Color",
+  isDisabled: "Disabled",
+  amount: "Amount",
+  originalAmount: "Original amount",
+  originalCurrency: "Original currency",
+  exchangeRate: "Exchange rate",
+  date: "Date",
+  paymentMethod: "Payment method",
+  categoryId: "Category",
+  parentId: "Parent category",
+}
+
+// Fields stored as ISO strings in the log and turned back into dates on revert
+export const AUDIT_DATE_FIELDS = ["date"]
+
+export type AuditValue = string | number | boolean | null
+export type AuditChanges = Record<string, { from: AuditValue; to: AuditValue }>
+
+export interface AuditContext {
+  // Null for changes nobody made directly (the recurring scheduler)
+  actorId: string | null
+  source: AuditSource
+  // The AI assistant change set being applied, so it can be undone together
+  changeSetId?: string
+}
+
+export interface AuditEvent {
+  action: AuditAction
+  entityType: AuditEntity
+  entityId: string
+  bookId: string
+  // Record before and after the change; null for creates and deletes respectively
+  before: Record<string, unknown> | null
+  after: Record<string, unknown> | null
+  revertOfId?: string
+}
+
+export function isAuditSource(value: string): value is AuditSource {
+  return (AUDIT_SOURCES as readonly string[]).includes(value)
+}
+
+export function isAuditEntity(value: string): value is AuditEntity {
+  return value in AUDITED_FIELDS
+}
+
+export function isAuditAction(value: string): value is AuditAction {
+  return (AUDIT_ACTIONS as readonly string[]).includes(value)
+}
+
+export function toAuditValue(value: unknown): AuditValue {
+  if (value === null || value === undefined) return null
+  if (value instanceof Date) return value.toISOString()
+  if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") return value
+  // Decimal columns read without the money extension
+  return Number(value)
+}
+
+export function diffForAudit(
+  entityType: AuditEntity,
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null
+): AuditChanges {
+  const changes: AuditChanges = {}
+
+  for (const field of AUDITED_FIELDS[entityType]) {
+    const from = before ? toAuditValue(before[field]) : null
+    const to = after ? toAuditValue(after[field]) : null
+    if (from !== to) {
+      changes[field] = { from, to }
+    }
+  }
+
+  return changes
+}
+
+// What to show for the record in a history list
+function getEntityLabel(event: AuditEvent) {
+  const record = event.after || event.before
+  if (!record) return null
+  if (event.entityType === "expense") {
+    return (record.description as string | null) || null
+  }
+  return (record.name as string | null) || null
+}
+
+type AuditClient = Pick<ReturnType<typeof getPrismaClient>, "auditLog">
+
+/**
+ * Write audit entries for the given changes. Pass the transaction client so the
+ * entries are only kept when the change itself is. Updates that didn't change any
+ * audited field are skipped.
+ */
+export async function recordAudit(client: AuditClient, context: AuditContext, events: AuditEvent[]) {
+  const data: Prisma.AuditLogCreateManyInput[] = []
+
+  for (const event of events) {
+    const changes = diffForAudit(event.entityType, event.before, event.after)
+    if (Object.keys(changes).length === 0) continue
+
+    data.push({
+      actorId: context.actorId,
+      source: context.source,
+      action: event.action,
+      entityType: event.entityType,
+      entityId: event.entityId,
+      entityLabel: getEntityLabel(event),
+      bookId: event.bookId,
+      changes,
+      revertOfId: event.revertOfId,
+      changeSetId: context.changeSetId,
+    })
+  }
+
+  if (data.length > 0) {
+    await client.auditLog.createMany({ data })
+  }
+}
+
+type AuditRecordClient = Pick<ReturnType<typeof getPrismaClient>, "book" | "category" | "expense">
+
+// Current state of audited records, with the book each one belongs to
+export async function findAuditRecords(client: AuditRecordClient, entityType: AuditEntity, ids: string[]) {
+  const records = new Map<string, { bookId: string; record: Record<string, unknown> }>()
+  if (ids.length === 0) return records
+
+  if (entityType === "book") {
+    const books = await client.book.findMany({ where: { id: { in: ids } } })
+    books.forEach((book) => records.set(book.id, { bookId: book.id, record: book }))
+  } else if (entityType === "category") {
+    const categories = await client.category.findMany({ where: { id: { in: ids } } })
+    categories.forEach((category) => {
+      if (category.bookId) records.set(category.id, { bookId: category.bookId, record: category })
+    })
+  } else {
+    const expenses = await client.expense.findMany({
+      where: { id: { in: ids } },
+      include: { category: { select: { bookId: true } } },
+    })
+    expenses.forEach((expense) => {
+      if (expense.category.bookId) records.set(expense.id, { bookId: expense.category.bookId, record: expense })
+    })
+  }
+
+  return records
+}
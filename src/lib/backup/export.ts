@@ -0,0 +1,216 @@
+import { getPrismaClient } from "@/lib/prisma"
+import { getRuleTagNames } from "@/lib/category-rules"
+import { toBookTemplate } from "@/lib/book-templates"
+import { BACKUP_FORMAT, BACKUP_VERSION, type BackupInput } from "./schema"
+
+/**
+ * Collect everything a user owns into a backup archive.
+ * Shared default categories (no book) belong to nobody and are left out.
+ */
+export async function buildBackup(userId: string): Promise<BackupInput> {
+  const prisma = getPrismaClient()
+
+  const user = await prisma.user.findUniqueOrThrow({
+    where: { id: userId },
+    select: { name: true, email: true },
+  })
+
+  const books = await prisma.book.findMany({
+    where: { userId },
+    orderBy: { createdAt: "asc" },
+  })
+  const bookIds = books.map((book) => book.id)
+
+  const [categories, budgets, categoryRules, recurringExpenses, tags, participants, expenses, incomes, transfers, settlements, bankAccounts, chatMessages, bookTemplates] =
+    await Promise.all([
+      prisma.category.findMany({
+        where: { bookId: { in: bookIds } },
+        orderBy: { createdAt: "asc" },
+      }),
+      prisma.budget.findMany({
+        where: { bookId: { in: bookIds } },
+      }),
+      prisma.categoryRule.findMany({
+        where: { bookId: { in: bookIds } },
+        orderBy: [{ priority: "asc" }, { createdAt: "asc" }],
+      }),
+      prisma.recurringExpense.findMany({
+        where: { category: { bookId: { in: bookIds } } },
+        orderBy: { createdAt: "asc" },
+      }),
+      prisma.tag.findMany({
+        where: { userId },
+        orderBy: { name: "asc" },
+      }),
+      prisma.participant.findMany({
+        where: { bookId: { in: bookIds } },
+        orderBy: { createdAt: "asc" },
+      }),
+      prisma.expense.findMany({
+        where: { category: { bookId: { in: bookIds } } },
+        include: {
+          tags: { select: { id: true } },
+          splits: { select: { participantId: true, amount: true, value: true }, orderBy: { id: "asc" } },
+          attachments: { select: { fileName: true, mimeType: true, size: true } },
+        },
+        orderBy: { date: "asc" },
+      }),
+      prisma.income.findMany({
+        where: { bookId: { in: bookIds } },
+        orderBy: { date: "asc" },
+      }),
+      prisma.transfer.findMany({
+        where: { fromBook: { userId } },
+        orderBy: { date: "asc" },
+      }),
+      prisma.settlement.findMany({
+        where: { bookId: { in: bookIds } },
+        orderBy: { date: "asc" },
+      }),
+      prisma.bankAccount.findMany({
+        where: { userId },
+      }),
+      prisma.chatMessage.findMany({
+        where: { userId },
+        orderBy: { createdAt: "asc" },
+      }),
+      prisma.bookTemplate.findMany({
+        where: { userId },
+        orderBy: { name: "asc" },
+      }),
+    ])
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date(),
+    user,
+    books: books.map((book) => ({
+      id: book.id,
+      name: book.name,
+      description: book.description,
+      currency: book.currency,
+      isArchived: book.isArchived,
+      createdAt: book.createdAt,
+    })),
+    categories: categories.map((category) => ({
+      id: category.id,
+      bookId: category.bookId!,
+      name: category.name,
+      description: category.description,
+      icon: category.icon,
+      color: category.color,
+      isDisabled: category.isDisabled,
+      isDefault: category.isDefault,
+      parentId: category.parentId,
+      createdAt: category.createdAt,
+    })),
+    budgets: budgets.map((budget) => ({
+      id: budget.id,
+      bookId: budget.bookId,
+      categoryId: budget.categoryId,
+      amount: budget.amount,
+      period: budget.period,
+      startDate: budget.startDate,
+      endDate: budget.endDate,
+    })),
+    categoryRules: categoryRules.map((rule) => ({
+      bookId: rule.bookId,
+      categoryId: rule.categoryId,
+      name: rule.name,
+      priority: rule.priority,
+      isActive: rule.isActive,
+      descriptionContains: rule.descriptionContains,
+      descriptionPattern: rule.descriptionPattern,
+      minAmount: rule.minAmount,
+      maxAmount: rule.maxAmount,
+      paymentMethod: rule.paymentMethod,
+      tags: getRuleTagNames(rule),
+    })),
+    recurringExpenses: recurringExpenses.map((recurring) => ({
+      id: recurring.id,
+      categoryId: recurring.categoryId,
+      amount: recurring.amount,
+      description: recurring.description,
+      paymentMethod: recurring.paymentMethod,
+      frequency: recurring.frequency,
+      interval: recurring.interval,
+      startDate: recurring.startDate,
+      nextRunDate: recurring.nextRunDate,
+      endDate: recurring.endDate,
+      maxOccurrences: recurring.maxOccurrences,
+      occurrenceCount: recurring.occurrenceCount,
+      isPaused: recurring.isPaused,
+      lastRunAt: recurring.lastRunAt,
+    })),
+    tags: tags.map((tag) => ({ id: tag.id, name: tag.name })),
+    participants: participants.map((participant) => ({
+      id: participant.id,
+      bookId: participant.bookId,
+      name: participant.name,
+    })),
+    expenses: expenses.map((expense) => ({
+      id: expense.id,
+      categoryId: expense.categoryId,
+      recurringExpenseId: expense.recurringExpenseId,
+      amount: expense.amount,
+      originalAmount: expense.originalAmount,
+      originalCurrency: expense.originalCurrency,
+      exchangeRate: expense.exchangeRate,
+      date: expense.date,
+      description: expense.description,
+      paymentMethod: expense.paymentMethod,
+      isDisabled: expense.isDisabled,
+      externalId: expense.externalId,
+      splitMethod: expense.splitMethod,
+      paidById: expense.paidById,
+      splits: expense.splits,
+      tagIds: expense.tags.map((tag) => tag.id),
+      attachments: expense.attachments,
+      createdAt: expense.createdAt,
+    })),
+    incomes: incomes.map((income) => ({
+      id: income.id,
+      bookId: income.bookId,
+      amount: income.amount,
+      date: income.date,
+      description: income.description,
+      source: income.source,
+      paymentMethod: income.paymentMethod,
+    })),
+    transfers: transfers.map((transfer) => ({
+      id: transfer.id,
+      fromBookId: transfer.fromBookId,
+      toBookId: transfer.toBookId,
+      amount: transfer.amount,
+      toAmount: transfer.toAmount,
+      date: transfer.date,
+      description: transfer.description,
+    })),
+    settlements: settlements.map((settlement) => ({
+      id: settlement.id,
+      bookId: settlement.bookId,
+      fromId: settlement.fromId,
+      toId: settlement.toId,
+      amount: settlement.amount,
+      date: settlement.date,
+      note: settlement.note,
+    })),
+    bankAccounts: bankAccounts.map((account) => ({
+      accountId: account.accountId,
+      bookId: account.bookId,
+    })),
+    chatMessages: chatMessages.map((message) => ({
+      role: message.role,
+      content: message.content,
+      createdAt: message.createdAt,
+    })),
+    // Templates whose content no longer parses are left out
+    bookTemplates: bookTemplates.flatMap((row) => {
+      const template = toBookTemplate(row)
+      return template
+        ? [{ name: template.name, description: template.description, version: template.version, content: template.content }]
+        : []
+    }),
+  }
+}
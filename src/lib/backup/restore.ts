@@ -0,0 +1,518 @@
+import { getPrismaClient } from "@/lib/prisma"
+import type { Prisma } from "@prisma/client"
+import { roundMoney } from "@/lib/money"
+import type { Backup } from "./schema"
+
+export type RestoreMode = "empty" | "merge"
+
+export interface RestoreSummary {
+  books: number
+  categories: number
+  expenses: number
+  incomes: number
+  transfers: number
+  budgets: number
+  categoryRules: number
+  recurringExpenses: number
+  participants: number
+  settlements: number
+  chatMessages: number
+  bookTemplates: number
+  // Records that already existed in the account (merge) and were left alone
+  skipped: number
+}
+
+export class RestoreError extends Error {}
+
+/**
+ * Check that every reference inside the archive points at a record in the same archive,
+ * so a hand-edited or truncated file fails before anything is written.
+ */
+function findDanglingReference(backup: Backup): string | null {
+  const bookIds = new Set(backup.books.map((book) => book.id))
+  const categoryIds = new Set(backup.categories.map((category) => category.id))
+  const recurringIds = new Set(backup.recurringExpenses.map((recurring) => recurring.id))
+  const tagIds = new Set(backup.tags.map((tag) => tag.id))
+  const participantBooks = new Map(backup.participants.map((participant) => [participant.id, participant.bookId]))
+  const bookByCategory = new Map(backup.categories.map((category) => [category.id, category.bookId]))
+
+  const category = backup.categories.find((category) => !bookIds.has(category.bookId))
+  if (category) return `category "${category.name}" refers to a missing book`
+
+  // Sub-categories sit one level under a category of the same book
+  const parentIds = new Map(backup.categories.map((category) => [category.id, category.parentId]))
+  const subCategory = backup.categories.find((category) =>
+    category.parentId &&
+    (bookByCategory.get(category.parentId) !== category.bookId || parentIds.get(category.parentId) !== null))
+  if (subCategory) return `category "${subCategory.name}" refers to a missing or nested parent category`
+
+  const budget = backup.budgets.find((budget) =>
+    !bookIds.has(budget.bookId) || (budget.categoryId && !categoryIds.has(budget.categoryId)))
+  if (budget) return "a budget refers to a missing book or category"
+
+  const rule = backup.categoryRules.find((rule) => bookByCategory.get(rule.categoryId) !== rule.bookId || !bookIds.has(rule.bookId))
+  if (rule) return `categorisation rule "${rule.name}" refers to a missing book or category`
+
+  const recurring = backup.recurringExpenses.find((recurring) => !categoryIds.has(recurring.categoryId))
+  if (recurring) return "a recurring expense refers to a missing category"
+
+  const expense = backup.expenses.find((expense) =>
+    !categoryIds.has(expense.categoryId) ||
+    (expense.recurringExpenseId && !recurringIds.has(expense.recurringExpenseId)) ||
+    expense.tagIds.some((tagId) => !tagIds.has(tagId)))
+  if (expense) return "an expense refers to a missing category, recurring expense or tag"
+
+  const participant = backup.participants.find((participant) => !bookIds.has(participant.bookId))
+  if (participant) return `participant "${participant.name}" refers to a missing book`
+
+  // Split participants must belong to the expense's own book
+  const inOtherBook = (participantId: string | null, bookId: string | undefined) =>
+    participantId !== null && participantBooks.get(participantId) !== bookId
+  const split = backup.expenses.find((expense) => {
+    const bookId = bookByCategory.get(expense.categoryId)
+    return inOtherBook(expense.paidById, bookId) || expense.splits.some((split) => inOtherBook(split.participantId, bookId))
+  })
+  if (split) return "a split expense refers to a missing participant"
+
+  if (backup.settlements.some((settlement) => inOtherBook(settlement.fromId, settlement.bookId) || inOtherBook(settlement.toId, settlement.bookId))) {
+    return "a settlement refers to a missing participant"
+  }
+
+  if (backup.incomes.some((income) => !bookIds.has(income.bookId))) return "an income refers to a missing book"
+
+  if (backup.transfers.some((transfer) => !bookIds.has(transfer.fromBookId) || !bookIds.has(transfer.toBookId))) {
+    return "a transfer refers to a missing book"
+  }
+
+  if (backup.bankAccounts.some((account) => !bookIds.has(account.bookId))) return "a bank account refers to a missing book"
+
+  return null
+}
+
+// Archives written before amounts were stored as decimals can hold float noise
+// (12.340000000000002); round everything to its book's currency like a normal write
+function roundBackupAmounts(backup: Backup): Backup {
+  const currencyByBook = new Map(backup.books.map((book) => [book.id, book.currency]))
+  const currencyByCategory = new Map(backup.categories.map((category) => [category.id, currencyByBook.get(category.bookId)!]))
+
+  return {
+    ...backup,
+    budgets: backup.budgets.map((budget) => ({ ...budget, amount: roundMoney(budget.amount, currencyByBook.get(budget.bookId)!) })),
+    categoryRules: backup.categoryRules.map((rule) => ({
+      ...rule,
+      minAmount: rule.minAmount === null ? null : roundMoney(rule.minAmount, currencyByBook.get(rule.bookId)!),
+      maxAmount: rule.maxAmount === null ? null : roundMoney(rule.maxAmount, currencyByBook.get(rule.bookId)!),
+    })),
+    recurringExpenses: backup.recurringExpenses.map((recurring) => ({
+      ...recurring,
+      amount: roundMoney(recurring.amount, currencyByCategory.get(recurring.categoryId)!),
+    })),
+    expenses: backup.expenses.map((expense) => ({
+      ...expense,
+      amount: roundMoney(expense.amount, currencyByCategory.get(expense.categoryId)!),
+      originalAmount: expense.originalAmount !== null && expense.originalCurrency
+        ? roundMoney(expense.originalAmount, expense.originalCurrency)
+        : expense.originalAmount,
+      splits: expense.splits.map((split) => ({ ...split, amount: roundMoney(split.amount, currencyByCategory.get(expense.categoryId)!) })),
+    })),
+    incomes: backup.incomes.map((income) => ({ ...income, amount: roundMoney(income.amount, currencyByBook.get(income.bookId)!) })),
+    transfers: backup.transfers.map((transfer) => ({
+      ...transfer,
+      amount: roundMoney(transfer.amount, currencyByBook.get(transfer.fromBookId)!),
+      toAmount: roundMoney(transfer.toAmount, currencyByBook.get(transfer.toBookId)!),
+    })),
+    settlements: backup.settlements.map((settlement) => ({
+      ...settlement,
+      amount: roundMoney(settlement.amount, currencyByBook.get(settlement.bookId)!),
+    })),
+  }
+}
+
+function entryKey(...parts: (string | number | Date | null)[]) {
+  return parts.map((part) => (part instanceof Date ? part.getTime() : part ?? "")).join("|")
+}
+
+/**
+ * Recreate an archive in the user's account. Every record gets a new ID; references
+ * are remapped through the old → new ID maps.
+ *
+ * - "empty" requires an account without books.
+ * - "merge" reuses books, categories, participants and tags with the same name, and
+ *   skips expenses, incomes, transfers, settlements, budgets, categorisation rules, chat messages and
+ *   book templates that already exist, so restoring the same archive twice changes nothing.
+ *
+ * Everything runs in one transaction; a RestoreError is thrown for user-facing failures.
+ */
+export async function restoreBackup(userId: string, backup: Backup, mode: RestoreMode): Promise<RestoreSummary> {
+  const dangling = findDanglingReference(backup)
+  if (dangling) {
+    throw new RestoreError(`Invalid backup: ${dangling}`)
+  }
+  backup = roundBackupAmounts(backup)
+
+  const prisma = getPrismaClient()
+
+  return prisma.$transaction(async (tx) => {
+    const summary: RestoreSummary = {
+      books: 0,
+      categories: 0,
+      expenses: 0,
+      incomes: 0,
+      transfers: 0,
+      budgets: 0,
+      categoryRules: 0,
+      recurringExpenses: 0,
+      participants: 0,
+      settlements: 0,
+      chatMessages: 0,
+      bookTemplates: 0,
+      skipped: 0,
+    }
+
+    const existingBooks = await tx.book.findMany({ where: { userId } })
+    if (mode === "empty" && existingBooks.length > 0) {
+      throw new RestoreError("Your account already has books. Restore into an empty account or choose merge.")
+    }
+
+    // Books: matched by name (unique per user)
+    const bookIdMap = new Map<string, string>()
+    const booksByName = new Map(existingBooks.map((book) => [book.name, book]))
+    for (const book of backup.books) {
+      const existing = booksByName.get(book.name)
+      if (existing) {
+        bookIdMap.set(book.id, existing.id)
+        summary.skipped++
+        continue
+      }
+      const created = await tx.book.create({
+        data: {
+          name: book.name,
+          description: book.description,
+          currency: book.currency,
+          isArchived: book.isArchived,
+          createdAt: book.createdAt,
+          userId,
+        },
+      })
+      bookIdMap.set(book.id, created.id)
+      summary.books++
+    }
+
+    // Categories: matched by name within the (mapped) book
+    const targetBookIds = Array.from(new Set(bookIdMap.values()))
+    const existingCategories = await tx.category.findMany({ where: { bookId: { in: targetBookIds } } })
+    const categoriesByKey = new Map(existingCategories.map((category) => [entryKey(category.bookId, category.name.toLowerCase()), category]))
+    const categoryIdMap = new Map<string, string>()
+    const createdCategoryIds = new Set<string>()
+    for (const category of backup.categories) {
+      const bookId = bookIdMap.get(category.bookId)!
+      const existing = categoriesByKey.get(entryKey(bookId, category.name.toLowerCase()))
+      if (existing) {
+        categoryIdMap.set(category.id, existing.id)
+        summary.skipped++
+        continue
+      }
+      const created = await tx.category.create({
+        data: {
+          name: category.name,
+          description: category.description,
+          icon: category.icon,
+          color: category.color,
+          isDisabled: category.isDisabled,
+          isDefault: category.isDefault,
+          createdAt: category.createdAt,
+          bookId,
+        },
+      })
+      categoriesByKey.set(entryKey(bookId, category.name.toLowerCase()), created)
+      categoryIdMap.set(category.id, created.id)
+      createdCategoryIds.add(created.id)
+      summary.categories++
+    }
+    // Parents are linked once every category exists; merged categories keep their place
+    for (const category of backup.categories) {
+      const id = categoryIdMap.get(category.id)!
+      if (!category.parentId || !createdCategoryIds.has(id)) continue
+      const parentId = categoryIdMap.get(category.parentId)!
+      const parent = await tx.category.findUnique({ where: { id: parentId }, select: { parentId: true } })
+      if (parent && !parent.parentId) {
+        await tx.category.update({ where: { id }, data: { parentId } })
+      }
+    }
+    const targetCategoryIds = Array.from(new Set(categoryIdMap.values()))
+
+    // Tags: matched by name (unique per user)
+    const tagIdMap = new Map<string, string>()
+    if (backup.tags.length > 0) {
+      await tx.tag.createMany({
+        data: backup.tags.map((tag) => ({ name: tag.name, userId })),
+        skipDuplicates: true,
+      })
+      const tags = await tx.tag.findMany({
+        where: { userId, name: { in: backup.tags.map((tag) => tag.name) } },
+      })
+      const tagsByName = new Map(tags.map((tag) => [tag.name, tag.id]))
+      backup.tags.forEach((tag) => tagIdMap.set(tag.id, tagsByName.get(tag.name)!))
+    }
+
+    // Participants: matched by name within the (mapped) book
+    const existingParticipants = await tx.participant.findMany({ where: { bookId: { in: targetBookIds } } })
+    const participantsByKey = new Map(existingParticipants.map((participant) => [entryKey(participant.bookId, participant.name), participant.id]))
+    const participantIdMap = new Map<string, string>()
+    for (const participant of backup.participants) {
+      const bookId = bookIdMap.get(participant.bookId)!
+      const existingId = participantsByKey.get(entryKey(bookId, participant.name))
+      if (existingId) {
+        participantIdMap.set(participant.id, existingId)
+        summary.skipped++
+        continue
+      }
+      const created = await tx.participant.create({
+        data: { name: participant.name, bookId },
+      })
+      participantsByKey.set(entryKey(bookId, participant.name), created.id)
+      participantIdMap.set(participant.id, created.id)
+      summary.participants++
+    }
+
+    // Budgets: one per category, book-wide budgets matched by period
+    const existingBudgets = await tx.budget.findMany({ where: { bookId: { in: targetBookIds } } })
+    const budgetKeys = new Set(existingBudgets.map((budget) =>
+      budget.categoryId ? budget.categoryId : entryKey(budget.bookId, budget.period, budget.startDate, budget.endDate)))
+    for (const budget of backup.budgets) {
+      const bookId = bookIdMap.get(budget.bookId)!
+      const categoryId = budget.categoryId ? categoryIdMap.get(budget.categoryId)! : null
+      const key = categoryId || entryKey(bookId, budget.period, budget.startDate, budget.endDate)
+      if (budgetKeys.has(key)) {
+        summary.skipped++
+        continue
+      }
+      await tx.budget.create({
+        data: {
+          amount: budget.amount,
+          period: budget.period,
+          startDate: budget.startDate,
+          endDate: budget.endDate,
+          bookId,
+          categoryId,
+        },
+      })
+      budgetKeys.add(key)
+      summary.budgets++
+    }
+
+    // Categorisation rules: matched by book and name
+    const existingRules = await tx.categoryRule.findMany({ where: { bookId: { in: targetBookIds } } })
+    const ruleKeys = new Set(existingRules.map((rule) => entryKey(rule.bookId, rule.name)))
+    for (const rule of backup.categoryRules) {
+      const bookId = bookIdMap.get(rule.bookId)!
+      const key = entryKey(bookId, rule.name)
+      if (ruleKeys.has(key)) {
+        summary.skipped++
+        continue
+      }
+      await tx.categoryRule.create({
+        data: { ...rule, bookId, categoryId: categoryIdMap.get(rule.categoryId)! },
+      })
+      ruleKeys.add(key)
+      summary.categoryRules++
+    }
+
+    // Recurring expenses: matched by category, amount, schedule and description
+    const existingRecurring = await tx.recurringExpense.findMany({ where: { categoryId: { in: targetCategoryIds } } })
+    const recurringKey = (recurring: { categoryId: string; amount: number; frequency: string; interval: number; startDate: Date; description: string | null }) =>
+      entryKey(recurring.categoryId, recurring.amount, recurring.frequency, recurring.interval, recurring.startDate, recurring.description)
+    const recurringByKey = new Map(existingRecurring.map((recurring) => [recurringKey(recurring), recurring.id]))
+    const recurringIdMap = new Map<string, string>()
+    for (const recurring of backup.recurringExpenses) {
+      const categoryId = categoryIdMap.get(recurring.categoryId)!
+      const key = recurringKey({ ...recurring, categoryId })
+      const existingId = recurringByKey.get(key)
+      if (existingId) {
+        recurringIdMap.set(recurring.id, existingId)
+        summary.skipped++
+        continue
+      }
+      const { id, ...data } = recurring
+      const created = await tx.recurringExpense.create({
+        data: { ...data, categoryId },
+      })
+      recurringByKey.set(key, created.id)
+      recurringIdMap.set(id, created.id)
+      summary.recurringExpenses++
+    }
+
+    // Expenses: matched by bank transaction ID, or by category, amount, date and description
+    const existingExpenses = await tx.expense.findMany({
+      where: { categoryId: { in: targetCategoryIds } },
+      select: { categoryId: true, amount: true, date: true, description: true, paymentMethod: true, externalId: true },
+    })
+    const expenseKey = (expense: { categoryId: string; amount: number; date: Date; description: string | null; paymentMethod: string; externalId: string | null }) =>
+      expense.externalId
+        ? entryKey(expense.categoryId, expense.externalId)
+        : entryKey(expense.categoryId, expense.amount, expense.date, expense.description, expense.paymentMethod)
+    const expenseKeys = new Set(existingExpenses.map(expenseKey))
+    for (const expense of backup.expenses) {
+      const categoryId = categoryIdMap.get(expense.categoryId)!
+      const key = expenseKey({ ...expense, categoryId })
+      if (expenseKeys.has(key)) {
+        summary.skipped++
+        continue
+      }
+      await tx.expense.create({
+        data: {
+          amount: expense.amount,
+          originalAmount: expense.originalAmount,
+          originalCurrency: expense.originalCurrency,
+          exchangeRate: expense.exchangeRate,
+          date: expense.date,
+          description: expense.description,
+          paymentMethod: expense.paymentMethod,
+          isDisabled: expense.isDisabled,
+          externalId: expense.externalId,
+          createdAt: expense.createdAt,
+          categoryId,
+          recurringExpenseId: expense.recurringExpenseId ? recurringIdMap.get(expense.recurringExpenseId) : null,
+          splitMethod: expense.splitMethod,
+          paidById: expense.paidById ? participantIdMap.get(expense.paidById) : null,
+          splits: {
+            create: expense.splits.map((split) => ({
+              participantId: participantIdMap.get(split.participantId)!,
+              amount: split.amount,
+              value: split.value,
+            })),
+          },
+          tags: { connect: expense.tagIds.map((tagId) => ({ id: tagIdMap.get(tagId)! })) },
+        },
+      })
+      expenseKeys.add(key)
+      summary.expenses++
+    }
+
+    // Incomes
+    const existingIncomes = await tx.income.findMany({ where: { bookId: { in: targetBookIds } } })
+    const incomeKeys = new Set(existingIncomes.map((income) => entryKey(income.bookId, income.amount, income.date, income.description)))
+    for (const income of backup.incomes) {
+      const bookId = bookIdMap.get(income.bookId)!
+      const key = entryKey(bookId, income.amount, income.date, income.description)
+      if (incomeKeys.has(key)) {
+        summary.skipped++
+        continue
+      }
+      await tx.income.create({
+        data: {
+          amount: income.amount,
+          date: income.date,
+          description: income.description,
+          source: income.source,
+          paymentMethod: income.paymentMethod,
+          bookId,
+        },
+      })
+      incomeKeys.add(key)
+      summary.incomes++
+    }
+
+    // Transfers
+    const existingTransfers = await tx.transfer.findMany({ where: { fromBookId: { in: targetBookIds } } })
+    const transferKeys = new Set(existingTransfers.map((transfer) =>
+      entryKey(transfer.fromBookId, transfer.toBookId, transfer.amount, transfer.date)))
+    for (const transfer of backup.transfers) {
+      const fromBookId = bookIdMap.get(transfer.fromBookId)!
+      const toBookId = bookIdMap.get(transfer.toBookId)!
+      const key = entryKey(fromBookId, toBookId, transfer.amount, transfer.date)
+      if (transferKeys.has(key)) {
+        summary.skipped++
+        continue
+      }
+      await tx.transfer.create({
+        data: {
+          amount: transfer.amount,
+          toAmount: transfer.toAmount,
+          date: transfer.date,
+          description: transfer.description,
+          fromBookId,
+          toBookId,
+        },
+      })
+      transferKeys.add(key)
+      summary.transfers++
+    }
+
+    // Settlements
+    const existingSettlements = await tx.settlement.findMany({ where: { bookId: { in: targetBookIds } } })
+    const settlementKeys = new Set(existingSettlements.map((settlement) =>
+      entryKey(settlement.fromId, settlement.toId, settlement.amount, settlement.date)))
+    for (const settlement of backup.settlements) {
+      const fromId = participantIdMap.get(settlement.fromId)!
+      const toId = participantIdMap.get(settlement.toId)!
+      const key = entryKey(fromId, toId, settlement.amount, settlement.date)
+      if (settlementKeys.has(key)) {
+        summary.skipped++
+        continue
+      }
+      await tx.settlement.create({
+        data: {
+          amount: settlement.amount,
+          date: settlement.date,
+          note: settlement.note,
+          bookId: bookIdMap.get(settlement.bookId)!,
+          fromId,
+          toId,
+        },
+      })
+      settlementKeys.add(key)
+      summary.settlements++
+    }
+
+    // Bank account links: an existing link for the same account wins
+    if (backup.bankAccounts.length > 0) {
+      await tx.bankAccount.createMany({
+        data: backup.bankAccounts.map((account) => ({
+          accountId: account.accountId,
+          bookId: bookIdMap.get(account.bookId)!,
+          userId,
+        })),
+        skipDuplicates: true,
+      })
+    }
+
+    // Chat history
+    const existingMessages = await tx.chatMessage.findMany({
+      where: { userId },
+      select: { role: true, content: true, createdAt: true },
+    })
+    const messageKeys = new Set(existingMessages.map((message) => entryKey(message.role, message.createdAt, message.content)))
+    const newMessages = backup.chatMessages.filter((message) => !messageKeys.has(entryKey(message.role, message.createdAt, message.content)))
+    if (newMessages.length > 0) {
+      await tx.chatMessage.createMany({
+        data: newMessages.map((message) => ({ ...message, userId })),
+      })
+    }
+    summary.chatMessages = newMessages.length
+    summary.skipped += backup.chatMessages.length - newMessages.length
+
+    // Book templates: matched by name, an existing template wins
+    const existingTemplates = await tx.bookTemplate.findMany({ where: { userId }, select: { name: true } })
+    const templateNames = new Set(existingTemplates.map((template) => template.name.toLowerCase()))
+    for (const template of backup.bookTemplates) {
+      if (templateNames.has(template.name.toLowerCase())) {
+        summary.skipped++
+        continue
+      }
+      await tx.bookTemplate.create({
+        data: {
+          name: template.name,
+          description: template.description,
+          version: template.version,
+          content: template.content as unknown as Prisma.InputJsonValue,
+          userId,
+        },
+      })
+      templateNames.add(template.name.toLowerCase())
+      summary.bookTemplates++
+    }
+
+    return summary
+  }, { timeout: 120000 })
+}
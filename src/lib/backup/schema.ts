@@ -0,0 +1,231 @@
+import { bookTemplateContentSchema } from "@/lib/book-templates"
+import { z } from "zod"
+
+export const BACKUP_FORMAT = "manage-my-expenses-backup"
+
+// Bump when the archive shape changes and add an upgrade step to BACKUP_UPGRADES
+export const BACKUP_VERSION = 1
+
+const nullableString = z.string().nullable().optional().transform((value) => value ?? null)
+const nullableDate = z.coerce.date().nullable().optional().transform((value) => value ?? null)
+const nullableNumber = z.number().nullable().optional().transform((value) => value ?? null)
+
+const bookSchema = z.object({
+  id: z.string(),
+  name: z.string().min(1).max(191),
+  description: nullableString,
+  currency: z.string().min(1).max(10),
+  isArchived: z.boolean(),
+  createdAt: z.coerce.date(),
+})
+
+const categorySchema = z.object({
+  id: z.string(),
+  bookId: z.string(),
+  name: z.string().min(1).max(191),
+  description: nullableString,
+  icon: nullableString,
+  color: nullableString,
+  isDisabled: z.boolean(),
+  isDefault: z.boolean(),
+  parentId: nullableString,
+  createdAt: z.coerce.date(),
+})
+
+const budgetSchema = z.object({
+  id: z.string(),
+  bookId: z.string(),
+  categoryId: nullableString,
+  amount: z.number(),
+  period: z.string(),
+  startDate: nullableDate,
+  endDate: nullableDate,
+})
+
+const categoryRuleSchema = z.object({
+  bookId: z.string(),
+  categoryId: z.string(),
+  name: z.string().min(1).max(191),
+  priority: z.number().int(),
+  isActive: z.boolean(),
+  descriptionContains: nullableString,
+  descriptionPattern: nullableString,
+  minAmount: nullableNumber,
+  maxAmount: nullableNumber,
+  paymentMethod: nullableString,
+  tags: z.array(z.string()).default([]),
+})
+
+const recurringExpenseSchema = z.object({
+  id: z.string(),
+  categoryId: z.string(),
+  amount: z.number(),
+  description: nullableString,
+  paymentMethod: z.string(),
+  frequency: z.string(),
+  interval: z.number().int(),
+  startDate: z.coerce.date(),
+  nextRunDate: z.coerce.date(),
+  endDate: nullableDate,
+  maxOccurrences: z.number().int().nullable().optional().transform((value) => value ?? null),
+  occurrenceCount: z.number().int(),
+  isPaused: z.boolean(),
+  lastRunAt: nullableDate,
+})
+
+const participantSchema = z.object({
+  id: z.string(),
+  bookId: z.string(),
+  name: z.string().min(1).max(191),
+})
+
+const tagSchema = z.object({
+  id: z.string(),
+  name: z.string().min(1).max(191),
+})
+
+const expenseSchema = z.object({
+  id: z.string(),
+  categoryId: z.string(),
+  recurringExpenseId: nullableString,
+  amount: z.number(),
+  // Absent in archives from before expenses kept the currency they were paid in
+  originalAmount: nullableNumber,
+  originalCurrency: nullableString,
+  exchangeRate: nullableNumber,
+  date: z.coerce.date(),
+  description: nullableString,
+  paymentMethod: z.string(),
+  isDisabled: z.boolean(),
+  externalId: nullableString,
+  // Absent in archives from before expenses could be split
+  splitMethod: nullableString,
+  paidById: nullableString,
+  splits: z.array(z.object({
+    participantId: z.string(),
+    amount: z.number(),
+    value: nullableNumber,
+  })).default([]),
+  tagIds: z.array(z.string()).default([]),
+  // Receipt metadata only; the files themselves are not part of the archive
+  attachments: z.array(z.object({
+    fileName: z.string(),
+    mimeType: z.string(),
+    size: z.number(),
+  })).default([]),
+  createdAt: z.coerce.date(),
+})
+
+const incomeSchema = z.object({
+  id: z.string(),
+  bookId: z.string(),
+  amount: z.number(),
+  date: z.coerce.date(),
+  description: nullableString,
+  source: nullableString,
+  paymentMethod: z.string(),
+})
+
+const transferSchema = z.object({
+  id: z.string(),
+  fromBookId: z.string(),
+  toBookId: z.string(),
+  amount: z.number(),
+  toAmount: z.number(),
+  date: z.coerce.date(),
+  description: nullableString,
+})
+
+const settlementSchema = z.object({
+  id: z.string(),
+  bookId: z.string(),
+  fromId: z.string(),
+  toId: z.string(),
+  amount: z.number(),
+  date: z.coerce.date(),
+  note: nullableString,
+})
+
+const bankAccountSchema = z.object({
+  accountId: z.string().min(1).max(191),
+  bookId: z.string(),
+})
+
+const bookTemplateSchema = z.object({
+  name: z.string().min(1).max(191),
+  description: nullableString,
+  version: z.number().int().positive(),
+  content: bookTemplateContentSchema,
+})
+
+const chatMessageSchema = z.object({
+  role: z.string(),
+  content: z.string(),
+  createdAt: z.coerce.date(),
+})
+
+export const backupSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  version: z.literal(BACKUP_VERSION),
+  exportedAt: z.coerce.date(),
+  user: z.object({
+    name: nullableString,
+    email: z.string(),
+  }),
+  books: z.array(bookSchema),
+  categories: z.array(categorySchema),
+  budgets: z.array(budgetSchema).default([]),
+  categoryRules: z.array(categoryRuleSchema).default([]),
+  recurringExpenses: z.array(recurringExpenseSchema).default([]),
+  tags: z.array(tagSchema).default([]),
+  participants: z.array(participantSchema).default([]),
+  expenses: z.array(expenseSchema),
+  incomes: z.array(incomeSchema).default([]),
+  transfers: z.array(transferSchema).default([]),
+  settlements: z.array(settlementSchema).default([]),
+  bankAccounts: z.array(bankAccountSchema).default([]),
+  chatMessages: z.array(chatMessageSchema).default([]),
+  bookTemplates: z.array(bookTemplateSchema).default([]),
+})
+
+export type Backup = z.infer<typeof backupSchema>
+
+// Input shape accepted by the schema, i.e. what buildBackup writes before JSON serialisation
+export type BackupInput = z.input<typeof backupSchema>
+
+/**
+ * Upgrade steps keyed by the version they upgrade from. Each step receives the
+ * parsed JSON of that version and returns the shape of the next one.
+ */
+const BACKUP_UPGRADES: Record<number, (archive: any) => any> = {}
+
+/**
+ * Parse an archive of this or any earlier version, upgrading it step by step.
+ * Returns an error message instead of throwing for anything that is not a valid backup.
+ */
+export function parseBackup(json: unknown): { backup: Backup } | { error: string } {
+  if (!json || typeof json !== "object" || (json as any).format !== BACKUP_FORMAT) {
+    return { error: "This file is not a Manage My Expenses backup" }
+  }
+
+  let archive = json as any
+  const version = Number(archive.version)
+  if (!Number.isInteger(version) || version < 1) {
+    return { error: "The backup has no valid version" }
+  }
+  if (version > BACKUP_VERSION) {
+    return { error: `The backup was made by a newer version (v${version}); this instance supports up to v${BACKUP_VERSION}` }
+  }
+
+  for (let from = version; from < BACKUP_VERSION; from++) {
+    archive = { ...BACKUP_UPGRADES[from](archive), version: from + 1 }
+  }
+
+  const parsed = backupSchema.safeParse(archive)
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0]
+    return { error: `Invalid backup: ${issue.path.join(".")} ${issue.message}` }
+  }
+
+  return { backup: parsed.data }
+}
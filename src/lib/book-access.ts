@@ -0,0 +1,47 @@
+import type { Prisma } from "@prisma/client"
+import { getPrismaClient } from "@/lib/prisma"
+import {
+  BOOK_PERMISSION_ROLES,
+  hasBookPermission,
+  isBookRole,
+  type BookPermission,
+  type BookRole,
+} from "@/lib/book-roles"
+
+// Member roles granting a permission; the owner is matched through Book.userId instead
+function memberRolesWith(permission: BookPermission) {
+  return BOOK_PERMISSION_ROLES[permission].filter((role) => role !== "owner")
+}
+
+/**
+ * Prisma filter for the books a user may use with a permission: the books they own
+ * plus books shared with them in a role that allows it. Use in place of `{ userId }`.
+ */
+export function bookAccessWhere(userId: string, permission: BookPermission = "view"): Prisma.BookWhereInput {
+  const roles = memberRolesWith(permission)
+  if (roles.length === 0) {
+    return { userId }
+  }
+
+  return {
+    OR: [{ userId }, { members: { some: { userId, role: { in: roles } } } }],
+  }
+}
+
+// The user's role in a book, or null when the book isn't theirs or shared with them
+export async function getBookRole(userId: string, book: { id: string; userId: string }): Promise<BookRole | null> {
+  if (book.userId === userId) {
+    return "owner"
+  }
+
+  const member = await getPrismaClient().bookMember.findUnique({
+    where: { bookId_userId: { bookId: book.id, userId } },
+    select: { role: true },
+  })
+
+  return member && isBookRole(member.role) ? member.role : null
+}
+
+export async function canAccessBook(userId: string, book: { id: string; userId: string }, permission: BookPermission) {
+  return hasBookPermission(await getBookRole(userId, book), permission)
+}
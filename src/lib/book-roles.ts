@@ -0,0 +1,46 @@
+// Book sharing roles and what each one may do, shared by the server actions and the UI
+
+export const BOOK_ROLES = ["owner", "editor", "contributor", "viewer"] as const
+export type BookRole = (typeof BOOK_ROLES)[number]
+
+// Roles that can be given to invited members; there is exactly one owner (Book.userId)
+export const MEMBER_ROLES = ["editor", "contributor", "viewer"] as const
+export type MemberRole = (typeof MEMBER_ROLES)[number]
+
+export const BOOK_ROLE_LABELS: Record<BookRole, string> = {
+  owner: "Owner",
+  editor: "Editor",
+  contributor: "Contributor",
+  viewer: "Viewer",
+}
+
+export const BOOK_ROLE_DESCRIPTIONS: Record<BookRole, string> = {
+  owner: "Full control, including sharing, archiving and deleting the book",
+  editor: "Can add, edit and delete expenses and manage categories and budgets",
+  contributor: "Can add expenses but not change existing ones",
+  viewer: "Can see the book and its reports",
+}
+
+/**
+ * view   - see the book, its entries and reports
+ * add    - add expenses (with receipts and tags)
+ * edit   - change or delete entries, manage categories, budgets, recurring expenses,
+ *          income, transfers and imports
+ * manage - edit, archive or delete the book itself and manage its members
+ */
+export type BookPermission = "view" | "add" | "edit" | "manage"
+
+export const BOOK_PERMISSION_ROLES: Record<BookPermission, readonly BookRole[]> = {
+  view: BOOK_ROLES,
+  add: ["owner", "editor", "contributor"],
+  edit: ["owner", "editor"],
+  manage: ["owner"],
+}
+
+export function isBookRole(value: string): value is BookRole {
+  return (BOOK_ROLES as readonly string[]).includes(value)
+}
+
+export function hasBookPermission(role: BookRole | null | undefined, permission: BookPermission) {
+  return !!role && BOOK_PERMISSION_ROLES[permission].includes(role)
+}
@@ -0,0 +1,402 @@
+import type { getPrismaClient } from "@/lib/prisma"
+import { recordAudit, type AuditContext, type AuditEvent } from "@/lib/audit"
+import { getRuleTagNames } from "@/lib/category-rules"
+import { ExchangeRateError, getExchangeRate } from "@/lib/exchange-rates/service"
+import { roundMoney } from "@/lib/money"
+import { z } from "zod"
+
+// Book templates: a named set of categories (with sub-categories), monthly budgets and
+// categorisation rules a new book starts from. The built-in ones are defined below and
+// versioned here; users save their own from a book (the BookTemplate model). Amounts are
+// in the template's currency and converted at today's rate for a book in another one.
+
+const nullableString = z.string().nullable().optional().transform((value) => value ?? null)
+const nullableNumber = z.number().nullable().optional().transform((value) => value ?? null)
+
+export const bookTemplateContentSchema = z.object({
+  currency: z.string().length(3),
+  categories: z.array(
+    z.object({
+      name: z.string().min(1).max(191),
+      description: nullableString,
+      icon: nullableString,
+      color: nullableString,
+      // Name of the top-level template category this one is a sub-category of
+      parent: nullableString,
+    })
+  ),
+  // Monthly budgets; a null category is the book-wide budget
+  budgets: z
+    .array(
+      z.object({
+        category: nullableString,
+        amount: z.number().positive(),
+      })
+    )
+    .default([]),
+  rules: z
+    .array(
+      z.object({
+        name: z.string().min(1).max(191),
+        category: z.string(),
+        priority: z.number().int().default(0),
+        descriptionContains: nullableString,
+        descriptionPattern: nullableString,
+        minAmount: nullableNumber,
+        maxAmount: nullableNumber,
+        paymentMethod: nullableString,
+        tags: z.array(z.string()).default([]),
+      })
+    )
+    .default([]),
+})
+
+export type BookTemplateContent = z.output<typeof bookTemplateContentSchema>
+
+export interface BookTemplate {
+  id: string
+  name: string
+  description: string | null
+  version: number
+  isBuiltIn: boolean
+  content: BookTemplateContent
+}
+
+// Built-in template ids start with this, user template ids are database ids
+export const BUILT_IN_TEMPLATE_PREFIX = "builtin-"
+
+// Bump a template's version whenever its content changes
+const BUILT_IN_TEMPLATE_DEFINITIONS: {
+  key: string
+  name: string
+  description: string
+  version: number
+  content: z.input<typeof bookTemplateContentSchema>
+}[] = [
+  {
+    key: "household",
+    name: "Household",
+    description: "Everyday spending of a home: housing, groceries, bills and getting around",
+    version: 1,
+    content: {
+      currency: "USD",
+      categories: [
+        { name: "Housing", description: "Rent or mortgage and upkeep", icon: "Home", color: "#3b82f6" },
+        { name: "Rent & Mortgage", parent: "Housing" },
+        { name: "Repairs & Maintenance", icon: "Wrench", parent: "Housing" },
+        { name: "Groceries", description: "Supermarkets and food shopping", icon: "ShoppingBag", color: "#22c55e" },
+        { name: "Bills & Utilities", description: "Electricity, water, internet and phone", icon: "Zap", color: "#eab308" },
+        { name: "Electricity", parent: "Bills & Utilities" },
+        { name: "Water", parent: "Bills & Utilities" },
+        { name: "Internet & Phone", icon: "Smartphone", parent: "Bills & Utilities" },
+        { name: "Transportation", description: "Getting around", icon: "Car", color: "#f97316" },
+        { name: "Fuel", parent: "Transportation" },
+        { name: "Parking", parent: "Transportation" },
+        { name: "Public Transit", icon: "Bus", parent: "Transportation" },
+        { name: "Dining Out", description: "Restaurants, cafés and takeaway", icon: "Utensils", color: "#ef4444" },
+        { name: "Healthcare", description: "Doctors, pharmacy and insurance", icon: "Stethoscope", color: "#14b8a6" },
+        { name: "Entertainment", description: "Streaming, films, games and hobbies", icon: "Film", color: "#a855f7" },
+        { name: "Personal Care", description: "Haircuts, cosmetics and grooming", icon: "Heart", color: "#ec4899" },
+      ],
+      budgets: [
+        { category: "Groceries", amount: 600 },
+        { category: "Dining Out", amount: 200 },
+        { category: "Entertainment", amount: 100 },
+      ],
+      rules: [
+        { name: "Supermarkets", category: "Groceries", descriptionPattern: "supermarket|grocer" },
+        { name: "Fuel stations", category: "Fuel", descriptionPattern: "fuel|petrol|gas station" },
+        { name: "Streaming", category: "Entertainment", descriptionPattern: "netflix|spotify|disney", tags: ["subscription"] },
+      ],
+    },
+  },
+  {
+    key: "freelancer",
+    name: "Freelancer",
+    description: "Business costs of a one-person business, ready for the tax return",
+    version: 1,
+    content: {
+      currency: "USD",
+      categories: [
+        { name: "Software & Subscriptions", description: "Tools, SaaS and licences", icon: "CreditCard", color: "#3b82f6" },
+        { name: "Equipment", description: "Computers, phones and peripherals", icon: "Laptop", color: "#64748b" },
+        { name: "Workspace", description: "Coworking, home office and utilities", icon: "Building", color: "#22c55e" },
+        { name: "Professional Services", description: "Accounting, legal and other advice", icon: "Briefcase", color: "#f97316" },
+        { name: "Accounting", parent: "Professional Services" },
+        { name: "Legal", icon: "Scale", parent: "Professional Services" },
+        { name: "Marketing", description: "Website, ads and promotion", icon: "Megaphone", color: "#ec4899" },
+        { name: "Business Travel", description: "Travel to clients and events", icon: "Plane", color: "#0ea5e9" },
+        { name: "Training", description: "Courses, books and conferences", icon: "GraduationCap", color: "#a855f7" },
+        { name: "Taxes & Insurance", description: "Tax payments and business insurance", icon: "Receipt", color: "#ef4444" },
+      ],
+      budgets: [
+        { category: "Software & Subscriptions", amount: 150 },
+        { category: "Marketing", amount: 200 },
+      ],
+      rules: [
+        { name: "Cloud and SaaS", category: "Software & Subscriptions", descriptionPattern: "github|aws|google workspace|adobe|notion", tags: ["deductible"] },
+        { name: "Coworking", category: "Workspace", descriptionContains: "cowork", tags: ["deductible"] },
+      ],
+    },
+  },
+  {
+    key: "small-business",
+    name: "Small Business",
+    description: "Running costs of a small company with staff and premises",
+    version: 1,
+    content: {
+      currency: "USD",
+      categories: [
+        { name: "Payroll", description: "Salaries, wages and contractors", icon: "Users", color: "#3b82f6" },
+        { name: "Salaries & Wages", icon: "DollarSign", parent: "Payroll" },
+        { name: "Contractors", parent: "Payroll" },
+        { name: "Premises", description: "Rent, utilities and maintenance of the office", icon: "Building", color: "#22c55e" },
+        { name: "Rent & Lease", parent: "Premises" },
+        { name: "Office Utilities", icon: "Lightbulb", parent: "Premises" },
+        { name: "Office Maintenance", icon: "Wrench", parent: "Premises" },
+        { name: "Office Supplies", description: "Stationery, printing and consumables", icon: "FileText", color: "#eab308" },
+        { name: "Inventory", description: "Stock and materials for sale", icon: "Truck", color: "#f97316" },
+        { name: "Marketing", description: "Advertising and promotion", icon: "Megaphone", color: "#ec4899" },
+        { name: "IT & Software", description: "Hardware, software and IT support", icon: "Code", color: "#64748b" },
+        { name: "Professional Services", description: "Legal, accounting and consulting", icon: "Scale", color: "#a855f7" },
+        { name: "Taxes & Fees", description: "Business taxes, licences and bank fees", icon: "Receipt", color: "#ef4444" },
+        { name: "Insurance", description: "Liability and property insurance", icon: "Shield", color: "#14b8a6" },
+        { name: "Business Travel", description: "Flights, hotels and meals on the road", icon: "Briefcase", color: "#0ea5e9" },
+      ],
+      budgets: [
+        { category: "Office Supplies", amount: 300 },
+        { category: "Marketing", amount: 1000 },
+      ],
+      rules: [
+        { name: "Payroll runs", category: "Salaries & Wages", descriptionPattern: "payroll|salary|wages" },
+        { name: "Bank fees", category: "Taxes & Fees", descriptionPattern: "bank fee|service charge" },
+      ],
+    },
+  },
+  {
+    key: "travel",
+    name: "Travel",
+    description: "A trip from flights to souvenirs",
+    version: 1,
+    content: {
+      currency: "USD",
+      categories: [
+        { name: "Flights", description: "Airfare and baggage", icon: "Plane", color: "#0ea5e9" },
+        { name: "Accommodation", description: "Hotels, rentals and hostels", icon: "Building", color: "#3b82f6" },
+        { name: "Local Transport", description: "Getting around at the destination", icon: "Bus", color: "#f97316" },
+        { name: "Taxi & Rideshare", icon: "Car", parent: "Local Transport" },
+        { name: "Public Transit", icon: "Train", parent: "Local Transport" },
+        { name: "Car Rental", icon: "Car", parent: "Local Transport" },
+        { name: "Food & Drinks", description: "Restaurants, cafés and snacks", icon: "Utensils", color: "#ef4444" },
+        { name: "Activities", description: "Tours, tickets and excursions", icon: "Mountain", color: "#22c55e" },
+        { name: "Shopping & Souvenirs", description: "Gifts and things to take home", icon: "Gift", color: "#ec4899" },
+        { name: "Travel Insurance", description: "Trip and health cover", icon: "Shield", color: "#14b8a6" },
+      ],
+      budgets: [
+        { category: "Food & Drinks", amount: 500 },
+        { category: "Activities", amount: 300 },
+      ],
+      rules: [
+        { name: "Airlines", category: "Flights", descriptionPattern: "airline|airways|air lines" },
+        { name: "Stays", category: "Accommodation", descriptionPattern: "hotel|airbnb|hostel|booking\\.com" },
+        { name: "Rideshare", category: "Taxi & Rideshare", descriptionPattern: "uber|lyft|bolt|taxi" },
+      ],
+    },
+  },
+]
+
+export const BUILT_IN_TEMPLATES: BookTemplate[] = BUILT_IN_TEMPLATE_DEFINITIONS.map((definition) => ({
+  id: BUILT_IN_TEMPLATE_PREFIX + definition.key,
+  name: definition.name,
+  description: definition.description,
+  version: definition.version,
+  isBuiltIn: true,
+  content: bookTemplateContentSchema.parse(definition.content),
+}))
+
+// A user's saved template as a BookTemplate, or null when its content doesn't parse
+export function toBookTemplate(row: {
+  id: string
+  name: string
+  description: string | null
+  version: number
+  content: unknown
+}): BookTemplate | null {
+  const content = bookTemplateContentSchema.safeParse(row.content)
+  if (!content.success) return null
+
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    version: row.version,
+    isBuiltIn: false,
+    content: content.data,
+  }
+}
+
+/**
+ * The template's amounts in `currency`, converted at today's rate when the template is
+ * in another one, or an error when there is no rate.
+ */
+export async function convertTemplateContent(content: BookTemplateContent, currency: string) {
+  if (content.currency === currency) {
+    return { content }
+  }
+
+  let rate: number
+  try {
+    rate = (await getExchangeRate(content.currency, currency)).rate
+  } catch (error) {
+    if (error instanceof ExchangeRateError) {
+      return { error: `${error.message}. The template's amounts are in ${content.currency}.` }
+    }
+    throw error
+  }
+
+  const convert = (amount: number | null) => (amount === null ? null : roundMoney(amount * rate, currency))
+
+  return {
+    content: {
+      ...content,
+      currency,
+      budgets: content.budgets.map((budget) => ({ ...budget, amount: convert(budget.amount)! })),
+      rules: content.rules.map((rule) => ({ ...rule, minAmount: convert(rule.minAmount), maxAmount: convert(rule.maxAmount) })),
+    },
+  }
+}
+
+type BookTemplateClient = Pick<
+  ReturnType<typeof getPrismaClient>,
+  "category" | "budget" | "categoryRule" | "auditLog"
+>
+
+/**
+ * Create a template's categories, budgets and rules in book `bookId`, whose currency the
+ * content is already in. Categories the book already has (by name) are reused, and
+ * budgets the book already has are kept. Returns the created categories by lowercase name.
+ */
+export async function applyBookTemplate(
+  client: BookTemplateClient,
+  context: AuditContext,
+  bookId: string,
+  content: BookTemplateContent
+) {
+  const existing = await client.category.findMany({ where: { bookId } })
+  const categoryIds = new Map(existing.map((category) => [category.name.toLowerCase(), category.id]))
+  const events: AuditEvent[] = []
+
+  // Top-level categories first, so sub-categories can point at them
+  const topLevelNames = new Set(content.categories.filter((category) => !category.parent).map((category) => category.name.toLowerCase()))
+  const ordered = [
+    ...content.categories.filter((category) => !category.parent || !topLevelNames.has(category.parent.toLowerCase())),
+    ...content.categories.filter((category) => category.parent && topLevelNames.has(category.parent.toLowerCase())),
+  ]
+
+  for (const category of ordered) {
+    const key = category.name.toLowerCase()
+    if (categoryIds.has(key)) continue
+
+    const created = await client.category.create({
+      data: {
+        name: category.name,
+        description: category.description,
+        icon: category.icon,
+        color: category.color,
+        isDefault: false,
+        bookId,
+        parentId: category.parent ? categoryIds.get(category.parent.toLowerCase()) ?? null : null,
+      },
+    })
+    categoryIds.set(key, created.id)
+    events.push({ action: "create", entityType: "category", entityId: created.id, bookId, before: null, after: created })
+  }
+
+  await recordAudit(client, context, events)
+
+  for (const budget of content.budgets) {
+    const categoryId = budget.category ? categoryIds.get(budget.category.toLowerCase()) : null
+    if (categoryId === undefined) continue
+
+    // A book has at most one book-wide budget and one budget per category
+    const existingBudget = await client.budget.findFirst({ where: { bookId, categoryId } })
+    if (existingBudget) continue
+
+    await client.budget.create({
+      data: { bookId, categoryId, amount: budget.amount, period: "monthly" },
+    })
+  }
+
+  for (const rule of content.rules) {
+    const categoryId = categoryIds.get(rule.category.toLowerCase())
+    if (!categoryId) continue
+
+    await client.categoryRule.create({
+      data: {
+        bookId,
+        categoryId,
+        name: rule.name,
+        priority: rule.priority,
+        descriptionContains: rule.descriptionContains,
+        descriptionPattern: rule.descriptionPattern,
+        minAmount: rule.minAmount,
+        maxAmount: rule.maxAmount,
+        paymentMethod: rule.paymentMethod,
+        tags: getRuleTagNames(rule),
+      },
+    })
+  }
+
+  return categoryIds
+}
+
+/**
+ * A book's active categories, monthly budgets and active rules as template content in
+ * the book currency. Budgets for custom date ranges don't carry over to another book.
+ */
+export async function getBookTemplateContent(
+  client: Pick<ReturnType<typeof getPrismaClient>, "category" | "budget" | "categoryRule">,
+  book: { id: string; currency: string }
+): Promise<BookTemplateContent> {
+  const [categories, budgets, rules] = await Promise.all([
+    client.category.findMany({
+      where: { bookId: book.id, isDisabled: false },
+      include: { parent: { select: { name: true } } },
+      orderBy: { createdAt: "asc" },
+    }),
+    client.budget.findMany({
+      where: { bookId: book.id, period: "monthly" },
+      include: { category: { select: { name: true, isDisabled: true } } },
+    }),
+    client.categoryRule.findMany({
+      where: { bookId: book.id, isActive: true, category: { isDisabled: false } },
+      include: { category: { select: { name: true } } },
+      orderBy: [{ priority: "asc" }, { createdAt: "asc" }],
+    }),
+  ])
+
+  return {
+    currency: book.currency,
+    categories: categories.map((category) => ({
+      name: category.name,
+      description: category.description,
+      icon: category.icon,
+      color: category.color,
+      parent: category.parent?.name ?? null,
+    })),
+    budgets: budgets
+      .filter((budget) => !budget.category?.isDisabled)
+      .map((budget) => ({ category: budget.category?.name ?? null, amount: budget.amount })),
+    rules: rules.map((rule) => ({
+      name: rule.name,
+      category: rule.category.name,
+      priority: rule.priority,
+      descriptionContains: rule.descriptionContains,
+      descriptionPattern: rule.descriptionPattern,
+      minAmount: rule.minAmount,
+      maxAmount: rule.maxAmount,
+      paymentMethod: rule.paymentMethod,
+      tags: getRuleTagNames(rule),
+    })),
+  }
+}
@@ -0,0 +1,168 @@
+import { getPrismaClient } from "@/lib/prisma"
+import { formatCurrency } from "@/lib/utils"
+import { subtractMoney } from "@/lib/money"
+
+export const BUDGET_PERIODS = ["monthly", "custom"] as const
+export type BudgetPeriod = (typeof BUDGET_PERIODS)[number]
+
+export interface BudgetStatus {
+  budgetId: string
+  bookId: string
+  bookName: string
+  currency: string
+  categoryId: string | null
+  categoryName: string | null
+  period: string
+  periodStart: Date
+  periodEnd: Date
+  budgeted: number
+  spent: number
+  remaining: number
+  percentUsed: number
+  isOverBudget: boolean
+}
+
+interface BudgetPeriodFields {
+  period: string
+  startDate: Date | null
+  endDate: Date | null
+}
+
+// Resolve the date range a budget applies to. Monthly budgets follow the
+// calendar month of the reference date, custom budgets use their own range.
+export function getBudgetPeriodRange(budget: BudgetPeriodFields, referenceDate: Date = new Date()) {
+  if (budget.period === "custom" && budget.startDate && budget.endDate) {
+    return { start: budget.startDate, end: budget.endDate }
+  }
+
+  const start = new Date(referenceDate.getFullYear(), referenceDate.getMonth(), 1)
+  const end = new Date(referenceDate.getFullYear(), referenceDate.getMonth() + 1, 0, 23, 59, 59, 999)
+  return { start, end }
+}
+
+// Budget vs. actual for every active budget of the given books
+export async function getBudgetStatuses(bookIds: string[], referenceDate: Date = new Date()): Promise<BudgetStatus[]> {
+  if (bookIds.length === 0) {
+    return []
+  }
+
+  const prisma = getPrismaClient()
+
+  const budgets = await prisma.budget.findMany({
+    where: {
+      bookId: { in: bookIds },
+      OR: [
+        { categoryId: null },
+        { category: { isDisabled: false } },
+      ],
+    },
+    include: {
+      book: true,
+      category: true,
+    },
+    orderBy: { createdAt: "asc" },
+  })
+
+  const statuses: BudgetStatus[] = []
+
+  for (const budget of budgets) {
+    const { start, end } = getBudgetPeriodRange(budget, referenceDate)
+
+    const spending = await prisma.expense.aggregate({
+      _sum: { amount: true },
+      where: {
+        isDisabled: false,
+        date: { gte: start, lte: end },
+        category: budget.categoryId
+          ? { id: budget.categoryId }
+          : { bookId: budget.bookId, isDisabled: false },
+      },
+    })
+
+    // Aggregates bypass the client's Decimal-to-number mapping
+    const spent = Number(spending._sum.amount ?? 0)
+
+    statuses.push({
+      budgetId: budget.id,
+      bookId: budget.bookId,
+      bookName: budget.book.name,
+      currency: budget.book.currency,
+      categoryId: budget.categoryId,
+      categoryName: budget.category?.name || null,
+      period: budget.period,
+      periodStart: start,
+      periodEnd: end,
+      budgeted: budget.amount,
+      spent,
+      remaining: subtractMoney(budget.amount, spent),
+      percentUsed: budget.amount > 0 ? Math.round((spent / budget.amount) * 100) : 0,
+      isOverBudget: spent > budget.amount,
+    })
+  }
+
+  return statuses
+}
+
+// The expense as it was before an edit, which a budget's spending already counted
+// when it was in the budget's category (or book) and period
+interface PreviousExpense {
+  categoryId: string
+  bookId: string
+  date: Date
+  amount: number
+}
+
+/**
+ * Returns a warning message when the category (or its book) is over budget for the
+ * period that contains the given expense date. `amount` is the expense's amount in the
+ * book currency and `previous` the expense before an edit, to tell a budget this
+ * expense (or change) pushed over from one that was already over.
+ */
+export async function getOverspendWarning(
+  categoryId: string,
+  expenseDate: Date,
+  amount: number,
+  previous?: PreviousExpense
+) {
+  const prisma = getPrismaClient()
+
+  const category = await prisma.category.findUnique({
+    where: { id: categoryId },
+  })
+
+  if (!category?.bookId) {
+    return null
+  }
+
+  const statuses = await getBudgetStatuses([category.bookId], expenseDate)
+
+  const exceeded = statuses.filter(
+    (status) =>
+      status.isOverBudget &&
+      (status.categoryId === categoryId || status.categoryId === null) &&
+      expenseDate >= status.periodStart &&
+      expenseDate <= status.periodEnd
+  )
+
+  if (exceeded.length === 0) {
+    return null
+  }
+
+  return exceeded
+    .map((status) => {
+      const target = status.categoryName ? `"${status.categoryName}"` : `the "${status.bookName}" book`
+      const overBy = formatCurrency(subtractMoney(status.spent, status.budgeted), status.currency)
+      // Spending this expense added: all of it when new, the change when edited within the budget
+      const previouslyCounted =
+        !!previous &&
+        (status.categoryId === null ? previous.bookId === status.bookId : previous.categoryId === status.categoryId) &&
+        previous.date >= status.periodStart &&
+        previous.date <= status.periodEnd
+      const added = previouslyCounted ? subtractMoney(amount, previous!.amount) : amount
+      const crossedLimit = added > 0 && subtractMoney(status.spent, added) <= status.budgeted
+      return crossedLimit
+        ? `This expense puts ${target} over budget by ${overBy}`
+        : `${target.charAt(0).toUpperCase()}${target.slice(1)} is already over budget, now by ${overBy}`
+    })
+    .join(". ")
+}
@@ -0,0 +1,198 @@
+import type { getPrismaClient } from "@/lib/prisma"
+import { normalizeTagName } from "@/lib/tags"
+
+// Categorisation rules: per-book conditions on a new expense's description, amount and
+// payment method that pick its category and add tags. Shared by the expense form, the
+// importer and the AI assistant, so all three categorise the same expense the same way.
+
+export const MAX_RULE_PATTERN_LENGTH = 200
+// Open-ended repeats (*, + and {n,}) a pattern may use; each one multiplies the worst-case work
+const MAX_RULE_PATTERN_REPEATS = 3
+// Patterns only look at the start of a description, which bounds the work left
+const MAX_PATTERN_INPUT_LENGTH = 200
+
+export interface CategoryRuleConditions {
+  descriptionContains: string | null
+  descriptionPattern: string | null
+  minAmount: number | null
+  maxAmount: number | null
+  paymentMethod: string | null
+}
+
+export interface CategoryRuleMatch extends CategoryRuleConditions {
+  id: string
+  name: string
+  categoryId: string
+  tags: unknown
+}
+
+// What a rule looks at. The amount is in the book currency; rules with an amount
+// condition don't match when it is unknown.
+export interface RuleInput {
+  description?: string | null
+  amount?: number | null
+  paymentMethod?: string | null
+}
+
+export function hasRuleCondition(conditions: CategoryRuleConditions) {
+  return (
+    !!conditions.descriptionContains ||
+    !!conditions.descriptionPattern ||
+    conditions.minAmount !== null ||
+    conditions.maxAmount !== null ||
+    !!conditions.paymentMethod
+  )
+}
+
+/**
+ * Why a pattern could backtrack catastrophically, or null. Rules run on the server for
+ * every member of a book, so anything that might is refused: repeating a group that
+ * itself repeats or has alternatives ("(a+)+", "(a|ab)*"), back-references, and more
+ * than a few open-ended repeats.
+ */
+function getPatternComplexityError(pattern: string) {
+  // One entry per open group: whether it holds a repeat or an alternative
+  type Group = { hasRepeat: boolean; hasAlternative: boolean }
+  const groups: Group[] = [{ hasRepeat: false, hasAlternative: false }]
+  let openEndedRepeats = 0
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]
+    // The group that ended at i, when the atom is a group
+    let closedGroup: Group | null = null
+
+    if (char === "(") {
+      groups.push({ hasRepeat: false, hasAlternative: false })
+      // (?:, (?=, (?!, (?<=, (?<! and (?<name> are not repeats
+      if (pattern[i + 1] === "?") i++
+      continue
+    }
+    if (char === "|") {
+      groups[groups.length - 1].hasAlternative = true
+      continue
+    }
+
+    if (char === "\\") {
+      if (/[1-9k]/.test(pattern[i + 1] || "")) return "Back-references are not supported"
+      i++
+    } else if (char === "[") {
+      // A character class is one atom
+      i++
+      while (i < pattern.length && pattern[i] !== "]") {
+        if (pattern[i] === "\\") i++
+        i++
+      }
+    } else if (char === ")" && groups.length > 1) {
+      closedGroup = groups.pop()!
+    }
+
+    // A repeat applying to the atom that ended at i
+    const parent = groups[groups.length - 1]
+    const next = pattern[i + 1]
+    const braces = next === "{" ? pattern.slice(i + 1).match(/^\{\d+(,\d*)?\}/)?.[0] : undefined
+    if (next !== "*" && next !== "+" && next !== "?" && !braces) {
+      if (closedGroup) parent.hasRepeat ||= closedGroup.hasRepeat
+      continue
+    }
+
+    if (closedGroup && (closedGroup.hasRepeat || closedGroup.hasAlternative)) {
+      return "Repeating a group that repeats or has alternatives (like (a+)+ or (a|b)*) is not supported"
+    }
+    if (next === "*" || next === "+" || (braces && braces.endsWith(",}"))) {
+      openEndedRepeats++
+    }
+    parent.hasRepeat = true
+    i += braces ? braces.length : 1
+    // Lazy repeats (*?, +?, ??, {n,m}?)
+    if (pattern[i + 1] === "?") i++
+  }
+
+  if (openEndedRepeats > MAX_RULE_PATTERN_REPEATS) {
+    return `Use at most ${MAX_RULE_PATTERN_REPEATS} open-ended repeats (*, + or {n,})`
+  }
+
+  return null
+}
+
+// The error message for a pattern that isn't a valid or safe regular expression, or null
+export function getRulePatternError(pattern: string) {
+  if (pattern.length > MAX_RULE_PATTERN_LENGTH) {
+    return `Pattern must be ${MAX_RULE_PATTERN_LENGTH} characters or less`
+  }
+
+  try {
+    new RegExp(pattern, "i")
+  } catch (error) {
+    return "Pattern is not a valid regular expression"
+  }
+
+  return getPatternComplexityError(pattern)
+}
+
+export function matchesCategoryRule(rule: CategoryRuleConditions, input: RuleInput) {
+  const description = input.description?.trim() || ""
+
+  if (rule.descriptionContains && !description.toLowerCase().includes(rule.descriptionContains.toLowerCase())) {
+    return false
+  }
+
+  if (rule.descriptionPattern) {
+    // Saved patterns are checked, but an unreadable or unsafe one must not break expense creation
+    if (
+      getRulePatternError(rule.descriptionPattern) ||
+      !new RegExp(rule.descriptionPattern, "i").test(description.slice(0, MAX_PATTERN_INPUT_LENGTH))
+    ) {
+      return false
+    }
+  }
+
+  if (rule.minAmount !== null || rule.maxAmount !== null) {
+    if (input.amount === null || input.amount === undefined || isNaN(input.amount)) return false
+    if (rule.minAmount !== null && input.amount < rule.minAmount) return false
+    if (rule.maxAmount !== null && input.amount > rule.maxAmount) return false
+  }
+
+  if (rule.paymentMethod && rule.paymentMethod.toLowerCase() !== (input.paymentMethod || "").toLowerCase()) {
+    return false
+  }
+
+  return true
+}
+
+// The first of `rules` (already in priority order) matching the expense
+export function findMatchingRule<T extends CategoryRuleConditions>(rules: T[], input: RuleInput): T | null {
+  return rules.find((rule) => matchesCategoryRule(rule, input)) ?? null
+}
+
+// Tag names a rule adds, normalised; the JSON column may hold anything
+export function getRuleTagNames(rule: { tags: unknown }): string[] {
+  if (!Array.isArray(rule.tags)) return []
+
+  const names = rule.tags
+    .filter((tag): tag is string => typeof tag === "string")
+    .map(normalizeTagName)
+    .filter((name) => name.length > 0)
+
+  return Array.from(new Set(names))
+}
+
+type CategoryRuleClient = Pick<ReturnType<typeof getPrismaClient>, "categoryRule">
+
+// A book's active rules in the order they run, skipping rules for disabled categories
+export async function loadCategoryRules(client: CategoryRuleClient, bookId: string): Promise<CategoryRuleMatch[]> {
+  return client.categoryRule.findMany({
+    where: { bookId, isActive: true, category: { isDisabled: false } },
+    select: {
+      id: true,
+      name: true,
+      categoryId: true,
+      tags: true,
+      descriptionContains: true,
+      descriptionPattern: true,
+      minAmount: true,
+      maxAmount: true,
+      paymentMethod: true,
+    },
+    orderBy: [{ priority: "asc" }, { createdAt: "asc" }],
+  })
+}
@@ -0,0 +1,109 @@
+import type { getPrismaClient } from "@/lib/prisma"
+import { recordAudit, type AuditContext } from "@/lib/audit"
+
+// Categories nest one level deep: a top-level category can have sub-categories in the
+// same book. Reports roll sub-category expenses up into their parent, a sub-category
+// without an icon shows its parent's, and an active category never sits under a
+// disabled one (disabling a parent disables its sub-categories).
+
+interface TreeCategory {
+  id: string
+  parentId: string | null
+}
+
+// The category an expense's amount rolls up into
+export function getRollUpCategoryId(category: TreeCategory) {
+  return category.parentId ?? category.id
+}
+
+// The icon to show: the category's own, or else its parent's
+export function getCategoryIconName(category: { icon: string | null; parent?: { icon: string | null } | null }) {
+  return category.icon || category.parent?.icon || undefined
+}
+
+/**
+ * Order categories as a tree: each top-level category followed by its sub-categories,
+ * keeping the given order within each level. Sub-categories whose parent isn't in the
+ * list are shown at the top level.
+ */
+export function sortCategoryTree<T extends TreeCategory>(categories: T[]): (T & { depth: number })[] {
+  const ids = new Set(categories.map((category) => category.id))
+  const isRoot = (category: T) => !category.parentId || !ids.has(category.parentId)
+
+  return categories.filter(isRoot).flatMap((root) => [
+    { ...root, depth: 0 },
+    ...categories
+      .filter((category) => category.parentId === root.id && !isRoot(category))
+      .map((child) => ({ ...child, depth: 1 })),
+  ])
+}
+
+type CategoryTreeClient = Pick<ReturnType<typeof getPrismaClient>, "category">
+
+/**
+ * Why category `categoryId` (null for a new one) can't be a sub-category of `parentId`
+ * in `bookId`, or null when it can.
+ */
+export async function getCategoryParentError(
+  client: CategoryTreeClient,
+  { categoryId, bookId, parentId }: { categoryId: string | null; bookId: string; parentId: string }
+) {
+  if (parentId === categoryId) {
+    return "A category can't be its own parent"
+  }
+
+  const parent = await client.category.findUnique({
+    where: { id: parentId },
+    select: { bookId: true, parentId: true, isDisabled: true },
+  })
+
+  if (!parent || parent.bookId !== bookId) {
+    return "Parent category not found in this book"
+  }
+
+  if (parent.parentId) {
+    return "Sub-categories can't have sub-categories of their own"
+  }
+
+  if (parent.isDisabled) {
+    return "The parent category is disabled. Restore it first."
+  }
+
+  if (categoryId && (await client.category.count({ where: { parentId: categoryId } })) > 0) {
+    return "A category with sub-categories can't become a sub-category"
+  }
+
+  return null
+}
+
+// Disable the active sub-categories of a category that is being disabled, with an
+// audit entry each. Their expenses are left as they are, like a disabled category's.
+export async function disableSubcategories(
+  client: Pick<ReturnType<typeof getPrismaClient>, "category" | "auditLog">,
+  context: AuditContext,
+  parentId: string
+) {
+  const children = await client.category.findMany({
+    where: { parentId, isDisabled: false },
+  })
+
+  if (children.length === 0) return
+
+  await client.category.updateMany({
+    where: { id: { in: children.map((child) => child.id) } },
+    data: { isDisabled: true },
+  })
+
+  await recordAudit(
+    client,
+    context,
+    children.map((child) => ({
+      action: "disable" as const,
+      entityType: "category" as const,
+      entityId: child.id,
+      bookId: child.bookId!,
+      before: child,
+      after: { ...child, isDisabled: true },
+    }))
+  )
+}
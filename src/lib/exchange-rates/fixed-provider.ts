@@ -0,0 +1,31 @@
+import type { ExchangeRateProvider } from './index'
+
+// Approximate units per US dollar. Only meant for offline development and demos;
+// the numbers never change, whatever the date.
+const UNITS_PER_USD: Record<string, number> = {
+  USD: 1, EUR: 0.92, GBP: 0.79, JPY: 150, CAD: 1.36, AUD: 1.52, CHF: 0.88, CNY: 7.2,
+  INR: 83, MXN: 17, BRL: 5, ZAR: 18.5, RUB: 92, KRW: 1330, SGD: 1.34, HKD: 7.8,
+  NZD: 1.63, SEK: 10.4, NOK: 10.6, DKK: 6.9, PLN: 4, CZK: 23, HUF: 360, TRY: 32,
+  TWD: 31.5, THB: 36, IDR: 15700, MYR: 4.7, PHP: 56, VND: 24800, ILS: 3.7, AED: 3.6725,
+  SAR: 3.75, QAR: 3.64, KWD: 0.307, BHD: 0.376, OMR: 0.385, JOD: 0.709, LBP: 89500,
+  EGP: 47, NGN: 1500, CLP: 950, COP: 3900, PEN: 3.75, ARS: 870, UYU: 39,
+}
+
+/**
+ * Built-in rate table for running without network access.
+ */
+export class FixedExchangeRateProvider implements ExchangeRateProvider {
+  readonly name = 'fixed'
+  readonly supportsHistory = true
+
+  async getRates(base: string): Promise<Record<string, number>> {
+    const baseUnits = UNITS_PER_USD[base]
+    if (!baseUnits) {
+      throw new Error(`No fixed exchange rates for ${base}`)
+    }
+
+    return Object.fromEntries(
+      Object.entries(UNITS_PER_USD).map(([currency, units]) => [currency, units / baseUnits])
+    )
+  }
+}
@@ -0,0 +1,34 @@
+import type { ExchangeRateProvider } from './index'
+
+/**
+ * Fetches rates from a JSON API answering { rates: { USD: 1.08, ... } }. The URL
+ * template gets {base} and, for APIs with history, {date} (YYYY-MM-DD) filled in.
+ */
+export class HttpExchangeRateProvider implements ExchangeRateProvider {
+  readonly name = 'http'
+  readonly supportsHistory: boolean
+  private readonly urlTemplate: string
+
+  constructor(urlTemplate: string) {
+    this.urlTemplate = urlTemplate
+    this.supportsHistory = urlTemplate.includes('{date}')
+  }
+
+  async getRates(base: string, date: Date): Promise<Record<string, number>> {
+    const url = this.urlTemplate
+      .replace('{base}', encodeURIComponent(base))
+      .replace('{date}', date.toISOString().slice(0, 10))
+
+    const response = await fetch(url, { cache: 'no-store' })
+    if (!response.ok) {
+      throw new Error(`Exchange rate API returned ${response.status}`)
+    }
+
+    const data = await response.json()
+    if (!data?.rates || typeof data.rates !== 'object') {
+      throw new Error('Exchange rate API returned no rates')
+    }
+
+    return data.rates
+  }
+}
@@ -0,0 +1,44 @@
+import { FixedExchangeRateProvider } from './fixed-provider'
+import { HttpExchangeRateProvider } from './http-provider'
+import { ManualExchangeRateProvider } from './manual-provider'
+
+/**
+ * Exchange-rate provider contract. Rates are quoted against the base currency:
+ * getRates('EUR', date).USD = 1.08 means 1 EUR = 1.08 USD.
+ */
+export interface ExchangeRateProvider {
+  // Stored with every rate the provider supplies
+  readonly name: string
+  // Whether getRates honours past dates; providers that only know today's rates are
+  // asked for today and older days fall back to rates saved earlier
+  readonly supportsHistory: boolean
+  getRates(base: string, date: Date): Promise<Record<string, number>>
+}
+
+type ExchangeRateProviderFactory = () => ExchangeRateProvider
+
+// Register additional providers here and select them with EXCHANGE_RATE_PROVIDER
+const providers: Record<string, ExchangeRateProviderFactory> = {
+  http: () => new HttpExchangeRateProvider(process.env.EXCHANGE_RATE_API_URL || 'https://api.exchangerate-api.com/v4/latest/{base}'),
+  manual: () => ManualExchangeRateProvider.fromFile(process.env.EXCHANGE_RATES_CSV || './exchange-rates.csv'),
+  fixed: () => new FixedExchangeRateProvider(),
+}
+
+const globalForExchangeRates = globalThis as unknown as {
+  exchangeRateProvider: ExchangeRateProvider | undefined
+}
+
+export function getExchangeRateProvider(): ExchangeRateProvider {
+  if (globalForExchangeRates.exchangeRateProvider) {
+    return globalForExchangeRates.exchangeRateProvider
+  }
+
+  const name = process.env.EXCHANGE_RATE_PROVIDER || 'http'
+  const factory = providers[name]
+  if (!factory) {
+    throw new Error(`Unknown exchange rate provider: ${name}`)
+  }
+
+  globalForExchangeRates.exchangeRateProvider = factory()
+  return globalForExchangeRates.exchangeRateProvider
+}
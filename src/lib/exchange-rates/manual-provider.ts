@@ -0,0 +1,76 @@
+import { readFileSync } from 'fs'
+import type { ExchangeRateProvider } from './index'
+
+export interface ManualExchangeRate {
+  // YYYY-MM-DD; the rate applies from this day until the next entry for the pair
+  date: string
+  base: string
+  quote: string
+  rate: number
+}
+
+/**
+ * Parse a rate table with the header date,base,quote,rate, e.g.
+ * 2024-01-01,EUR,USD,1.1039. Blank lines and lines starting with # are ignored.
+ */
+export function parseExchangeRateCsv(text: string): ManualExchangeRate[] {
+  const lines = text.split(/\r?\n/).map((line) => line.trim()).filter((line) => line && !line.startsWith('#'))
+  if (lines.length === 0) return []
+
+  const header = lines[0].toLowerCase().split(',').map((cell) => cell.trim())
+  const columns = ['date', 'base', 'quote', 'rate'].map((name) => header.indexOf(name))
+  if (columns.some((index) => index < 0)) {
+    throw new Error('Exchange rate CSV needs the columns date, base, quote and rate')
+  }
+  const [dateIndex, baseIndex, quoteIndex, rateIndex] = columns
+
+  return lines.slice(1).map((line, index) => {
+    const cells = line.split(',').map((cell) => cell.trim())
+    const rate = parseFloat(cells[rateIndex])
+    const date = cells[dateIndex]
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date || '') || isNaN(rate) || rate <= 0) {
+      throw new Error(`Invalid exchange rate in row ${index + 1}: ${line}`)
+    }
+    return {
+      date,
+      base: cells[baseIndex].toUpperCase(),
+      quote: cells[quoteIndex].toUpperCase(),
+      rate,
+    }
+  })
+}
+
+/**
+ * Rates maintained by hand in a CSV file. A pair also answers its inverse
+ * (EUR→USD 1.1 gives USD→EUR 1/1.1).
+ */
+export class ManualExchangeRateProvider implements ExchangeRateProvider {
+  readonly name = 'manual'
+  readonly supportsHistory = true
+  private readonly rates: ManualExchangeRate[]
+
+  constructor(rates: ManualExchangeRate[]) {
+    // Oldest first, so later entries for the same pair win below
+    this.rates = [...rates].sort((a, b) => a.date.localeCompare(b.date))
+  }
+
+  static fromFile(filePath: string) {
+    return new ManualExchangeRateProvider(parseExchangeRateCsv(readFileSync(filePath, 'utf8')))
+  }
+
+  async getRates(base: string, date: Date): Promise<Record<string, number>> {
+    const day = date.toISOString().slice(0, 10)
+    const rates: Record<string, number> = {}
+
+    for (const entry of this.rates) {
+      if (entry.date > day) break
+      if (entry.base === base) {
+        rates[entry.quote] = entry.rate
+      } else if (entry.quote === base) {
+        rates[entry.base] = 1 / entry.rate
+      }
+    }
+
+    return rates
+  }
+}
@@ -0,0 +1,157 @@
+import { getPrismaClient } from '@/lib/prisma'
+import { roundMoney } from '@/lib/money'
+import { getExchangeRateProvider } from './index'
+
+export class ExchangeRateError extends Error {}
+
+export interface ExchangeRate {
+  rate: number
+  // Day the rate is for; older than requested when only an earlier rate is known
+  date: Date
+  source: string
+}
+
+// Calendar day of date (server time) as midnight UTC, the way @db.Date columns store it
+function toRateDay(date: Date) {
+  return new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()))
+}
+
+async function findStoredRate(from: string, to: string, day: Date, onOrBefore: boolean): Promise<ExchangeRate | null> {
+  const prisma = getPrismaClient()
+
+  // A pair is also usable inverted, e.g. a stored EUR→USD answers USD→EUR
+  const rates = await Promise.all(
+    [
+      { baseCurrency: from, quoteCurrency: to, inverse: false },
+      { baseCurrency: to, quoteCurrency: from, inverse: true },
+    ].map(async ({ baseCurrency, quoteCurrency, inverse }) => {
+      const stored = await prisma.exchangeRate.findFirst({
+        where: { baseCurrency, quoteCurrency, date: onOrBefore ? { lte: day } : day },
+        orderBy: { date: 'desc' },
+      })
+      if (!stored) return null
+      const rate = stored.rate.toNumber()
+      return { rate: inverse ? 1 / rate : rate, date: stored.date, source: stored.source }
+    })
+  )
+
+  const found = rates.filter((rate): rate is ExchangeRate => rate !== null)
+  found.sort((a, b) => b.date.getTime() - a.date.getTime())
+  return found[0] || null
+}
+
+// Provider requests in flight by base currency and day, so concurrent conversions
+// (e.g. a report converting every expense at once) share one request
+const pendingFetches = new Map<string, Promise<Record<string, number>>>()
+
+// Ask the provider for every rate of a base currency on one day and save them, so
+// later conversions for that day don't go back to the provider
+function fetchAndStoreRates(base: string, day: Date) {
+  const key = `${base}|${day.getTime()}`
+  let pending = pendingFetches.get(key)
+  if (!pending) {
+    pending = requestAndStoreRates(base, day).finally(() => pendingFetches.delete(key))
+    pendingFetches.set(key, pending)
+  }
+  return pending
+}
+
+async function requestAndStoreRates(base: string, day: Date) {
+  const provider = getExchangeRateProvider()
+  const rates = await provider.getRates(base, day)
+  const prisma = getPrismaClient()
+
+  const rows = Object.entries(rates)
+    .filter(([quote, rate]) => quote !== base && Number.isFinite(rate) && rate > 0)
+    .map(([quote, rate]) => ({
+      date: day,
+      baseCurrency: base,
+      quoteCurrency: quote,
+      rate: Number(rate.toPrecision(12)),
+      source: provider.name,
+    }))
+
+  if (rows.length > 0) {
+    await prisma.exchangeRate.createMany({ data: rows, skipDuplicates: true })
+  }
+
+  return rates
+}
+
+/**
+ * Rate to convert from → to on the given day (defaults to today).
+ *
+ * Saved rates for the day are used first. Otherwise the configured provider is asked
+ * and its answer saved. Providers without history are only asked about today; for
+ * older days the latest saved rate on or before that day is used, then the latest
+ * saved rate of any day, then today's rate.
+ */
+export async function getExchangeRate(from: string, to: string, date: Date = new Date()): Promise<ExchangeRate> {
+  const base = from.toUpperCase()
+  const quote = to.toUpperCase()
+  const today = toRateDay(new Date())
+  // No rates exist for the future yet
+  const day = new Date(Math.min(toRateDay(date).getTime(), today.getTime()))
+
+  if (base === quote) {
+    return { rate: 1, date: day, source: 'identity' }
+  }
+
+  const stored = await findStoredRate(base, quote, day, false)
+  if (stored) return stored
+
+  const isToday = day.getTime() === today.getTime()
+
+  try {
+    // Inside the try: a misconfigured provider (unknown name, broken manual rates file)
+    // falls back to saved rates and ends in an ExchangeRateError like any other failure
+    const provider = getExchangeRateProvider()
+    if (isToday || provider.supportsHistory) {
+      const rates = await fetchAndStoreRates(base, day)
+      if (rates[quote]) {
+        return { rate: rates[quote], date: day, source: provider.name }
+      }
+    } else {
+      const earlier = await findStoredRate(base, quote, day, true)
+      if (earlier) return earlier
+
+      // Then the latest saved rate of any day, so a past day without rates doesn't send
+      // every lookup back to the provider; today's rates are saved under today
+      const latest = await findStoredRate(base, quote, today, true)
+      if (latest) return latest
+
+      const rates = await fetchAndStoreRates(base, today)
+      if (rates[quote]) {
+        return { rate: rates[quote], date: today, source: provider.name }
+      }
+    }
+  } catch (error) {
+    console.error('Exchange rate provider error:', error)
+    // Fall through to the last saved rate, if there is one
+  }
+
+  const fallback = await findStoredRate(base, quote, day, true)
+  if (fallback) return fallback
+
+  throw new ExchangeRateError(`No exchange rate from ${base} to ${quote} is available`)
+}
+
+/**
+ * Converter into one currency for reports that add up amounts from several books.
+ * Rates are looked up once per currency and day. Throws ExchangeRateError when a
+ * rate is missing, so a report never silently mixes currencies.
+ */
+export function createCurrencyConverter(toCurrency: string) {
+  const rates = new Map<string, Promise<ExchangeRate>>()
+
+  return async (amount: number, fromCurrency: string, date: Date) => {
+    if (fromCurrency === toCurrency) return amount
+
+    const key = `${fromCurrency}|${toRateDay(date).getTime()}`
+    if (!rates.has(key)) {
+      rates.set(key, getExchangeRate(fromCurrency, toCurrency, date))
+    }
+    const { rate } = await rates.get(key)!
+    return roundMoney(amount * rate, toCurrency)
+  }
+}
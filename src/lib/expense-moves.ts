@@ -0,0 +1,76 @@
+import { roundMoney } from "@/lib/money"
+import { resolveExpenseAmount } from "@/lib/expense-validation"
+import { z } from "zod"
+
+// Moving expenses to a book kept in another currency converts their book-currency
+// amount; the amount as paid (and its currency) is kept.
+
+// How to convert: at the exchange rate of each expense's date, or at rates the user
+// enters, one per currency moved from (1 unit of it = rate units of the new book's)
+export const currencyConversionSchema = z.discriminatedUnion("mode", [
+  z.object({ mode: z.literal("daily") }),
+  z.object({ mode: z.literal("fixed"), rates: z.record(z.number().positive()) }),
+])
+
+export type CurrencyConversion = z.infer<typeof currencyConversionSchema>
+
+// Currencies of the books expenses move out of that need converting into `toCurrency`
+export function getConversionCurrencies(fromCurrencies: string[], toCurrency: string) {
+  return Array.from(new Set(fromCurrencies))
+    .filter((currency) => currency !== toCurrency)
+    .sort()
+}
+
+interface MovedExpense {
+  amount: number
+  originalAmount: number | null
+  originalCurrency: string | null
+  exchangeRate: number | null
+  date: Date
+}
+
+/**
+ * Amount columns for an expense moving from a book kept in `fromCurrency` to one kept in
+ * `toCurrency`, or an error when the conversion can't be made. Nothing changes when
+ * both books use the same currency.
+ */
+export async function getMovedAmountFields(
+  expense: MovedExpense,
+  fromCurrency: string,
+  toCurrency: string,
+  conversion: CurrencyConversion
+) {
+  if (fromCurrency === toCurrency) {
+    return { fields: {} }
+  }
+
+  // Expenses without an original currency were paid in the book currency
+  const paidCurrency = expense.originalCurrency || fromCurrency
+  const paidAmount = expense.originalCurrency && expense.originalAmount !== null ? expense.originalAmount : expense.amount
+
+  if (conversion.mode === "daily") {
+    return resolveExpenseAmount(paidAmount, paidCurrency, toCurrency, expense.date)
+  }
+
+  const rate = conversion.rates[fromCurrency]
+  if (!rate) {
+    return { error: `Enter the rate from ${fromCurrency} to ${toCurrency}` }
+  }
+
+  // 1 paidCurrency = exchangeRate toCurrency, going through the old book currency
+  let exchangeRate = 1
+  if (paidCurrency === fromCurrency) {
+    exchangeRate = Number(rate.toFixed(10))
+  } else if (paidCurrency !== toCurrency) {
+    exchangeRate = Number(((expense.exchangeRate ?? 1) * rate).toFixed(10))
+  }
+
+  return {
+    fields: {
+      amount: roundMoney(paidAmount * exchangeRate, toCurrency),
+      originalAmount: paidAmount,
+      originalCurrency: paidCurrency,
+      exchangeRate,
+    },
+  }
+}
@@ -0,0 +1,119 @@
+import { getPrismaClient } from "@/lib/prisma"
+import { canAccessBook } from "@/lib/book-access"
+import { roundMoney } from "@/lib/money"
+import { ExchangeRateError, getExchangeRate } from "@/lib/exchange-rates/service"
+import { z } from "zod"
+
+// Shape of an expense as submitted (FormData values or mapped import rows)
+export const expenseSchema = z.object({
+  amount: z.string().min(1, "Amount is required").transform((val) => parseFloat(val)),
+  date: z.string().min(1, "Date is required").transform((val) => new Date(val)),
+  description: z.string().optional(),
+  paymentMethod: z.string().optional(),
+  categoryId: z.string().min(1, "Category is required"),
+  // Currency the expense was paid in; the book currency when omitted
+  currency: z.string().length(3).optional(),
+})
+
+// Compare only the date part (year, month, day) to avoid timezone issues
+export function isFutureDate(date: Date, today: Date = new Date()) {
+  const todayDateOnly = new Date(today.getFullYear(), today.getMonth(), today.getDate())
+  const dateOnly = new Date(date.getFullYear(), date.getMonth(), date.getDate())
+  return dateOnly > todayDateOnly
+}
+
+// Business rules every new expense must pass, whether it comes from the
+// expense form or is generated by the recurring expense scheduler
+export async function validateNewExpense(
+  userId: string,
+  data: { amount: number; date: Date; categoryId: string }
+) {
+  const prisma = getPrismaClient()
+
+  // Verify the user may add expenses to the category's book
+  const category = await prisma.category.findUnique({
+    where: { id: data.categoryId },
+    include: { book: true },
+  })
+
+  if (!category) {
+    return { error: "Category not found" }
+  }
+
+  // Default categories don't have books, so they can't be used for expenses
+  if (!category.book) {
+    return { error: "Invalid category selected" }
+  }
+
+  if (!(await canAccessBook(userId, category.book, "add"))) {
+    return { error: "Category not found or access denied" }
+  }
+
+  if (category.book.isArchived) {
+    return { error: "Cannot create expenses for archived books" }
+  }
+
+  const valueError = getExpenseValueError(data)
+  if (valueError) {
+    return { error: valueError }
+  }
+
+  return { category: { ...category, book: category.book } }
+}
+
+// Amount/date rules that don't need the database, so bulk imports can
+// check many rows without a category lookup per row
+export function getExpenseValueError(data: { amount: number; date: Date }) {
+  // Validate amount is positive
+  if (isNaN(data.amount) || data.amount <= 0) {
+    return "Amount must be positive"
+  }
+
+  if (isNaN(data.date.getTime())) {
+    return "Invalid date"
+  }
+
+  // Validate date is not in the future
+  if (isFutureDate(data.date)) {
+    return "Expense date cannot be in the future"
+  }
+
+  return null
+}
+
+/**
+ * Amount columns for an expense paid in `currency` on a book kept in `bookCurrency`.
+ * The book-currency amount is derived from the original amount at the rate of the
+ * expense date, and the original amount, currency and rate are stored alongside it.
+ */
+export async function resolveExpenseAmount(
+  amount: number,
+  currency: string | undefined,
+  bookCurrency: string,
+  date: Date
+) {
+  const originalCurrency = (currency || bookCurrency).toUpperCase()
+  const originalAmount = roundMoney(amount, originalCurrency)
+
+  let exchangeRate = 1
+  if (originalCurrency !== bookCurrency) {
+    try {
+      // Rounded to the column's scale so amount can be recomputed from what is stored
+      exchangeRate = Number((await getExchangeRate(originalCurrency, bookCurrency, date)).rate.toFixed(10))
+    } catch (error) {
+      if (error instanceof ExchangeRateError) {
+        return { error: `${error.message}. Enter the amount in ${bookCurrency} instead.` }
+      }
+      throw error
+    }
+  }
+
+  return {
+    fields: {
+      amount: roundMoney(originalAmount * exchangeRate, bookCurrency),
+      originalAmount,
+      originalCurrency,
+      exchangeRate,
+    },
+  }
+}
@@ -0,0 +1,73 @@
+import type { RawImportRow } from "./rows"
+import { contentTransactionId, scopeExternalId, type ParsedStatement } from "./statement"
+
+// Text of the first <Tag>...</Tag> inside xml (namespace prefixes allowed)
+function readElement(xml: string, path: string[]): string | null {
+  let scope = xml
+  for (const tag of path) {
+    const match = scope.match(new RegExp(`<(?:\\w+:)?${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:\\w+:)?${tag}>`))
+    if (!match) return null
+    scope = match[1]
+  }
+  return decodeXml(scope.trim())
+}
+
+function readAttribute(xml: string, tag: string, attribute: string): string | null {
+  const match = xml.match(new RegExp(`<(?:\\w+:)?${tag}\\s[^>]*${attribute}="([^"]*)"`))
+  return match ? match[1] : null
+}
+
+function decodeXml(value: string) {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&")
+}
+
+/**
+ * ISO 20022 camt.053 (bank-to-customer statement). Each <Ntry> becomes a row;
+ * debits (CdtDbtInd DBIT) are returned as negative amounts.
+ */
+export function parseCamt053(text: string): ParsedStatement {
+  const account = readElement(text, ["Stmt", "Acct"]) || ""
+  const accountId = readElement(account, ["IBAN"]) || readElement(account, ["Othr", "Id"])
+  const currency = readElement(account, ["Ccy"])
+
+  const entries = text.match(/<(?:\w+:)?Ntry>[\s\S]*?<\/(?:\w+:)?Ntry>/g) || []
+  const occurrences = new Map<string, number>()
+
+  const rows: RawImportRow[] = entries.map((entry) => {
+    const amount = readElement(entry, ["Amt"]) || ""
+    const isDebit = readElement(entry, ["CdtDbtInd"]) === "DBIT"
+    const bookingDate = readElement(entry, ["BookgDt", "Dt"]) || readElement(entry, ["BookgDt", "DtTm"]) ||
+      readElement(entry, ["ValDt", "Dt"]) || ""
+
+    // Counterparty is the creditor for debits and the debtor for credits
+    const counterparty = isDebit
+      ? readElement(entry, ["RltdPties", "Cdtr", "Nm"]) || readElement(entry, ["RltdPties", "Cdtr", "Pty", "Nm"])
+      : readElement(entry, ["RltdPties", "Dbtr", "Nm"]) || readElement(entry, ["RltdPties", "Dbtr", "Pty", "Nm"])
+    const remittance = readElement(entry, ["RmtInf", "Ustrd"]) || readElement(entry, ["AddtlNtryInf"])
+
+    const transactionId = readElement(entry, ["AcctSvcrRef"]) ||
+      readElement(entry, ["NtryRef"]) ||
+      readElement(entry, ["Refs", "EndToEndId"]) ||
+      contentTransactionId(occurrences, bookingDate, `${isDebit ? "-" : ""}${amount}`, counterparty || "")
+
+    return {
+      amount: amount ? `${isDebit ? "-" : ""}${amount}` : "",
+      date: bookingDate.slice(0, 10),
+      description: [counterparty, remittance].filter(Boolean).join(" - ") || undefined,
+      externalId: scopeExternalId(accountId, transactionId),
+    }
+  })
+
+  return {
+    format: "camt053",
+    accountId,
+    currency: currency || (entries[0] ? readAttribute(entries[0], "Amt", "Ccy") : null),
+    dateFormat: "YYYY-MM-DD",
+    rows,
+  }
+}
@@ -0,0 +1,62 @@
+import type { RawImportRow } from "./rows"
+import { contentTransactionId, scopeExternalId, type ParsedStatement } from "./statement"
+
+// OFX transaction types that map onto our payment methods
+const OFX_PAYMENT_METHODS: Record<string, string> = {
+  ATM: "Cash",
+  CASH: "Cash",
+  XFER: "Wire Transfer",
+  DIRECTDEBIT: "Wire Transfer",
+  PAYMENT: "Wire Transfer",
+  POS: "Credit Card",
+  CHECK: "Other",
+}
+
+// Read "<TAG>value" from OFX 1.x SGML (no closing tags) or OFX 2.x XML
+function readTag(block: string, tag: string): string | null {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"))
+  return match ? decodeEntities(match[1].trim()) : null
+}
+
+function decodeEntities(value: string) {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&")
+}
+
+// 20240131120000.000[-5:EST] -> 2024-01-31
+function toIsoDate(value: string | null) {
+  if (!value || !/^\d{8}/.test(value)) return value || ""
+  return `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}`
+}
+
+export function parseOfx(text: string): ParsedStatement {
+  const accountId = readTag(text, "ACCTID")
+  const currency = readTag(text, "CURDEF")
+
+  const blocks = text.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) || []
+  const occurrences = new Map<string, number>()
+
+  const rows: RawImportRow[] = blocks.map((block) => {
+    const type = (readTag(block, "TRNTYPE") || "").toUpperCase()
+    const name = readTag(block, "NAME") || readTag(block, "PAYEE")
+    const memo = readTag(block, "MEMO")
+    const amount = readTag(block, "TRNAMT") || ""
+    const date = toIsoDate(readTag(block, "DTPOSTED"))
+    const transactionId = readTag(block, "FITID") || readTag(block, "CHECKNUM") ||
+      contentTransactionId(occurrences, date, amount, name || "")
+
+    return {
+      amount,
+      date,
+      description: [name, memo].filter(Boolean).join(" - ") || undefined,
+      paymentMethod: OFX_PAYMENT_METHODS[type],
+      externalId: scopeExternalId(accountId, transactionId),
+    }
+  })
+
+  return { format: "ofx", accountId, currency, dateFormat: "YYYY-MM-DD", rows }
+}
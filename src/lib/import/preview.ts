@@ -0,0 +1,205 @@
+import { getPrismaClient } from "@/lib/prisma"
+import { expenseSchema, getExpenseValueError } from "@/lib/expense-validation"
+import { roundMoney, toMoneyString } from "@/lib/money"
+import { findMatchingRule, getRuleTagNames, loadCategoryRules } from "@/lib/category-rules"
+import { normalizeAmount, normalizeDate, type ImportOptions, type RawImportRow } from "./rows"
+
+export interface ImportPreviewRow {
+  index: number
+  amount: number | null
+  date: Date | null
+  description: string | null
+  paymentMethod: string
+  categoryId: string | null
+  categoryName: string | null
+  // Categorisation rule that picked the category or added tags
+  ruleName: string | null
+  // Tag names the rule adds
+  tags: string[]
+  externalId: string | null
+  errors: string[]
+  // Reason the row is left out entirely (e.g. a credit in a bank export)
+  skipReason: string | null
+  // Set when an expense with the same amount on the same day already exists
+  duplicateOf: { id: string; description: string | null } | null
+  // Set when an earlier row in the same file has the same amount and day (rows without an externalId)
+  duplicateOfRow: number | null
+}
+
+// Calendar day in server time, matching how isFutureDate compares dates
+function dayKey(date: Date) {
+  return `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`
+}
+
+function duplicateKey(amount: number, date: Date, currency: string) {
+  return `${toMoneyString(amount, currency)}|${dayKey(date)}`
+}
+
+/**
+ * Validate mapped rows against a book with the same rules as the expense form,
+ * resolve categories by name or the book's categorisation rules and flag likely duplicates.
+ * The caller must already have checked that the user may write to the book.
+ */
+export async function buildImportPreview(
+  bookId: string,
+  rows: RawImportRow[],
+  options: ImportOptions
+): Promise<ImportPreviewRow[]> {
+  const prisma = getPrismaClient()
+
+  const book = await prisma.book.findUnique({
+    where: { id: bookId },
+    select: { currency: true },
+  })
+  const currency = book?.currency || "USD"
+
+  const categories = await prisma.category.findMany({
+    where: { bookId, isDisabled: false },
+    select: { id: true, name: true },
+  })
+  const categoriesByName = new Map(categories.map((category) => [category.name.trim().toLowerCase(), category]))
+  const categoriesById = new Map(categories.map((category) => [category.id, category]))
+  const defaultCategory = categories.find((category) => category.id === options.defaultCategoryId) || null
+  const rules = await loadCategoryRules(prisma, bookId)
+
+  const preview: ImportPreviewRow[] = rows.map((row, index) => {
+    const errors: string[] = []
+    let skipReason: string | null = null
+
+    let amountValue = normalizeAmount(row.amount || "")
+    if (options.negativeIsExpense && amountValue) {
+      if (amountValue.startsWith("-")) {
+        amountValue = amountValue.slice(1)
+      } else {
+        skipReason = "Incoming payment (not an expense)"
+      }
+    }
+
+    const paymentMethod = row.paymentMethod?.trim() || options.defaultPaymentMethod || "Cash"
+
+    // A category named in the file wins, then the book's rules, then the default category
+    const categoryName = row.category?.trim()
+    const namedCategory = categoryName ? categoriesByName.get(categoryName.toLowerCase()) : undefined
+    const rule = findMatchingRule(rules, {
+      description: row.description,
+      amount: parseFloat(amountValue),
+      paymentMethod,
+    })
+    const category = namedCategory || (rule && categoriesById.get(rule.categoryId)) || defaultCategory
+    if (!category) {
+      errors.push(categoryName ? `Unknown category "${categoryName}"` : "Category is required")
+    }
+    const appliedRule = rule && rule.categoryId === category?.id ? rule : null
+
+    const validatedFields = expenseSchema.safeParse({
+      amount: amountValue,
+      date: row.date ? normalizeDate(row.date, options.dateFormat) : "",
+      description: row.description?.trim() || undefined,
+      paymentMethod,
+      categoryId: category?.id || "",
+    })
+
+    let amount: number | null = null
+    let date: Date | null = null
+    if (validatedFields.success) {
+      const valueError = getExpenseValueError(validatedFields.data)
+      if (valueError) {
+        errors.push(valueError)
+      } else {
+        amount = roundMoney(validatedFields.data.amount, currency)
+        date = validatedFields.data.date
+      }
+    } else {
+      validatedFields.error.issues
+        .filter((issue) => issue.path[0] !== "categoryId")
+        .forEach((issue) => errors.push(issue.message))
+    }
+
+    return {
+      index,
+      amount,
+      date,
+      description: row.description?.trim() || null,
+      paymentMethod,
+      categoryId: category?.id || null,
+      categoryName: category?.name || null,
+      ruleName: appliedRule?.name || null,
+      tags: appliedRule ? getRuleTagNames(appliedRule) : [],
+      externalId: row.externalId?.trim() || null,
+      errors: skipReason ? [] : errors,
+      skipReason,
+      duplicateOf: null,
+      duplicateOfRow: null,
+    }
+  })
+
+  // Rows with a bank transaction ID that is already in the book (or earlier in the file)
+  // are skipped outright, so re-importing an overlapping statement never double-creates
+  const externalIds = preview.map((row) => row.externalId).filter((id): id is string => !!id)
+  if (externalIds.length > 0) {
+    const imported = await prisma.expense.findMany({
+      where: {
+        category: { bookId },
+        externalId: { in: externalIds },
+      },
+      select: { externalId: true },
+    })
+    const importedIds = new Set(imported.map((expense) => expense.externalId))
+    const seenIds = new Set<string>()
+
+    for (const row of preview) {
+      if (!row.externalId || row.skipReason) continue
+      if (importedIds.has(row.externalId)) {
+        row.skipReason = "Already imported"
+        row.errors = []
+      } else if (seenIds.has(row.externalId)) {
+        row.skipReason = "Repeated in this file"
+        row.errors = []
+      }
+      seenIds.add(row.externalId)
+    }
+  }
+
+  // Flag likely duplicates: same amount on the same day, in the book or earlier in the file
+  const datedRows = preview.filter((row) => row.amount !== null && row.date !== null && !row.skipReason)
+  if (datedRows.length > 0) {
+    const times = datedRows.map((row) => row.date!.getTime())
+    const rangeStart = new Date(Math.min(...times))
+    rangeStart.setHours(0, 0, 0, 0)
+    const rangeEnd = new Date(Math.max(...times))
+    rangeEnd.setHours(23, 59, 59, 999)
+
+    const existing = await prisma.expense.findMany({
+      where: {
+        category: { bookId },
+        date: { gte: rangeStart, lte: rangeEnd },
+      },
+      select: { id: true, amount: true, date: true, description: true, externalId: true },
+    })
+    const existingByKey = new Map(existing.map((expense) => [duplicateKey(expense.amount, expense.date, currency), expense]))
+    // A bank transaction ID already tells distinct transactions apart, so rows that have
+    // one are only compared with expenses entered by hand
+    const manualByKey = new Map(
+      existing
+        .filter((expense) => !expense.externalId)
+        .map((expense) => [duplicateKey(expense.amount, expense.date, currency), expense])
+    )
+
+    const seenInFile = new Map<string, number>()
+    for (const row of datedRows) {
+      const key = duplicateKey(row.amount!, row.date!, currency)
+      const match = (row.externalId ? manualByKey : existingByKey).get(key)
+      if (match) {
+        row.duplicateOf = { id: match.id, description: match.description }
+      }
+      if (row.externalId) continue
+      if (seenInFile.has(key)) {
+        row.duplicateOfRow = seenInFile.get(key)!
+      } else {
+        seenInFile.set(key, row.index)
+      }
+    }
+  }
+
+  return preview
+}
@@ -0,0 +1,69 @@
+import type { RawImportRow } from "./rows"
+import { contentTransactionId, scopeExternalId, type ParsedStatement } from "./statement"
+
+/**
+ * QIF has no transaction ID, so each transaction gets a deterministic ID from its
+ * date, amount, payee and how many identical ones came before it. Re-importing an
+ * overlapping export then yields the same IDs.
+ *
+ * IDs are scoped by the account named in an !Account block, or else by `accountId`
+ * (which the import dialog asks for), so identical transactions of two accounts don't
+ * collide. A file without either is left unscoped and needs an account before import.
+ */
+export function parseQif(text: string, accountId?: string): ParsedStatement {
+  const rows: RawImportRow[] = []
+  const occurrences = new Map<string, number>()
+
+  let record: Record<string, string> = {}
+  let inAccountBlock = false
+  let currentAccount: string | null = null
+  let fileAccount: string | null = null
+
+  const flush = () => {
+    if (inAccountBlock) {
+      // "!Account" is followed by records of an account's name (N) and type, each ending
+      // in "^", until the next "!" line
+      if (record.N) {
+        currentAccount = record.N
+        fileAccount = fileAccount ?? record.N
+      }
+    } else if (record.D || record.T || record.U) {
+      const date = (record.D || "").replace(/'/g, "/").replace(/\s+/g, "")
+      const amount = record.T || record.U || ""
+      const transactionId = record.N && /^\d+$/.test(record.N)
+        ? `check-${record.N}`
+        : contentTransactionId(occurrences, date, amount, record.P || "")
+
+      rows.push({
+        amount,
+        date,
+        description: [record.P, record.M].filter(Boolean).join(" - ") || undefined,
+        category: record.L && !record.L.startsWith("[") ? record.L.split(":")[0] : undefined,
+        externalId: scopeExternalId(`qif-${currentAccount || accountId || ""}`, transactionId),
+      })
+    }
+    record = {}
+  }
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim()
+    if (!line) continue
+    if (line.startsWith("!")) {
+      inAccountBlock = /^!Account/i.test(line)
+      continue
+    }
+    if (line === "^") {
+      flush()
+      continue
+    }
+    const code = line[0]
+    // Split lines (S/E/$) repeat per split; keep the first value of each code
+    if (!(code in record)) {
+      record[code] = line.slice(1).trim()
+    }
+  }
+  flush()
+
+  // US-style dates are by far the most common in QIF; the wizard lets the user change it
+  return { format: "qif", accountId: fileAccount || accountId || null, currency: null, dateFormat: "MM/DD/YYYY", rows }
+}
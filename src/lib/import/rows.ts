@@ -0,0 +1,109 @@
+// Import row model shared by the import wizard (client) and the import actions (server)
+
+export const IMPORT_FIELDS = ["amount", "date", "description", "paymentMethod", "category", "externalId"] as const
+export type ImportField = (typeof IMPORT_FIELDS)[number]
+
+export const IMPORT_DATE_FORMATS = ["YYYY-MM-DD", "DD/MM/YYYY", "MM/DD/YYYY", "DD.MM.YYYY"] as const
+export type ImportDateFormat = (typeof IMPORT_DATE_FORMATS)[number]
+
+export const MAX_IMPORT_ROWS = 2000
+
+/**
+ * One row as read from the source file, already mapped to expense fields.
+ * Values are still raw strings; buildImportPreview normalises and validates them.
+ */
+export interface RawImportRow {
+  amount: string
+  date: string
+  description?: string
+  paymentMethod?: string
+  category?: string
+  // Bank transaction ID; rows whose ID was already imported into the book are skipped
+  externalId?: string
+}
+
+export interface ImportOptions {
+  dateFormat: ImportDateFormat
+  // Bank exports usually show money going out as negative numbers
+  negativeIsExpense: boolean
+  defaultCategoryId?: string
+  defaultPaymentMethod?: string
+  // Account the statement belongs to (IBAN / OFX account ID), remembered per book
+  statementAccountId?: string
+}
+
+/**
+ * Build raw rows from parsed CSV cells using a field -> column index mapping.
+ */
+export function mapCsvRows(
+  rows: string[][],
+  mapping: Partial<Record<ImportField, number>>
+): RawImportRow[] {
+  const cell = (row: string[], field: ImportField) => {
+    const index = mapping[field]
+    return index === undefined ? undefined : row[index]
+  }
+
+  return rows.map((row) => ({
+    amount: cell(row, "amount") || "",
+    date: cell(row, "date") || "",
+    description: cell(row, "description"),
+    paymentMethod: cell(row, "paymentMethod"),
+    category: cell(row, "category"),
+    externalId: cell(row, "externalId") || undefined,
+  }))
+}
+
+/**
+ * Turn "1.234,56 €", "(45.00)" or "-$1,200.00" into a plain signed number string.
+ */
+export function normalizeAmount(value: string): string {
+  let cleaned = value.trim().replace(/[^\d,.\-()]/g, "")
+  const negative = cleaned.startsWith("-") || (cleaned.startsWith("(") && cleaned.endsWith(")"))
+  cleaned = cleaned.replace(/[-()]/g, "")
+
+  const lastComma = cleaned.lastIndexOf(",")
+  const lastDot = cleaned.lastIndexOf(".")
+  if (lastDot === -1 && /^\d{1,3}(,\d{3})+$/.test(cleaned)) {
+    // Only thousands separators ("1,234")
+    cleaned = cleaned.replace(/,/g, "")
+  } else if (lastComma > lastDot) {
+    // Comma is the decimal separator ("1.234,56")
+    cleaned = cleaned.replace(/\./g, "").replace(",", ".")
+  } else {
+    cleaned = cleaned.replace(/,/g, "")
+  }
+
+  return cleaned ? `${negative ? "-" : ""}${cleaned}` : ""
+}
+
+/**
+ * Convert a date in the given format to the "YYYY-MM-DDTHH:mm" form the expense
+ * forms submit. Returns the input unchanged if it doesn't match, so validation reports it.
+ */
+export function normalizeDate(value: string, format: ImportDateFormat): string {
+  const trimmed = value.trim()
+  const parts = trimmed.split(/[\s T]/)[0].split(/[-/.]/)
+  if (parts.length !== 3) return trimmed
+
+  let year: string, month: string, day: string
+  switch (format) {
+    case "YYYY-MM-DD":
+      ;[year, month, day] = parts
+      break
+    case "DD/MM/YYYY":
+    case "DD.MM.YYYY":
+      ;[day, month, year] = parts
+      break
+    case "MM/DD/YYYY":
+      ;[month, day, year] = parts
+      break
+  }
+
+  if (year.length === 2) year = `20${year}`
+  if (!/^\d{4}$/.test(year) || !/^\d{1,2}$/.test(month) || !/^\d{1,2}$/.test(day)) {
+    return trimmed
+  }
+
+  return `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}T00:00`
+}
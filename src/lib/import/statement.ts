@@ -0,0 +1,68 @@
+import type { ImportDateFormat, RawImportRow } from "./rows"
+import { parseOfx } from "./ofx"
+import { parseQif } from "./qif"
+import { parseCamt053 } from "./camt"
+
+export type StatementFormat = "ofx" | "qif" | "camt053"
+
+/**
+ * A parsed bank statement. Amounts are signed (money out is negative) and every
+ * row carries an externalId, so statements always import with negativeIsExpense.
+ */
+export interface ParsedStatement {
+  format: StatementFormat
+  accountId: string | null
+  currency: string | null
+  dateFormat: ImportDateFormat
+  rows: RawImportRow[]
+}
+
+export const STATEMENT_FORMAT_LABELS: Record<StatementFormat, string> = {
+  ofx: "OFX",
+  qif: "QIF",
+  camt053: "CAMT.053",
+}
+
+/**
+ * Work out which statement format a file is in; null means treat it as CSV.
+ */
+export function detectStatementFormat(fileName: string, text: string): StatementFormat | null {
+  const extension = fileName.toLowerCase().split(".").pop()
+  const head = text.slice(0, 2000)
+
+  if (extension === "ofx" || extension === "qfx" || /<OFX>|OFXHEADER/i.test(head)) return "ofx"
+  if (extension === "qif" || /^\s*!Type:/im.test(head)) return "qif"
+  if (/camt\.053/i.test(head) || (extension === "xml" && /<BkToCstmrStmt>/.test(text))) return "camt053"
+  return null
+}
+
+// `qifAccountId` names the account of a QIF file that doesn't name it itself
+export function parseStatement(format: StatementFormat, text: string, qifAccountId?: string): ParsedStatement {
+  switch (format) {
+    case "ofx":
+      return parseOfx(text)
+    case "qif":
+      return parseQif(text, qifAccountId)
+    case "camt053":
+      return parseCamt053(text)
+  }
+}
+
+/**
+ * A deterministic ID for a transaction the bank gave none: its date, amount, payee and
+ * how many identical ones came before it in the file (counted in `occurrences`).
+ * Re-importing an overlapping or reordered export then yields the same IDs.
+ */
+export function contentTransactionId(occurrences: Map<string, number>, date: string, amount: string, payee: string) {
+  const key = `${date}|${amount}|${payee}`
+  const occurrence = (occurrences.get(key) || 0) + 1
+  occurrences.set(key, occurrence)
+  return `${key}|${occurrence}`
+}
+
+/**
+ * Bank transaction IDs are only unique per account, so prefix them with it.
+ */
+export function scopeExternalId(accountId: string | null, transactionId: string) {
+  return `${accountId || "unknown"}:${transactionId}`.slice(0, 191)
+}
@@ -0,0 +1,82 @@
+// Money helpers. Amounts are stored as DECIMAL(19, 4) and handed to the app as numbers.
+// Writes are rounded to the currency's precision (JPY has no decimals, KWD/BHD/OMR have
+// three) and sums are done in integer units of the column scale, so totals don't drift
+// the way plain float addition does (0.1 + 0.2).
+
+// Decimal places of the money columns in prisma/schema.prisma
+const MONEY_SCALE = 4
+
+const DEFAULT_DECIMALS = 2
+
+const decimalsCache = new Map<string, number>()
+
+/**
+ * Number of minor-unit digits for an ISO 4217 currency (USD 2, JPY 0, KWD 3).
+ */
+export function getCurrencyDecimals(currency: string) {
+  const code = currency.toUpperCase()
+  const cached = decimalsCache.get(code)
+  if (cached !== undefined) return cached
+
+  let decimals = DEFAULT_DECIMALS
+  try {
+    decimals = new Intl.NumberFormat("en-US", { style: "currency", currency: code }).resolvedOptions().maximumFractionDigits
+  } catch (error) {
+    // Unknown code: keep the default
+  }
+  decimalsCache.set(code, decimals)
+  return decimals
+}
+
+// amount × 10^decimals as an integer, rounding half away from zero once float noise
+// is removed (1.005 → 101, not 100)
+function toUnits(amount: number, decimals: number) {
+  const scaled = Number((amount * 10 ** decimals).toPrecision(15))
+  return Math.sign(scaled) * Math.round(Math.abs(scaled))
+}
+
+/**
+ * Round an amount to the precision of its currency. Every amount is rounded with this
+ * before it is stored.
+ */
+export function roundMoney(amount: number, currency: string) {
+  const decimals = getCurrencyDecimals(currency)
+  return toUnits(amount, decimals) / 10 ** decimals
+}
+
+/**
+ * Exact sum of stored amounts.
+ */
+export function sumMoney(amounts: number[]) {
+  return amounts.reduce((sum, amount) => sum + toUnits(amount, MONEY_SCALE), 0) / 10 ** MONEY_SCALE
+}
+
+/**
+ * Exact a + b for running totals.
+ */
+export function addMoney(a: number, b: number) {
+  return (toUnits(a, MONEY_SCALE) + toUnits(b, MONEY_SCALE)) / 10 ** MONEY_SCALE
+}
+
+/**
+ * Exact a - b.
+ */
+export function subtractMoney(a: number, b: number) {
+  return (toUnits(a, MONEY_SCALE) - toUnits(b, MONEY_SCALE)) / 10 ** MONEY_SCALE
+}
+
+/**
+ * Plain decimal string with the currency's number of digits ("12.50", "1200"), for CSV
+ * cells and SQL literals.
+ */
+export function toMoneyString(amount: number, currency: string) {
+  return roundMoney(amount, currency).toFixed(getCurrencyDecimals(currency))
+}
+
+/**
+ * step attribute for an amount input in this currency ("0.01", "1" for JPY, "0.001" for KWD).
+ */
+export function getAmountStep(currency: string) {
+  const decimals = getCurrencyDecimals(currency)
+  return decimals > 0 ? `0.${"0".repeat(decimals - 1)}1` : "1"
+}
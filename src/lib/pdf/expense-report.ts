@@ -0,0 +1,223 @@
+import { formatCurrency } from "@/lib/utils"
+import { getCurrencyDecimals, roundMoney } from "@/lib/money"
+import { PdfDocument, isWinAnsiText, type PdfColor } from "./pdf-document"
+
+export interface ExpenseReportPdfInput {
+  bookName: string
+  currency: string
+  startDate?: string
+  endDate?: string
+  totalAmount: number
+  // Top-level categories, with the sub-category totals rolled up into them
+  categories: { name: string; total: number; count: number; children?: { name: string; total: number; count: number }[] }[]
+  expenses: {
+    date: Date
+    description: string | null
+    paymentMethod: string
+    amount: number
+    category: { name: string; parent?: { name: string } | null }
+  }[]
+}
+
+const MARGIN = 40
+const FOOTER_HEIGHT = 30
+
+const BLUE: PdfColor = [0.15, 0.39, 0.92]
+const DARK: PdfColor = [0.07, 0.09, 0.15]
+const MUTED: PdfColor = [0.42, 0.45, 0.5]
+const BORDER: PdfColor = [0.9, 0.91, 0.92]
+const STRIPE: PdfColor = [0.98, 0.98, 0.98]
+const WHITE: PdfColor = [1, 1, 1]
+
+// Bar colours for the category chart (Tailwind 500 shades)
+const CHART_COLORS: PdfColor[] = [
+  [0.23, 0.51, 0.96],
+  [0.06, 0.73, 0.51],
+  [0.96, 0.62, 0.04],
+  [0.94, 0.27, 0.27],
+  [0.55, 0.36, 0.96],
+  [0.93, 0.29, 0.6],
+  [0.08, 0.72, 0.65],
+  [0.39, 0.4, 0.95],
+]
+
+// Currency symbols the standard PDF fonts can't draw (e.g. ₹) fall back to the ISO code
+function formatMoney(amount: number, currency: string) {
+  const formatted = formatCurrency(amount, currency)
+  if (isWinAnsiText(formatted)) return formatted
+  const decimals = getCurrencyDecimals(currency)
+  return `${roundMoney(amount, currency).toLocaleString("en-US", { minimumFractionDigits: decimals, maximumFractionDigits: decimals })} ${currency}`
+}
+
+function formatDay(date: Date | string) {
+  return new Intl.DateTimeFormat("en-US", { year: "numeric", month: "short", day: "numeric" }).format(new Date(date))
+}
+
+function periodLabel(startDate?: string, endDate?: string) {
+  if (startDate && endDate) return `${formatDay(startDate)} – ${formatDay(endDate)}`
+  if (startDate) return `From ${formatDay(startDate)}`
+  if (endDate) return `Until ${formatDay(endDate)}`
+  return "All dates"
+}
+
+/**
+ * Render a detailed report as a PDF: header, totals, category breakdown table,
+ * a bar chart per category and the itemised expense list, paginated with footers.
+ */
+export function renderExpenseReportPdf(report: ExpenseReportPdfInput): Buffer {
+  const doc = new PdfDocument()
+  const contentWidth = doc.width - MARGIN * 2
+  const pageBottom = doc.height - MARGIN - FOOTER_HEIGHT
+  let y = MARGIN
+
+  // Start a new page when the next block of the given height would not fit
+  const ensureSpace = (height: number) => {
+    if (y + height > pageBottom) {
+      doc.addPage()
+      y = MARGIN
+      return true
+    }
+    return false
+  }
+
+  const sectionTitle = (title: string) => {
+    ensureSpace(40)
+    doc.text(title, MARGIN, y, { size: 13, bold: true, color: DARK })
+    y += 22
+  }
+
+  doc.addPage()
+
+  // Header
+  doc.rect(0, 0, doc.width, 86, { fill: BLUE })
+  doc.text("Expense Report", MARGIN, 22, { size: 20, bold: true, color: WHITE })
+  doc.text(doc.fitText(`${report.bookName} (${report.currency})`, contentWidth - 150, 12), MARGIN, 52, { size: 12, color: WHITE })
+  doc.text(`Generated ${formatDay(new Date())}`, doc.width - MARGIN, 26, { size: 9, color: WHITE, align: "right" })
+  doc.text(periodLabel(report.startDate, report.endDate), doc.width - MARGIN, 54, { size: 9, color: WHITE, align: "right" })
+  y = 110
+
+  // Totals
+  const count = report.expenses.length
+  const totals = [
+    { label: "Total Spent", value: formatMoney(report.totalAmount, report.currency) },
+    { label: "Expenses", value: String(count) },
+    { label: "Average per Expense", value: formatMoney(count > 0 ? report.totalAmount / count : 0, report.currency) },
+  ]
+  const boxWidth = (contentWidth - 20) / totals.length
+  totals.forEach((total, index) => {
+    const x = MARGIN + index * (boxWidth + 10)
+    doc.rect(x, y, boxWidth, 52, { fill: STRIPE, stroke: BORDER })
+    doc.text(total.label, x + 10, y + 10, { size: 9, color: MUTED })
+    doc.text(doc.fitText(total.value, boxWidth - 20, 15, true), x + 10, y + 26, { size: 15, bold: true, color: DARK })
+  })
+  y += 76
+
+  // Category breakdown table
+  sectionTitle("Category Breakdown")
+  const breakdownColumns = [
+    { label: "Category", x: MARGIN + 8, align: "left" as const },
+    { label: "Expenses", x: MARGIN + contentWidth * 0.55, align: "right" as const },
+    { label: "Total", x: MARGIN + contentWidth * 0.8, align: "right" as const },
+    { label: "Share", x: MARGIN + contentWidth - 8, align: "right" as const },
+  ]
+  doc.rect(MARGIN, y, contentWidth, 20, { fill: BORDER })
+  breakdownColumns.forEach((column) => doc.text(column.label, column.x, y + 6, { size: 9, bold: true, align: column.align }))
+  y += 20
+
+  if (report.categories.length === 0) {
+    doc.text("No expenses in this period", MARGIN + 8, y + 6, { size: 9, color: MUTED })
+    y += 20
+  }
+  report.categories.forEach((category, index) => {
+    ensureSpace(18)
+    if (index % 2 === 1) doc.rect(MARGIN, y, contentWidth, 18, { fill: STRIPE })
+    const share = report.totalAmount > 0 ? (category.total / report.totalAmount) * 100 : 0
+    doc.text(doc.fitText(category.name, contentWidth * 0.45, 9), breakdownColumns[0].x, y + 5, { size: 9 })
+    doc.text(String(category.count), breakdownColumns[1].x, y + 5, { size: 9, align: "right" })
+    doc.text(formatMoney(category.total, report.currency), breakdownColumns[2].x, y + 5, { size: 9, align: "right" })
+    doc.text(`${share.toFixed(1)}%`, breakdownColumns[3].x, y + 5, { size: 9, align: "right" })
+    y += 18
+
+    // Sub-categories indented under their parent, in the parent's stripe
+    category.children?.forEach((child) => {
+      ensureSpace(16)
+      if (index % 2 === 1) doc.rect(MARGIN, y, contentWidth, 16, { fill: STRIPE })
+      doc.text(doc.fitText(child.name, contentWidth * 0.45 - 12, 8), breakdownColumns[0].x + 12, y + 4, { size: 8, color: MUTED })
+      doc.text(String(child.count), breakdownColumns[1].x, y + 4, { size: 8, color: MUTED, align: "right" })
+      doc.text(formatMoney(child.total, report.currency), breakdownColumns[2].x, y + 4, { size: 8, color: MUTED, align: "right" })
+      y += 16
+    })
+  })
+  doc.line(MARGIN, y, MARGIN + contentWidth, y, { color: BORDER })
+  y += 24
+
+  // Per-category bar chart
+  if (report.categories.length > 0) {
+    sectionTitle("Spending by Category")
+    const labelWidth = 130
+    const valueWidth = 90
+    const barArea = contentWidth - labelWidth - valueWidth - 16
+    const maxTotal = Math.max(...report.categories.map((category) => category.total))
+
+    report.categories.forEach((category, index) => {
+      ensureSpace(20)
+      const barWidth = maxTotal > 0 ? Math.max((category.total / maxTotal) * barArea, 1) : 1
+      doc.text(doc.fitText(category.name, labelWidth - 8, 9), MARGIN, y + 4, { size: 9, color: DARK })
+      doc.rect(MARGIN + labelWidth, y + 2, barWidth, 12, { fill: CHART_COLORS[index % CHART_COLORS.length] })
+      doc.text(formatMoney(category.total, report.currency), MARGIN + labelWidth + barWidth + 6, y + 4, { size: 8, color: MUTED })
+      y += 20
+    })
+    y += 14
+  }
+
+  // Itemised expense list, repeating the column header on every page
+  sectionTitle("Expenses")
+  const expenseColumns = [
+    { label: "Date", x: MARGIN + 6, width: 70, align: "left" as const },
+    { label: "Description", x: MARGIN + 80, width: 190, align: "left" as const },
+    { label: "Category", x: MARGIN + 276, width: 100, align: "left" as const },
+    { label: "Payment", x: MARGIN + 380, width: 60, align: "left" as const },
+    { label: "Amount", x: MARGIN + contentWidth - 6, width: 70, align: "right" as const },
+  ]
+  const expenseHeader = () => {
+    doc.rect(MARGIN, y, contentWidth, 20, { fill: BORDER })
+    expenseColumns.forEach((column) => doc.text(column.label, column.x, y + 6, { size: 9, bold: true, align: column.align }))
+    y += 20
+  }
+  expenseHeader()
+
+  if (report.expenses.length === 0) {
+    doc.text("No expenses in this period", MARGIN + 6, y + 6, { size: 9, color: MUTED })
+    y += 20
+  }
+  report.expenses.forEach((expense, index) => {
+    if (ensureSpace(16)) expenseHeader()
+    if (index % 2 === 1) doc.rect(MARGIN, y, contentWidth, 16, { fill: STRIPE })
+    const cells = [
+      formatDay(expense.date),
+      expense.description || "-",
+      expense.category.parent ? `${expense.category.parent.name} › ${expense.category.name}` : expense.category.name,
+      expense.paymentMethod,
+      formatMoney(expense.amount, report.currency),
+    ]
+    expenseColumns.forEach((column, columnIndex) => {
+      doc.text(doc.fitText(cells[columnIndex], column.width, 8), column.x, y + 4, { size: 8, align: column.align })
+    })
+    y += 16
+  })
+  doc.line(MARGIN, y, MARGIN + contentWidth, y, { color: BORDER })
+  ensureSpace(20)
+  doc.text("Total", MARGIN + 6, y + 6, { size: 9, bold: true })
+  doc.text(formatMoney(report.totalAmount, report.currency), MARGIN + contentWidth - 6, y + 6, { size: 9, bold: true, align: "right" })
+
+  // Footers once the page count is known
+  for (let page = 0; page < doc.pageCount; page++) {
+    doc.goToPage(page)
+    const footerY = doc.height - MARGIN
+    doc.line(MARGIN, footerY - 8, MARGIN + contentWidth, footerY - 8, { color: BORDER })
+    doc.text(doc.fitText(report.bookName, contentWidth - 100, 8), MARGIN, footerY, { size: 8, color: MUTED })
+    doc.text(`Page ${page + 1} of ${doc.pageCount}`, doc.width - MARGIN, footerY, { size: 8, color: MUTED, align: "right" })
+  }
+
+  return doc.toBuffer()
+}
@@ -0,0 +1,173 @@
+import { DEFAULT_WIDTH, HELVETICA_BOLD_WIDTHS, HELVETICA_WIDTHS } from "./font-metrics"
+
+export type PdfColor = [number, number, number]
+
+interface TextOptions {
+  size?: number
+  bold?: boolean
+  color?: PdfColor
+  align?: "left" | "right" | "center"
+}
+
+interface ShapeOptions {
+  fill?: PdfColor
+  stroke?: PdfColor
+  lineWidth?: number
+}
+
+// Characters outside Latin-1 that WinAnsiEncoding still covers
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "€": 0x80, "‚": 0x82, "ƒ": 0x83, "„": 0x84, "…": 0x85, "†": 0x86, "‡": 0x87,
+  "ˆ": 0x88, "‰": 0x89, "Š": 0x8a, "‹": 0x8b, "Œ": 0x8c, "Ž": 0x8e, "‘": 0x91,
+  "’": 0x92, "“": 0x93, "”": 0x94, "•": 0x95, "–": 0x96, "—": 0x97, "˜": 0x98,
+  "™": 0x99, "š": 0x9a, "›": 0x9b, "œ": 0x9c, "ž": 0x9e, "Ÿ": 0x9f,
+}
+
+function toWinAnsi(char: string): number | null {
+  const code = char.charCodeAt(0)
+  if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff)) return code
+  return WIN_ANSI_EXTRAS[char] ?? null
+}
+
+/**
+ * Whether text can be drawn with the standard fonts as-is;
+ * anything else is replaced with "?".
+ */
+export function isWinAnsiText(text: string) {
+  return Array.from(text).every((char) => toWinAnsi(char) !== null)
+}
+
+function formatNumber(value: number) {
+  return Number(value.toFixed(2)).toString()
+}
+
+/**
+ * Minimal PDF writer for server-side reports: A4 pages, the built-in Helvetica
+ * fonts, text, rectangles and lines. Coordinates are in points from the top-left corner.
+ */
+export class PdfDocument {
+  readonly width = 595.28
+  readonly height = 841.89
+
+  private pages: string[][] = []
+  private current = -1
+
+  get pageCount() {
+    return this.pages.length
+  }
+
+  addPage() {
+    this.pages.push([])
+    this.current = this.pages.length - 1
+  }
+
+  // Switch back to an existing page, e.g. to draw footers once the page count is known
+  goToPage(index: number) {
+    this.current = index
+  }
+
+  measureText(text: string, size: number, bold = false) {
+    const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS
+    let total = 0
+    for (const char of Array.from(text)) {
+      const code = char.charCodeAt(0)
+      total += code >= 32 && code <= 126 ? widths[code - 32] : DEFAULT_WIDTH
+    }
+    return (total * size) / 1000
+  }
+
+  // Shorten text with an ellipsis until it fits maxWidth
+  fitText(text: string, maxWidth: number, size: number, bold = false) {
+    if (this.measureText(text, size, bold) <= maxWidth) return text
+    let fitted = Array.from(text)
+    while (fitted.length > 0 && this.measureText(fitted.join("") + "...", size, bold) > maxWidth) {
+      fitted = fitted.slice(0, -1)
+    }
+    return fitted.join("").trimEnd() + "..."
+  }
+
+  text(text: string, x: number, y: number, options: TextOptions = {}) {
+    const { size = 10, bold = false, color = [0, 0, 0], align = "left" } = options
+    let left = x
+    if (align !== "left") {
+      const width = this.measureText(text, size, bold)
+      left = align === "right" ? x - width : x - width / 2
+    }
+    // y is the top of the line; PDF places text on its baseline
+    const baseline = this.height - y - size * 0.8
+    this.write(
+      `BT ${color.map(formatNumber).join(" ")} rg /${bold ? "F2" : "F1"} ${formatNumber(size)} Tf ` +
+      `${formatNumber(left)} ${formatNumber(baseline)} Td (${this.encodeText(text)}) Tj ET`
+    )
+  }
+
+  rect(x: number, y: number, width: number, height: number, options: ShapeOptions = {}) {
+    const { fill, stroke, lineWidth = 0.5 } = options
+    const parts = [`${formatNumber(x)} ${formatNumber(this.height - y - height)} ${formatNumber(width)} ${formatNumber(height)} re`]
+    if (fill) parts.unshift(`${fill.map(formatNumber).join(" ")} rg`)
+    if (stroke) parts.unshift(`${stroke.map(formatNumber).join(" ")} RG ${formatNumber(lineWidth)} w`)
+    parts.push(fill && stroke ? "B" : fill ? "f" : "S")
+    this.write(parts.join(" "))
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, options: { color?: PdfColor; lineWidth?: number } = {}) {
+    const { color = [0, 0, 0], lineWidth = 0.5 } = options
+    this.write(
+      `${color.map(formatNumber).join(" ")} RG ${formatNumber(lineWidth)} w ` +
+      `${formatNumber(x1)} ${formatNumber(this.height - y1)} m ${formatNumber(x2)} ${formatNumber(this.height - y2)} l S`
+    )
+  }
+
+  toBuffer(): Buffer {
+    if (this.pages.length === 0) this.addPage()
+
+    const objects: string[] = []
+    const pageIds: number[] = []
+    // 1: catalog, 2: page tree, 3/4: fonts, then a page and a content stream per page
+    this.pages.forEach((operations, index) => {
+      const pageId = 5 + index * 2
+      const content = operations.join("\n")
+      pageIds.push(pageId)
+      objects[pageId] =
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${this.width} ${this.height}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`
+      objects[pageId + 1] = `<< /Length ${Buffer.byteLength(content, "latin1")} >>\nstream\n${content}\nendstream`
+    })
+    objects[1] = "<< /Type /Catalog /Pages 2 0 R >>"
+    objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`
+    objects[3] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>"
+    objects[4] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>"
+
+    let output = "%PDF-1.4\n"
+    const offsets: number[] = []
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = Buffer.byteLength(output, "latin1")
+      output += `${id} 0 obj\n${objects[id]}\nendobj\n`
+    }
+
+    const xrefOffset = Buffer.byteLength(output, "latin1")
+    output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`
+    for (let id = 1; id < objects.length; id++) {
+      output += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`
+    }
+    output += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`
+
+    return Buffer.from(output, "latin1")
+  }
+
+  private write(operation: string) {
+    if (this.current < 0) this.addPage()
+    this.pages[this.current].push(operation)
+  }
+
+  // Escape a string literal and map it to WinAnsi bytes (held as latin1 characters)
+  private encodeText(text: string) {
+    return Array.from(text)
+      .map((char) => {
+        const code = toWinAnsi(char) ?? 0x3f
+        const encoded = String.fromCharCode(code)
+        return encoded === "\\" || encoded === "(" || encoded === ")" ? `\\${encoded}` : encoded
+      })
+      .join("")
+  }
+}
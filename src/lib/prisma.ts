@@ -1,14 +1,58 @@
-import { PrismaClient } from '@prisma/client'
+import { Prisma, PrismaClient } from '@prisma/client'
+
+// Money columns are DECIMAL in the database; the app works with plain numbers
+// (serialisable to client components) and does exact arithmetic via src/lib/money.ts
+const toNumber = (value: Prisma.Decimal) => value.toNumber()
+
+const createPrismaClient = () => new PrismaClient().$extends({
+  result: {
+    expense: {
+      amount: { needs: { amount: true }, compute: (expense) => toNumber(expense.amount) },
+      originalAmount: {
+        needs: { originalAmount: true },
+        compute: (expense) => (expense.originalAmount === null ? null : toNumber(expense.originalAmount)),
+      },
+      exchangeRate: {
+        needs: { exchangeRate: true },
+        compute: (expense) => (expense.exchangeRate === null ? null : toNumber(expense.exchangeRate)),
+      },
+    },
+    income: {
+      amount: { needs: { amount: true }, compute: (income) => toNumber(income.amount) },
+    },
+    transfer: {
+      amount: { needs: { amount: true }, compute: (transfer) => toNumber(transfer.amount) },
+      toAmount: { needs: { toAmount: true }, compute: (transfer) => toNumber(transfer.toAmount) },
+    },
+    budget: {
+      amount: { needs: { amount: true }, compute: (budget) => toNumber(budget.amount) },
+    },
+    recurringExpense: {
+      amount: { needs: { amount: true }, compute: (recurring) => toNumber(recurring.amount) },
+    },
+    expenseSplit: {
+      amount: { needs: { amount: true }, compute: (split) => toNumber(split.amount) },
+      value: { needs: { value: true }, compute: (split) => (split.value === null ? null : toNumber(split.value)) },
+    },
+    settlement: {
+      amount: { needs: { amount: true }, compute: (settlement) => toNumber(settlement.amount) },
+    },
+    categoryRule: {
+      minAmount: { needs: { minAmount: true }, compute: (rule) => (rule.minAmount === null ? null : toNumber(rule.minAmount)) },
+      maxAmount: { needs: { maxAmount: true }, compute: (rule) => (rule.maxAmount === null ? null : toNumber(rule.maxAmount)) },
+    },
+  },
+})
 
 const globalForPrisma = globalThis as unknown as {
-  prisma: PrismaClient | undefined
+  prisma: ReturnType<typeof createPrismaClient> | undefined
 }
 
-export const prisma = globalForPrisma.prisma ?? new PrismaClient()
+export const prisma = globalForPrisma.prisma ?? createPrismaClient()
 
 if (process.env.NODE_ENV !== 'production') globalForPrisma.prisma = prisma
 
 // Edge-compatible Prisma client - use the singleton instance
 export const getPrismaClient = () => {
   return prisma
-}
\ No newline at end of file
+}
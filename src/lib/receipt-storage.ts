@@ -0,0 +1,53 @@
+import { randomUUID } from "crypto"
+import path from "path"
+import { getPrismaClient } from "@/lib/prisma"
+import { getStorageAdapter } from "@/lib/storage"
+
+/**
+ * Write the files to storage and record them against the expense.
+ * Files written before a failure are cleaned up again.
+ */
+export async function storeReceipts(expenseId: string, files: File[]) {
+  const prisma = getPrismaClient()
+  const storage = getStorageAdapter()
+  const savedKeys: string[] = []
+
+  try {
+    for (const file of files) {
+      const extension = path.extname(file.name).toLowerCase().replace(/[^.a-z0-9]/g, "")
+      const storageKey = `receipts/${expenseId}/${randomUUID()}${extension}`
+      const data = Buffer.from(await file.arrayBuffer())
+
+      await storage.save(storageKey, data, file.type)
+      savedKeys.push(storageKey)
+
+      await prisma.attachment.create({
+        data: {
+          expenseId,
+          fileName: file.name.slice(0, 191),
+          mimeType: file.type,
+          size: file.size,
+          storageKey,
+        },
+      })
+    }
+  } catch (error) {
+    await prisma.attachment.deleteMany({ where: { storageKey: { in: savedKeys } } })
+    await removeStoredFiles(savedKeys)
+    throw error
+  }
+}
+
+/**
+ * Best-effort removal of stored files (database rows are removed by the caller or by cascade).
+ */
+export async function removeStoredFiles(storageKeys: string[]) {
+  const storage = getStorageAdapter()
+  for (const key of storageKeys) {
+    try {
+      await storage.delete(key)
+    } catch (error) {
+      console.error("Attachment file cleanup error:", error)
+    }
+  }
+}
@@ -0,0 +1,52 @@
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { canAccessBook } from "@/lib/book-access"
+import { getDetailedReport } from "@/actions/report-actions"
+
+/**
+ * Shared by the report download routes: reads the /reports filters from the query
+ * (bookId, startDate, endDate, repeated categories and tags), checks the signed-in user
+ * can see the book and runs getDetailedReport.
+ */
+export async function loadReportForExport(request: Request) {
+  const session = await getServerSession(authOptions)
+  if (!session?.user?.id) {
+    return { error: "Unauthorized", status: 401 }
+  }
+
+  const searchParams = new URL(request.url).searchParams
+  const bookId = searchParams.get("bookId")
+  if (!bookId) {
+    return { error: "bookId is required", status: 400 }
+  }
+
+  const book = await prisma.book.findUnique({
+    where: { id: bookId },
+  })
+
+  if (!book || !(await canAccessBook(session.user.id, book, "view"))) {
+    return { error: "Book not found", status: 404 }
+  }
+
+  const filters = {
+    bookId,
+    startDate: searchParams.get("startDate") || undefined,
+    endDate: searchParams.get("endDate") || undefined,
+    categories: searchParams.getAll("categories"),
+    tags: searchParams.getAll("tags"),
+  }
+
+  const report = await getDetailedReport(filters)
+  if (report.error || !report.expenses) {
+    return { error: report.error || "Failed to build report", status: 500 }
+  }
+
+  return { book, filters, report }
+}
+
+// File name for a download, e.g. "household-report-2026-01-31.pdf"
+export function reportFileName(bookName: string, extension: string) {
+  const slug = bookName.replace(/[^a-z0-9]+/gi, "-").replace(/^-|-$/g, "").toLowerCase() || "book"
+  return `${slug}-report-${new Date().toISOString().slice(0, 10)}.${extension}`
+}
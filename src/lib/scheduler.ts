@@ -0,0 +1,206 @@
+import cron, { type ScheduledTask } from "node-cron"
+import { getPrismaClient } from "@/lib/prisma"
+import { validateNewExpense } from "@/lib/expense-validation"
+import { recordAudit } from "@/lib/audit"
+
+export const RECURRING_FREQUENCIES = ["daily", "weekly", "monthly", "yearly"] as const
+export type RecurringFrequency = (typeof RECURRING_FREQUENCIES)[number]
+
+// How often due recurring expenses are materialised (default: every hour)
+const RECURRING_EXPENSE_CRON = process.env.RECURRING_EXPENSE_CRON || "0 * * * *"
+const ENABLE_RECURRING_SCHEDULER = (process.env.ENABLE_RECURRING_SCHEDULER || "true").toLowerCase() === "true"
+
+// Safety cap so a long-paused daily series can't flood a book in one run
+const MAX_RUNS_PER_TEMPLATE = 366
+
+// Advance a run date by one step. Monthly and yearly series keep the day of
+// month of their start date (anchorDay), clamped to shorter months.
+export function computeNextRunDate(date: Date, frequency: string, interval: number = 1, anchorDay?: number) {
+  const next = new Date(date)
+  const step = Math.max(1, interval)
+
+  switch (frequency) {
+    case "daily":
+      next.setDate(next.getDate() + step)
+      return next
+    case "weekly":
+      next.setDate(next.getDate() + step * 7)
+      return next
+    case "monthly":
+    case "yearly": {
+      const day = anchorDay ?? next.getDate()
+      next.setDate(1)
+      if (frequency === "monthly") {
+        next.setMonth(next.getMonth() + step)
+      } else {
+        next.setFullYear(next.getFullYear() + step)
+      }
+      const lastDay = new Date(next.getFullYear(), next.getMonth() + 1, 0).getDate()
+      next.setDate(Math.min(day, lastDay))
+      return next
+    }
+    default:
+      throw new Error(`Unknown recurring frequency: ${frequency}`)
+  }
+}
+
+// The first run of a series on or after the day of `date`. Runs before it are skipped
+// without creating expenses, so a resumed or back-dated series doesn't catch up at once.
+export function getFirstRunOnOrAfter(
+  template: { nextRunDate: Date; frequency: string; interval: number; startDate: Date },
+  date: Date
+) {
+  const startOfDay = new Date(date)
+  startOfDay.setHours(0, 0, 0, 0)
+
+  let nextRunDate = template.nextRunDate
+  while (nextRunDate < startOfDay) {
+    nextRunDate = computeNextRunDate(nextRunDate, template.frequency, template.interval, template.startDate.getDate())
+  }
+  return nextRunDate
+}
+
+export function isRecurringExpenseFinished(template: {
+  nextRunDate: Date
+  endDate: Date | null
+  maxOccurrences: number | null
+  occurrenceCount: number
+}) {
+  if (template.maxOccurrences !== null && template.occurrenceCount >= template.maxOccurrences) {
+    return true
+  }
+
+  if (template.endDate && template.nextRunDate > template.endDate) {
+    return true
+  }
+
+  return false
+}
+
+// Turn every due run of every active template (or just one template) into a
+// real expense. Returns the number of expenses created.
+export async function processDueRecurringExpenses(now: Date = new Date(), templateId?: string) {
+  const prisma = getPrismaClient()
+
+  const dueTemplates = await prisma.recurringExpense.findMany({
+    where: {
+      ...(templateId ? { id: templateId } : {}),
+      isPaused: false,
+      nextRunDate: { lte: now },
+      category: {
+        isDisabled: false,
+        book: { isArchived: false },
+      },
+    },
+    include: {
+      category: {
+        include: { book: true },
+      },
+    },
+  })
+
+  let createdCount = 0
+
+  for (const template of dueTemplates) {
+    if (!template.category.book) {
+      continue
+    }
+
+    let nextRunDate = template.nextRunDate
+    let occurrenceCount = template.occurrenceCount
+    let runs = 0
+
+    while (
+      nextRunDate <= now &&
+      runs < MAX_RUNS_PER_TEMPLATE &&
+      !isRecurringExpenseFinished({ ...template, nextRunDate, occurrenceCount })
+    ) {
+      // Same rules as expenses entered through the form
+      const validation = await validateNewExpense(template.category.book.userId, {
+        amount: template.amount,
+        date: nextRunDate,
+        categoryId: template.categoryId,
+      })
+
+      if ("error" in validation) {
+        console.error(`Recurring expense ${template.id} skipped: ${validation.error}`)
+        break
+      }
+
+      const followingRunDate = computeNextRunDate(
+        nextRunDate,
+        template.frequency,
+        template.interval,
+        template.startDate.getDate()
+      )
+
+      const runDate = nextRunDate
+      const claimed = await prisma.$transaction(async (tx) => {
+        // Claim the run first: an overlapping tick (or the run right after creating a
+        // series) that already advanced the series leaves nothing to update
+        const { count } = await tx.recurringExpense.updateMany({
+          where: { id: template.id, nextRunDate: runDate, occurrenceCount },
+          data: {
+            occurrenceCount: occurrenceCount + 1,
+            nextRunDate: followingRunDate,
+            lastRunAt: now,
+          },
+        })
+        if (count === 0) return false
+
+        const expense = await tx.expense.create({
+          data: {
+            amount: template.amount,
+            date: runDate,
+            description: template.description,
+            paymentMethod: template.paymentMethod,
+            categoryId: template.categoryId,
+            recurringExpenseId: template.id,
+          },
+        })
+
+        await recordAudit(tx, { actorId: null, source: "recurring" }, [
+          { action: "create", entityType: "expense", entityId: expense.id, bookId: template.category.bookId!, before: null, after: expense },
+        ])
+
+        return true
+      })
+
+      if (!claimed) break
+
+      occurrenceCount += 1
+      nextRunDate = followingRunDate
+      runs += 1
+      createdCount += 1
+    }
+  }
+
+  return createdCount
+}
+
+const globalForScheduler = globalThis as unknown as {
+  recurringExpenseTask: ScheduledTask | undefined
+}
+
+// Started once per server process from src/instrumentation.ts
+export function startScheduler() {
+  if (!ENABLE_RECURRING_SCHEDULER || globalForScheduler.recurringExpenseTask) {
+    return
+  }
+
+  globalForScheduler.recurringExpenseTask = cron.schedule(RECURRING_EXPENSE_CRON, async () => {
+    try {
+      const createdCount = await processDueRecurringExpenses()
+      if (createdCount > 0) {
+        console.log(`Recurring expense scheduler created ${createdCount} expense(s)`)
+      }
+    } catch (error) {
+      console.error("Recurring expense scheduler error:", error)
+    }
+  })
+
+  // Catch up on anything that fell due while the server was down
+  processDueRecurringExpenses().catch((error) => {
+    console.error("Recurring expense catch-up error:", error)
+  })
+}
@@ -0,0 +1,41 @@
+import type { Prisma } from "@prisma/client"
+import { getPrismaClient } from "@/lib/prisma"
+import { SplitError, computeSplitAmounts, isSplitMethod } from "@/lib/splits"
+
+// Recompute a split expense's shares for its new amount. An exact split that no longer
+// adds up is rescaled in proportion to the old amounts. Participants belong to a book,
+// so moving the expense to another book removes the split.
+export async function getSplitUpdate(
+  expense: { id: string; splitMethod: string | null },
+  amount: number,
+  currency: string,
+  movedToOtherBook: boolean
+): Promise<Prisma.ExpenseUncheckedUpdateInput> {
+  if (!expense.splitMethod) return {}
+
+  const splits = await getPrismaClient().expenseSplit.findMany({
+    where: { expenseId: expense.id },
+    orderBy: { id: "asc" },
+  })
+
+  if (movedToOtherBook || splits.length === 0) {
+    return { splitMethod: null, paidById: null, splits: { deleteMany: {} } }
+  }
+
+  const method = isSplitMethod(expense.splitMethod) ? expense.splitMethod : "equal"
+  let shares
+  try {
+    shares = computeSplitAmounts(amount, currency, method, splits.map((split) => ({ participantId: split.participantId, value: split.value })))
+  } catch (error) {
+    if (!(error instanceof SplitError)) throw error
+    shares = computeSplitAmounts(amount, currency, "shares", splits.map((split) => ({ participantId: split.participantId, value: split.amount })))
+      .map((share) => ({ ...share, value: share.amount }))
+  }
+
+  return {
+    splits: {
+      deleteMany: {},
+      create: shares.map((share) => ({ participantId: share.participantId, amount: share.amount, value: share.value })),
+    },
+  }
+}
@@ -0,0 +1,205 @@
+import { getCurrencyDecimals, subtractMoney, sumMoney } from "@/lib/money"
+
+// Splitting an expense between participants and working out who owes whom.
+// Pure functions, shared by the server actions and the split editor preview.
+
+export const SPLIT_METHODS = ["equal", "shares", "exact", "percentage"] as const
+export type SplitMethod = (typeof SPLIT_METHODS)[number]
+
+export const SPLIT_METHOD_LABELS: Record<SplitMethod, string> = {
+  equal: "Equally",
+  shares: "By shares",
+  exact: "By exact amounts",
+  percentage: "By percentage",
+}
+
+export interface SplitInput {
+  participantId: string
+  // Shares, percentage or exact amount; ignored for equal splits
+  value: number | null
+}
+
+export interface SplitShare {
+  participantId: string
+  amount: number
+  value: number | null
+}
+
+export class SplitError extends Error {}
+
+export function isSplitMethod(value: string): value is SplitMethod {
+  return (SPLIT_METHODS as readonly string[]).includes(value)
+}
+
+const toUnits = (amount: number, decimals: number) => Math.round(Number((amount * 10 ** decimals).toPrecision(15)))
+
+/**
+ * Divide `total` (in the book currency) between participants. Amounts are rounded to
+ * the currency's precision and always add up to the total exactly: leftover cents go
+ * to the participants with the largest remainders, in the order given.
+ */
+export function computeSplitAmounts(total: number, currency: string, method: SplitMethod, inputs: SplitInput[]): SplitShare[] {
+  if (inputs.length === 0) {
+    throw new SplitError("Pick at least one participant")
+  }
+  if (new Set(inputs.map((input) => input.participantId)).size !== inputs.length) {
+    throw new SplitError("Each participant can only appear once")
+  }
+
+  const decimals = getCurrencyDecimals(currency)
+  const totalUnits = toUnits(total, decimals)
+
+  if (method === "exact") {
+    const units = inputs.map((input) => {
+      if (input.value === null || !Number.isFinite(input.value) || input.value < 0) {
+        throw new SplitError("Enter an amount for every participant")
+      }
+      return toUnits(input.value, decimals)
+    })
+    const assigned = units.reduce((sum, unit) => sum + unit, 0)
+    if (assigned !== totalUnits) {
+      const difference = (totalUnits - assigned) / 10 ** decimals
+      throw new SplitError(
+        `The amounts add up to ${(assigned / 10 ** decimals).toFixed(decimals)}, ${Math.abs(difference).toFixed(decimals)} ${difference > 0 ? "short of" : "more than"} the expense`
+      )
+    }
+    return inputs.map((input, index) => ({ participantId: input.participantId, amount: units[index] / 10 ** decimals, value: input.value }))
+  }
+
+  const weights = inputs.map((input) => {
+    if (method === "equal") return 1
+    if (input.value === null || !Number.isFinite(input.value) || input.value < 0) {
+      throw new SplitError(method === "shares" ? "Enter a number of shares for every participant" : "Enter a percentage for every participant")
+    }
+    return input.value
+  })
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0)
+
+  if (method === "percentage" && Math.abs(totalWeight - 100) > 0.0001) {
+    throw new SplitError(`The percentages add up to ${Number(totalWeight.toFixed(4))}%, not 100%`)
+  }
+  if (totalWeight <= 0) {
+    throw new SplitError("At least one participant needs a share")
+  }
+
+  // Largest remainder: floor every share, then hand out the units that are left
+  const exact = weights.map((weight) => (totalUnits * weight) / totalWeight)
+  const units = exact.map((value) => Math.floor(value))
+  let leftover = totalUnits - units.reduce((sum, unit) => sum + unit, 0)
+  const byRemainder = exact
+    .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index)
+  for (const { index } of byRemainder) {
+    if (leftover <= 0) break
+    units[index]++
+    leftover--
+  }
+
+  return inputs.map((input, index) => ({
+    participantId: input.participantId,
+    amount: units[index] / 10 ** decimals,
+    value: method === "equal" ? null : input.value,
+  }))
+}
+
+export interface ParticipantBalance {
+  participantId: string
+  name: string
+  // Expenses this participant paid for
+  paid: number
+  // This participant's share of split expenses
+  owed: number
+  // Positive: the others owe them; negative: they owe the others
+  balance: number
+}
+
+export interface SettlementSuggestion {
+  fromId: string
+  fromName: string
+  toId: string
+  toName: string
+  amount: number
+}
+
+interface BalanceExpense {
+  amount: number
+  paidById: string | null
+  splits: { participantId: string; amount: number }[]
+}
+
+interface BalanceSettlement {
+  fromId: string
+  toId: string
+  amount: number
+}
+
+/**
+ * Running balance per participant: what they paid for split expenses, minus their own
+ * shares, plus settlements they paid, minus settlements they received.
+ * Expenses without a payer or without splits don't affect anyone's balance.
+ */
+export function computeBalances(
+  participants: { id: string; name: string }[],
+  expenses: BalanceExpense[],
+  settlements: BalanceSettlement[]
+): ParticipantBalance[] {
+  const splitExpenses = expenses.filter((expense) => expense.paidById && expense.splits.length > 0)
+
+  return participants.map((participant) => {
+    const paid = sumMoney(splitExpenses.filter((expense) => expense.paidById === participant.id).map((expense) => expense.amount))
+    const owed = sumMoney(
+      splitExpenses.flatMap((expense) => expense.splits.filter((split) => split.participantId === participant.id).map((split) => split.amount))
+    )
+    const settledOut = sumMoney(settlements.filter((settlement) => settlement.fromId === participant.id).map((settlement) => settlement.amount))
+    const settledIn = sumMoney(settlements.filter((settlement) => settlement.toId === participant.id).map((settlement) => settlement.amount))
+
+    return {
+      participantId: participant.id,
+      name: participant.name,
+      paid,
+      owed,
+      balance: subtractMoney(sumMoney([paid, settledOut]), sumMoney([owed, settledIn])),
+    }
+  })
+}
+
+/**
+ * Payments that bring every balance to zero. The largest debtor pays the largest
+ * creditor until one of them is even, which needs at most one payment fewer than
+ * there are people with a non-zero balance.
+ */
+export function suggestSettlements(balances: ParticipantBalance[], currency: string): SettlementSuggestion[] {
+  const decimals = getCurrencyDecimals(currency)
+  const people = balances
+    .map((balance) => ({ ...balance, units: toUnits(balance.balance, decimals) }))
+    .filter((balance) => balance.units !== 0)
+  const creditors = people.filter((person) => person.units > 0).sort((a, b) => b.units - a.units)
+  const debtors = people
+    .filter((person) => person.units < 0)
+    .map((person) => ({ ...person, units: -person.units }))
+    .sort((a, b) => b.units - a.units)
+
+  const suggestions: SettlementSuggestion[] = []
+  let creditorIndex = 0
+  let debtorIndex = 0
+  while (creditorIndex < creditors.length && debtorIndex < debtors.length) {
+    const creditor = creditors[creditorIndex]
+    const debtor = debtors[debtorIndex]
+    const units = Math.min(creditor.units, debtor.units)
+
+    suggestions.push({
+      fromId: debtor.participantId,
+      fromName: debtor.name,
+      toId: creditor.participantId,
+      toName: creditor.name,
+      amount: units / 10 ** decimals,
+    })
+
+    creditor.units -= units
+    debtor.units -= units
+    if (creditor.units === 0) creditorIndex++
+    if (debtor.units === 0) debtorIndex++
+  }
+
+  return suggestions
+}
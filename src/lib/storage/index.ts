@@ -0,0 +1,37 @@
+import { LocalStorageAdapter } from './local-storage'
+
+/**
+ * Storage adapter contract used for uploaded files (receipts).
+ * Keys are forward-slash separated paths relative to the adapter's root.
+ */
+export interface StorageAdapter {
+  save(key: string, data: Buffer, contentType: string): Promise<void>
+  read(key: string): Promise<Buffer>
+  delete(key: string): Promise<void>
+}
+
+type StorageDriverFactory = () => StorageAdapter
+
+// Register additional drivers (e.g. S3) here and select them with STORAGE_DRIVER
+const drivers: Record<string, StorageDriverFactory> = {
+  local: () => new LocalStorageAdapter(process.env.STORAGE_LOCAL_DIR || './uploads'),
+}
+
+const globalForStorage = globalThis as unknown as {
+  storageAdapter: StorageAdapter | undefined
+}
+
+export function getStorageAdapter(): StorageAdapter {
+  if (globalForStorage.storageAdapter) {
+    return globalForStorage.storageAdapter
+  }
+
+  const driver = process.env.STORAGE_DRIVER || 'local'
+  const factory = drivers[driver]
+  if (!factory) {
+    throw new Error(`Unknown storage driver: ${driver}`)
+  }
+
+  globalForStorage.storageAdapter = factory()
+  return globalForStorage.storageAdapter
+}
@@ -0,0 +1,42 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import type { StorageAdapter } from './index'
+
+/**
+ * Stores files on the local disk under a root directory.
+ */
+export class LocalStorageAdapter implements StorageAdapter {
+  private readonly root: string
+
+  constructor(root: string) {
+    this.root = path.resolve(root)
+  }
+
+  // Resolve a key to an absolute path, refusing anything outside the root
+  private resolveKey(key: string): string {
+    const filePath = path.resolve(this.root, key)
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`)
+    }
+    return filePath
+  }
+
+  async save(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolveKey(key)
+    await fs.mkdir(path.dirname(filePath), { recursive: true })
+    await fs.writeFile(filePath, data)
+  }
+
+  async read(key: string): Promise<Buffer> {
+    return fs.readFile(this.resolveKey(key))
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await fs.unlink(this.resolveKey(key))
+    } catch (error: any) {
+      // Already gone is fine
+      if (error?.code !== 'ENOENT') throw error
+    }
+  }
+}
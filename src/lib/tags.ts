@@ -0,0 +1,31 @@
+// Tag name rules, shared by the tag picker and the server actions
+
+export const MAX_TAG_LENGTH = 50
+export const MAX_TAGS_PER_EXPENSE = 10
+
+/**
+ * Lowercase, trim and collapse whitespace to dashes ("Trip Berlin" -> "trip-berlin").
+ * Returns an empty string for names with nothing usable left.
+ */
+export function normalizeTagName(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, "-")
+    .replace(/[^a-z0-9_\-.]/g, "")
+    .slice(0, MAX_TAG_LENGTH)
+}
+
+/**
+ * Pull the tag names out of a form submission (field name "tags", repeated),
+ * normalised and de-duplicated.
+ */
+export function getTagNames(formData: FormData): string[] {
+  const names = formData
+    .getAll("tags")
+    .filter((entry): entry is string => typeof entry === "string")
+    .map(normalizeTagName)
+    .filter((name) => name.length > 0)
+
+  return Array.from(new Set(names))
+}
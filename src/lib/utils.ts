@@ -1,5 +1,6 @@
 const clsx = require("clsx")
 const { twMerge } = require("tailwind-merge")
+import { getCurrencyDecimals, roundMoney } from "./money"
 
 export function cn(...inputs: any[]) {
   return twMerge(clsx(inputs))
@@ -14,17 +15,19 @@ export function formatCurrency(amount: number, currency: string = "USD") {
       throw new Error(`Invalid currency: ${currency}`);
     }
     
+    // Round the same way stored amounts are rounded, so 1.005 shows as 1.01
     return new Intl.NumberFormat("en-US", {
       style: "currency",
       currency,
-    }).format(amount)
+    }).format(roundMoney(amount, currency))
   } catch (error) {
     // If currency code is invalid, fall back to simple number formatting
     console.warn(`Invalid currency code: ${currency}. Using fallback format.`);
+    const decimals = getCurrencyDecimals(currency)
     return new Intl.NumberFormat("en-US", {
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2,
-    }).format(amount) + ` ${currency}`
+      minimumFractionDigits: decimals,
+      maximumFractionDigits: decimals,
+    }).format(roundMoney(amount, currency)) + ` ${currency}`
   }
 }
 
@@ -0,0 +1,178 @@
+import { getMonthKey } from "@/lib/utils"
+import { sumMoney, toMoneyString } from "@/lib/money"
+import { XlsxWorkbook, columnName, currencyNumberFormat, sheetReference, type XlsxCell } from "./workbook"
+
+export interface ExpenseReportXlsxInput {
+  bookName: string
+  currency: string
+  startDate?: string
+  endDate?: string
+  categories: {
+    name: string
+    expenses: {
+      date: Date
+      description: string | null
+      paymentMethod: string
+      amount: number
+      // Set when the expense was paid in another currency than the book's
+      originalAmount?: number | null
+      originalCurrency?: string | null
+      tags: { name: string }[]
+      // The sub-category when the sheet's category rolls one up
+      category?: { name: string; parentId: string | null }
+    }[]
+  }[]
+}
+
+// Summary rows above the category table
+const SUMMARY_HEADER_ROW = 4
+
+// Every month from the first to the last expense, so empty months still get a column
+function monthRange(dates: Date[]) {
+  if (dates.length === 0) return []
+  const times = dates.map((date) => date.getTime())
+  const cursor = new Date(Math.min(...times))
+  cursor.setDate(1)
+  cursor.setHours(0, 0, 0, 0)
+  const last = getMonthKey(new Date(Math.max(...times)))
+
+  const months: { key: string; year: number; month: number; label: string }[] = []
+  for (;;) {
+    const key = getMonthKey(cursor)
+    months.push({
+      key,
+      year: cursor.getFullYear(),
+      month: cursor.getMonth() + 1,
+      label: cursor.toLocaleDateString("en-US", { month: "short", year: "numeric" }),
+    })
+    if (key === last) break
+    cursor.setMonth(cursor.getMonth() + 1)
+  }
+  return months
+}
+
+function periodLabel(startDate?: string, endDate?: string) {
+  if (startDate && endDate) return `${startDate} to ${endDate}`
+  if (startDate) return `From ${startDate}`
+  if (endDate) return `Until ${endDate}`
+  return "All dates"
+}
+
+/**
+ * Build the accountants' workbook: a Summary sheet whose cells are live SUMIFS/SUM
+ * formulas over one sheet per category, so edits on a category sheet flow into the summary.
+ */
+export function renderExpenseReportXlsx(report: ExpenseReportXlsxInput): Buffer {
+  const workbook = new XlsxWorkbook(currencyNumberFormat(report.currency))
+  const months = monthRange(report.categories.flatMap((category) => category.expenses.map((expense) => new Date(expense.date))))
+
+  // The summary is added first so it opens first, but its formulas need the final
+  // category sheet names, so its rows are filled in after the category sheets exist
+  const summaryRows: XlsxCell[][] = []
+  workbook.addSheet("Summary", summaryRows, {
+    columnWidths: [28, ...months.map(() => 14), 16],
+    frozenRows: SUMMARY_HEADER_ROW,
+  })
+
+  const categorySheets = report.categories.map((category) => {
+    const expenses = [...category.expenses].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+    // Sub-categories go in a last column so the Amount column (and the summary formulas) stay put
+    const hasSubCategories = expenses.some((expense) => expense.category?.parentId)
+    const rows: XlsxCell[][] = [
+      ["Date", "Description", "Payment Method", "Tags", "Amount", "Amount Paid", ...(hasSubCategories ? ["Sub-category"] : [])]
+        .map((label) => ({ value: label, style: "header" as const })),
+      ...expenses.map((expense) => [
+        new Date(expense.date),
+        expense.description || "",
+        expense.paymentMethod,
+        expense.tags.map((tag) => tag.name).join(", "),
+        { value: expense.amount, style: "currency" as const },
+        expense.originalCurrency && expense.originalCurrency !== report.currency && expense.originalAmount != null
+          ? `${toMoneyString(expense.originalAmount, expense.originalCurrency)} ${expense.originalCurrency}`
+          : null,
+        ...(hasSubCategories ? [expense.category?.parentId ? expense.category.name : ""] : []),
+      ]),
+    ]
+    const lastRow = expenses.length + 1
+    rows.push([
+      { value: "Total", style: "bold" },
+      null,
+      null,
+      null,
+      {
+        value: {
+          formula: expenses.length > 0 ? `SUM(E2:E${lastRow})` : "0",
+          value: sumMoney(expenses.map((expense) => expense.amount)),
+        },
+        style: "currencyTotal",
+      },
+    ])
+
+    const sheetName = workbook.addSheet(category.name, rows, {
+      columnWidths: [12, 40, 18, 24, 14, 16, ...(hasSubCategories ? [20] : [])],
+      frozenRows: 1,
+    })
+    return { expenses, sheetName }
+  })
+
+  summaryRows.push([{ value: `Expense Report - ${report.bookName} (${report.currency})`, style: "title" }])
+  summaryRows.push([periodLabel(report.startDate, report.endDate)])
+  summaryRows.push([])
+  summaryRows.push([
+    { value: "Category", style: "header" },
+    ...months.map((month) => ({ value: month.label, style: "header" as const })),
+    { value: "Total", style: "header" },
+  ])
+
+  const firstCategoryRow = SUMMARY_HEADER_ROW + 1
+  const totalColumn = columnName(months.length + 1)
+
+  categorySheets.forEach(({ expenses, sheetName }, index) => {
+    const row = firstCategoryRow + index
+    const sheet = sheetReference(sheetName)
+    const monthCells: XlsxCell[] = months.map((month) => {
+      // Whole-column ranges so rows added on the category sheet are picked up;
+      // the sheet's "Total" row has no date and never matches
+      const formula =
+        `SUMIFS(${sheet}!$E:$E,${sheet}!$A:$A,">="&DATE(${month.year},${month.month},1),` +
+        `${sheet}!$A:$A,"<"&DATE(${month.year},${month.month + 1},1))`
+      const cached = sumMoney(
+        expenses.filter((expense) => getMonthKey(new Date(expense.date)) === month.key).map((expense) => expense.amount)
+      )
+      return { value: { formula, value: cached }, style: "currency" }
+    })
+
+    summaryRows.push([
+      sheetName,
+      ...monthCells,
+      {
+        value: {
+          formula: months.length > 0 ? `SUM(B${row}:${columnName(months.length)}${row})` : "0",
+          value: sumMoney(expenses.map((expense) => expense.amount)),
+        },
+        style: "currencyTotal",
+      },
+    ])
+  })
+
+  const lastCategoryRow = firstCategoryRow + categorySheets.length - 1
+  const columnTotal = (column: string, cached: number): XlsxCell => ({
+    value: {
+      formula: categorySheets.length > 0 ? `SUM(${column}${firstCategoryRow}:${column}${lastCategoryRow})` : "0",
+      value: cached,
+    },
+    style: "currencyTotal",
+  })
+  const allExpenses = categorySheets.flatMap(({ expenses }) => expenses)
+
+  summaryRows.push([
+    { value: "Total", style: "bold" },
+    ...months.map((month, index) => columnTotal(
+      columnName(index + 1),
+      sumMoney(allExpenses.filter((expense) => getMonthKey(new Date(expense.date)) === month.key).map((expense) => expense.amount))
+    )),
+    columnTotal(totalColumn, sumMoney(allExpenses.map((expense) => expense.amount))),
+  ])
+
+  return workbook.toBuffer()
+}
@@ -0,0 +1,265 @@
+import { createZip } from "./zip"
+
+export type XlsxStyle = "header" | "title" | "bold" | "date" | "currency" | "currencyTotal"
+
+export interface XlsxFormula {
+  formula: string
+  // Cached result shown until the spreadsheet recalculates
+  value?: number
+}
+
+export type XlsxValue = string | number | Date | XlsxFormula | null
+
+export type XlsxCell = XlsxValue | { value: XlsxValue; style?: XlsxStyle }
+
+interface SheetOptions {
+  columnWidths?: number[]
+  // Rows kept visible while scrolling
+  frozenRows?: number
+}
+
+interface Sheet extends SheetOptions {
+  name: string
+  rows: XlsxCell[][]
+}
+
+// Index of each style in cellXfs below
+const STYLE_INDEX: Record<XlsxStyle, number> = {
+  header: 1,
+  title: 2,
+  bold: 3,
+  date: 4,
+  currency: 5,
+  currencyTotal: 6,
+}
+
+const INVALID_SHEET_CHARS = /[\\/?*[\]:]/g
+
+function escapeXml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "")
+}
+
+/**
+ * Column letters for a zero-based index (0 → A, 26 → AA).
+ */
+export function columnName(index: number) {
+  let name = ""
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name
+  }
+  return name
+}
+
+/**
+ * Sheet name quoted for use in formulas, e.g. 'Food & Drink'!A1.
+ */
+export function sheetReference(name: string) {
+  return `'${name.replace(/'/g, "''")}'`
+}
+
+// Excel serial day number for the calendar day of date (server time)
+function toSerialDate(date: Date) {
+  return Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / 86400000 + 25569
+}
+
+/**
+ * Spreadsheet number format for a currency, e.g. "€"#,##0.00, using the symbol and
+ * fraction digits Intl uses for en-US.
+ */
+export function currencyNumberFormat(currency: string) {
+  try {
+    const formatter = new Intl.NumberFormat("en-US", { style: "currency", currency })
+    const symbol = formatter.formatToParts(0).find((part) => part.type === "currency")?.value || currency
+    const digits = formatter.resolvedOptions().maximumFractionDigits
+    const number = digits > 0 ? `#,##0.${"0".repeat(digits)}` : "#,##0"
+    return `"${symbol}"${number};-"${symbol}"${number}`
+  } catch (error) {
+    return `#,##0.00 "${currency}"`
+  }
+}
+
+/**
+ * Minimal XLSX (Office Open XML) writer: inline strings, numbers, dates and formulas
+ * with a handful of fixed styles. Formulas are recalculated when the file is opened.
+ */
+export class XlsxWorkbook {
+  private sheets: Sheet[] = []
+  private currencyFormat: string
+
+  constructor(currencyFormat: string) {
+    this.currencyFormat = currencyFormat
+  }
+
+  /**
+   * Add a sheet and return its final name: invalid characters are removed, the name
+   * is cut to Excel's 31 characters and made unique.
+   */
+  addSheet(name: string, rows: XlsxCell[][], options: SheetOptions = {}) {
+    const base = name.replace(INVALID_SHEET_CHARS, " ").replace(/\s+/g, " ").replace(/^'+|'+$/g, "").trim().slice(0, 31) || "Sheet"
+    let sheetName = base
+    for (let n = 2; this.sheets.some((sheet) => sheet.name.toLowerCase() === sheetName.toLowerCase()); n++) {
+      const suffix = ` (${n})`
+      sheetName = base.slice(0, 31 - suffix.length) + suffix
+    }
+    this.sheets.push({ name: sheetName, rows, ...options })
+    return sheetName
+  }
+
+  toBuffer(): Buffer {
+    const files: { name: string; content: string }[] = [
+      { name: "[Content_Types].xml", content: this.contentTypes() },
+      {
+        name: "_rels/.rels",
+        content:
+          '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+          '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+          '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+          "</Relationships>",
+      },
+      { name: "xl/workbook.xml", content: this.workbookXml() },
+      { name: "xl/_rels/workbook.xml.rels", content: this.workbookRels() },
+      { name: "xl/styles.xml", content: this.stylesXml() },
+      ...this.sheets.map((sheet, index) => ({
+        name: `xl/worksheets/sheet${index + 1}.xml`,
+        content: this.sheetXml(sheet),
+      })),
+    ]
+
+    return createZip(files.map((file) => ({ name: file.name, data: Buffer.from(file.content, "utf8") })))
+  }
+
+  private contentTypes() {
+    return (
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+      this.sheets
+        .map((_, index) =>
+          `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`)
+        .join("") +
+      "</Types>"
+    )
+  }
+
+  private workbookXml() {
+    return (
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+      "<sheets>" +
+      this.sheets.map((sheet, index) => `<sheet name="${escapeXml(sheet.name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`).join("") +
+      "</sheets>" +
+      '<calcPr calcId="0" fullCalcOnLoad="1"/>' +
+      "</workbook>"
+    )
+  }
+
+  private workbookRels() {
+    const sheetRels = this.sheets.map((_, index) =>
+      `<Relationship Id="rId${index + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`)
+    return (
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      sheetRels.join("") +
+      `<Relationship Id="rId${this.sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+      "</Relationships>"
+    )
+  }
+
+  private stylesXml() {
+    return (
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+      '<numFmts count="2">' +
+      '<numFmt numFmtId="164" formatCode="yyyy-mm-dd"/>' +
+      `<numFmt numFmtId="165" formatCode="${escapeXml(this.currencyFormat)}"/>` +
+      "</numFmts>" +
+      '<fonts count="3">' +
+      '<font><sz val="11"/><name val="Calibri"/></font>' +
+      '<font><b/><sz val="11"/><name val="Calibri"/></font>' +
+      '<font><b/><sz val="14"/><name val="Calibri"/></font>' +
+      "</fonts>" +
+      '<fills count="3">' +
+      '<fill><patternFill patternType="none"/></fill>' +
+      '<fill><patternFill patternType="gray125"/></fill>' +
+      '<fill><patternFill patternType="solid"><fgColor rgb="FFE5E7EB"/><bgColor indexed="64"/></patternFill></fill>' +
+      "</fills>" +
+      '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+      '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+      '<cellXfs count="7">' +
+      '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+      '<xf numFmtId="0" fontId="1" fillId="2" borderId="0" xfId="0" applyFont="1" applyFill="1"/>' +
+      '<xf numFmtId="0" fontId="2" fillId="0" borderId="0" xfId="0" applyFont="1"/>' +
+      '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>' +
+      '<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+      '<xf numFmtId="165" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+      '<xf numFmtId="165" fontId="1" fillId="0" borderId="0" xfId="0" applyNumberFormat="1" applyFont="1"/>' +
+      "</cellXfs>" +
+      '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>' +
+      "</styleSheet>"
+    )
+  }
+
+  private sheetXml(sheet: Sheet) {
+    let xml =
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+
+    if (sheet.frozenRows) {
+      xml +=
+        '<sheetViews><sheetView workbookViewId="0">' +
+        `<pane ySplit="${sheet.frozenRows}" topLeftCell="A${sheet.frozenRows + 1}" activePane="bottomLeft" state="frozen"/>` +
+        "</sheetView></sheetViews>"
+    }
+
+    if (sheet.columnWidths && sheet.columnWidths.length > 0) {
+      xml +=
+        "<cols>" +
+        sheet.columnWidths.map((width, index) => `<col min="${index + 1}" max="${index + 1}" width="${width}" customWidth="1"/>`).join("") +
+        "</cols>"
+    }
+
+    xml += "<sheetData>"
+    sheet.rows.forEach((row, rowIndex) => {
+      const cells = row.map((cell, columnIndex) => this.cellXml(cell, `${columnName(columnIndex)}${rowIndex + 1}`)).join("")
+      xml += `<row r="${rowIndex + 1}">${cells}</row>`
+    })
+    xml += "</sheetData></worksheet>"
+
+    return xml
+  }
+
+  private cellXml(cell: XlsxCell, reference: string) {
+    // Bare values vs. { value, style } wrappers (formulas are objects too)
+    const { value, style } = cell !== null && typeof cell === "object" && !(cell instanceof Date) && !("formula" in cell)
+      ? cell
+      : { value: cell, style: undefined }
+
+    let styleIndex = style ? STYLE_INDEX[style] : 0
+    const styleAttribute = () => (styleIndex ? ` s="${styleIndex}"` : "")
+
+    if (value === null || value === "") {
+      return styleIndex ? `<c r="${reference}"${styleAttribute()}/>` : ""
+    }
+    if (typeof value === "string") {
+      return `<c r="${reference}" t="inlineStr"${styleAttribute()}><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`
+    }
+    if (typeof value === "number") {
+      return `<c r="${reference}"${styleAttribute()}><v>${value}</v></c>`
+    }
+    if (value instanceof Date) {
+      if (!style) styleIndex = STYLE_INDEX.date
+      return `<c r="${reference}"${styleAttribute()}><v>${toSerialDate(value)}</v></c>`
+    }
+    const cached = value.value !== undefined ? `<v>${value.value}</v>` : ""
+    return `<c r="${reference}"${styleAttribute()}><f>${escapeXml(value.formula.replace(/^=/, ""))}</f>${cached}</c>`
+  }
+}